@@ -1,4 +1,4 @@
-import { elementUpdated, expect, fixture, html, oneEvent, triggerFocusFor, isIE } from '@refinitiv-ui/test-helpers';
+import { elementUpdated, expect, fixture, html, oneEvent, triggerFocusFor, isIE, nextFrame } from '@refinitiv-ui/test-helpers';
 import { ControlElement } from '../../lib/elements/ControlElement';
 import { customElement } from '../../lib/decorators/custom-element';
 import { elementUpdatedWithAsyncFrames, isChrome, asyncFrames } from '../helper';
@@ -661,4 +661,109 @@ describe('TestControlElement', () => {
       });
     });
   });
+
+  describe('Test form association', async () => {
+    it('Should submit value under the name', async () => {
+      const form = await fixture('<form><control-element-test name="field" value="test"></control-element-test></form>');
+      const el = form.querySelector('control-element-test');
+      await elementUpdated(el);
+      expect(el.form).to.equal(form, 'form owner should be resolved');
+      expect(new FormData(form).get('field')).to.equal('test', 'value should be submitted under the name');
+    });
+
+    it('Should not submit value when name is not set', async () => {
+      const form = await fixture('<form><control-element-test value="test"></control-element-test></form>');
+      await elementUpdated(form.querySelector('control-element-test'));
+      expect([...new FormData(form).keys()].length).to.equal(0, 'nothing should be submitted');
+    });
+
+    it('Should reset value on form reset', async () => {
+      const form = await fixture('<form><control-element-test name="field" value="initial"></control-element-test></form>');
+      const el = form.querySelector('control-element-test');
+      el.value = 'changed';
+      await elementUpdated(el);
+      form.reset();
+      await elementUpdated(el);
+      expect(el.value).to.equal('initial', 'value should be reset');
+      expect(new FormData(form).get('field')).to.equal('initial', 'reset value should be submitted');
+    });
+
+    it('Should support custom validity', async () => {
+      const form = await fixture('<form><control-element-test name="field"></control-element-test></form>');
+      const el = form.querySelector('control-element-test');
+      el.setCustomValidity('Custom error');
+      expect(el.validity.customError).to.equal(true, 'custom error should be set');
+      expect(el.validationMessage).to.equal('Custom error', 'validation message should be set');
+      expect(el.checkValidity()).to.equal(false, 'element should be invalid');
+      expect(form.checkValidity()).to.equal(false, 'form should be invalid');
+      el.setCustomValidity('');
+      expect(el.checkValidity()).to.equal(true, 'element should be valid');
+    });
+
+    it('Should support required constraint', async () => {
+      const form = await fixture('<form><control-element-test name="field" required></control-element-test></form>');
+      const el = form.querySelector('control-element-test');
+      await elementUpdated(el);
+      expect(el.validity.valueMissing).to.equal(true, 'value should be missing');
+      expect(form.checkValidity()).to.equal(false, 'form should be invalid');
+      el.value = 'test';
+      await elementUpdated(el);
+      expect(el.validity.valueMissing).to.equal(false, 'value should not be missing');
+      expect(el.checkValidity()).to.equal(true, 'element should be valid');
+    });
+
+    it('Should fire invalid event only when validity is checked', async () => {
+      const el = await fixture('<control-element-test required></control-element-test>');
+      let invalidCount = 0;
+      el.addEventListener('invalid', () => invalidCount++);
+      el.setCustomValidity('');
+      expect(invalidCount).to.equal(0, 'invalid should not be fired on validity update');
+      expect(el.checkValidity()).to.equal(false, 'element should be invalid');
+      expect(el.reportValidity()).to.equal(false, 'element should be reported as invalid');
+      expect(invalidCount).to.equal(2, 'invalid should be fired on check and report');
+    });
+
+    it('Should be disabled by fieldset', async () => {
+      const fieldset = await fixture('<fieldset><control-element-test></control-element-test></fieldset>');
+      const el = fieldset.querySelector('control-element-test');
+      fieldset.disabled = true;
+      await elementUpdated(el);
+      expect(el.getAttribute('aria-disabled')).to.equal('true', 'element should be disabled by fieldset');
+      expect(el.disabled).to.equal(false, 'own disabled state should not be changed');
+      expect(el.hasAttribute('disabled')).to.equal(false, 'disabled attribute should not be set');
+      fieldset.disabled = false;
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.hasAttribute('aria-disabled')).to.equal(false, 'element should be enabled with fieldset');
+    });
+
+    it('Should be enabled when moved out of disabled fieldset', async () => {
+      const container = await fixture('<div><fieldset disabled><control-element-test></control-element-test></fieldset></div>');
+      const el = container.querySelector('control-element-test');
+      await elementUpdated(el);
+      expect(el.getAttribute('aria-disabled')).to.equal('true', 'element should be disabled by fieldset');
+      container.appendChild(el);
+      await elementUpdated(el);
+      expect(el.hasAttribute('aria-disabled')).to.equal(false, 'element should be enabled outside fieldset');
+    });
+
+    it('Should keep own disabled state when fieldset is enabled', async () => {
+      const fieldset = await fixture('<fieldset disabled><control-element-test disabled></control-element-test></fieldset>');
+      const el = fieldset.querySelector('control-element-test');
+      fieldset.disabled = false;
+      await elementUpdated(el);
+      expect(el.disabled).to.equal(true, 'own disabled state should be kept');
+      expect(el.getAttribute('aria-disabled')).to.equal('true', 'element should stay disabled');
+    });
+
+    it('Should not validate when disabled', async () => {
+      const fieldset = await fixture('<fieldset><control-element-test required></control-element-test></fieldset>');
+      const el = fieldset.querySelector('control-element-test');
+      await elementUpdated(el);
+      expect(el.checkValidity()).to.equal(false, 'element should be invalid');
+      fieldset.disabled = true;
+      await elementUpdated(el);
+      expect(el.checkValidity()).to.equal(true, 'disabled element should be barred from validation');
+    });
+  });
 });
@@ -0,0 +1,75 @@
+import { expect, fixture, oneEvent } from '@refinitiv-ui/test-helpers';
+import { ThemeRegistry } from '../../lib/registries/ThemeRegistry';
+import { CustomStyleRegistry } from '../../lib/registries/CustomStyleRegistry';
+import { NativeStyleRegistry } from '../../lib/registries/NativeStyleRegistry';
+import { DuplicateStyleError } from '../../lib/errors/DuplicateStyleError';
+import { BasicElement } from '../../lib/elements/BasicElement.js';
+import { customElement } from '../../lib/decorators/custom-element.js';
+
+class ThemeRegistryTest extends BasicElement {
+  themeChangedCount = 0;
+
+  themeChangedCallback () {
+    super.themeChangedCallback();
+    this.themeChangedCount += 1;
+  }
+}
+
+const lightCss = ':host { color: rgb(0, 0, 0); }';
+const darkCss = ':host { color: rgb(255, 255, 255); }';
+
+ThemeRegistry.define('test-light', 'theme-registry-test', lightCss);
+ThemeRegistry.define('test-dark', 'theme-registry-test', darkCss);
+ThemeRegistry.define('test-light', 'theme-registry-native', 'mark { color: rgb(0, 0, 0); }');
+ThemeRegistry.define('test-dark', 'theme-registry-native', 'mark { color: rgb(255, 255, 255); }');
+customElement('theme-registry-test')(ThemeRegistryTest);
+
+describe('TestThemeRegistry', () => {
+  beforeEach(() => {
+    ThemeRegistry.use('test-light');
+  });
+
+  it('Should list loaded themes', () => {
+    expect(ThemeRegistry.themes).to.include.members(['test-light', 'test-dark']);
+    expect(ThemeRegistry.active).to.equal('test-light');
+  });
+
+  it('Should not define the same style twice for a theme', () => {
+    expect(() => ThemeRegistry.define('test-light', 'theme-registry-test', lightCss)).to.throw(DuplicateStyleError);
+  });
+
+  it('Should update element styles when the theme changes', async () => {
+    const el = await fixture('<theme-registry-test></theme-registry-test>');
+    expect(getComputedStyle(el).color).to.equal('rgb(0, 0, 0)');
+
+    ThemeRegistry.use('test-dark');
+    expect(CustomStyleRegistry.get('theme-registry-test')).to.equal(darkCss);
+    expect(getComputedStyle(el).color).to.equal('rgb(255, 255, 255)');
+    expect(el.themeChangedCount).to.equal(1);
+  });
+
+  it('Should update native styles when the theme changes', () => {
+    ThemeRegistry.use('test-dark');
+    expect(NativeStyleRegistry.get('theme-registry-native')).to.equal('mark { color: rgb(255, 255, 255); }');
+    expect(document.querySelector('style[scope=theme-registry-native]').textContent).to.equal('mark { color: rgb(255, 255, 255); }');
+  });
+
+  it('Should fire event when the theme changes', async () => {
+    setTimeout(() => ThemeRegistry.use('test-dark'));
+    const event = await oneEvent(window, 'ef.theme.changed');
+    expect(event.detail.value).to.equal('test-dark');
+  });
+
+  it('Should not notify elements when the same theme is used', async () => {
+    const el = await fixture('<theme-registry-test></theme-registry-test>');
+    ThemeRegistry.use('test-light');
+    expect(el.themeChangedCount).to.equal(0);
+  });
+
+  it('Should follow the preferred colour scheme', () => {
+    const isDark = matchMedia('(prefers-color-scheme: dark)').matches;
+    ThemeRegistry.useColorScheme({ light: 'test-light', dark: 'test-dark' });
+    expect(ThemeRegistry.active).to.equal(isDark ? 'test-dark' : 'test-light');
+    ThemeRegistry.useColorScheme(null);
+  });
+});
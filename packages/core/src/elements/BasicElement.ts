@@ -1,9 +1,10 @@
 import type { StyleInfo } from '../interfaces/StyleInfo';
 import type { CSSValue } from '../types/base';
-import { LitElement, unsafeCSS, CSSResultArray } from 'lit';
+import { LitElement, unsafeCSS, CSSResult, CSSResultArray, CSSResultGroup } from 'lit';
 import { property } from '../decorators/property.js';
 import { ElementRegistry } from '../registries/ElementRegistry.js';
 import { FocusRegistry } from '../registries/FocusRegistry.js';
+import { ThemeRegistry } from '../registries/ThemeRegistry.js';
 import { ShadyCSS } from '../utils/shadyStyles.js';
 import { FocusableHelper } from '../utils/focusableHelper.js';
 import { BasicElementSymbol } from '../utils/helpers.js';
@@ -12,6 +13,12 @@ const CSS_VARIABLE_REGEXP = /^--\w/;
 const CSS_VARIABLE_REPLACE_REGEXP = /['"]([^'"]+?)['"]/g;
 const NOTIFY_REGEXP = /([a-zA-Z])(?=[A-Z])/g;
 
+/**
+ * Base and theme styles of each element class.
+ * Used to replace theme styles at runtime
+ */
+const themeStylesMap = new WeakMap<typeof BasicElement, { base: CSSResultGroup | undefined; theme: CSSResult }>();
+
 const toChangedEvent = (name: string): string => `${name.replace(NOTIFY_REGEXP, '$1-').toLowerCase()}-changed`;
 
 /**
@@ -60,8 +67,37 @@ export abstract class BasicElement extends LitElement {
   public static applyThemeStyles (theme: string): void {
     const baseStyles = this.styles;
     const themeStyles = unsafeCSS(theme);
+    themeStylesMap.set(this, { base: baseStyles, theme: themeStyles });
+    this.defineStyles(baseStyles, themeStyles);
+  }
+
+  /**
+   * Replace theme styles of already defined element.
+   * The stylesheet is replaced in place, so all instances are updated.
+   * Requires constructable stylesheets, otherwise the styles are not replaced.
+   * @param theme Theme CSS
+   * @returns {void}
+   */
+  public static updateThemeStyles (theme: string): void {
+    const themeStyles = themeStylesMap.get(this);
+    if (!themeStyles) {
+      this.applyThemeStyles(theme);
+      return;
+    }
+
+    themeStyles.theme.styleSheet?.replaceSync(theme);
+  }
+
+  /**
+   * Define styles getter and finalize element styles
+   * @param baseStyles Element styles
+   * @param themeStyles Theme styles
+   * @returns {void}
+   */
+  private static defineStyles (baseStyles: CSSResultGroup | undefined, themeStyles: CSSResult): void {
     const styles = ([] as CSSResultArray).concat(baseStyles ? [baseStyles, themeStyles] : themeStyles);
     Object.defineProperty(this, 'styles', {
+      configurable: true,
       get () {
         return styles;
       }
@@ -206,6 +242,7 @@ export abstract class BasicElement extends LitElement {
     }
 
     FocusRegistry.connect(this);
+    ThemeRegistry.connect(this);
   }
 
   /**
@@ -216,6 +253,17 @@ export abstract class BasicElement extends LitElement {
     super.disconnectedCallback();
     ElementRegistry.disconnect(this);
     FocusRegistry.disconnect(this);
+    ThemeRegistry.disconnect(this);
+  }
+
+  /**
+   * Called when the active theme has changed.
+   * Override to update elements, which read theme variables outside of CSS,
+   * e.g. to repaint canvas.
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    // to be overridden
   }
 
   /**
@@ -1,14 +1,53 @@
 import type { ControlProperties as IControlProperties } from '../interfaces/ControlProperties';
 import type { PropertyValues } from 'lit';
 import { property } from '../decorators/property.js';
+import { state } from '../decorators/state.js';
 import { BasicElement } from './BasicElement.js';
 import { WarningNotice } from '../notices/WarningNotice.js';
 
+/**
+ * Default validation messages,
+ * used when constraint validation fails and the element does not provide its own message
+ */
+const ValidationMessages: { [key in keyof ValidityStateFlags]-?: string } = {
+  badInput: 'Please enter a valid value.',
+  customError: 'The value is invalid.',
+  patternMismatch: 'Please match the requested format.',
+  rangeOverflow: 'The value is too high.',
+  rangeUnderflow: 'The value is too low.',
+  stepMismatch: 'Please enter a valid value.',
+  tooLong: 'The value is too long.',
+  tooShort: 'The value is too short.',
+  typeMismatch: 'Please enter a valid value.',
+  valueMissing: 'Please fill in this field.'
+};
+
 /**
  * Control element base class.
  * Usually used for creating form-style elements.
+ * Control elements are form-associated and participate in native `<form>` submission,
+ * `form.reset()`, constraint validation and `<fieldset>` disabling.
  */
 export abstract class ControlElement extends BasicElement implements IControlProperties {
+  /**
+   * Associate the element with its form owner
+   */
+  static readonly formAssociated = true;
+
+  /**
+   * Creates and registers instance of Element.
+   */
+  public constructor () {
+    super();
+    // ElementInternals are not supported in older browsers
+    this.internals = typeof this.attachInternals === 'function' ? this.attachInternals() : null;
+  }
+
+  /**
+   * Element internals, used to participate in forms
+   */
+  protected readonly internals: ElementInternals | null;
+
   /**
    * All control element by default need to be focusable
    */
@@ -31,6 +70,12 @@ export abstract class ControlElement extends BasicElement implements IControlPro
   @property({ type: Boolean, reflect: true })
   public disabled = false;
 
+  /**
+   * Set to indicate that the value must be provided before the form is submitted.
+   */
+  @property({ type: Boolean, reflect: true })
+  public required = false;
+
   /**
    * Value of the element
    * @param value Element value
@@ -70,12 +115,60 @@ export abstract class ControlElement extends BasicElement implements IControlPro
    */
   private _value = '';
 
+  /**
+   * Message set by `setCustomValidity`
+   */
+  private customValidationMessage = '';
+
+  /**
+   * True if the browser reports the element as disabled, e.g. by a parent fieldset.
+   * Kept apart from `disabled`, so that the own state of the element is not changed
+   */
+  @state()
+  protected formDisabled = false;
+
+  /**
+   * The form owner of the element
+   */
+  public get form (): HTMLFormElement | null {
+    return this.internals ? this.internals.form : null;
+  }
+
+  /**
+   * The validity states of the element
+   */
+  public get validity (): ValidityState | null {
+    return this.internals ? this.internals.validity : null;
+  }
+
+  /**
+   * The error message that would be shown to the user if the element was to be checked for validity
+   */
+  public get validationMessage (): string {
+    return this.internals ? this.internals.validationMessage : '';
+  }
+
+  /**
+   * True if the element is a candidate for constraint validation
+   */
+  public get willValidate (): boolean {
+    return this.internals ? this.internals.willValidate : false;
+  }
+
+
+  /**
+   * True if the element is disabled by itself or by a parent fieldset.
+   * Use to render and handle the disabled state
+   */
+  protected get isDisabled (): boolean {
+    return this.disabled || this.formDisabled;
+  }
 
   /**
    * Get a sorted collection of nodes that can be tabbed through if component not disabled.
    */
   public get tabbableElements (): HTMLElement[] {
-    return this.disabled ? [] : super.tabbableElements;
+    return this.isDisabled ? [] : super.tabbableElements;
   }
 
   /**
@@ -83,11 +176,168 @@ export abstract class ControlElement extends BasicElement implements IControlPro
    * @returns {void}
    */
   protected update (changedProperties: PropertyValues): void {
-    if (changedProperties.has('disabled')) {
+    if (changedProperties.has('disabled') || changedProperties.has('formDisabled')) {
       this.disableChanged(changedProperties);
     }
 
     super.update(changedProperties);
+
+    this.updateFormValue();
+    this.updateValidity();
+  }
+
+  /**
+   * Value to be submitted with the form.
+   * Override the getter if the element submits other than `value`
+   * @returns form value or null to not submit the element
+   */
+  protected get formValue (): string | FormData | null {
+    return this.value;
+  }
+
+  /**
+   * Convert the list of values to form data
+   * Used by elements, which submit multiple values
+   * @param values A list of values
+   * @returns form data with an entry per value
+   */
+  protected valuesToFormData (values: string[]): FormData | null {
+    if (!this.name || !values.length) {
+      return null;
+    }
+    const formData = new FormData();
+    values.forEach(value => formData.append(this.name, value));
+    return formData;
+  }
+
+  /**
+   * Set the value of the element in the form
+   * @returns {void}
+   */
+  protected updateFormValue (): void {
+    this.internals?.setFormValue(this.formValue, this.value);
+  }
+
+  /**
+   * True if the element has no value to satisfy `required` constraint.
+   * Override if the element is not filled by `value`
+   */
+  protected get valueMissing (): boolean {
+    return !this.value;
+  }
+
+  /**
+   * Get the constraints the element is suffering from.
+   * Override to add element specific constraints
+   * @returns validity state flags
+   */
+  protected getValidityFlags (): ValidityStateFlags {
+    const flags: ValidityStateFlags = {};
+    if (this.customValidationMessage) {
+      flags.customError = true;
+    }
+    if (this.required && this.valueMissing) {
+      flags.valueMissing = true;
+    }
+    return flags;
+  }
+
+  /**
+   * Get the message for failed constraints
+   * @param flags Constraints the element is suffering from
+   * @returns validation message
+   */
+  protected getValidationMessage (flags: ValidityStateFlags): string {
+    if (flags.customError && this.customValidationMessage) {
+      return this.customValidationMessage;
+    }
+    const key = (Object.keys(ValidationMessages) as (keyof ValidityStateFlags)[]).find(key => flags[key]);
+    return key ? ValidationMessages[key] : '';
+  }
+
+  /**
+   * Element to use by the user agent to indicate problems with the constraints
+   */
+  protected get validationAnchor (): HTMLElement | undefined {
+    return undefined;
+  }
+
+  /**
+   * Update validity state of the element.
+   * Unlike `checkValidity`, does not fire `invalid` event,
+   * so can be used to validate the element internally
+   * @returns true if the element meets all constraints
+   */
+  protected updateValidity (): boolean {
+    // Disabled elements are barred from constraint validation
+    const flags = this.isDisabled ? {} : this.getValidityFlags();
+    const isValid = !(Object.keys(flags) as (keyof ValidityStateFlags)[]).some(key => flags[key]);
+    if (isValid) {
+      this.internals?.setValidity({});
+    }
+    else {
+      this.internals?.setValidity(flags, this.getValidationMessage(flags), this.validationAnchor);
+    }
+    return isValid;
+  }
+
+  /**
+   * Set custom validation message. Empty string resets the custom validity
+   * @param message Validation message
+   * @returns {void}
+   */
+  public setCustomValidity (message: string): void {
+    this.customValidationMessage = message;
+    this.updateValidity();
+  }
+
+  /**
+   * Returns true if the element meets all constraints.
+   * Fires `invalid` event if it does not
+   * @returns true if the element is valid
+   */
+  public checkValidity (): boolean {
+    const isValid = this.updateValidity();
+    return this.internals ? this.internals.checkValidity() : isValid;
+  }
+
+  /**
+   * Returns true if the element meets all constraints.
+   * Fires `invalid` event and reports the problem if it does not
+   * @returns true if the element is valid
+   */
+  public reportValidity (): boolean {
+    const isValid = this.updateValidity();
+    return this.internals ? this.internals.reportValidity() : isValid;
+  }
+
+  /**
+   * Called by the browser when the form is reset
+   * @returns {void}
+   */
+  public formResetCallback (): void {
+    this.reset();
+  }
+
+  /**
+   * Called by the browser to restore the state on navigation or autofill
+   * @param state Previously saved state
+   * @returns {void}
+   */
+  public formStateRestoreCallback (state: string | File | FormData | null): void {
+    if (typeof state === 'string') {
+      this.value = state;
+    }
+  }
+
+  /**
+   * Called by the browser when the disabled state of the element changes,
+   * e.g. when the parent fieldset is disabled or the element is moved out of it
+   * @param disabled True if the element is disabled
+   * @returns {void}
+   */
+  public formDisabledCallback (disabled: boolean): void {
+    this.formDisabled = disabled;
   }
 
   /**
@@ -96,11 +346,11 @@ export abstract class ControlElement extends BasicElement implements IControlPro
    * @returns {void}
    */
   protected disableChanged (changedProperties: PropertyValues): void {
-    if (this.disabled) {
+    if (this.isDisabled) {
       this.disableFocus();
       this.setAttribute('aria-disabled', 'true');
     }
-    else if (changedProperties.get('disabled') === true) { /* re-enable only if disabled changed from true to false */
+    else if (changedProperties.get('disabled') === true || changedProperties.get('formDisabled') === true) { /* re-enable only if disabled changed from true to false */
       this.enableFocus();
       this.removeAttribute('aria-disabled');
     }
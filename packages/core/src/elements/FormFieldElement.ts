@@ -101,7 +101,7 @@ export abstract class FormFieldElement extends ControlElement {
 
   /**
    * Used to get `aria-required` field for internal <input>
-   * Calculated from `aria-required`
+   * Calculated from `required` and `aria-required`
    */
   @state()
   protected inputAriaRequired = false;
@@ -159,8 +159,8 @@ export abstract class FormFieldElement extends ControlElement {
       this.inputAriaLabel = inputLabel(this);
     }
 
-    if (changedProperties.has(AriaRequiredKey)) {
-      this.inputAriaRequired = inputRequired(this);
+    if (changedProperties.has(AriaRequiredKey) || changedProperties.has('required')) {
+      this.inputAriaRequired = this.required || inputRequired(this);
     }
 
     // Description is traditionally changed with error, so recalculate on error changed as well
@@ -202,6 +202,35 @@ export abstract class FormFieldElement extends ControlElement {
     // no need for required or error here, as it is sufficient to recalculate these on attributeChanged
   }
 
+  /**
+   * Internal input is used to indicate problems with the constraints
+   */
+  protected get validationAnchor (): HTMLElement | undefined {
+    return this.inputElement;
+  }
+
+  /**
+   * Returns true if the element meets all constraints.
+   * Marks the element as error and reports the problem if it does not
+   * @returns true if the element is valid
+   */
+  public reportValidity (): boolean {
+    const isValid = super.reportValidity();
+    this.notifyErrorChange(!isValid);
+    return isValid;
+  }
+
+  /**
+   * Validate the element and mark it as error if it does not meet all constraints.
+   * Used while the user interacts with the element, so `invalid` event is not fired
+   * @returns true if the element is valid
+   */
+  protected validate (): boolean {
+    const isValid = this.updateValidity();
+    this.notifyErrorChange(!isValid);
+    return isValid;
+  }
+
   /**
    * Notify error if it has changed
    * @param hasError true if the element has an error
@@ -256,7 +285,7 @@ export abstract class FormFieldElement extends ControlElement {
       'aria-required': this.inputAriaRequired ? 'true' : null,
       'placeholder': this.placeholder || null,
       'readonly': this.readonly,
-      'disabled': this.disabled,
+      'disabled': this.isDisabled,
       'autocomplete': 'off',
       '@input': this.onInputInput,
       '@change': this.onInputChange
@@ -338,7 +367,7 @@ export abstract class FormFieldElement extends ControlElement {
    * @returns void
    */
   public select (): void {
-    if (!this.disabled && this.inputElement) {
+    if (!this.isDisabled && this.inputElement) {
       this.inputElement.select();
     }
   }
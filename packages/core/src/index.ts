@@ -73,16 +73,25 @@ export { triggerResize } from './utils/resizeHelper.js';
  */
 export { FocusedPropertyKey } from './registries/FocusRegistry.js';
 
+/**
+ * Export theme registry.
+ * Used to switch themes at runtime
+ */
+import { ThemeRegistry } from './registries/ThemeRegistry.js';
+export { ThemeRegistry };
+import type { ThemeColorScheme } from './registries/ThemeRegistry';
+export type { ThemeColorScheme };
+
 import { CustomStyleRegistry } from './registries/CustomStyleRegistry.js';
 import { NativeStyleRegistry } from './registries/NativeStyleRegistry.js';
 import { global } from './utils/global.js';
 
 global.addEventListener('ef.customStyles.define', (event) => {
-  const { name, styles } = (event as CustomEvent).detail;
-  CustomStyleRegistry.define(name, styles);
+  const { name, styles, theme } = (event as CustomEvent).detail;
+  theme ? ThemeRegistry.define(theme, name, styles) : CustomStyleRegistry.define(name, styles);
 });
 
 global.addEventListener('ef.nativeStyles.define', (event) => {
-  const { name, styles } = (event as CustomEvent).detail;
-  NativeStyleRegistry.define(name, styles);
+  const { name, styles, theme } = (event as CustomEvent).detail;
+  theme ? ThemeRegistry.define(theme, name, styles) : NativeStyleRegistry.define(name, styles);
 });
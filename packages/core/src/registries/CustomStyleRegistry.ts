@@ -1,5 +1,7 @@
 import { DuplicateStyleError } from '../errors/DuplicateStyleError.js';
 import { ready } from '../utils/elementReady.js';
+import type { ElementConstructor } from '../interfaces/ElementConstructor';
+
 const register = new Map<string, string>();
 
 /**
@@ -20,6 +22,24 @@ export abstract class CustomStyleRegistry {
     register.set(name, css);
     ready(name);
   }
+  /**
+   * Replace a style definition for a custom element.
+   * If the element is already defined, its styles are updated in place.
+   * @param name tag name of the custom element
+   * @param css css style string
+   * @returns {void}
+   */
+  public static update (name: string, css: string): void {
+    if (!register.has(name)) {
+      CustomStyleRegistry.define(name, css);
+      return;
+    }
+    register.set(name, css);
+    const definition = customElements.get(name) as ElementConstructor | undefined;
+    if (typeof definition?.updateThemeStyles === 'function') {
+      definition.updateThemeStyles(css);
+    }
+  }
   /**
    * Gets any custom style that has already been defined.
    * @param name tag name of the custom element
@@ -2,6 +2,43 @@ import { DuplicateStyleError } from '../errors/DuplicateStyleError.js';
 import { ShadyCSS } from '../utils/shadyStyles.js';
 
 const register = new Map<string, string>();
+const styleElements = new Map<string, HTMLStyleElement>();
+
+/**
+ * Applies styles to the document
+ * @param name tag name of the element
+ * @param css css styles for the element
+ * @returns {void}
+ */
+const applyStyle = (name: string, css: string): void => {
+  const existing = styleElements.get(name);
+  if (existing) {
+    existing.textContent = css;
+    if (ShadyCSS) {
+      ShadyCSS.styleDocument();
+    }
+    return;
+  }
+
+  // Skip if style has empty content
+  // it causes problem in shadyCSS in IE
+  if (!css) {
+    return;
+  }
+  const head = document.head;
+  const childRef = head.firstElementChild;
+  const style = document.createElement('style');
+  style.setAttribute('scope', name);
+  style.textContent = css;
+  childRef ? head.insertBefore(style, childRef) : head.appendChild(style);
+  styleElements.set(name, style);
+
+  if (ShadyCSS) {
+    // Register style tag with ShadyCSS
+    // to support CSS variables in legacy browsers
+    ShadyCSS.CustomStyleInterface.addCustomStyle(style);
+  }
+};
 
 /**
  * Native Style Registry takes theme styles
@@ -19,23 +56,21 @@ export abstract class NativeStyleRegistry {
       throw new DuplicateStyleError(name);
     }
     register.set(name, css);
-    // Skip if style has empty content
-    // it causes problem in shadyCSS in IE
-    if (!css) {
+    applyStyle(name, css);
+  }
+  /**
+   * Replace a style definition for a native element.
+   * @param name tag name of the element
+   * @param css css styles for the element
+   * @returns {void}
+   */
+  public static update (name: string, css: string): void {
+    if (!register.has(name)) {
+      NativeStyleRegistry.define(name, css);
       return;
     }
-    const head = document.head;
-    const childRef = head.firstElementChild;
-    const style = document.createElement('style');
-    style.setAttribute('scope', name);
-    style.textContent = css;
-    childRef ? head.insertBefore(style, childRef) : head.appendChild(style);
-
-    if (ShadyCSS) {
-      // Register style tag with ShadyCSS
-      // to support CSS variables in legacy browsers
-      ShadyCSS.CustomStyleInterface.addCustomStyle(style);
-    }
+    register.set(name, css);
+    applyStyle(name, css);
   }
   /**
    * Gets any native style that has already been defined.
@@ -0,0 +1,162 @@
+import type { BasicElement } from '../elements/BasicElement';
+import { DuplicateStyleError } from '../errors/DuplicateStyleError.js';
+import { CustomStyleRegistry } from './CustomStyleRegistry.js';
+import { NativeStyleRegistry } from './NativeStyleRegistry.js';
+import { global } from '../utils/global.js';
+
+/**
+ * Themes used for light and dark colour schemes
+ */
+export type ThemeColorScheme = {
+  light: string;
+  dark: string;
+};
+
+const themes = new Map<string, Map<string, string>>(); /* theme name -> element name -> css */
+const register = new Set<BasicElement>(); /* Track all connected elements */
+
+let activeTheme: string | null = null;
+let colorScheme: ThemeColorScheme | null = null;
+
+const darkQuery = typeof global.matchMedia === 'function' ? global.matchMedia('(prefers-color-scheme: dark)') : null;
+
+/**
+ * Custom elements always have a hyphen in the name,
+ * the same rule is used by theme compiler
+ * @param name Element name
+ * @returns true if the name is a custom element name
+ */
+const isCustomElementName = (name: string): boolean => name.indexOf('-') > 0;
+
+/**
+ * Apply styles to the element registry
+ * @param name Element name
+ * @param css Theme CSS
+ * @returns {void}
+ */
+const applyStyles = (name: string, css: string): void => {
+  isCustomElementName(name) ? CustomStyleRegistry.update(name, css) : NativeStyleRegistry.update(name, css);
+};
+
+/**
+ * Make the theme active, update styles and notify elements
+ * @param theme Theme name
+ * @returns {void}
+ */
+const activate = (theme: string): void => {
+  if (theme === activeTheme) {
+    return;
+  }
+
+  activeTheme = theme;
+  themes.get(theme)?.forEach((css, name) => applyStyles(name, css));
+  register.forEach(element => element.themeChangedCallback());
+  global.dispatchEvent(new CustomEvent('ef.theme.changed', {
+    detail: { value: theme }
+  }));
+};
+
+/**
+ * Run when the preferred colour scheme changes
+ * @returns {void}
+ */
+const onColorSchemeChange = (): void => {
+  if (colorScheme) {
+    activate(darkQuery?.matches ? colorScheme.dark : colorScheme.light);
+  }
+};
+
+/**
+ * Theme Registry keeps styles of all loaded themes
+ * and allows to switch the active theme at runtime.
+ * The first loaded theme becomes active.
+ *
+ * @fires ef.theme.changed Fired on `window` when the active theme changes
+ */
+export abstract class ThemeRegistry {
+  /**
+   * Names of all loaded themes
+   */
+  public static get themes (): string[] {
+    return Array.from(themes.keys());
+  }
+
+  /**
+   * Name of the active theme
+   */
+  public static get active (): string | null {
+    return activeTheme;
+  }
+
+  /**
+   * Define theme styles for an element.
+   * Styles are applied if the theme is active.
+   * @param theme Theme name
+   * @param name Tag name of the element
+   * @param css Theme CSS
+   * @returns {void}
+   */
+  public static define (theme: string, name: string, css: string): void {
+    let styles = themes.get(theme);
+    if (!styles) {
+      styles = new Map<string, string>();
+      themes.set(theme, styles);
+    }
+
+    if (styles.has(name)) {
+      throw new DuplicateStyleError(name);
+    }
+
+    styles.set(name, css);
+    activeTheme ??= theme;
+
+    if (theme === activeTheme) {
+      applyStyles(name, css);
+    }
+  }
+
+  /**
+   * Switch the active theme.
+   * Stops following the preferred colour scheme.
+   * Styles of the theme, which are loaded later, are applied when defined.
+   * @param theme Theme name
+   * @returns {void}
+   */
+  public static use (theme: string): void {
+    ThemeRegistry.useColorScheme(null);
+    activate(theme);
+  }
+
+  /**
+   * Follow `prefers-color-scheme` media query and switch between light and dark themes.
+   * @param scheme Themes used for light and dark colour schemes. Pass `null` to stop following
+   * @returns {void}
+   */
+  public static useColorScheme (scheme: ThemeColorScheme | null): void {
+    darkQuery?.removeEventListener('change', onColorSchemeChange);
+    colorScheme = scheme;
+
+    if (scheme) {
+      darkQuery?.addEventListener('change', onColorSchemeChange);
+      onColorSchemeChange();
+    }
+  }
+
+  /**
+   * Registers the element to be notified, when the theme changes
+   * @param element Element to register
+   * @returns {void}
+   */
+  public static connect (element: BasicElement): void {
+    register.add(element);
+  }
+
+  /**
+   * Deregisters the element
+   * @param element Element to deregister
+   * @returns {void}
+   */
+  public static disconnect (element: BasicElement): void {
+    register.delete(element);
+  }
+}
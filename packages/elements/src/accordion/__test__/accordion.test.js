@@ -1,4 +1,4 @@
-import { fixture, expect, elementUpdated, oneEvent } from '@refinitiv-ui/test-helpers';
+import { fixture, expect, elementUpdated, oneEvent, createStateStorage } from '@refinitiv-ui/test-helpers';
 
 // import element and theme
 import '@refinitiv-ui/elements/collapse';
@@ -209,5 +209,26 @@ describe('accordion/Accordion', () => {
 
   });
 
-});
+  describe('Persisted state', () => {
+    it('Should restore and save expanded items', async () => {
+      const storage = createStateStorage({ sections: { expanded: [1] } });
+      const el = document.createElement('ef-accordion');
+      el.innerHTML = '<ef-collapse expanded header="One"></ef-collapse><ef-collapse header="Two"></ef-collapse>';
+      el.stateStorage = storage;
+      el.stateKey = 'sections';
+      const wrapper = await fixture('<div></div>');
+      wrapper.appendChild(el);
+      await elementUpdated(el);
+
+      const items = el.querySelectorAll('ef-collapse');
+      expect(items[0].expanded).to.equal(false);
+      expect(items[1].expanded).to.equal(true, 'Expanded items should be restored');
 
+      setTimeout(() => items[0].shadowRoot.querySelector('[part=header-toggle]').dispatchEvent(new Event('tap')));
+      await oneEvent(items[0], 'expanded-changed');
+      await elementUpdated(el);
+      expect(storage.read('sections')).to.deep.equal({ expanded: [0] });
+    });
+  });
+
+});
@@ -9,6 +9,8 @@ import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { VERSION } from '../version.js';
 import { Collapse } from '../collapse/index.js';
+import { MicroTaskRunner } from '@refinitiv-ui/utils/async.js';
+import { readState, writeState } from '@refinitiv-ui/utils/persistence.js';
 
 /**
  * Finds closest accordion parent of element.
@@ -41,6 +43,7 @@ const isDirectAccordionChild = (element: Element, accordion: Accordion): boolean
 /**
  * Used to display a group of `Collapse` control.
  * Only one item will be able to expand by default but you can customize its behavior.
+ * Set `state-key` to restore expanded items when the page is loaded again.
  *
  * @slot header-left - Slot to add custom contents to the left side of header e.g. ef-icon, ef-checkbox
  * @slot header-right - Slot to add custom contents to the right side of header e.g. ef-icon, ef-checkbox
@@ -85,6 +88,11 @@ export class Accordion extends Collapse {
   @property({ type: Boolean, reflect: true })
   public spacing = false;
 
+  /**
+   * Saves the state once the user toggle is complete, as the toggle can be cancelled
+   */
+  private saveStateRunner = new MicroTaskRunner();
+
   /**
    * Called once after the component is first rendered
    * @param changedProperties map of changed properties with old values
@@ -103,12 +111,42 @@ export class Accordion extends Collapse {
    * @return void
    */
   private handleClick = (event: Event): void => {
+    if (this.stateKey && isDirectAccordionChild(event.target as Element, this)) {
+      this.saveStateRunner.schedule(() => this.saveState());
+    }
     if (!this.autoCollapseDisabled && isDirectAccordionChild(event.target as Element, this)) {
       this.processChildrenOnClick(event.target);
       event.stopPropagation();
     }
   };
 
+  /**
+   * Restore expanded items from the storage
+   * @returns {void}
+   */
+  protected restoreState (): void {
+    const state = this.stateKey ? readState(this.stateKey, this.stateStorage) : null;
+    const expanded = state?.expanded;
+    if (Array.isArray(expanded)) {
+      this.getChildItems().forEach((item, index) => {
+        item.expanded = expanded.includes(index);
+      });
+    }
+  }
+
+  /**
+   * Save indexes of expanded items to the storage
+   * @returns {void}
+   */
+  protected saveState (): void {
+    if (this.stateKey) {
+      const expanded = this.getChildItems()
+        .map((item, index) => item.expanded ? index : -1)
+        .filter(index => index !== -1);
+      writeState(this.stateKey, { expanded }, this.stateStorage);
+    }
+  }
+
   /**
    * get a list of items
    * @returns array of accordion items
@@ -0,0 +1,168 @@
+import { elementUpdated, expect, fixture, nextFrame, oneEvent } from '@refinitiv-ui/test-helpers';
+
+import {
+  createInputElement,
+  data,
+  focusAction,
+  inputAction,
+  pressKey,
+  tapAction
+} from './helpers/helpers';
+
+const createStorage = () => {
+  const map = new Map();
+  return {
+    map,
+    getItem: (key) => map.has(key) ? map.get(key) : null,
+    setItem: (key, value) => map.set(key, value),
+    removeItem: (key) => map.delete(key)
+  };
+};
+
+const createFixture = async (storage) => {
+  const input = await createInputElement();
+  const autoSuggest = await fixture('<ef-autosuggest lang="en" debounce-rate="0" request-on-focus history-key="search" attach="#input-element"></ef-autosuggest>');
+  autoSuggest.historyStorage = storage;
+  await elementUpdated(autoSuggest);
+  await nextFrame();
+  return { input, autoSuggest };
+};
+
+const getLabels = (autoSuggest) => autoSuggest.suggestions.map(suggestion => suggestion.label);
+
+const showHistory = async (input, autoSuggest) => {
+  setTimeout(() => focusAction(input));
+  await oneEvent(autoSuggest, 'suggestions-changed');
+  await elementUpdated(autoSuggest);
+  await nextFrame();
+  await nextFrame();
+};
+
+const selectSuggestion = async (input, autoSuggest, suggestion) => {
+  input.value = suggestion.label;
+  await inputAction(input);
+  autoSuggest.suggestions = [suggestion];
+  await elementUpdated(autoSuggest);
+  await nextFrame();
+  await tapAction(autoSuggest.querySelector('ef-item'));
+
+  const historyShown = oneEvent(autoSuggest, 'suggestions-changed');
+  input.value = '';
+  await inputAction(input);
+  await historyShown;
+};
+
+const pinKey = (input) => {
+  input.dispatchEvent(new KeyboardEvent('keydown', { key: 'π', code: 'KeyP', altKey: true, bubbles: true, cancelable: true }));
+};
+
+describe('autosuggest/History', () => {
+  it('Should request recent searches when the query is empty', async () => {
+    const { input, autoSuggest } = await createFixture(createStorage());
+    setTimeout(() => focusAction(input));
+    const event = await oneEvent(autoSuggest, 'suggestions-fetch-requested');
+    expect(event.detail.reason).to.equal('recent-searches');
+  });
+
+  it('Should not show recent searches if the request is prevented', async () => {
+    const storage = createStorage();
+    storage.setItem('ef-state:search', JSON.stringify({ entries: [{ suggestion: data[0], pinned: false }] }));
+    const { input, autoSuggest } = await createFixture(storage);
+    autoSuggest.addEventListener('suggestions-fetch-requested', (event) => event.preventDefault());
+    await focusAction(input);
+    await elementUpdated(autoSuggest);
+    expect(autoSuggest.suggestions.length).to.equal(0);
+  });
+
+  it('Should save selected suggestions and show them as recent searches', async () => {
+    const storage = createStorage();
+    const { input, autoSuggest } = await createFixture(storage);
+    await focusAction(input);
+
+    await selectSuggestion(input, autoSuggest, data[0]);
+    await selectSuggestion(input, autoSuggest, data[1]);
+    await selectSuggestion(input, autoSuggest, data[0]);
+    await elementUpdated(autoSuggest);
+    await nextFrame();
+
+    expect(getLabels(autoSuggest)).to.deep.equal(['Recent', data[0].label, data[1].label]);
+    expect(autoSuggest.opened).to.equal(true);
+
+    const saved = JSON.parse(storage.getItem('ef-state:search'));
+    expect(saved.entries.length).to.equal(2);
+  });
+
+  it('Should limit the number of recent searches', async () => {
+    const storage = createStorage();
+    const entries = data.slice(0, 5).map(suggestion => ({ suggestion, pinned: false }));
+    entries[4].pinned = true;
+    storage.setItem('ef-state:search', JSON.stringify({ entries }));
+
+    const { input, autoSuggest } = await createFixture(storage);
+    autoSuggest.historyLimit = 2;
+    await elementUpdated(autoSuggest);
+    await focusAction(input);
+    await selectSuggestion(input, autoSuggest, data[5]);
+    expect(getLabels(autoSuggest)).to.deep.equal(['Pinned', data[4].label, 'Recent', data[5].label, data[0].label]);
+  });
+
+  it('Should pin and remove searches with keyboard', async () => {
+    const storage = createStorage();
+    const entries = data.slice(0, 3).map(suggestion => ({ suggestion, pinned: false }));
+    storage.setItem('ef-state:search', JSON.stringify({ entries }));
+    const { input, autoSuggest } = await createFixture(storage);
+    await showHistory(input, autoSuggest);
+
+    await pressKey(input, 'ArrowDown');
+    await pressKey(input, 'ArrowDown');
+    expect(input.value).to.equal(data[1].label);
+
+    pinKey(input);
+    await oneEvent(autoSuggest, 'suggestions-changed');
+    await elementUpdated(autoSuggest);
+    await nextFrame();
+    expect(getLabels(autoSuggest)).to.deep.equal(['Pinned', data[1].label, 'Recent', data[0].label, data[2].label]);
+    expect(input.value).to.equal('', 'Input should be reset');
+    expect(autoSuggest.querySelector('[highlighted]').textContent).to.equal(data[1].label, 'Pinned item should stay highlighted');
+
+    await pressKey(input, 'ArrowDown');
+    expect(input.value).to.equal(data[0].label);
+    setTimeout(() => input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Delete', bubbles: true, cancelable: true })));
+    await oneEvent(autoSuggest, 'suggestions-changed');
+    expect(getLabels(autoSuggest)).to.deep.equal(['Pinned', data[1].label, 'Recent', data[2].label]);
+
+    const saved = JSON.parse(storage.getItem('ef-state:search'));
+    expect(saved.entries).to.deep.equal([
+      { suggestion: data[1], pinned: true },
+      { suggestion: data[2], pinned: false }
+    ]);
+  });
+
+  it('Should not prevent Delete key if highlighted item is not in history', async () => {
+    const { input, autoSuggest } = await createFixture(createStorage());
+    await focusAction(input);
+    input.value = 'test';
+    await inputAction(input);
+    autoSuggest.suggestions = data;
+    await elementUpdated(autoSuggest);
+    await nextFrame();
+    await pressKey(input, 'ArrowDown');
+
+    const event = new KeyboardEvent('keydown', { key: 'Delete', bubbles: true, cancelable: true });
+    input.dispatchEvent(event);
+    expect(event.defaultPrevented).to.equal(false);
+  });
+
+  it('Should clear history', async () => {
+    const storage = createStorage();
+    storage.setItem('ef-state:search', JSON.stringify({ entries: [{ suggestion: data[0], pinned: true }] }));
+    const { input, autoSuggest } = await createFixture(storage);
+    await showHistory(input, autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['Pinned', data[0].label]);
+
+    autoSuggest.clearHistory();
+    await oneEvent(autoSuggest, 'suggestions-changed');
+    expect(autoSuggest.suggestions.length).to.equal(0);
+    expect(JSON.parse(storage.getItem('ef-state:search')).entries).to.deep.equal([]);
+  });
+});
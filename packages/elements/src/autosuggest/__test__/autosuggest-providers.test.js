@@ -0,0 +1,220 @@
+import { elementUpdated, expect, fixture, nextFrame, oneEvent, aTimeout } from '@refinitiv-ui/test-helpers';
+
+import {
+  createInputElement,
+  data,
+  focusAction,
+  inputAction,
+  pressKey,
+  tapAction
+} from './helpers/helpers';
+
+const createFixture = async () => {
+  const input = await createInputElement();
+  const autoSuggest = await fixture('<ef-autosuggest lang="en" debounce-rate="0" attach="#input-element"></ef-autosuggest>');
+  await nextFrame();
+  return { input, autoSuggest };
+};
+
+// provider, which resolves requests manually
+const createProvider = (name, options = {}) => {
+  const requests = [];
+  const provider = {
+    name,
+    ...options,
+    fetch: (query, { page, signal, reason }) => new Promise((resolve, reject) => {
+      requests.push({ query: query.toString(), page, signal, reason, resolve, reject });
+    })
+  };
+  return { provider, requests };
+};
+
+const type = async (input, value) => {
+  input.value = value;
+  await inputAction(input);
+};
+
+const rendered = async (autoSuggest) => {
+  await oneEvent(autoSuggest, 'suggestions-changed');
+  await elementUpdated(autoSuggest);
+  await nextFrame();
+};
+
+const getLabels = (autoSuggest) => autoSuggest.suggestions.map(suggestion => suggestion.label);
+
+describe('autosuggest/Providers', () => {
+  it('Should query providers in parallel and render groups in order', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const instruments = createProvider('instruments', { label: 'Instruments' });
+    const people = createProvider('people');
+    autoSuggest.registerProvider(instruments.provider);
+    autoSuggest.registerProvider(people.provider);
+
+    await focusAction(input);
+    await type(input, 'an');
+    expect(instruments.requests.length).to.equal(1);
+    expect(people.requests.length).to.equal(1);
+    expect(instruments.requests[0].query).to.equal('an');
+    expect(instruments.requests[0].page).to.equal(0);
+    expect(instruments.requests[0].reason).to.equal('value-changed');
+    expect(getLabels(autoSuggest)).to.deep.equal(['Instruments', 'Loading suggestion items', 'people', 'Loading suggestion items']);
+
+    people.requests[0].resolve([data[0]]);
+    await rendered(autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['Instruments', 'Loading suggestion items', 'people', data[0].label]);
+
+    instruments.requests[0].resolve([data[1], data[2]]);
+    await rendered(autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['Instruments', data[1].label, data[2].label, 'people', data[0].label]);
+    expect(autoSuggest.opened).to.equal(true);
+  });
+
+  it('Should abort previous requests when the query changes', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const { provider, requests } = createProvider('instruments');
+    autoSuggest.registerProvider(provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    await type(input, 'ab');
+    expect(requests.length).to.equal(2);
+    expect(requests[0].signal.aborted).to.equal(true);
+    expect(requests[1].signal.aborted).to.equal(false);
+
+    requests[1].resolve([data[1]]);
+    await rendered(autoSuggest);
+    requests[0].resolve([data[0]]);
+    await aTimeout(50);
+    expect(getLabels(autoSuggest)).to.deep.equal(['instruments', data[1].label], 'Aborted results should be ignored');
+  });
+
+  it('Should debounce requests per provider', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const fast = createProvider('fast');
+    const slow = createProvider('slow', { debounceRate: 100 });
+    autoSuggest.registerProvider(fast.provider);
+    autoSuggest.registerProvider(slow.provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    await type(input, 'ab');
+    expect(fast.requests.length).to.equal(2);
+    expect(slow.requests.length).to.equal(0);
+
+    await aTimeout(150);
+    expect(slow.requests.length).to.equal(1);
+    expect(slow.requests[0].query).to.equal('ab');
+  });
+
+  it('Should show error state of the group', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const news = createProvider('news');
+    const people = createProvider('people');
+    autoSuggest.registerProvider(news.provider);
+    autoSuggest.registerProvider(people.provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    people.requests[0].resolve([data[0]]);
+    await rendered(autoSuggest);
+    news.requests[0].reject(new Error('Network error'));
+    await rendered(autoSuggest);
+
+    expect(getLabels(autoSuggest)).to.deep.equal(['news', 'Failed to load suggestions', 'people', data[0].label]);
+    expect(autoSuggest.suggestions[1].disabled).to.equal(true);
+  });
+
+  it('Should load more results of the group', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const { provider, requests } = createProvider('people');
+    autoSuggest.registerProvider(provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    requests[0].resolve({ items: [data[0]], hasMore: true });
+    await rendered(autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['people', data[0].label, 'More results in people']);
+
+    let selected = false;
+    autoSuggest.addEventListener('item-select', ({ detail }) => {
+      selected = selected || detail.method === 'click';
+    });
+    const moreItem = autoSuggest.querySelectorAll('ef-item')[2];
+    await tapAction(moreItem);
+    expect(selected).to.equal(false, 'More results item should not be selected');
+    expect(requests.length).to.equal(2);
+    expect(requests[1].page).to.equal(1);
+    expect(requests[1].reason).to.equal('more-results');
+    expect(requests[1].query).to.equal('a');
+
+    requests[1].resolve({ items: [data[1]], hasMore: false });
+    await rendered(autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['people', data[0].label, data[1].label]);
+  });
+
+  it('Should keep highlighted item when another group is rendered', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const news = createProvider('news');
+    const people = createProvider('people');
+    autoSuggest.registerProvider(news.provider);
+    autoSuggest.registerProvider(people.provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    people.requests[0].resolve([data[0], data[1]]);
+    await rendered(autoSuggest);
+    await pressKey(input, 'ArrowDown');
+    expect(input.value).to.equal(data[0].label);
+
+    news.requests[0].resolve([data[2]]);
+    await rendered(autoSuggest);
+    expect(autoSuggest.querySelector('[highlighted]').textContent).to.equal(data[0].label);
+  });
+
+  it('Should abort requests when suggestions are cleared', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const news = createProvider('news');
+    const people = createProvider('people');
+    autoSuggest.registerProvider(news.provider);
+    autoSuggest.registerProvider(people.provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    people.requests[0].resolve([data[0]]);
+    await rendered(autoSuggest);
+
+    await pressKey(input, 'ArrowDown');
+    await pressKey(input, 'Enter');
+    expect(news.requests[0].signal.aborted).to.equal(true);
+    expect(autoSuggest.suggestions.length).to.equal(0);
+  });
+
+  it('Should not fetch from providers if the request is prevented', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const { provider, requests } = createProvider('people');
+    autoSuggest.registerProvider(provider);
+    autoSuggest.addEventListener('suggestions-fetch-requested', (event) => event.preventDefault());
+
+    await focusAction(input);
+    await type(input, 'a');
+    expect(requests.length).to.equal(0);
+  });
+
+  it('Should remove the group of deregistered provider', async () => {
+    const { input, autoSuggest } = await createFixture();
+    const news = createProvider('news');
+    const people = createProvider('people');
+    autoSuggest.registerProvider(news.provider);
+    autoSuggest.registerProvider(people.provider);
+
+    await focusAction(input);
+    await type(input, 'a');
+    news.requests[0].resolve([data[0]]);
+    people.requests[0].resolve([data[1]]);
+    await rendered(autoSuggest);
+
+    autoSuggest.deregisterProvider('news');
+    await rendered(autoSuggest);
+    expect(getLabels(autoSuggest)).to.deep.equal(['people', data[1].label]);
+  });
+});
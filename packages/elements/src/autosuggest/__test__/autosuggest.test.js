@@ -279,3 +279,23 @@ describe('autosuggest/Autosuggest', () => {
     });
   });
 });
+
+describe('autosuggest/QueryWordSelect', () => {
+  it('Highlights every occurrence of the query', () => {
+    expect(Autosuggest.QueryWordSelect('Banana bread', 'an')).to.equal('B<mark>an</mark><mark>an</mark>a bread');
+  });
+
+  it('Ignores case and diacritics', () => {
+    expect(Autosuggest.QueryWordSelect('Société Générale', 'societe')).to.equal('<mark>Société</mark> Générale');
+  });
+
+  it('Highlights the start of words, when the query is not found', () => {
+    expect(Autosuggest.QueryWordSelect('Microsoft Corporation', 'mi corp')).to.equal('<mark>Mi</mark>crosoft <mark>Corp</mark>oration');
+  });
+
+  it('Escapes the text', () => {
+    expect(Autosuggest.QueryWordSelect('AT&T <Inc>', 'inc')).to.equal('AT&amp;T &lt;<mark>Inc</mark>&gt;');
+    expect(Autosuggest.QueryWordSelect('<b>Bold</b>', 'xyz')).to.equal('&lt;b&gt;Bold&lt;/b&gt;');
+    expect(Autosuggest.QueryWordSelect('<b>Bold</b>')).to.equal('&lt;b&gt;Bold&lt;/b&gt;');
+  });
+});
@@ -0,0 +1,180 @@
+import { readState, writeState, StateStorage } from '@refinitiv-ui/utils/persistence.js';
+import type { AutosuggestItem, Suggestion, SearchHistoryEntry } from './types';
+
+/**
+ * Get a key, which identifies the suggestion in the history
+ * @param suggestion Suggestion
+ * @returns key or empty string if the suggestion cannot be identified
+ */
+const getSuggestionKey = (suggestion: Suggestion): string => {
+  return String(suggestion.id ?? suggestion.value ?? suggestion.label ?? '');
+};
+
+/**
+ * Convert autosuggest item into a suggestion, which can be saved in the history
+ * @param item Autosuggest item
+ * @returns suggestion or null if the item cannot be saved
+ */
+const toSuggestion = (item: AutosuggestItem): Suggestion | null => {
+  if (typeof item === 'string') {
+    return item ? { label: item, value: item } : null;
+  }
+
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+
+  const suggestion = item as Suggestion;
+  return (!suggestion.type || suggestion.type === 'text') && getSuggestionKey(suggestion) ? suggestion : null;
+};
+
+/**
+ * Check if stored data is a valid history entry
+ * @param entry Stored data
+ * @returns true if the entry is valid
+ */
+const isEntry = (entry: unknown): entry is SearchHistoryEntry => {
+  return !!entry && typeof entry === 'object' && !!toSuggestion((entry as SearchHistoryEntry).suggestion);
+};
+
+/**
+ * Keeps suggestions, which have been selected by the user.
+ * Pinned entries are listed first and are never evicted,
+ * other entries are ordered from the most recent one
+ * and are limited to the given size.
+ */
+export class SearchHistory {
+  private entries: SearchHistoryEntry[];
+
+  /**
+   * Create history and restore the saved entries
+   * @param key Key used to save entries
+   * @param storage Storage adapter. `localStorage` is used by default. Pass `null` to keep entries in memory
+   * @param limit Maximum number of recent entries, excluding pinned ones
+   */
+  constructor (private key: string, private storage?: StateStorage | null, private limit = 10) {
+    const state = readState(key, storage);
+    const entries = state && Array.isArray(state.entries) ? state.entries as unknown[] : [];
+    this.entries = entries.filter(isEntry);
+  }
+
+  /**
+   * Pinned entries
+   */
+  public get pinned (): Suggestion[] {
+    return this.entries.filter(entry => entry.pinned).map(entry => entry.suggestion);
+  }
+
+  /**
+   * Recent entries, which are not pinned
+   */
+  public get recent (): Suggestion[] {
+    return this.entries.filter(entry => !entry.pinned).map(entry => entry.suggestion);
+  }
+
+  /**
+   * Check if the suggestion is saved in the history
+   * @param item Autosuggest item
+   * @returns true if the suggestion is saved
+   */
+  public has (item: AutosuggestItem): boolean {
+    return this.indexOf(item) !== -1;
+  }
+
+  /**
+   * Check if the suggestion is pinned
+   * @param item Autosuggest item
+   * @returns true if the suggestion is pinned
+   */
+  public isPinned (item: AutosuggestItem): boolean {
+    const index = this.indexOf(item);
+    return index !== -1 && this.entries[index].pinned;
+  }
+
+  /**
+   * Add the suggestion to the top of the history.
+   * If the suggestion is already saved, it is moved to the top and keeps the pinned state
+   * @param item Autosuggest item
+   * @returns {void}
+   */
+  public add (item: AutosuggestItem): void {
+    const suggestion = toSuggestion(item);
+    if (!suggestion) {
+      return;
+    }
+
+    const pinned = this.isPinned(suggestion);
+    this.entries = [{ suggestion, pinned }, ...this.entries.filter(entry => !this.isSame(entry.suggestion, suggestion))];
+
+    const recent = this.entries.filter(entry => !entry.pinned);
+    if (recent.length > this.limit) {
+      const evicted = recent.slice(this.limit);
+      this.entries = this.entries.filter(entry => !evicted.includes(entry));
+    }
+    this.save();
+  }
+
+  /**
+   * Remove the suggestion from the history
+   * @param item Autosuggest item
+   * @returns {void}
+   */
+  public remove (item: AutosuggestItem): void {
+    const index = this.indexOf(item);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+      this.save();
+    }
+  }
+
+  /**
+   * Pin or unpin the suggestion
+   * @param item Autosuggest item
+   * @param pinned True to pin the suggestion
+   * @returns {void}
+   */
+  public pin (item: AutosuggestItem, pinned = true): void {
+    const index = this.indexOf(item);
+    if (index !== -1 && this.entries[index].pinned !== pinned) {
+      this.entries[index].pinned = pinned;
+      this.save();
+    }
+  }
+
+  /**
+   * Remove all entries, including pinned ones
+   * @returns {void}
+   */
+  public clear (): void {
+    this.entries = [];
+    this.save();
+  }
+
+  /**
+   * Find the position of the suggestion in the history
+   * @param item Autosuggest item
+   * @returns index or -1 if the suggestion is not saved
+   */
+  private indexOf (item: AutosuggestItem): number {
+    const suggestion = toSuggestion(item);
+    return suggestion ? this.entries.findIndex(entry => this.isSame(entry.suggestion, suggestion)) : -1;
+  }
+
+  /**
+   * Check if two suggestions identify the same entry
+   * @param a First suggestion
+   * @param b Second suggestion
+   * @returns true if suggestions are the same
+   */
+  private isSame (a: Suggestion, b: Suggestion): boolean {
+    return a === b || getSuggestionKey(a) === getSuggestionKey(b);
+  }
+
+  /**
+   * Save entries to the storage
+   * @returns {void}
+   */
+  private save (): void {
+    writeState(this.key, { entries: this.entries }, this.storage);
+  }
+}
@@ -0,0 +1,196 @@
+import { TimeoutTaskRunner } from '@refinitiv-ui/utils/async.js';
+import type {
+  AutosuggestProvider,
+  AutosuggestProviderGroup,
+  AutosuggestQuery,
+  AutosuggestReason
+} from './types';
+
+/**
+ * Provider group with the request in progress
+ */
+type ProviderState = AutosuggestProviderGroup & {
+  runner: TimeoutTaskRunner | null;
+  controller: AbortController | null;
+};
+
+/**
+ * Queries registered providers in parallel
+ * and keeps their results grouped by provider.
+ * Requests are debounced per provider and aborted when superseded.
+ */
+export class ProviderRegistry {
+  private states: ProviderState[] = [];
+
+  /**
+   * Create registry
+   * @param onChange Called when results or state of any provider change
+   */
+  constructor (private onChange: () => void) {}
+
+  /**
+   * Number of registered providers
+   */
+  public get size (): number {
+    return this.states.length;
+  }
+
+  /**
+   * Provider groups in the order of registration
+   */
+  public get groups (): readonly AutosuggestProviderGroup[] {
+    return this.states;
+  }
+
+  /**
+   * Register the provider.
+   * Provider with the same name is replaced keeping its position
+   * @param provider Provider to register
+   * @returns {void}
+   */
+  public register (provider: AutosuggestProvider): void {
+    const state: ProviderState = {
+      provider,
+      items: [],
+      page: 0,
+      hasMore: false,
+      loading: false,
+      error: false,
+      runner: provider.debounceRate ? new TimeoutTaskRunner(provider.debounceRate) : null,
+      controller: null
+    };
+
+    const index = this.indexOf(provider.name);
+    if (index === -1) {
+      this.states.push(state);
+      return;
+    }
+
+    this.abortState(this.states[index]);
+    this.states[index] = state;
+    this.onChange();
+  }
+
+  /**
+   * Deregister the provider and abort its request
+   * @param name Provider name
+   * @returns {void}
+   */
+  public deregister (name: string): void {
+    const index = this.indexOf(name);
+    if (index !== -1) {
+      this.abortState(this.states[index]);
+      this.states.splice(index, 1);
+      this.onChange();
+    }
+  }
+
+  /**
+   * Request the first page from all providers
+   * @param query Query from attach target
+   * @param reason The reason to fetch data
+   * @returns {void}
+   */
+  public fetch (query: AutosuggestQuery, reason: AutosuggestReason): void {
+    this.states.forEach(state => {
+      this.abortState(state);
+      state.items = [];
+      state.hasMore = false;
+      this.request(state, query, reason, 0);
+    });
+    this.onChange();
+  }
+
+  /**
+   * Request the next page from the provider or from all providers, which have more results
+   * @param query Query from attach target
+   * @param [name] Provider name
+   * @returns {void}
+   */
+  public fetchMore (query: AutosuggestQuery, name?: string): void {
+    this.states
+      .filter(state => state.hasMore && !state.loading && (name === undefined || state.provider.name === name))
+      .forEach(state => this.request(state, query, 'more-results', state.page + 1));
+    this.onChange();
+  }
+
+  /**
+   * Abort all requests and remove results
+   * @returns {void}
+   */
+  public clear (): void {
+    this.states.forEach(state => {
+      this.abortState(state);
+      state.items = [];
+      state.hasMore = false;
+    });
+  }
+
+  /**
+   * Find the position of the provider
+   * @param name Provider name
+   * @returns index or -1 if the provider is not registered
+   */
+  private indexOf (name: string): number {
+    return this.states.findIndex(state => state.provider.name === name);
+  }
+
+  /**
+   * Cancel debounced request and abort the request in progress
+   * @param state Provider state
+   * @returns {void}
+   */
+  private abortState (state: ProviderState): void {
+    state.runner?.cancel();
+    state.controller?.abort();
+    state.controller = null;
+    state.loading = false;
+    state.error = false;
+  }
+
+  /**
+   * Request the page from the provider
+   * @param state Provider state
+   * @param query Query from attach target
+   * @param reason The reason to fetch data
+   * @param page Page to request
+   * @returns {void}
+   */
+  private request (state: ProviderState, query: AutosuggestQuery, reason: AutosuggestReason, page: number): void {
+    const controller = new AbortController();
+    state.controller = controller;
+    state.loading = true;
+    state.error = false;
+
+    const run = async (): Promise<void> => {
+      const { signal } = controller;
+      try {
+        const result = await state.provider.fetch(query, { reason, page, signal });
+        if (signal.aborted) {
+          return;
+        }
+        const items = Array.isArray(result) ? result : result.items;
+        state.items = page ? state.items.concat(items) : items;
+        state.hasMore = !Array.isArray(result) && !!result.hasMore;
+        state.page = page;
+      }
+      catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        state.error = true;
+      }
+
+      state.controller = null;
+      state.loading = false;
+      this.onChange();
+    };
+
+    if (state.runner) {
+      state.runner.schedule(() => void run());
+    }
+    else {
+      void run();
+    }
+  }
+}
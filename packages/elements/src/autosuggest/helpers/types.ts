@@ -14,7 +14,8 @@ export type AutosuggestReason =
   | 'suggestions-revealed'
   | 'escape-pressed'
   | 'enter-pressed'
-  | 'more-results';
+  | 'more-results'
+  | 'recent-searches';
 
 export interface Suggestion {
   /**
@@ -53,10 +54,91 @@ export interface Suggestion {
 
 export type AutosuggestItem = Suggestion | string | unknown;
 
+export interface SearchHistoryEntry {
+  /**
+   * Selected suggestion
+   */
+  suggestion: Suggestion;
+  /**
+   * True if the entry is pinned by the user
+   */
+  pinned: boolean;
+}
+
 export interface AutosuggestQuery {
   toString (): string;
 }
 
+/**
+ * Options passed to the provider on each request
+ */
+export type AutosuggestProviderOptions = {
+  /**
+   * The reason to fetch data
+   */
+  reason: AutosuggestReason;
+  /**
+   * Zero-based index of the requested page
+   */
+  page: number;
+  /**
+   * Aborted when the request is superseded by another query or suggestions are cleared
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * A page of suggestions returned by the provider
+ */
+export type AutosuggestProviderResult = {
+  /**
+   * Suggestions matching the query
+   */
+  items: AutosuggestItem[];
+  /**
+   * Set to true to show "more results" item at the end of the group
+   */
+  hasMore?: boolean;
+};
+
+/**
+ * Named source of suggestions. Results of each provider are rendered as a separate group
+ */
+export interface AutosuggestProvider {
+  /**
+   * Unique name of the provider
+   */
+  name: string;
+  /**
+   * Group header. Defaults to `name`
+   */
+  label?: string;
+  /**
+   * Debounce rate in ms of provider requests. Requests are not debounced by default
+   */
+  debounceRate?: number;
+  /**
+   * Fetch suggestions matching the query.
+   * Returning an array is the same as returning a single page without `hasMore`
+   * @param query Query from attach target
+   * @param options Request options
+   * @returns Suggestions matching the query
+   */
+  fetch (query: AutosuggestQuery, options: AutosuggestProviderOptions): Promise<AutosuggestItem[] | AutosuggestProviderResult>;
+}
+
+/**
+ * State of provider results rendered in the group
+ */
+export type AutosuggestProviderGroup = {
+  provider: AutosuggestProvider;
+  items: AutosuggestItem[];
+  page: number;
+  hasMore: boolean;
+  loading: boolean;
+  error: boolean;
+};
+
 export type AutosuggestTargetElement = HTMLElement & { value: string };
 
 export type AutosuggestMethodType = 'click' | 'enter' | 'clear' | 'reset' | 'navigation';
@@ -1,3 +1,4 @@
+import { fold, match, highlight, escapeHTML, MatchRange } from '@refinitiv-ui/utils/matching.js';
 import type { Item } from '../../item';
 import type { AutosuggestHighlightable, AutosuggestItem } from './types';
 
@@ -21,7 +22,10 @@ export const escapeRegExp = (string = ''): string => {
 };
 
 /**
- * A basic regexp matching pattern to replace text based on string input.
+ * Wraps characters of the text, which match the query.
+ * Every occurrence of the query is wrapped, ignoring case and diacritics.
+ * If the query is not found, query words are matched against the start of words.
+ * The text is escaped, so that it is displayed as is.
  * @param text Value to test against
  * @param query The query
  * @param [pattern=<mark>$1</mark>] Provide a pattern to replace string
@@ -31,12 +35,26 @@ export const queryWordSelect = (text: string, query = '', pattern = '<mark>$1</m
   query = query && query.trim();
 
   if (!query) {
-    return text;
+    return escapeHTML(text);
   }
 
-  const regExReplace = new RegExp(`(${escapeRegExp(query)})`, 'ig');
+  // folded text has the same length as the original, so indexes can be used on the original text
+  const foldedText = fold(text);
+  const foldedQuery = fold(query);
+  const ranges: MatchRange[] = [];
+  let index = foldedText.indexOf(foldedQuery);
+  while (index !== -1) {
+    ranges.push([index, index + foldedQuery.length]);
+    index = foldedText.indexOf(foldedQuery, index + foldedQuery.length);
+  }
+
+  if (ranges.length) {
+    return highlight(text, ranges, pattern);
+  }
+
+  const result = match(text, query);
 
-  return text.replace(regExReplace, pattern);
+  return result ? highlight(text, result.ranges, pattern) : escapeHTML(text);
 };
 
 /**
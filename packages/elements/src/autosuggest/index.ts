@@ -14,9 +14,11 @@ import { unsafeHTML } from '@refinitiv-ui/core/directives/unsafe-html.js';
 import { VERSION } from '../version.js';
 import { AnimationTaskRunner, TimeoutTaskRunner } from '@refinitiv-ui/utils/async.js';
 import { isIE, isMobile } from '@refinitiv-ui/utils/browser.js';
+import type { StateStorage } from '@refinitiv-ui/utils/persistence.js';
 import {
   translate,
   TranslateDirective,
+  TranslatePromise,
   TranslatePropertyKey
 } from '@refinitiv-ui/translate';
 import type { TapEvent } from '../events';
@@ -30,10 +32,16 @@ import type {
   AutosuggestItem,
   AutosuggestSelectItemEvent,
   AutosuggestHighlightItemEvent,
-  AutosuggestQueryAction
+  AutosuggestQueryAction,
+  AutosuggestProvider,
+  AutosuggestProviderOptions,
+  AutosuggestProviderResult,
+  Suggestion
 } from './helpers/types';
 import { escapeRegExp, itemHighlightable, queryWordSelect } from './helpers/utils.js';
 import { renderer } from './helpers/renderer.js';
+import { SearchHistory } from './helpers/history.js';
+import { ProviderRegistry } from './helpers/providers.js';
 import { Overlay } from '../overlay/index.js';
 import '../loader/index.js';
 import '../item/index.js';
@@ -58,6 +66,9 @@ export type {
   AutosuggestRenderer,
   AutosuggestReason,
   AutosuggestItem,
+  AutosuggestProvider,
+  AutosuggestProviderOptions,
+  AutosuggestProviderResult,
   ItemHighlightEvent,
   AddAttachTargetEventsEvent,
   RemoveAttachTargetEventsEvent,
@@ -83,6 +94,8 @@ export {
  * such as TextField, Multi Input, etc.
  * Autosuggest supports various use cases such as
  * custom rendering, pagination, asynchronous data request, etc.
+ * Set `history-key` to show recent and pinned searches when the query is empty.
+ * Register providers to query several sources in parallel and show their results in groups.
  *
  * @fires item-highlight Fired when an item gets highlighted or highlight is removed
  * @fires add-attach-target-events Fired when attach has been set
@@ -143,7 +156,7 @@ export class Autosuggest extends Overlay {
   }
 
   /**
-   * A basic regexp matching pattern to replace text based on string input.
+   * Wraps characters of the text, which match the query, ignoring case and diacritics.
    * @param text Value to test against
    * @param query The query
    * @param [pattern=<mark>$1</mark>] Provide a pattern to replace string
@@ -258,12 +271,39 @@ export class Autosuggest extends Overlay {
   @property({ type: Boolean, attribute: 'html-renderer' })
   public htmlRenderer = false;
 
+  /**
+   * Key used to save selected suggestions.
+   * When set, saved suggestions are shown as recent searches if the query is empty
+   */
+  @property({ type: String, attribute: 'history-key' })
+  public historyKey: string | null = null;
+
+  /**
+   * Storage of recent searches. Uses `localStorage` by default.
+   * Set to `null` to keep recent searches in memory only
+   * @type {StateStorage | null | undefined}
+   */
+  @property({ attribute: false })
+  public historyStorage?: StateStorage | null;
+
+  /**
+   * Maximum number of recent searches, excluding pinned ones
+   */
+  @property({ type: Number, attribute: 'history-limit' })
+  public historyLimit = 10;
+
   /**
    * Autosuggest internal translation strings
    */
   @translate({ scope: 'ef-autosuggest' })
   protected t!: TranslateDirective;
 
+  /**
+   * Autosuggest translation strings used in suggestions data
+   */
+  @translate({ mode: 'promise', scope: 'ef-autosuggest' })
+  protected tPromise!: TranslatePromise;
+
   @query('#moreResults')
   protected moreResultsItem?: HTMLElement | null;
 
@@ -295,6 +335,22 @@ export class Autosuggest extends Overlay {
 
   private loadingRunner = new AnimationTaskRunner();
 
+  private history: SearchHistory | null = null;
+
+  // suggestions currently rendered from the history
+  private historySuggestions: AutosuggestItem[] = [];
+
+  // suggestion to highlight after suggestions are re-rendered
+  private pendingHighlight: AutosuggestItem = null;
+
+  private providers = new ProviderRegistry(() => void this.renderProviders());
+
+  // "more results" items of provider groups mapped to provider names
+  private providerMoreItems = new Map<AutosuggestItem, string>();
+
+  // used to skip provider results, which have been rendered after suggestions were cleared
+  private providersRenderVersion = 0;
+
   /**
    * creates auto-suggest
    */
@@ -385,9 +441,44 @@ export class Autosuggest extends Overlay {
 
   public disconnectedCallback (): void {
     this.dispatchAttachEventsRemoveAction();
+    this.clearProviders();
     super.disconnectedCallback();
   }
 
+  /**
+   * Register a named source of suggestions.
+   * Registered providers are queried in parallel instead of
+   * handling `suggestions-fetch-requested` by the application.
+   * Results are rendered in groups in the order of registration.
+   * Provider with the same name is replaced
+   * @param provider Provider to register
+   * @returns {void}
+   */
+  public registerProvider (provider: AutosuggestProvider): void {
+    this.providers.register(provider);
+  }
+
+  /**
+   * Deregister the provider and abort its request in progress
+   * @param name Provider name
+   * @returns {void}
+   */
+  public deregisterProvider (name: string): void {
+    this.providers.deregister(name);
+  }
+
+  /**
+   * Remove all recent and pinned searches
+   * @returns {void}
+   */
+  public clearHistory (): void {
+    this.history?.clear();
+
+    if (this.historySuggestions.length) {
+      void this.showHistory();
+    }
+  }
+
   /**
    * Run when attach target value changes.
    * @param event by default `value-changed` event is listened
@@ -460,8 +551,16 @@ export class Autosuggest extends Overlay {
       case 'Enter':
         this.onEnterKey(event);
         break;
+      case 'Delete':
+      case 'Del':
+        if (!this.removeHighlightedHistoryItem()) {
+          return;
+        }
+        break;
       default:
-        return;
+        if (!(event.altKey && event.code === 'KeyP' && this.toggleHighlightedHistoryPin())) {
+          return;
+        }
     }
 
     event.preventDefault();
@@ -478,6 +577,19 @@ export class Autosuggest extends Overlay {
     this.calculateContentMaxHeight(size);
   }
 
+  /**
+   * Called before the element is updated
+   * @param changedProperties map of changed properties with old values
+   * @returns {void}
+   */
+  protected willUpdate (changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('historyKey') || changedProperties.has('historyStorage') || changedProperties.has('historyLimit')) {
+      this.history = this.historyKey ? new SearchHistory(this.historyKey, this.historyStorage, this.historyLimit) : null;
+    }
+  }
+
   /**
    * Called once after the component is first rendered
    * @param changedProperties map of changed properties with old values
@@ -550,6 +662,15 @@ export class Autosuggest extends Overlay {
         this.suggestionMap.set(node as HTMLElement, suggestion);
       }
     });
+
+    if (this.pendingHighlight) {
+      this.suggestionMap.forEach((suggestion, node) => {
+        if (suggestion === this.pendingHighlight) {
+          this.highlightItem(node);
+        }
+      });
+      this.pendingHighlight = null;
+    }
   }
 
   /**
@@ -599,12 +720,26 @@ export class Autosuggest extends Overlay {
 
   /**
    * 'suggestions-fetch-requested' default action
+   * Shows recent searches or queries registered providers.
+   * Otherwise, requests must be handled by the application
    * @param event Fetch request
    * @returns {void}
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  protected suggestionsFetchRequestedAction (event: CustomEvent): void {
-    // do nothing
+  protected suggestionsFetchRequestedAction (event: SuggestionsFetchRequestedEvent): void {
+    const { reason, query } = event.detail;
+
+    if (reason === 'recent-searches') {
+      void this.showHistory();
+    }
+    else if (!this.providers.size) {
+      return;
+    }
+    else if (reason === 'more-results') {
+      this.providers.fetchMore(query ?? '');
+    }
+    else {
+      this.providers.fetch(query ?? '', reason);
+    }
   }
 
   /**
@@ -752,7 +887,7 @@ export class Autosuggest extends Overlay {
 
     const dispatch = (): void => {
       if (this.attachTargetFocused) {
-        this.dispatchSuggestionsFetchRequested(reason);
+        this.dispatchSuggestionsFetchRequested(this.history && this.queryEmpty ? 'recent-searches' : reason);
       }
     };
 
@@ -928,11 +1063,29 @@ export class Autosuggest extends Overlay {
         return;
       }
 
+      // more results of provider group
+      const providerName = this.providerMoreItems.get(this.getSuggestionFor(target));
+      if (providerName !== undefined) {
+        this.dispatchItemSelect('reset');
+
+        switch (method) {
+          case 'click':
+          case 'enter':
+            this.providers.fetchMore(this.query ?? '', providerName);
+            break;
+          default:
+          // node default
+        }
+
+        return;
+      }
+
       this.dispatchItemSelect(method, target);
 
       switch (method) {
         case 'click':
         case 'enter':
+          this.history?.add(this.getSuggestionFor(target));
           this.dispatchSuggestionsClearRequested();
           break;
         default:
@@ -941,6 +1094,89 @@ export class Autosuggest extends Overlay {
     }
   }
 
+  /**
+   * Render recent and pinned searches as suggestions
+   * @returns {void}
+   */
+  protected async showHistory (): Promise<void> {
+    this.clearProviders();
+
+    const [pinnedLabel, recentLabel] = await Promise.all([
+      this.tPromise('PINNED_SEARCHES'),
+      this.tPromise('RECENT_SEARCHES')
+    ]);
+
+    const history = this.history;
+    if (!history || !this.queryEmpty) { /* the query has changed while waiting for translations */
+      return;
+    }
+
+    const { pinned, recent } = history;
+    const suggestions: Suggestion[] = [];
+    pinned.length && suggestions.push({ type: 'header', label: pinnedLabel }, ...pinned);
+    recent.length && suggestions.push({ type: 'header', label: recentLabel }, ...recent);
+
+    this.historySuggestions = suggestions;
+    this.suggestions = suggestions;
+  }
+
+  /**
+   * Render results of registered providers in groups.
+   * Each group shows loading, error or "more results" item after the results
+   * @returns {void}
+   */
+  protected async renderProviders (): Promise<void> {
+    this.providersRenderVersion += 1;
+    const version = this.providersRenderVersion;
+
+    const [loadingLabel, errorLabel] = await Promise.all([
+      this.tPromise('LOADING'),
+      this.tPromise('GROUP_ERROR')
+    ]);
+
+    const suggestions: Suggestion[] = [];
+    const moreItems = new Map<AutosuggestItem, string>();
+
+    for (const { provider, items, loading, error, hasMore } of this.providers.groups) {
+      if (!items.length && !loading && !error) {
+        continue;
+      }
+
+      const label = provider.label || provider.name;
+      suggestions.push({ type: 'header', label }, ...items as Suggestion[]);
+
+      if (loading) {
+        suggestions.push({ label: loadingLabel, disabled: true });
+      }
+      else if (error) {
+        suggestions.push({ label: errorLabel, disabled: true });
+      }
+      else if (hasMore) {
+        const moreItem = { label: await this.tPromise('MORE_GROUP_RESULTS', { group: label }) };
+        moreItems.set(moreItem, provider.name);
+        suggestions.push(moreItem);
+      }
+    }
+
+    if (version !== this.providersRenderVersion) { /* suggestions have been cleared or rendered again */
+      return;
+    }
+
+    this.providerMoreItems = moreItems;
+    this.pendingHighlight = this.getSuggestionFor(this.highlightedItem) || null;
+    this.suggestions = suggestions;
+  }
+
+  /**
+   * Abort provider requests and skip results, which are being rendered
+   * @returns {void}
+   */
+  protected clearProviders (): void {
+    this.providers.clear();
+    this.providersRenderVersion += 1;
+    this.providerMoreItems.clear();
+  }
+
   /**
    * Get the list of rendered suggestions
    * @returns renderedSuggestions
@@ -980,6 +1216,48 @@ export class Autosuggest extends Overlay {
     }
   }
 
+  /**
+   * Get highlighted suggestion, if it is rendered from the history
+   * @returns suggestion or null
+   */
+  private get highlightedHistorySuggestion (): AutosuggestItem {
+    const suggestion = this.getSuggestionFor(this.highlightedItem);
+    return this.history && suggestion && this.historySuggestions.includes(suggestion) ? suggestion : null;
+  }
+
+  /**
+   * Remove highlighted suggestion from the history
+   * @returns true if the suggestion has been removed
+   */
+  private removeHighlightedHistoryItem (): boolean {
+    const suggestion = this.highlightedHistorySuggestion;
+    if (!this.history || !suggestion) {
+      return false;
+    }
+
+    this.history.remove(suggestion);
+    this.dispatchItemSelect('reset');
+    void this.showHistory();
+    return true;
+  }
+
+  /**
+   * Pin or unpin highlighted suggestion in the history
+   * @returns true if the suggestion has been pinned or unpinned
+   */
+  private toggleHighlightedHistoryPin (): boolean {
+    const suggestion = this.highlightedHistorySuggestion;
+    if (!this.history || !suggestion) {
+      return false;
+    }
+
+    this.history.pin(suggestion, !this.history.isPinned(suggestion));
+    this.pendingHighlight = suggestion;
+    this.dispatchItemSelect('reset');
+    void this.showHistory();
+    return true;
+  }
+
   /**
    * check some of native properties was modified
    * @param changedProperties properties that was changed
@@ -1182,6 +1460,7 @@ export class Autosuggest extends Overlay {
    */
   private dispatchSuggestionsClearRequested (): void {
     this.preservedQueryValue = null;
+    this.clearProviders();
 
     /**
      * @event suggestions-clear-requested
@@ -1226,6 +1505,14 @@ export class Autosuggest extends Overlay {
     }
   }
 
+  /**
+   * Check if the query is empty
+   * @returns true if there is no query
+   */
+  private get queryEmpty (): boolean {
+    return !this.query || !this.query.toString();
+  }
+
   /**
    * Check if the attach target is in focus
    * @returns focused true if attach target is focused
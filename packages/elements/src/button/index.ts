@@ -33,6 +33,13 @@ export class Button extends ControlElement {
 
   protected readonly defaultRole = 'button';
 
+  /**
+   * Buttons are not submitted with the form
+   */
+  protected get formValue (): null {
+    return null;
+  }
+
   /**
    * Customises text alignment when specified alongside `icon` property
    * Value can be `before` or `after`
@@ -33,6 +33,19 @@ describe('calendar/Defaults', () => {
       expect(todayCells.length, 'Incorrect view or only one cell should be set to today').to.equal(1);
       expect(todayCells[0].textContent.trim(), 'Invalid cell is set to today').to.equal(now.getDate().toString());
     });
+    it('Today\'s date should respect timezone', async () => {
+      const timezone = 'Pacific/Kiritimati';
+      const el = await fixture(`<ef-calendar lang="en-GB" timezone="${timezone}"></ef-calendar>`);
+      const today = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, day: 'numeric' }).format(new Date());
+      const todayCells = el.shadowRoot.querySelectorAll('div[today]');
+      expect(todayCells.length, 'Incorrect view or only one cell should be set to today').to.equal(1);
+      expect(todayCells[0].textContent.trim(), 'Invalid cell is set to today').to.equal(today);
+    });
+    it('Invalid timezone should be reset', async () => {
+      const el = await fixture('<ef-calendar lang="en-GB" timezone="Invalid/Timezone"></ef-calendar>');
+      expect(el.timezone, 'timezone should reset').to.equal('');
+      expect(el.shadowRoot.querySelectorAll('div[today]').length).to.equal(1);
+    });
     it('fill-cells should fill empty cells', async () => {
       const el = await fixture('<ef-calendar view="2005-04" fill-cells lang="en-GB"></ef-calendar>');
       expect(el.fillCells, 'fill-cells is not propagated').to.equal(true);
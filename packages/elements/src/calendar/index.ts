@@ -36,7 +36,8 @@ import {
   isSameMonth,
   isSameYear,
   toDateSegment,
-  parse
+  parse,
+  isValidTimezone
 } from '@refinitiv-ui/utils/date.js';
 import {
   NavigationGrid,
@@ -254,6 +255,29 @@ export class Calendar extends ControlElement implements MultiValue {
   @property({ attribute: false })
   public filter: CalendarFilter | null = null;
 
+  private _timezone = '';
+  /**
+  * IANA timezone name, e.g. `Asia/Tokyo`, used to resolve today's date.
+  * Defaults to local time
+  * @param timezone Timezone name
+  * @default -
+  */
+  @property({ type: String })
+  public set timezone (timezone: string) {
+    if (timezone && !isValidTimezone(timezone)) {
+      new WarningNotice(`The specified timezone "${timezone}" is not supported.`).show();
+      timezone = '';
+    }
+    const oldTimezone = this._timezone;
+    if (oldTimezone !== timezone) {
+      this._timezone = timezone;
+      this.requestUpdate('timezone', oldTimezone);
+    }
+  }
+  public get timezone (): string {
+    return this._timezone;
+  }
+
   private _view = '';
   /**
   * Current calendar view date
@@ -275,7 +299,7 @@ export class Calendar extends ControlElement implements MultiValue {
   }
   public get view (): string {
     /* as soon as user interaction has happened, always rely on view */
-    return this._view || (this.value ? utcFormat(toDateSegment(this.value), DateFormat.yyyyMM) : format(new Date(), DateFormat.yyyyMM));
+    return this._view || (this.value ? utcFormat(toDateSegment(this.value), DateFormat.yyyyMM) : format(new Date(), DateFormat.yyyyMM, this.timezone));
   }
 
   private localFirstDayOfWeek = FIRST_DAY_OF_WEEK; // used from locales. 0 stands for Sunday
@@ -329,6 +353,21 @@ export class Calendar extends ControlElement implements MultiValue {
   }
 
   private _values: string[] = [];
+  /**
+   * Value to be submitted with the form.
+   * Range and multiple modes submit an entry per value
+   */
+  protected get formValue (): string | FormData | null {
+    return this.range || this.multiple ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
   /**
    * Set multiple selected values
    * @param values Values to set
@@ -952,7 +991,7 @@ export class Calendar extends ControlElement implements MultiValue {
    * @returns {void}
    */
   private onTapSelectValue (value: string): void {
-    if (this.readonly || this.disabled) {
+    if (this.readonly || this.isDisabled) {
       return;
     }
 
@@ -1143,7 +1182,7 @@ export class Calendar extends ControlElement implements MultiValue {
         view,
         text: year > 0 ? `${year}` : year === 0 ? '1' : `${Math.abs(year - 1)}`,
         value: `${year}`,
-        now: isThisYear(value),
+        now: isThisYear(value, this.timezone),
         index: [cells.length, rows.length - 1],
         ...this.getCellSelection(value, isSameYear)
       };
@@ -1193,7 +1232,7 @@ export class Calendar extends ControlElement implements MultiValue {
         text: monthsNames[month],
         value: utcFormat(segment, DateFormat.yyyyMM),
         idle,
-        now: isThisMonth(value),
+        now: isThisMonth(value, this.timezone),
         index: [cells.length, rows.length - 1],
         ...this.getCellSelection(value, isSameMonth)
       };
@@ -1276,7 +1315,7 @@ export class Calendar extends ControlElement implements MultiValue {
         value,
         disabled,
         idle: month !== viewMonth.month || year !== viewMonth.year,
-        now: isToday(value),
+        now: isToday(value, this.timezone),
         index: [cells.length, rows.length - 1],
         ...this.getCellSelection(value, isSameDay)
       };
@@ -14,6 +14,8 @@ import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
 import { VERSION } from '../version.js';
 import { color as parseColor } from '@refinitiv-ui/utils/color.js';
+import { replaceThemeValues } from '@refinitiv-ui/utils/theme.js';
+import type { ThemeSnapshot } from '@refinitiv-ui/utils/theme.js';
 import 'chart.js/dist/Chart.bundle.min.js';
 
 import {
@@ -46,6 +48,14 @@ window.Chart.pluginService.register(doughnutCenterPlugin);
 
 const CSS_COLOR_PREFIX = '--chart-color-';
 const CHART_TYPE_OPAQUE = ['line', 'bubble', 'radar', 'polarArea'];
+const THEME_VARIABLES = [
+  '--grid-line-color',
+  '--zero-line-color',
+  '--tooltip-background-color',
+  '--tooltip-title-color',
+  '--tooltip-body-color',
+  '--multi-dataset-border-color'
+];
 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
 const DEFAULT_CHART_CONFIG = window.Chart.defaults;
 const ELF_CHART_CONFIG = {
@@ -91,6 +101,11 @@ export class Chart extends BasicElement {
    */
   private chart: ChartJS | null = null;
 
+  /**
+   * Theme values used to decorate the config
+   */
+  private themeSnapshot: ThemeSnapshot | null = null;
+
   /**
    * Chart configurations. Same configuration as ChartJS
    * @type {ChartConfig}
@@ -346,6 +361,7 @@ export class Chart extends BasicElement {
    */
   protected decorateConfig (): void {
     this.mergeConfigs();
+    this.themeSnapshot = this.createThemeSnapshot();
 
     const extendColorsIfRequired = (currentColors: ChartDataSetsColor, infoColors: ChartDataSetsColor): void => {
       if (Array.isArray(currentColors) && Array.isArray(infoColors) && currentColors.length < infoColors.length) {
@@ -429,6 +445,40 @@ export class Chart extends BasicElement {
     };
   }
 
+  /**
+   * Collect theme colours and fonts, which are used to decorate the config
+   * @returns {ThemeSnapshot} theme values
+   */
+  private createThemeSnapshot (): ThemeSnapshot {
+    const style = getComputedStyle(this);
+    const snapshot: ThemeSnapshot = new Map([
+      ['color', style.getPropertyValue('color')],
+      ['font-family', style.getPropertyValue('font-family')]
+    ]);
+
+    THEME_VARIABLES.forEach(name => snapshot.set(name, this.getComputedVariable(name)));
+
+    const colors = this.generateColors(true, this.colors.length, 0);
+    (colors.solid as string[]).forEach((color, index) => snapshot.set(`${CSS_COLOR_PREFIX}${index + 1}`, color));
+    (colors.opaque as string[]).forEach((color, index) => snapshot.set(`${CSS_COLOR_PREFIX}${index + 1}-opaque`, color));
+
+    return snapshot;
+  }
+
+  /**
+   * Replace colours and fonts of the previous theme and repaint the chart
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    super.themeChangedCallback();
+    if (!this.themeSnapshot || !this.chart || !this.config) {
+      return;
+    }
+
+    replaceThemeValues(this.config, this.themeSnapshot, this.createThemeSnapshot());
+    this.renderChart({ duration: 0 });
+  }
+
   /**
    * Manages the custom title element
    * @returns {void}
@@ -489,5 +489,40 @@ describe('checkbox/Checkbox', () => {
       });
     });
   });
+
+  describe('Form', () => {
+    it('Should submit value only when checked', async () => {
+      const form = await fixture('<form><ef-checkbox name="agree" value="yes"></ef-checkbox></form>');
+      el = form.querySelector('ef-checkbox');
+      expect(new FormData(form).has('agree')).to.equal(false);
+      el.checked = true;
+      await elementUpdated(el);
+      expect(new FormData(form).get('agree')).to.equal('yes');
+    });
+    it('Should submit "on" when value is not set', async () => {
+      const form = await fixture('<form><ef-checkbox name="agree" checked></ef-checkbox></form>');
+      await elementUpdated(form.querySelector('ef-checkbox'));
+      expect(new FormData(form).get('agree')).to.equal('on');
+    });
+    it('Should restore checked state on form reset', async () => {
+      const form = await fixture('<form><ef-checkbox name="agree" checked></ef-checkbox></form>');
+      el = form.querySelector('ef-checkbox');
+      el.checked = false;
+      await elementUpdated(el);
+      form.reset();
+      await elementUpdated(el);
+      expect(el.checked).to.equal(true);
+    });
+    it('Should be invalid when required and not checked', async () => {
+      const form = await fixture('<form><ef-checkbox name="agree" required></ef-checkbox></form>');
+      el = form.querySelector('ef-checkbox');
+      expect(el.validity.valueMissing).to.equal(true);
+      expect(form.checkValidity()).to.equal(false);
+      el.checked = true;
+      await elementUpdated(el);
+      expect(el.validity.valueMissing).to.equal(false);
+      expect(form.checkValidity()).to.equal(true);
+    });
+  });
 });
 
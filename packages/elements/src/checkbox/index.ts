@@ -84,6 +84,38 @@ export class Checkbox extends ControlElement {
   @property({ type: Boolean, reflect: true })
   public indeterminate = false;
 
+  /**
+   * Checked state when the element was first rendered.
+   * Used to restore the state on form reset
+   */
+  private defaultChecked = false;
+
+  /**
+   * Value to be submitted with the form.
+   * Submitted only when checked, `on` if value is not set
+   */
+  protected get formValue (): string | null {
+    return this.checked ? this.value || 'on' : null;
+  }
+
+  /**
+   * Value is missing if the element is not checked
+   */
+  protected override get valueMissing (): boolean {
+    return !this.checked;
+  }
+
+  /**
+   * Resets the element value and checked state to its initial setting
+   * @returns Whether the value or checked state has changed
+   */
+  public reset (): boolean {
+    const valueChanged = super.reset();
+    const checkedChanged = this.checked !== this.defaultChecked;
+    this.checked = this.defaultChecked;
+    return valueChanged || checkedChanged;
+  }
+
   /**
    * Getter for label
    */
@@ -120,6 +152,7 @@ export class Checkbox extends ControlElement {
    */
   protected firstUpdated (changedProperties: PropertyValues): void {
     super.firstUpdated(changedProperties);
+    this.defaultChecked = this.checked;
 
     this.addEventListener('tap', this.onTap);
     this.addEventListener('keydown', this.onKeyDown);
@@ -133,7 +166,7 @@ export class Checkbox extends ControlElement {
    * @returns {void}
    */
   private onTap (event: TapEvent): void {
-    if (this.disabled || this.readonly || event.defaultPrevented) {
+    if (this.isDisabled || this.readonly || event.defaultPrevented) {
       return;
     }
     this.handleChangeChecked();
@@ -145,7 +178,7 @@ export class Checkbox extends ControlElement {
    * @returns {void}
    */
   private onKeyDown (event: KeyboardEvent): void {
-    if (this.disabled || this.readonly || event.defaultPrevented) {
+    if (this.isDisabled || this.readonly || event.defaultPrevented) {
       return;
     }
 
@@ -49,6 +49,33 @@ describe('clock/Value', () => {
     });
   });
 
+  describe('Timezone', () => {
+    beforeEach(async () => {
+      el = await fixture('<ef-clock></ef-clock>');
+    });
+
+    it('Shows current time in the timezone', async () => {
+      const timezone = 'Asia/Tokyo';
+      el.timezone = timezone;
+      await elementUpdated(el);
+      const hours = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(new Date());
+      expect(el.hours, `hours should be ${hours}`).to.be.equal(Number(hours));
+    });
+    it('Resets when invalid timezone is set', async () => {
+      el.timezone = 'Invalid/Timezone';
+      await elementUpdated(el);
+      expect(el.timezone, 'timezone should reset').to.be.equal('');
+    });
+    it('Shows current local time when timezone is cleared', async () => {
+      el.timezone = 'Asia/Tokyo';
+      await elementUpdated(el);
+      el.timezone = '';
+      await elementUpdated(el);
+      const hours = new Date().getHours();
+      expect(el.hours, `hours should be ${hours}`).to.be.equal(hours);
+    });
+  });
+
   describe('Offset', () => {
     beforeEach(async () => {
       el = await fixture('<ef-clock></ef-clock>');
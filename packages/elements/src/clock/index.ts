@@ -29,7 +29,8 @@ import {
   SECONDS_IN_MINUTE,
   SECONDS_IN_DAY,
   SECONDS_IN_HOUR,
-  parse
+  parse,
+  isValidTimezone
 } from '@refinitiv-ui/utils/date.js';
 
 import {
@@ -108,7 +109,12 @@ export class Clock extends ResponsiveElement {
    * @returns {void}
    */
   private onTick = (): void => {
-    this.sessionTicks = Math.floor((performance.now() - this.tickTimestamp) / 1000);
+    if (this.timezone) {
+      this.synchroniseTimezone(); // always read from the platform, to respect daylight saving changes
+    }
+    else {
+      this.sessionTicks = Math.floor((performance.now() - this.tickTimestamp) / 1000);
+    }
     this.notifyPropertyChange('value', this.value);
   };
 
@@ -218,6 +224,37 @@ export class Clock extends ResponsiveElement {
     }
   }
 
+  private _timezone = '';
+
+  /**
+   * Get timezone value
+   * @returns timezone
+   */
+  @property({ type: String })
+  public get timezone (): string {
+    return this._timezone;
+  }
+
+  /**
+   * IANA timezone name, e.g. `Europe/London`.
+   * When set, the clock displays the current time in the timezone.
+   * When cleared, the clock displays the current local time.
+   * @param timezone new timezone value
+   * @returns {void}
+   */
+  public set timezone (timezone: string) {
+    if (timezone && !isValidTimezone(timezone)) {
+      new WarningNotice(`The specified timezone "${timezone}" is not supported.`).show();
+      timezone = '';
+    }
+    const oldTimezone = this._timezone;
+    if (oldTimezone !== timezone) {
+      this._timezone = timezone;
+      this.synchroniseTimezone();
+      this.requestUpdate('timezone', oldTimezone);
+    }
+  }
+
   private _tick = false;
 
   /**
@@ -423,6 +460,19 @@ export class Clock extends ResponsiveElement {
     this.tickTimestamp = Math.floor(performance.now() / MILLISECONDS_IN_SECOND) * MILLISECONDS_IN_SECOND;
   }
 
+  /**
+   * Sets the base value to the current time in the timezone,
+   * or to the local time if timezone is not set,
+   * and then resets the session.
+   * @returns {void}
+   */
+  private synchroniseTimezone (): void {
+    const { hours, minutes, seconds } = toTimeSegment(format(new Date(), TimeFormat.HHmmss, this.timezone || undefined));
+    this.baseTime = hours * SECONDS_IN_HOUR + minutes * SECONDS_IN_MINUTE + seconds;
+    this.sessionTicks = 0;
+    this.tickTimestamp = Math.floor(performance.now() / MILLISECONDS_IN_SECOND) * MILLISECONDS_IN_SECOND;
+  }
+
   /**
    * Shift the offset by a direction and amount.
    * @param direction direction to shift
@@ -1,4 +1,4 @@
-import { fixture, expect, oneEvent, elementUpdated } from '@refinitiv-ui/test-helpers';
+import { fixture, expect, oneEvent, elementUpdated, createStateStorage } from '@refinitiv-ui/test-helpers';
 
 // import element and theme
 import '@refinitiv-ui/elements/collapse';
@@ -232,4 +232,30 @@ describe('collapse/Collapse', () => {
       expect(el.hasAttribute('expanded')).to.equal(expanded);
     });
   });
+
+  describe('Persisted state', () => {
+    it('Should restore and save expanded state', async () => {
+      const storage = createStateStorage({ news: { expanded: true } });
+      const el = document.createElement('ef-collapse');
+      el.stateStorage = storage;
+      el.stateKey = 'news';
+      const wrapper = await fixture('<div></div>');
+      wrapper.appendChild(el);
+      await elementUpdated(el);
+      expect(el.expanded).to.equal(true, 'Expanded state should be restored');
+
+      el.shadowRoot.querySelector('[part=header-toggle]').dispatchEvent(new Event('tap'));
+      await elementUpdated(el);
+      expect(storage.read('news')).to.deep.equal({ expanded: false });
+    });
+
+    it('Should not save state without state key', async () => {
+      const storage = createStateStorage();
+      const el = await fixture('<ef-collapse></ef-collapse>');
+      el.stateStorage = storage;
+      el.expanded = true;
+      await elementUpdated(el);
+      expect(storage.read('news')).to.equal(null);
+    });
+  });
 });
@@ -12,6 +12,7 @@ import { ifDefined } from '@refinitiv-ui/core/directives/if-defined.js';
 import { state } from '@refinitiv-ui/core/decorators/state.js';
 import { ref, createRef, Ref } from '@refinitiv-ui/core/directives/ref.js';
 import { VERSION } from '../version.js';
+import { PersistedStateController, StateStorage } from '@refinitiv-ui/utils/persistence.js';
 import type { Panel } from '../panel/index.js';
 import { preload } from '../icon/index.js';
 import '../header/index.js';
@@ -113,6 +114,26 @@ export class Collapse extends BasicElement {
   @property({ type: Boolean })
   public spacing = false;
 
+  /**
+   * Key used to save the expanded state,
+   * so it is restored when the page is loaded again
+   */
+  @property({ type: String, attribute: 'state-key' })
+  public stateKey: string | null = null;
+
+  /**
+   * Storage of the saved state. Uses `localStorage` by default.
+   * Set to `null` to stop saving the state
+   * @type {StateStorage | null | undefined}
+   */
+  @property({ attribute: false })
+  public stateStorage?: StateStorage | null;
+
+  /**
+   * Restores and saves the expanded state
+   */
+  private persistedState = new PersistedStateController(this, { expanded: 'boolean' });
+
   /**
    * An ef-panel wrapper
    */
@@ -143,6 +164,38 @@ export class Collapse extends BasicElement {
     }
   }
 
+  /**
+   * Called before the element is updated
+   * @param changedProperties map of changed properties with old values
+   * @returns {void}
+   */
+  protected willUpdate (changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('stateKey') || changedProperties.has('stateStorage')) {
+      this.restoreState();
+    }
+    else if (changedProperties.has('expanded')) {
+      this.saveState();
+    }
+  }
+
+  /**
+   * Restore the expanded state from the storage
+   * @returns {void}
+   */
+  protected restoreState (): void {
+    this.persistedState.restore();
+  }
+
+  /**
+   * Save the expanded state to the storage
+   * @returns {void}
+   */
+  protected saveState (): void {
+    this.persistedState.save();
+  }
+
   /**
    * Called once after the component is first rendered
    * @param changedProperties map of changed properties with old values
@@ -135,7 +135,7 @@ export class ColorPicker extends ControlElement {
    * Return true if popup can be opened
    */
   private get canOpenPopup (): boolean {
-    return !(this.disabled || this.readonly);
+    return !(this.isDisabled || this.readonly);
   }
 
   /**
@@ -0,0 +1,153 @@
+import { fixture, expect, elementUpdated, aTimeout } from '@refinitiv-ui/test-helpers';
+import { data, makeQueryRequest, openedUpdated } from './utils';
+
+import '@refinitiv-ui/elements/combo-box';
+import '@refinitiv-ui/elemental-theme/light/ef-combo-box';
+
+const items = data.filter(item => item.value);
+
+/**
+ * Creates a data source, which filters items by label and records requests
+ * @param {number} pageSize Number of items in a page
+ * @param {number} delay Response delay in milliseconds
+ * @returns {Function} data source
+ */
+const createDataSource = (pageSize = Infinity, delay = 10) => {
+  const dataSource = (query, { page, signal }) => {
+    dataSource.requests.push({ query, page, signal });
+    const matched = items.filter(item => item.label.toLowerCase().includes(query.toLowerCase()));
+    const pageItems = matched.slice(page * pageSize, (page + 1) * pageSize).map(item => ({ ...item }));
+    return new Promise((resolve) => {
+      setTimeout(() => resolve({ items: pageItems, hasMore: (page + 1) * pageSize < matched.length }), delay);
+    });
+  };
+  dataSource.requests = [];
+  return dataSource;
+};
+
+const getListValues = (el) => el.listEl.queryItems((item, composer) => composer.getItemPropertyValue(item, 'hidden') !== true)
+  .map(item => item.value);
+
+describe('combo-box/DataSource', () => {
+  it('Requests items when opened and shows loading state', async () => {
+    const el = await fixture('<ef-combo-box lang="en"></ef-combo-box>');
+    const dataSource = createDataSource(Infinity, 50);
+    el.dataSource = dataSource;
+    el.opened = true;
+    await openedUpdated(el);
+
+    expect(dataSource.requests.length).to.equal(1);
+    expect(dataSource.requests[0].query).to.equal('');
+    expect(dataSource.requests[0].page).to.equal(0);
+    expect(el.hasAttribute('loading')).to.equal(true, 'Element should be loading');
+    expect(el.shadowRoot.querySelector('[part=loader]')).to.exist;
+
+    await aTimeout(100);
+    await elementUpdated(el);
+    expect(el.hasAttribute('loading')).to.equal(false, 'Loading should finish');
+    expect(getListValues(el)).to.deep.equal(['AF', 'AX', 'AL']);
+  });
+
+  it('Does not filter items locally', async () => {
+    const el = await fixture('<ef-combo-box lang="en"></ef-combo-box>');
+    el.dataSource = () => Promise.resolve(items.map(item => ({ ...item })));
+    await makeQueryRequest(el, 'Alb');
+    expect(getListValues(el)).to.deep.equal(['AF', 'AX', 'AL']);
+  });
+
+  it('Requests items for the query and caches results', async () => {
+    const el = await fixture('<ef-combo-box lang="en"></ef-combo-box>');
+    const dataSource = createDataSource();
+    el.dataSource = dataSource;
+    await makeQueryRequest(el, 'Al');
+    expect(getListValues(el)).to.deep.equal(['AX', 'AL']);
+
+    el.query = 'Alb';
+    await aTimeout(50);
+    await elementUpdated(el);
+    expect(getListValues(el)).to.deep.equal(['AL']);
+
+    const requestCount = dataSource.requests.length;
+    el.query = 'Al';
+    await elementUpdated(el);
+    expect(dataSource.requests.length).to.equal(requestCount, 'Cached query should not be requested');
+    expect(getListValues(el)).to.deep.equal(['AX', 'AL']);
+  });
+
+  it('Aborts superseded requests', async () => {
+    const el = await fixture('<ef-combo-box opened lang="en"></ef-combo-box>');
+    const dataSource = createDataSource(Infinity, 50);
+    el.dataSource = dataSource;
+    el.query = 'Af';
+    el.query = 'Al';
+    await aTimeout(100);
+    await elementUpdated(el);
+
+    const [initial, first, last] = dataSource.requests;
+    expect(initial.signal.aborted).to.equal(true);
+    expect(first.signal.aborted).to.equal(true);
+    expect(last.signal.aborted).to.equal(false);
+    expect(getListValues(el)).to.deep.equal(['AX', 'AL']);
+  });
+
+  it('Loads the next page on scroll', async () => {
+    const el = await fixture('<ef-combo-box opened lang="en"></ef-combo-box>');
+    const dataSource = createDataSource(2);
+    el.dataSource = dataSource;
+    await aTimeout(50);
+    await openedUpdated(el);
+    expect(getListValues(el)).to.deep.equal(['AF', 'AX']);
+
+    el.listEl.dispatchEvent(new Event('scroll'));
+    await aTimeout(50);
+    await elementUpdated(el);
+    expect(dataSource.requests[dataSource.requests.length - 1].page).to.equal(1);
+    expect(getListValues(el)).to.deep.equal(['AF', 'AX', 'AL']);
+
+    const requestCount = dataSource.requests.length;
+    el.listEl.dispatchEvent(new Event('scroll'));
+    await aTimeout(50);
+    expect(dataSource.requests.length).to.equal(requestCount, 'Should not request after the last page');
+  });
+
+  it('Preserves selected items, which are not in the results', async () => {
+    const el = await fixture('<ef-combo-box opened multiple lang="en"></ef-combo-box>');
+    el.dataSource = createDataSource();
+    await aTimeout(50);
+    await elementUpdated(el);
+    el.values = ['AF', 'AL'];
+
+    el.query = 'Al';
+    await aTimeout(50);
+    await elementUpdated(el);
+    expect(getListValues(el)).to.deep.equal(['AX', 'AL']);
+    expect(el.values).to.deep.equal(['AL', 'AF']);
+    expect(el.label).to.equal('Albania;  Afghanistan');
+
+    el.query = '';
+    await elementUpdated(el);
+    expect(getListValues(el)).to.deep.equal(['AF', 'AX', 'AL']);
+    expect(el.values.sort()).to.deep.equal(['AF', 'AL']);
+  });
+
+  it('Shows error message and fires data-source-error when request fails', async () => {
+    const el = await fixture('<ef-combo-box opened lang="en"></ef-combo-box>');
+    const error = new Error('Network error');
+    let event;
+    el.addEventListener('data-source-error', (e) => { event = e; });
+    el.dataSource = () => Promise.reject(error);
+    await aTimeout(50);
+    await elementUpdated(el);
+    expect(el.hasAttribute('loading')).to.equal(false);
+    expect(event.detail).to.deep.equal({ query: '', page: 0, error });
+    expect(el.shadowRoot.querySelector('ef-list-item[disabled]').textContent).to.equal('Failed to load results.');
+  });
+
+  it('Shows no results message when request succeeds with no items', async () => {
+    const el = await fixture('<ef-combo-box opened lang="en"></ef-combo-box>');
+    el.dataSource = () => Promise.resolve([]);
+    await aTimeout(50);
+    await elementUpdated(el);
+    expect(el.shadowRoot.querySelector('ef-list-item[disabled]').textContent).to.equal('No results found.');
+  });
+});
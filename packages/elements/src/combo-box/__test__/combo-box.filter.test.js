@@ -30,5 +30,24 @@ describe('combo-box/Filter', () => {
       expect(el.query).to.equal(textInput, 'Query should be the same as input text: "Aland Islands"');
       expect(el).shadowDom.to.equalSnapshot(snapshotIgnore);
     });
+
+    it('Default filter ignores diacritics and matches the start of words', async () => {
+      const el = await fixture('<ef-combo-box opened></ef-combo-box>');
+      el.data = [
+        { label: 'Société Générale', value: 'GLE' },
+        { label: 'Microsoft Corporation', value: 'MSFT' },
+        { label: 'Apple Inc', value: 'AAPL' }
+      ];
+      await elementUpdated(el);
+
+      const getVisibleValues = () => el.composer.queryItems((item, composer) => !composer.getItemPropertyValue(item, 'hidden'))
+        .map(item => item.value);
+
+      await setInputEl(el, 'societe generale');
+      expect(getVisibleValues()).to.deep.equal(['GLE']);
+
+      await setInputEl(el, 'msft corp');
+      expect(getVisibleValues()).to.deep.equal(['MSFT']);
+    });
   });
 });
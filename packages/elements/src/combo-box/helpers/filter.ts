@@ -1,36 +1,36 @@
 import type { DataItem } from '@refinitiv-ui/utils/collection.js';
+import { createMatcher, Matcher } from '@refinitiv-ui/utils/matching.js';
 import type { ComboBox } from '../index';
 import type { ComboBoxFilter } from './types';
 import type { ItemText, ItemData } from '../../item';
 
 /**
- * Default filter used by combo box
+ * Default filter used by combo box.
+ * Matching is case and diacritic insensitive,
+ * and supports matching the start of words, e.g. `msft corp` matches `Microsoft Corporation`
  * @param el ComboBox instance to filter
  * @returns Filter accepting an item
  */
 export const defaultFilter = <T extends DataItem = ItemData>(el: ComboBox<T>): ComboBoxFilter<T> => {
-  // reference query string for validating queryRegExp cache state
+  // reference query string for validating matcher cache state
   let query = '';
-  // cache RegExp
-  let queryRegExp: RegExp | undefined;
+  // cache matcher
+  let matcher: Matcher | undefined;
 
-  // Get current RegExp, or renew if out of date
+  // Get current matcher, or renew if out of date
   // this is fetched on demand by filter/renderer
   // only created once per query
-  const getRegularExpressionOfQuery = (): RegExp => {
-    if (el.query !== query || !queryRegExp) {
+  const getMatcherOfQuery = (): Matcher => {
+    if (el.query !== query || !matcher) {
       query = el.query || '';
-      queryRegExp = new RegExp(query.replace(/(\W)/g, '\\$1'), 'i');
+      matcher = createMatcher(query);
     }
-    return queryRegExp;
+    return matcher;
   };
 
   // return scoped custom filter
   return (item): boolean => {
-    const regex = getRegularExpressionOfQuery();
-    const result = regex.test((item as unknown as ItemText).label);
-    // this example uses global scope, so the index needs resetting
-    regex.lastIndex = 0;
-    return result;
+    const label = (item as unknown as ItemText).label;
+    return !!getMatcherOfQuery()(label ? String(label) : '');
   };
 };
@@ -11,3 +11,41 @@ import type { ItemData } from '../../item';
 export type ComboBoxFilter<T extends DataItem = ItemData> = (item: T) => boolean;
 
 export type ComboBoxData<T extends DataItem = ItemData> = T[] | Promise<T[]>;
+
+/**
+ * Options passed to the data source on each request
+ */
+export type ComboBoxDataSourceOptions = {
+  /**
+   * Zero-based index of the requested page
+   */
+  page: number;
+  /**
+   * Aborted when the request is superseded by another query or the data source changes
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * A page of items returned by the data source
+ */
+export type ComboBoxDataSourceResult<T extends DataItem = ItemData> = {
+  /**
+   * Items matching the query
+   */
+  items: T[];
+  /**
+   * Set to true if there are more pages to load on scroll
+   */
+  hasMore?: boolean;
+};
+
+/**
+ * Fetches items matching the query, e.g. from a server.
+ * Returning an array of items is the same as returning a single page without `hasMore`
+ *
+ * @param query Query string typed by the user
+ * @param options Requested page and abort signal
+ * @return Items matching the query
+ */
+export type ComboBoxDataSource<T extends DataItem = ItemData> = (query: string, options: ComboBoxDataSourceOptions) => Promise<T[] | ComboBoxDataSourceResult<T>>;
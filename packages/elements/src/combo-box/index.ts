@@ -13,6 +13,7 @@ import {
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
+import { state } from '@refinitiv-ui/core/decorators/state.js';
 import { eventOptions } from '@refinitiv-ui/core/decorators/event-options.js';
 import { styleMap } from '@refinitiv-ui/core/directives/style-map.js';
 import { ifDefined } from '@refinitiv-ui/core/directives/if-defined.js';
@@ -29,15 +30,28 @@ import '../icon/index.js';
 import '../overlay/index.js';
 import '../list/index.js';
 import '../counter/index.js';
+import '../loader/index.js';
 
 import type { ItemData } from '../item';
-import type { ComboBoxData, ComboBoxFilter } from './helpers/types';
+import type {
+  ComboBoxData,
+  ComboBoxFilter,
+  ComboBoxDataSource,
+  ComboBoxDataSourceOptions,
+  ComboBoxDataSourceResult
+} from './helpers/types';
 import type { List } from '../list';
 
 import { translate, TranslateDirective } from '@refinitiv-ui/translate';
 import '@refinitiv-ui/phrasebook/locale/en/combo-box.js';
 
-export type { ComboBoxFilter, ComboBoxData };
+export type {
+  ComboBoxFilter,
+  ComboBoxData,
+  ComboBoxDataSource,
+  ComboBoxDataSourceOptions,
+  ComboBoxDataSourceResult
+};
 export { ComboBoxRenderer };
 
 const QUERY_DEBOUNCE_RATE = 0;
@@ -51,6 +65,27 @@ const MULTIPLE_LABEL_SEPARATOR = ';  ';
 
 const POPUP_POSITION = ['bottom-start', 'top-start'];
 
+// Distance in pixels from the bottom of the list, at which the next page is requested
+const NEXT_PAGE_SCROLL_THRESHOLD = 50;
+
+/**
+ * Items loaded from the data source for a query
+ */
+type DataSourceCacheEntry<T> = {
+  items: T[];
+  page: number;
+  hasMore: boolean;
+};
+
+/**
+ * Request to the data source, which is in progress
+ */
+type DataSourceRequest = {
+  query: string;
+  page: number;
+  controller: AbortController;
+};
+
 const valueFormatWarning = new WarningNotice('The specified \'values\' format does not conform to the required format.');
 const freeTextMultipleWarning = new WarningNotice('"free-text" mode is not compatible with "multiple" mode');
 
@@ -69,6 +104,7 @@ const freeTextMultipleWarning = new WarningNotice('"free-text" mode is not compa
  * @fires value-changed - Dispatched when value changes
  * @fires query-changed - Dispatched when query changes
  * @fires opened-changed - Dispatched when opened state changes
+ * @fires data-source-error - Dispatched when `dataSource` request fails
  */
 @customElement('ef-combo-box', {
   alias: 'coral-combo-box'
@@ -188,6 +224,13 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
     return this._freeText;
   }
 
+  /**
+   * Only render list items which are in view.
+   * Improves performance for large data sets.
+   */
+  @property({ type: Boolean })
+  public virtual = false;
+
   /**
    * Set state to error
    */
@@ -222,6 +265,30 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
     }
   }
 
+  private _dataSource: ComboBoxDataSource<T> | null = null;
+  /**
+   * Fetches items matching the query, e.g. from a server.
+   * Replaces local filtering of `data`. Requests are debounced using `query-debounce-rate`,
+   * cached per query and aborted when superseded.
+   * @type {ComboBoxDataSource<T> | null}
+   * @default null
+   */
+  @property({ attribute: false })
+  public get dataSource (): ComboBoxDataSource<T> | null {
+    return this._dataSource;
+  }
+  public set dataSource (value: ComboBoxDataSource<T> | null) {
+    const oldValue = this._dataSource;
+    if (value !== oldValue) {
+      this._dataSource = value;
+      this.clearDataSourceCache();
+      if (value && this.opened) {
+        void this.requestDataSource();
+      }
+      this.requestUpdate('dataSource', oldValue);
+    }
+  }
+
   private _data: ComboBoxData<T> = []; // Local data object set through data setter
   /**
    * Data array to be displayed
@@ -264,6 +331,21 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
     }
   }
 
+  /**
+   * Value to be submitted with the form.
+   * Submits an entry per selected value in multiple mode
+   */
+  protected override get formValue (): string | FormData | null {
+    return this.multiple ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
   /**
    * Returns a values collection of the currently
    * selected item values
@@ -482,6 +564,192 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
     }
   }
 
+  /**
+   * Items loaded from the data source, stored by query
+   */
+  private dataSourceCache = new Map<string, DataSourceCacheEntry<T>>();
+
+  /**
+   * Data source request in progress
+   */
+  private dataSourceRequest: DataSourceRequest | null = null;
+
+  /**
+   * Clears items cached from the data source and aborts a request in progress.
+   * Call when data on the server has changed.
+   * @returns {void}
+   */
+  public clearDataSourceCache (): void {
+    this.dataSourceCache.clear();
+    this.abortDataSourceRequest();
+  }
+
+  /**
+   * Aborts the data source request in progress, if any
+   * @returns {void}
+   */
+  protected abortDataSourceRequest (): void {
+    if (this.dataSourceRequest) {
+      this.dataSourceRequest.controller.abort();
+      this.dataSourceRequest = null;
+      this.loading = false;
+    }
+  }
+
+  /**
+   * Requests items matching the current query from the data source.
+   * Items are taken from cache, if the query has been requested before.
+   * @param nextPage Request the next page of the current query
+   * @returns Promise<void>
+   */
+  protected async requestDataSource (nextPage = false): Promise<void> {
+    const dataSource = this.dataSource;
+    if (!dataSource) {
+      return;
+    }
+
+    const query = this.query || '';
+    const cached = this.dataSourceCache.get(query);
+
+    if (nextPage && !cached?.hasMore) {
+      return;
+    }
+
+    const page = nextPage && cached ? cached.page + 1 : 0;
+    const pending = this.dataSourceRequest;
+
+    // Same request is already in progress
+    if (pending && pending.query === query && pending.page === page) {
+      return;
+    }
+
+    this.abortDataSourceRequest();
+
+    if (!nextPage) {
+      this.dataSourceFailed = false;
+    }
+
+    if (cached && !nextPage) {
+      this.applyDataSourceItems(cached.items);
+      return;
+    }
+
+    const controller = new AbortController();
+    const request = this.dataSourceRequest = { query, page, controller };
+    this.loading = true;
+
+    let items: T[] = [];
+    let hasMore = false;
+    let failed = false;
+    let error: unknown;
+    try {
+      const result = await dataSource(query, { page, signal: controller.signal });
+      items = Array.isArray(result) ? result : result.items;
+      hasMore = !Array.isArray(result) && !!result.hasMore;
+    }
+    catch (reason) {
+      failed = true;
+      error = reason;
+    }
+
+    if (this.dataSourceRequest !== request) {
+      return;
+    }
+
+    this.dataSourceRequest = null;
+    this.loading = false;
+
+    if (failed) {
+      this.dispatchEvent(new CustomEvent('data-source-error', {
+        detail: { query, page, error }
+      }));
+    }
+
+    if (nextPage && cached) {
+      // A failed page can be requested again on scroll
+      if (!failed) {
+        this.dataSourceCache.set(query, { items: [...cached.items, ...items], page, hasMore });
+        this.appendDataSourceItems(items);
+      }
+      return;
+    }
+
+    // Failed requests are not cached, so that the query can be retried
+    if (failed) {
+      this.dataSourceFailed = true;
+    }
+    else {
+      this.dataSourceCache.set(query, { items, page, hasMore });
+    }
+    this.applyDataSourceItems(items);
+  }
+
+  /**
+   * Replaces items with the data source results.
+   * Selected items, which are not part of the results,
+   * are kept hidden, so that the selection is preserved.
+   * @param items Data source results
+   * @returns {void}
+   */
+  protected applyDataSourceItems (items: T[]): void {
+    const selection = this.selection;
+    const selectedValues = selection.map(item => this.getItemPropertyValue(item, 'value'));
+    const resultValues = new Set(items.map(item => item.value));
+    const retainedItems = selection.filter(item => !items.includes(item) && !resultValues.has(item.value));
+
+    this.resolvedData = [...items, ...retainedItems];
+
+    this.queryItems((item, composer): boolean => {
+      if (selectedValues.includes(composer.getItemPropertyValue(item, 'value'))) {
+        composer.setItemPropertyValue(item, 'selected', true);
+      }
+      if (retainedItems.includes(item)) {
+        composer.setItemPropertyValue(item, 'hidden', true);
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Appends the next page of data source results to the list
+   * @param items Data source results
+   * @returns {void}
+   */
+  protected appendDataSourceItems (items: T[]): void {
+    const addedItems: T[] = [];
+
+    items.forEach((item) => {
+      const retainedItem = this.queryItemsByPropertyValue('value', item.value)[0];
+      if (retainedItem && this.getItemPropertyValue(retainedItem, 'hidden') === true) {
+        // Selected item, which was kept from previous results, has been loaded
+        this.setItemPropertyValue(retainedItem, 'hidden', false);
+        return;
+      }
+      this.composer.addItem(item);
+      addedItems.push(item);
+    });
+
+    this._resolvedData = [...this._resolvedData, ...addedItems];
+    this.forcePopupLayout();
+    this.requestUpdate();
+  }
+
+  /**
+   * Requests the next page from the data source,
+   * once the list is scrolled close to the bottom
+   * @param event Scroll event of the list
+   * @returns {void}
+   */
+  protected onListScroll (event: Event): void {
+    const list = event.target as HTMLElement;
+    if (!this.dataSource || this.loading) {
+      return;
+    }
+    if (list.scrollTop + list.clientHeight >= list.scrollHeight - NEXT_PAGE_SCROLL_THRESHOLD) {
+      void this.requestDataSource(true);
+    }
+  }
+
   /**
    * The the values from composer ignoring freeTextValue
    */
@@ -507,6 +775,13 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
   @property({ type: Boolean, reflect: true })
   protected loading = false;
 
+  /**
+   * True if the last data source request has failed.
+   * Used to tell failed requests from empty results
+   */
+  @state()
+  protected dataSourceFailed = false;
+
   /**
    * Used for translations
    */
@@ -598,6 +873,7 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
         // this is the case if keyboard navigation is used
         this.queryDebouncer.fulfil();
         this.opening();
+        void this.requestDataSource();
       }
       else {
         this.clearHighlighted();
@@ -811,8 +1087,14 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
    * @returns {void}
    */
   protected filterItems (): void {
+    // data source filters items itself
+    if (this.dataSource) {
+      if (this.opened) {
+        void this.requestDataSource();
+      }
+    }
     // if filter is null, it is off and external app is responsible
-    if (this.filter) {
+    else if (this.filter) {
       // we do not produce a new list as it will loose all association with this composer
       // unless we spent time re-applying this composer to a new list/composer
       // instead we change the hidden state
@@ -1012,7 +1294,7 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
    */
   protected onTapStart (event: TapEvent): void {
     // do nothing if disabled or readonly
-    if (this.readonly || this.disabled) {
+    if (this.readonly || this.isDisabled) {
       return;
     }
 
@@ -1253,8 +1535,10 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
         id="internal-list"
         tabindex
         @value-changed="${this.onListValueChanged}"
+        @scroll="${this.onListScroll}"
         .data="${this.composer}"
         .multiple="${this.multiple}"
+        .virtual="${this.virtual}"
         .renderer="${this.renderer}"
         ></ef-list>
     `;
@@ -1262,14 +1546,35 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
 
   /**
    * Returns a template showing no options text
-   * Called when freeText mode is off and all items are filtered out
+   * Called when freeText mode is off and all items are filtered out,
+   * or shows an error when the data source request has failed
    */
   protected get noItemsTemplate (): TemplateResult | undefined {
+    if (this.dataSourceFailed) {
+      return html`<ef-list-item disabled>${this.t('LOAD_FAILED')}</ef-list-item>`;
+    }
     if (!this.freeText) {
       return html`<ef-list-item disabled>${this.t('NO_OPTIONS')}</ef-list-item>`;
     }
   }
 
+  /**
+   * True while items are being requested from the data source
+   */
+  protected get dataSourceLoading (): boolean {
+    return !!this.dataSource && this.loading;
+  }
+
+  /**
+   * Returns a loader template
+   * Shown while items are being loaded from the data source
+   */
+  protected get loaderTemplate (): TemplateResult | undefined {
+    if (this.dataSourceLoading) {
+      return html`<div part="loader"><ef-loader size="small" aria-label="${this.t('LOADING')}" aria-live="polite"></ef-loader></div>`;
+    }
+  }
+
   /**
    * Returns template for popup
    * Lazy loads the popup
@@ -1284,7 +1589,7 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
         @opened="${this.onPopupOpened}"
         @closed="${this.onPopupClosed}"
         .focusBoundary="${this}"
-        .opened="${this.opened && (hasVisibleItems || !this.freeText)}"
+        .opened="${this.opened && (hasVisibleItems || this.dataSourceLoading || this.dataSourceFailed || !this.freeText)}"
         .positionTarget="${this}"
         .position="${POPUP_POSITION}"
         with-shadow
@@ -1292,7 +1597,7 @@ export class ComboBox<T extends DataItem = ItemData> extends FormFieldElement {
         no-focus-management
         no-autofocus
         @focusin="${this.shiftFocus}"
-      >${hasVisibleItems ? this.listTemplate : this.noItemsTemplate}</ef-overlay>`;
+      >${hasVisibleItems ? this.listTemplate : this.dataSourceLoading ? undefined : this.noItemsTemplate}${this.loaderTemplate}</ef-overlay>`;
     }
   }
 
@@ -1,4 +1,4 @@
-import { fixture, expect, html, elementUpdated } from '@refinitiv-ui/test-helpers';
+import { fixture, expect, html, elementUpdated, nextFrame } from '@refinitiv-ui/test-helpers';
 import { convertToCompactNotation } from '../../../lib/counter/utils';
 
 // import element and theme
@@ -36,10 +36,19 @@ describe('counter/Counter', () => {
       expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("25");
     });
 
-    it('Should display 0 and return its value as empty string if value is negative', async () => {
+    it('Should display negative value', async () => {
       const el = await fixture(html`<ef-counter value="-10"></ef-counter>`);
-      expect(el.value).to.equal('');
-      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("0");
+      expect(el.value).to.equal('-10');
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("-10");
+
+      el.value = '-1500';
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("-1.5K");
+    });
+
+    it('Should display decimal value', async () => {
+      const el = await fixture(html`<ef-counter value="9.99"></ef-counter>`);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("9.9");
     });
 
     it('Should display and return its value correctly if value is zero or positive', async () => {
@@ -265,21 +274,68 @@ describe('counter/Counter', () => {
       expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("100T+");
     });
   });
+
+  describe('Format options and locale', () => {
+    it('Should use lang of the element', async () => {
+      const el = await fixture(html`<ef-counter lang="ja" value="150000000"></ef-counter>`);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("1.5億");
+
+      el.lang = 'en';
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("150M");
+    });
+
+    it('Should apply notation of format options', async () => {
+      const el = await fixture(html`<ef-counter lang="en" value="1500000"></ef-counter>`);
+      el.formatOptions = { notation: 'compact', compactDisplay: 'long' };
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("1.5 million");
+
+      el.formatOptions = { notation: 'scientific' };
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("1.5E6");
+
+      el.formatOptions = { notation: 'engineering' };
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("1.5E6");
+
+      el.formatOptions = { notation: 'standard' };
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("1,500,000");
+    });
+
+    it('Should use custom formatter for value and max', async () => {
+      const el = await fixture(html`<ef-counter value="120" max="99"></ef-counter>`);
+      el.formatter = (value) => `#${value}`;
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("#99+");
+
+      el.value = '50';
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelector('[part=number]').textContent.trim()).to.equal("#50");
+    });
+  });
 });
 
 describe('CompactNotation Util Test', () => {
-  it('Should not format value if it is negative', async () => {
+  it('Should format value correctly if it is negative', async () => {
     let value = convertToCompactNotation(-100);
     expect(value).to.equal('-100');
 
     value = convertToCompactNotation(-1000000);
-    expect(value).to.equal('-1000000');
+    expect(value).to.equal('-1M');
 
     value = convertToCompactNotation(-1000000000);
-    expect(value).to.equal('-1000000000');
+    expect(value).to.equal('-1B');
 
     value = convertToCompactNotation(-1000000000000);
-    expect(value).to.equal('-1000000000000');    
+    expect(value).to.equal('-1T');
+  });
+
+  it('Should format value following the locale', async () => {
+    expect(convertToCompactNotation(12345, 'ja')).to.equal('1.2万');
+    expect(convertToCompactNotation(123456789, 'ja')).to.equal('1.2億');
   });
 
   describe('Should format value correctly if it is positive', () => {
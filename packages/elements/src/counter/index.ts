@@ -4,19 +4,33 @@ import {
   css,
   WarningNotice,
   TemplateResult,
-  CSSResultGroup
+  CSSResultGroup,
+  PropertyValues
 } from '@refinitiv-ui/core';
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
+import { getLocale, observeLocale, disconnectLocale } from '@refinitiv-ui/translate';
+import { resolveNumberLocale } from '@refinitiv-ui/utils/number.js';
 import { VERSION } from '../version.js';
+import { registerOverflowTooltip } from '../tooltip/index.js';
 import {
-  truncateDecimal,
-  convertToCompactNotation
+  formatCounterValue,
+  formatFullValue
 } from './utils.js';
 
+/**
+ * Custom formatter of the counter value
+ * @param value Value to format
+ * @param locale Locale of the element
+ * @returns Text to display
+ */
+export type CounterFormatter = (value: number, locale: string) => string;
+
 /**
  * Counter is an item count badge,
  * support maximun display number and notation of large numbers.
+ *
+ * @attr {string} lang - Locale used to format the number
  */
 @customElement('ef-counter', {
   alias: 'coral-counter'
@@ -47,7 +61,7 @@ export class Counter extends BasicElement {
    */
   @property({ type: String })
   public set value (value: string) {
-    value = this.validateValue(value, 'value');
+    value = this.validateValue(value, 'value', true);
     const oldValue = this._value;
     if (oldValue !== value) {
       this._value = value;
@@ -87,19 +101,83 @@ export class Counter extends BasicElement {
     return this._max;
   }
 
+  /**
+   * `Intl.NumberFormat` options used to display the value and max.
+   * By default, numbers are shown in short compact notation, e.g. `1.9K`.
+   * Use `{ notation: 'compact', compactDisplay: 'long' }`, `{ notation: 'scientific' }`
+   * or `{ notation: 'engineering' }` to change it.
+   * @type {Intl.NumberFormatOptions | null}
+   * @default null
+   */
+  @property({ attribute: false })
+  public formatOptions: Intl.NumberFormatOptions | null = null;
+
+  /**
+   * Custom function to format the value and max.
+   * Takes precedence over `formatOptions`.
+   * @type {CounterFormatter | null}
+   * @default null
+   */
+  @property({ attribute: false })
+  public formatter: CounterFormatter | null = null;
+
+  /**
+   * Called when the element has been appended to the DOM
+   * @returns {void}
+   */
+  public override connectedCallback (): void {
+    super.connectedCallback();
+    observeLocale(this);
+  }
+
+  /**
+   * Called when the element has been removed from the DOM
+   * @returns {void}
+   */
+  public override disconnectedCallback (): void {
+    super.disconnectedCallback();
+    disconnectLocale(this);
+  }
+
+  /**
+   * Called once after the component is first rendered
+   * @param changedProperties map of changed properties with old values
+   * @returns {void}
+   */
+  protected override firstUpdated (changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    // abbreviated or capped value shows the full value on hover
+    registerOverflowTooltip(this, () => this.fullValue, () => this.formatValue(this.value) !== this.fullValue);
+  }
+
+  /**
+   * Locale used to format numbers
+   */
+  private get numberLocale (): string {
+    return resolveNumberLocale(getLocale(this));
+  }
+
+  /**
+   * Value without abbreviation, e.g. `1,234,567`
+   */
+  private get fullValue (): string {
+    return formatFullValue(Number(this.value), this.numberLocale);
+  }
+
   /**
    * Cast and validate value to string
    * @param value Value that is not string which may be set by app developer, e.g. number or invalid string or null or undefined
    * @param propName name of property that being validate
+   * @param allowNegative true if negative number is valid
    * @returns string representation of the value or return empty string if value is invalid string number
    */
-  protected validateValue (value: unknown, propName = ''): string {
+  protected validateValue (value: unknown, propName = '', allowNegative = false): string {
     // Has a number been passed?
     if (typeof value === 'number') {
       value = value.toString(); // stringify the number
     }
     // Do we have a valid number string?
-    if (typeof value === 'string' && this.isValidNumber(value)) {
+    if (typeof value === 'string' && this.isValidNumber(value) && (allowNegative || Number(value) >= 0)) {
       return value;
     }
     new WarningNotice(`${this.localName} : The specified value "${value as string}" of ${propName} property is not valid. Default value will be used instead.`).show();
@@ -114,7 +192,17 @@ export class Counter extends BasicElement {
    */
   protected isValidNumber (value: string): boolean {
     const number = Number(value);
-    return !isNaN(number) && isFinite(number) && number >= 0;
+    return !isNaN(number) && isFinite(number);
+  }
+
+  /**
+   * Format a number using `formatter` or `formatOptions`
+   * @param value Number to format
+   * @returns {string} formatted number
+   */
+  protected formatNumber (value: number): string {
+    const locale = this.numberLocale;
+    return this.formatter ? this.formatter(value, locale) : formatCounterValue(value, locale, this.formatOptions);
   }
 
   /**
@@ -123,18 +211,12 @@ export class Counter extends BasicElement {
    * @returns {string} formatted value
    */
   protected formatValue (value: string): string {
-    if (value === '') {
-      return '0';
-    }
-
-    // Truncate decimal to integer.
-    const countValue = truncateDecimal(value);
-    const maxValue = this.max ? truncateDecimal(this.max) : Infinity;
-
+    const countValue = Number(value); // empty value is 0
+    const maxValue = this.max ? Number(this.max) : Infinity;
 
     // Format value if value greater than max
     // If max is null, it will show the value
-    return countValue > maxValue ? `${convertToCompactNotation(maxValue)}+` : convertToCompactNotation(countValue);
+    return countValue > maxValue ? `${this.formatNumber(maxValue)}+` : this.formatNumber(countValue);
   }
 
   /**
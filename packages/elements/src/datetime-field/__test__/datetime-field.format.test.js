@@ -42,4 +42,35 @@ describe('datetime-field/Format', () => {
     await elementUpdated(el);
     expect(inputValue(el)).to.be.equal('21/04/88');
   });
+  describe('Timezone', () => {
+    it('Should display value as wall clock time in the timezone', async () => {
+      const el = await fixture('<ef-datetime-field lang="en-gb" timepicker timezone="America/New_York" value="2020-07-01T10:00"></ef-datetime-field>');
+      expect(inputValue(el)).to.be.equal('1 Jul 2020, 10:00');
+      expect(el.valueAsNumber).to.be.equal(Date.UTC(2020, 6, 1, 14, 0));
+    });
+    it('Should convert valueAsDate into the timezone', async () => {
+      const el = await fixture('<ef-datetime-field lang="en-gb" timepicker timezone="Asia/Tokyo"></ef-datetime-field>');
+      el.valueAsDate = new Date(Date.UTC(2020, 0, 1, 0, 0));
+      await elementUpdated(el);
+      expect(el.value).to.be.equal('2020-01-01T09:00');
+    });
+    it('Should reset invalid timezone', async () => {
+      const el = await fixture('<ef-datetime-field lang="en-gb" timepicker timezone="Invalid/Timezone" value="2020-01-01T09:00"></ef-datetime-field>');
+      expect(el.timezone).to.be.equal('');
+      expect(inputValue(el)).to.be.equal('1 Jan 2020, 09:00');
+    });
+    it('Should ignore invalid timezone of format options', async () => {
+      const el = await fixture('<ef-datetime-field lang="en-gb" value="2020-01-01"></ef-datetime-field>');
+      el.formatOptions = { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'Invalid/Timezone' };
+      await elementUpdated(el);
+      expect(inputValue(el)).to.be.equal('1 Jan 2020');
+    });
+    it('Should keep value when timezone changes', async () => {
+      const el = await fixture('<ef-datetime-field lang="en-gb" timepicker value="2020-01-01T09:00"></ef-datetime-field>');
+      el.timezone = 'Europe/London';
+      await elementUpdated(el);
+      expect(el.value).to.be.equal('2020-01-01T09:00');
+      expect(inputValue(el)).to.be.equal('1 Jan 2020, 09:00');
+    });
+  });
 });
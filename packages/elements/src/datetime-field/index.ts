@@ -11,12 +11,14 @@ import { state } from '@refinitiv-ui/core/decorators/state.js';
 import { TemplateMap } from '@refinitiv-ui/core/directives/template-map.js';
 import { AnimationTaskRunner } from '@refinitiv-ui/utils/async.js';
 import {
-  utcParse,
-  utcFormat,
+  parse,
+  format,
+  DateFormat,
   getFormat,
   isBefore,
   isAfter,
   iterateUnit,
+  isValidTimezone,
   Locale
 } from '@refinitiv-ui/utils/date.js';
 import {
@@ -168,12 +170,36 @@ export class DatetimeField extends TextField {
     return this._amPm;
   }
 
+  private _timezone = '';
+  /**
+   * IANA timezone name, e.g. `America/New_York`.
+   * Value is the wall clock time in the timezone. Defaults to UTC
+   * @param timezone Timezone name
+   * @default -
+   */
+  @property({ type: String })
+  public set timezone (timezone: string) {
+    if (timezone && !isValidTimezone(timezone)) {
+      new WarningNotice(`The specified timezone "${timezone}" is not supported.`).show();
+      timezone = '';
+    }
+    const oldTimezone = this._timezone;
+    if (oldTimezone !== timezone) {
+      this._timezone = timezone;
+      this._locale = null;
+      this.requestUpdate('timezone', oldTimezone);
+    }
+  }
+  public get timezone (): string {
+    return this._timezone;
+  }
+
   private _formatOptions: Intl.DateTimeFormatOptions | null = null;
   /**
    * Set the datetime format options based on
    * https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/DateTimeFormat/DateTimeFormat
    * `formatOptions` overrides `timepicker` and `showSeconds` properties.
-   * Note: time-zone is not supported
+   * Note: `timezone` property takes precedence over `timeZone` option
    * @param formatOptions Format options
    * @default - null
    */
@@ -247,7 +273,7 @@ export class DatetimeField extends TextField {
    * Returns the value of the element, interpreted as Date
    */
   public get valueAsDate (): null | Date {
-    return this.value ? utcParse(this.value) : null;
+    return this.value ? parse(this.value, this.locale.timeZone) : null;
   }
 
   /**
@@ -270,7 +296,7 @@ export class DatetimeField extends TextField {
    * @returns dateSting
    */
   protected dateToString (value: Date): string {
-    return isNaN(value.getTime()) ? '' : utcFormat(value, this.locale.isoFormat);
+    return isNaN(value.getTime()) ? '' : format(value, this.locale.isoFormat, this.locale.timeZone);
   }
 
   /**
@@ -302,6 +328,13 @@ export class DatetimeField extends TextField {
    * Get today's date noon as the start date when the value is not set
    */
   protected get startDate (): string {
+    const timezone = this.locale.timeZone;
+    if (timezone !== 'UTC') {
+      // Noon in the timezone
+      const today = format(new Date(), DateFormat.yyyyMMdd, timezone);
+      return this.dateToString(parse(`${today}T12:00`, timezone));
+    }
+
     // Noon in UTC
     const today = new Date();
     const date = new Date(0);
@@ -343,6 +376,7 @@ export class DatetimeField extends TextField {
       || changedProperties.has('timepicker')
       || changedProperties.has('showSeconds')
       || changedProperties.has('amPm')
+      || changedProperties.has('timezone')
       || (changedProperties.has(FocusedPropertyKey) && this.value !== '' && !this.focused);
   }
 
@@ -379,7 +413,7 @@ export class DatetimeField extends TextField {
    * @returns {void}
    */
   protected override validateInput (): void {
-    this.reportValidity();
+    this.validate();
   }
 
   /**
@@ -412,7 +446,7 @@ export class DatetimeField extends TextField {
     const hasTimePicker = this.hasTimePicker;
 
     // TODO: Do not use dateStyle and timeStyle as these are supported only in modern browsers
-    return Locale.fromOptions(this.formatOptions || {
+    const options = this.formatOptions || {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -420,7 +454,15 @@ export class DatetimeField extends TextField {
       minute: hasTimePicker ? 'numeric' : undefined,
       second: this.hasSeconds ? 'numeric' : undefined,
       hour12: this.hasAmPm ? true : undefined // force am-pm if provided, otherwise rely on locale
-    }, `${getLocale(this)}`);
+    };
+
+    let timeZone = this.timezone || options.timeZone;
+    if (timeZone && !isValidTimezone(timeZone)) {
+      new WarningNotice(`The specified timezone "${timeZone}" of format options is not supported.`).show();
+      timeZone = undefined;
+    }
+
+    return Locale.fromOptions({ ...options, timeZone }, `${getLocale(this)}`);
   }
 
   /**
@@ -437,8 +479,7 @@ export class DatetimeField extends TextField {
    * @returns parts
    */
   protected formatToParts (value: string): DateTimeFormatPart[] {
-    const date = utcParse(value);
-    return this.formatter.formatToParts(date);
+    return this.locale.formatToParts(value);
   }
 
   /**
@@ -447,7 +488,7 @@ export class DatetimeField extends TextField {
    * @returns inputValue
    */
   protected toInputValue (value: string): string {
-    return value ? this.formatter.format(utcParse(value)) : '';
+    return value ? this.locale.format(value) : '';
   }
 
   /**
@@ -484,51 +525,42 @@ export class DatetimeField extends TextField {
    * @returns {void}
    */
   protected resetError (): void {
-    if (this.error && this.checkValidity()) {
-      this.reportValidity();
+    if (this.error && this.updateValidity()) {
+      this.notifyErrorChange(false);
     }
   }
 
   /**
-   * Returns true if an input element contains valid data.
-   * @returns true if input is valid
+   * Get the constraints the element is suffering from
+   * @returns validity state flags
    */
-  public checkValidity (): boolean {
+  protected override getValidityFlags (): ValidityStateFlags {
+    const flags = super.getValidityFlags();
     const inputValue = this.inputValue;
 
     // Invalid input value
     if (inputValue && !this.toValue(inputValue)) {
-      return false;
+      return { ...flags, badInput: true };
     }
 
     const value = this.value;
 
-    // No support for required
+    // Empty value can only fail required constraint, which is checked by the base class
     if (value === '') {
-      return true;
+      return flags;
     }
 
     // Value before min
     if (this.min && value !== this.min && isBefore(value, this.min)) {
-      return false;
+      return { ...flags, rangeUnderflow: true };
     }
 
     // Value after max
     if (this.max && value !== this.max && isAfter(value, this.max)) {
-      return false;
+      return { ...flags, rangeOverflow: true };
     }
 
-    return true;
-  }
-
-  /**
-   * Validate input. Mark as error if input is invalid
-   * @returns false if there is an error
-   */
-  public reportValidity (): boolean {
-    const hasError = !this.checkValidity();
-    this.notifyErrorChange(hasError);
-    return !hasError;
+    return flags;
   }
 
   /**
@@ -609,16 +641,16 @@ export class DatetimeField extends TextField {
             case 'hour':
             case 'minute':
             case 'second':
-              newValue = iterateUnit(this.value, selectedPart.type, amount);
+              newValue = iterateUnit(this.value, selectedPart.type, amount, this.locale.timeZone);
               break;
             case 'weekday':
-              newValue = iterateUnit(this.value, 'day', amount);
+              newValue = iterateUnit(this.value, 'day', amount, this.locale.timeZone);
               break;
             case 'dayPeriod':
-              newValue = iterateUnit(this.value, 'hour', amount * 12);
+              newValue = iterateUnit(this.value, 'hour', amount * 12, this.locale.timeZone);
               break;
             case 'fractionalSecond':
-              newValue = iterateUnit(this.value, 'millisecond', amount * 100);
+              newValue = iterateUnit(this.value, 'millisecond', amount * 100, this.locale.timeZone);
               break;
             // no default
           }
@@ -662,7 +694,7 @@ export class DatetimeField extends TextField {
    * @returns {void}
    */
   protected onInputKeyDown (event: KeyboardEvent): void {
-    if (this.readonly || this.disabled || event.defaultPrevented) {
+    if (this.readonly || this.isDisabled || event.defaultPrevented) {
       return;
     }
 
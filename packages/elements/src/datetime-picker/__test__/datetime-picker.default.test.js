@@ -83,6 +83,12 @@ describe('datetime-picker/DatetimePicker', () => {
       expect(el.inputEl.value).to.be.equal('21-04-20 14:58:59', 'Custom format is not applied');
     });
   });
+  describe('Timezone', () => {
+    it('Invalid timezone should be reset', async () => {
+      const el = await fixture('<ef-datetime-picker opened timepicker timezone="Invalid/Timezone"></ef-datetime-picker>');
+      expect(el.timezone).to.be.equal('');
+    });
+  });
   describe('Placeholder Test', () => {
     it('Default Placeholder', async () => {
       const el = await fixture('<ef-datetime-picker lang="en-gb" duplex></ef-datetime-picker>');
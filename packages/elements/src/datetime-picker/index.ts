@@ -48,7 +48,8 @@ import {
   DateFormat,
   DateTimeFormat,
   parse,
-  format
+  format,
+  isValidTimezone
 } from '@refinitiv-ui/utils/date.js';
 
 import {
@@ -243,6 +244,29 @@ export class DatetimePicker extends ControlElement implements MultiValue {
   @property({ type: Number, attribute: 'first-day-of-week' })
   public firstDayOfWeek?: number;
 
+  private _timezone = '';
+  /**
+   * IANA timezone name, e.g. `America/New_York`, used to resolve the current date and time.
+   * Values are always wall clock time in the timezone. Defaults to local time
+   * @param timezone Timezone name
+   * @default -
+   */
+  @property({ type: String })
+  public set timezone (timezone: string) {
+    if (timezone && !isValidTimezone(timezone)) {
+      new WarningNotice(`The specified timezone "${timezone}" is not supported.`).show();
+      timezone = '';
+    }
+    const oldTimezone = this._timezone;
+    if (oldTimezone !== timezone) {
+      this._timezone = timezone;
+      this.requestUpdate('timezone', oldTimezone);
+    }
+  }
+  public get timezone (): string {
+    return this._timezone;
+  }
+
   /**
   * Set to switch to range select mode
   */
@@ -281,6 +305,21 @@ export class DatetimePicker extends ControlElement implements MultiValue {
 
   private _values: string[] = []; /* list of values as passed by the user */
   private _segments: DateTimeSegment[] = []; /* filtered and processed list of values */
+  /**
+   * Value to be submitted with the form.
+   * Range mode submits both `from` and `to` values
+   */
+  protected get formValue (): string | FormData | null {
+    return this.range ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
   /**
   * Set multiple selected values
   * @param values Values to set
@@ -450,7 +489,7 @@ export class DatetimePicker extends ControlElement implements MultiValue {
       return this._views;
     }
 
-    const now = new Date();
+    const now = format(new Date(), DateFormat.yyyyMMdd, this.timezone);
     const from = this.values[0];
 
     if (!this.isDuplex()) {
@@ -923,7 +962,7 @@ export class DatetimePicker extends ControlElement implements MultiValue {
       segment.dateSegment = value;
 
       if (this.timepicker && !segment.timeSegment) {
-        segment.timeSegment = getCurrentTime(this.showSeconds); /* populate time, as otherwise time picker looks broken */
+        segment.timeSegment = getCurrentTime(this.showSeconds, this.timezone); /* populate time, as otherwise time picker looks broken */
       }
 
       return segment;
@@ -1109,7 +1148,7 @@ export class DatetimePicker extends ControlElement implements MultiValue {
    * Return true if popup can be opened
    */
   private get canOpenPopup (): boolean {
-    return !(this.disabled || this.readonly || this.popupDisabled);
+    return !(this.isDisabled || this.readonly || this.popupDisabled);
   }
 
   /**
@@ -1170,6 +1209,7 @@ export class DatetimePicker extends ControlElement implements MultiValue {
       .weekdaysOnly=${this.weekdaysOnly}
       .weekendsOnly=${this.weekendsOnly}
       .firstDayOfWeek=${ifDefined(this.firstDayOfWeek)}
+      .timezone=${this.timezone}
       .values=${this.calendarValues}
       .filter=${this.filter}
       .view=${view}
@@ -1213,7 +1253,7 @@ export class DatetimePicker extends ControlElement implements MultiValue {
         id=${id}
         part="input"
         transparent
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         ?readonly="${this.readonly || this.inputDisabled}"
         .value=${value}
         .placeholder="${this.placeholder}"
@@ -110,10 +110,11 @@ const formatToView = (date: Date | number | string): string => {
 /**
  * Get current time string, e.g. "15:36" or "15:36:04"
  * @param [includeSeconds=false] true to include seconds
+ * @param [timezone] IANA timezone name. Defaults to local time
  * @returns A formatted time string
  */
-const getCurrentTime = (includeSeconds = false): string => {
-  return format(new Date(), includeSeconds ? TimeFormat.HHmmss : TimeFormat.HHmm);
+const getCurrentTime = (includeSeconds = false, timezone?: string): string => {
+  return format(new Date(), includeSeconds ? TimeFormat.HHmmss : TimeFormat.HHmm, timezone);
 };
 
 export {
@@ -0,0 +1,189 @@
+import { elementUpdated, expect, fixture, oneEvent, keyboardEvent, nextFrame } from '@refinitiv-ui/test-helpers';
+// import element and theme
+import '@refinitiv-ui/elements/dialog';
+import '@refinitiv-ui/elemental-theme/light/ef-dialog';
+
+const openDialog = async (attributes = '') => {
+  const el = await fixture(`<ef-dialog ${attributes} style="width: 400px; height: 300px;"></ef-dialog>`);
+  el.x = 100;
+  el.y = 100;
+  el.opened = true;
+  await elementUpdated(el);
+  await nextFrame();
+  await nextFrame();
+  return el;
+};
+
+const fitted = async (el) => {
+  await elementUpdated(el);
+  await nextFrame();
+  await nextFrame();
+};
+
+const getHandle = (el, direction) => el.shadowRoot.querySelector(`[part~=resize-handle][direction=${direction}]`);
+
+const pointer = (type, clientX, clientY) => new PointerEvent(type, {
+  pointerId: 1,
+  isPrimary: true,
+  button: 0,
+  bubbles: true,
+  composed: true,
+  clientX,
+  clientY
+});
+
+const resizeBy = async (el, direction, deltaX, deltaY) => {
+  getHandle(el, direction).dispatchEvent(pointer('pointerdown', 0, 0));
+  document.dispatchEvent(pointer('pointermove', deltaX, deltaY));
+  setTimeout(() => document.dispatchEvent(pointer('pointerup', deltaX, deltaY)));
+  const event = await oneEvent(el, 'geometry-changed');
+  await fitted(el);
+  return event;
+};
+
+const pressKey = (el, key, options = {}) => {
+  el.dispatchEvent(keyboardEvent('keydown', Object.assign({ key }, options)));
+};
+
+describe('dialog/Geometry', () => {
+  describe('Resizable', () => {
+    it('Should render resize handles only when resizable', async () => {
+      const el = await openDialog();
+      expect(el.shadowRoot.querySelectorAll('[part~=resize-handle]').length).to.equal(0);
+
+      el.resizable = true;
+      await elementUpdated(el);
+      expect(el.shadowRoot.querySelectorAll('[part~=resize-handle]').length).to.equal(8);
+    });
+
+    it('Should resize from the corner and report geometry', async () => {
+      const el = await openDialog('resizable');
+      const event = await resizeBy(el, 'se', 50, 40);
+
+      expect(event.detail).to.deep.equal({ x: 100, y: 100, width: 450, height: 340, maximized: false });
+      expect(el.geometry).to.deep.equal(event.detail);
+    });
+
+    it('Should move the opposite edge, when resizing from top left corner', async () => {
+      const el = await openDialog('resizable');
+      const { detail } = await resizeBy(el, 'nw', -20, -30);
+
+      expect(detail.x).to.equal(80);
+      expect(detail.y).to.equal(70);
+      expect(detail.width).to.equal(420);
+      expect(detail.height).to.equal(330);
+    });
+
+    it('Should respect min and max size', async () => {
+      const el = await openDialog('resizable');
+      el.style.minWidth = '350px';
+      el.style.maxHeight = '320px';
+
+      const { detail } = await resizeBy(el, 'se', -200, 200);
+      expect(detail.width).to.equal(350);
+      expect(detail.height).to.equal(320);
+    });
+
+    it('Should not resize outside the viewport', async () => {
+      const el = await openDialog('resizable');
+      const { detail } = await resizeBy(el, 'w', -500, 0);
+
+      expect(detail.x).to.equal(0);
+      expect(detail.width).to.equal(500);
+    });
+  });
+
+  describe('Maximizable', () => {
+    it('Should toggle full screen and restore the previous size', async () => {
+      const el = await openDialog('maximizable');
+      const button = el.shadowRoot.querySelector('[part=maximize]');
+      expect(button.getAttribute('aria-label')).to.equal('Maximize');
+
+      setTimeout(() => button.dispatchEvent(new CustomEvent('tap')));
+      let event = await oneEvent(el, 'geometry-changed');
+      await fitted(el);
+      expect(el.fullScreen).to.equal(true);
+      expect(event.detail).to.deep.equal({ x: 100, y: 100, width: 400, height: 300, maximized: true });
+      expect(el.style.width).to.equal('', 'Inline size should not be applied in full screen');
+      expect(button.getAttribute('aria-label')).to.equal('Restore');
+
+      setTimeout(() => button.dispatchEvent(new CustomEvent('tap')));
+      event = await oneEvent(el, 'geometry-changed');
+      await fitted(el);
+      expect(el.fullScreen).to.equal(false);
+      expect(event.detail.maximized).to.equal(false);
+      expect(el.geometry).to.deep.equal({ x: 100, y: 100, width: 400, height: 300, maximized: false });
+    });
+
+    it('Should not render resize handles in full screen', async () => {
+      const el = await openDialog('resizable maximizable full-screen');
+      expect(el.shadowRoot.querySelectorAll('[part~=resize-handle]').length).to.equal(0);
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('Should move the dialog with arrow keys in move mode', async () => {
+      const el = await openDialog('draggable');
+      pressKey(el, 'ArrowRight');
+      await fitted(el);
+      expect(el.geometry.x).to.equal(100, 'Arrow keys should not move the dialog outside of move mode');
+
+      pressKey(el, 'F7', { altKey: true });
+      expect(el.getAttribute('keyboard-mode')).to.equal('move');
+      pressKey(el, 'ArrowRight');
+      pressKey(el, 'ArrowDown');
+      await fitted(el);
+
+      setTimeout(() => pressKey(el, 'Enter'));
+      const { detail } = await oneEvent(el, 'geometry-changed');
+      expect(detail.x).to.equal(110);
+      expect(detail.y).to.equal(110);
+      expect(el.hasAttribute('keyboard-mode')).to.equal(false);
+    });
+
+    it('Should resize the dialog with arrow keys in resize mode', async () => {
+      const el = await openDialog('resizable');
+      pressKey(el, 'F8', { altKey: true });
+      expect(el.getAttribute('keyboard-mode')).to.equal('resize');
+      pressKey(el, 'ArrowLeft');
+      await fitted(el);
+      pressKey(el, 'ArrowUp');
+      await fitted(el);
+
+      setTimeout(() => pressKey(el, 'Enter'));
+      const { detail } = await oneEvent(el, 'geometry-changed');
+      expect(detail.width).to.equal(390);
+      expect(detail.height).to.equal(290);
+    });
+
+    it('Should revert the geometry and keep the dialog opened on Escape', async () => {
+      const el = await openDialog('draggable');
+      pressKey(el, 'F7', { altKey: true });
+      pressKey(el, 'ArrowLeft');
+      await fitted(el);
+
+      el.dispatchEvent(keyboardEvent('keydown', { key: 'Escape', bubbles: true, composed: true }));
+      await fitted(el);
+      expect(el.opened).to.equal(true);
+      expect(el.hasAttribute('keyboard-mode')).to.equal(false);
+      expect(el.geometry.x).to.equal(100);
+    });
+  });
+
+  describe('Draggable', () => {
+    it('Should report the position after dragging', async () => {
+      const el = await openDialog('draggable');
+      const header = el.shadowRoot.querySelector('[part=header]');
+
+      header.dispatchEvent(new MouseEvent('mousedown', { button: 0, clientX: 0, clientY: 0 }));
+      document.dispatchEvent(new MouseEvent('mousemove', { button: 0, clientX: -1000, clientY: 20 }));
+      setTimeout(() => document.dispatchEvent(new MouseEvent('mouseup', { button: 0 })));
+      const { detail } = await oneEvent(el, 'geometry-changed');
+
+      expect(detail.x).to.equal(0, 'Dialog should stay inside the viewport');
+      expect(detail.y).to.equal(120);
+      expect(el.x).to.equal(0);
+      expect(el.y).to.equal(120);
+    });
+  });
+});
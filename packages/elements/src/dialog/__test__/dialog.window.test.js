@@ -0,0 +1,137 @@
+import { elementUpdated, expect, fixture, oneEvent, nextFrame } from '@refinitiv-ui/test-helpers';
+// import element and theme
+import '@refinitiv-ui/elements/dialog';
+import '@refinitiv-ui/elemental-theme/light/ef-dialog';
+
+const createDialogs = async () => {
+  const el = await fixture(`<div>
+    <ef-dialog non-modal minimizable header="First"><input id="first"></ef-dialog>
+    <ef-dialog non-modal minimizable header="Second"><input id="second"></ef-dialog>
+  </div>`);
+  const [first, second] = el.querySelectorAll('ef-dialog');
+  first.opened = true;
+  await elementUpdated(first);
+  second.opened = true;
+  await elementUpdated(second);
+  await nextFrame();
+  await nextFrame();
+  return [first, second];
+};
+
+const getZIndex = (el) => Number(el.style.zIndex);
+
+describe('dialog/Window', () => {
+  it('Non-modal dialog should not lock the page', async () => {
+    const el = await fixture('<ef-dialog non-modal></ef-dialog>');
+    expect(el.withBackdrop).to.equal(false);
+    expect(el.noInteractionLock).to.equal(true);
+
+    el.opened = true;
+    await elementUpdated(el);
+    expect(el.getAttribute('aria-modal')).to.equal('false');
+    expect(el.active).to.equal(true);
+
+    el.nonModal = false;
+    await elementUpdated(el);
+    expect(el.withBackdrop).to.equal(true);
+    expect(el.noInteractionLock).to.equal(false);
+    expect(el.active).to.equal(false, 'Modal dialog cannot be active');
+  });
+
+  it('Last opened dialog should be active', async () => {
+    const [first, second] = await createDialogs();
+    expect(first.active).to.equal(false);
+    expect(second.active).to.equal(true);
+    expect(getZIndex(second)).to.be.above(getZIndex(first));
+  });
+
+  it('Should bring dialog to front on tap', async () => {
+    const [first, second] = await createDialogs();
+
+    setTimeout(() => first.dispatchEvent(new CustomEvent('tapstart')));
+    const event = await oneEvent(first, 'active-changed');
+    expect(event.detail.value).to.equal(true);
+    expect(second.active).to.equal(false);
+    expect(getZIndex(first)).to.be.above(getZIndex(second));
+  });
+
+  it('Should activate next dialog when active dialog is closed', async () => {
+    const [first, second] = await createDialogs();
+
+    setTimeout(() => { second.opened = false; });
+    await oneEvent(first, 'active-changed');
+    expect(first.active).to.equal(true);
+    expect(second.active).to.equal(false);
+  });
+
+  it('Should minimize to the tray and restore', async () => {
+    const [first, second] = await createDialogs();
+    second.style.width = '500px';
+    const minimize = (el) => el.shadowRoot.querySelector('[part=minimize]');
+    expect(minimize(second).getAttribute('aria-label')).to.equal('Minimize');
+
+    setTimeout(() => minimize(second).dispatchEvent(new CustomEvent('tap')));
+    let event = await oneEvent(second, 'minimized-changed');
+    await elementUpdated(second);
+    expect(event.detail.value).to.equal(true);
+    expect(second.minimized).to.equal(true);
+    expect(second.active).to.equal(false, 'Minimized dialog should not be active');
+    expect(first.active).to.equal(true);
+    expect(second.positionTarget).to.equal('bottom left');
+    expect(second.x).to.equal(0);
+    expect(second.style.width).to.equal('');
+    expect(getComputedStyle(second.shadowRoot.querySelector('[part=content]')).display).to.equal('none');
+    expect(minimize(second).getAttribute('aria-label')).to.equal('Restore');
+
+    first.minimized = true;
+    await elementUpdated(first);
+    expect(first.x).to.be.above(0, 'Second minimized dialog should be placed next to the first one');
+
+    setTimeout(() => minimize(second).dispatchEvent(new CustomEvent('tap')));
+    event = await oneEvent(second, 'minimized-changed');
+    await elementUpdated(second);
+    expect(event.detail.value).to.equal(false);
+    expect(second.positionTarget).to.equal(undefined);
+    expect(second.style.width).to.equal('500px');
+    expect(second.active).to.equal(true);
+    expect(first.x).to.equal(0, 'Tray should be rearranged');
+  });
+
+  it('Minimized dialog should be skipped by ctrl + F6', async () => {
+    const [first, second] = await createDialogs();
+    const third = await fixture('<ef-dialog non-modal header="Third"><input id="third"></ef-dialog>');
+    third.opened = true;
+    await elementUpdated(third);
+    await nextFrame();
+    first.minimized = true;
+    await elementUpdated(first);
+
+    third.querySelector('#third').focus();
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'F6', ctrlKey: true, bubbles: true }));
+    expect(document.activeElement).to.equal(second.querySelector('#second'), 'Minimized dialog should be skipped');
+  });
+
+  it('Closed dialog should be removed from the tray', async () => {
+    const [first, second] = await createDialogs();
+    first.minimized = true;
+    second.minimized = true;
+    await elementUpdated(second);
+    expect(second.x).to.be.above(0);
+
+    first.opened = false;
+    await elementUpdated(first);
+    await elementUpdated(second);
+    expect(second.x).to.equal(0, 'Closed dialog should not take space in the tray');
+
+    first.opened = true;
+    await elementUpdated(first);
+    expect(first.x).to.be.above(0, 'Reopened minimized dialog should be put back to the tray');
+  });
+
+  it('Minimized dialog should not be resized or maximized', async () => {
+    const el = await fixture('<ef-dialog non-modal resizable maximizable minimized opened></ef-dialog>');
+    await elementUpdated(el);
+    expect(el.shadowRoot.querySelector('[part~=resize-handle]')).to.equal(null);
+    expect(el.shadowRoot.querySelector('[part=maximize]')).to.equal(null);
+  });
+});
@@ -1,9 +1,25 @@
 export const MAIN_MOUSE_BUTTON = 0;
 
 type MouseEventListener = (event: MouseEvent) => void;
+type DraggableBounds = {
+  width: number;
+  height: number;
+};
+export type DraggableOptions = {
+  /**
+   * Returns the area, which the element cannot be moved outside of.
+   * Defaults to the size of the document element
+   */
+  getBounds?: () => DraggableBounds;
+  /**
+   * Called when the user releases the element after moving it
+   */
+  onDragEnd?: () => void;
+};
 type DraggableFunctions = {
   mouseDownListener: MouseEventListener;
   handle: HTMLElement;
+  options: DraggableOptions;
 };
 class DraggableManager {
   private lastX = 0;
@@ -16,18 +32,21 @@ class DraggableManager {
 
   private draggableElements = new Map<HTMLElement, DraggableFunctions>();
   private draggableElement: HTMLElement | null = null;
+  private moved = false;
 
   /**
    * register element for dragging
    * @param draggableElement element that will be dragged
    * @param handle element that will be captured for dragging
+   * @param [options] bounds and callbacks of dragging
    * @returns {void}
    */
-  public register (draggableElement: HTMLElement, handle: HTMLElement): void {
+  public register (draggableElement: HTMLElement, handle: HTMLElement, options: DraggableOptions = {}): void {
     if (!this.draggableElements.has(draggableElement)) {
       this.draggableElements.set(draggableElement, {
         mouseDownListener: this.mouseDownListener(draggableElement, handle),
-        handle
+        handle,
+        options
       });
 
       this.setHandleListeners(draggableElement);
@@ -71,11 +90,12 @@ class DraggableManager {
 
       // Get the current container box rect.
       const box: DOMRect = this.draggableElement.getBoundingClientRect();
-      const scrollingElement: Element = document.documentElement;
+      const bounds = this.getBounds(this.draggableElement);
 
       // Don't allow the box to move outside the bounds of the viewport
-      x = Math.min(Math.max(this.xOffset, 0), scrollingElement.clientWidth - box.width);
-      y = Math.min(Math.max(this.yOffset, 0), scrollingElement.clientHeight - box.height);
+      x = Math.min(Math.max(this.xOffset, 0), bounds.width - box.width);
+      y = Math.min(Math.max(this.yOffset, 0), bounds.height - box.height);
+      this.moved = true;
 
       // Update the container position
       this.draggableElement.style.left = `${x}px`;
@@ -83,6 +103,24 @@ class DraggableManager {
     }
   }
 
+  /**
+   * Get the area, which the element is allowed to be moved within
+   * @param draggableElement element that is dragged
+   * @returns bounds of the area
+   */
+  private getBounds (draggableElement: HTMLElement): DraggableBounds {
+    const getBounds = this.draggableElements.get(draggableElement)?.options.getBounds;
+    if (getBounds) {
+      return getBounds();
+    }
+
+    const scrollingElement: Element = document.documentElement;
+    return {
+      width: scrollingElement.clientWidth,
+      height: scrollingElement.clientHeight
+    };
+  }
+
   /**
    * @param draggableElement element that will be dragged
    * @param handle element that will be touched for dragging
@@ -91,6 +129,7 @@ class DraggableManager {
   private mouseDownListener = (draggableElement: HTMLElement, handle: HTMLElement): MouseEventListener => (event: MouseEvent): void => {
     if (event.button === MAIN_MOUSE_BUTTON && event.target === handle) {
       this.draggableElement = draggableElement;
+      this.moved = false;
       this.setSelectingOfText(false);
 
       document.addEventListener('mouseup', this.onRelease);
@@ -217,9 +256,12 @@ class DraggableManager {
    * @returns {void}
    */
   private onRelease = (event: MouseEvent): void => {
-    if (this.draggableElement) {
+    const draggableElement = this.draggableElement;
+    if (draggableElement) {
+      const onDragEnd = this.moved ? this.draggableElements.get(draggableElement)?.options.onDragEnd : undefined;
       this.setSelectingOfText(true);
       this.release();
+      onDragEnd?.();
 
       event.preventDefault();
       event.stopPropagation();
@@ -247,10 +289,11 @@ const draggableManager = new DraggableManager();
  * provide public function for registering element for dragging
  * @param draggableElement element that will be moved
  * @param handle element that will be captured for movement
+ * @param [options] bounds and callbacks of dragging
  * @returns {void}
  */
-export const register = (draggableElement: HTMLElement, handle: HTMLElement): void => {
-  draggableManager.register(draggableElement, handle);
+export const register = (draggableElement: HTMLElement, handle: HTMLElement, options?: DraggableOptions): void => {
+  draggableManager.register(draggableElement, handle, options);
 };
 
 /**
@@ -0,0 +1,20 @@
+/**
+ * Position and size of the dialog, reported by `geometry-changed` event.
+ * Coordinates are in pixels, relative to the top left corner of the viewport.
+ */
+export type DialogGeometry = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * `true` if the dialog is maximized.
+   * In this case, other values describe the geometry to restore to.
+   */
+  maximized: boolean;
+};
+
+/**
+ * Edge or corner of the dialog, which the user resizes
+ */
+export type DialogResizeDirection = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
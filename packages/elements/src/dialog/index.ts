@@ -6,12 +6,66 @@ import { VERSION } from '../version.js';
 import { isIE } from '@refinitiv-ui/utils/browser.js';
 import { deregister as draggableDeregister, register as draggableRegister } from './draggable-element.js';
 import { Overlay } from '../overlay/index.js';
+import { getViewAreaInfo } from '../overlay/managers/viewport-manager.js';
+import {
+  register as windowRegister,
+  deregister as windowDeregister,
+  update as windowUpdate,
+  isActive as isActiveWindow,
+  setMinimized as setWindowMinimized,
+  getTrayOffset
+} from './managers/window-manager.js';
 import '../icon/index.js';
 import '../panel/index.js';
 import '../header/index.js';
 import '../button/index.js';
 import { translate, Translate, TranslatePropertyKey } from '@refinitiv-ui/translate';
 import '@refinitiv-ui/phrasebook/locale/en/dialog.js';
+import type { DialogGeometry, DialogResizeDirection } from './helpers/types';
+
+export type { DialogGeometry, DialogResizeDirection };
+
+const KEYBOARD_STEP = 10; /* px moved or resized by arrow keys */
+const MIN_RESIZE_SIZE = 100; /* px used when min-width or min-height is not set */
+
+const RESIZE_DIRECTIONS: DialogResizeDirection[] = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+
+type KeyboardMode = 'move' | 'resize';
+
+type ResizeState = {
+  pointerId: number;
+  direction: DialogResizeDirection;
+  startX: number;
+  startY: number;
+  geometry: DialogGeometry;
+};
+
+type TrayRestoreState = {
+  x: Overlay['x'];
+  y: Overlay['y'];
+  positionTarget: Overlay['positionTarget'];
+  fullScreen: boolean;
+  width: string;
+  height: string;
+};
+
+type SizeLimits = {
+  minWidth: number;
+  maxWidth: number;
+  minHeight: number;
+  maxHeight: number;
+};
+
+/**
+ * Convert computed style value to a number
+ * @param value CSS value
+ * @param fallback Value to use if CSS value is not a number, e.g. `none` or `auto`
+ * @returns number
+ */
+const toPixels = (value: string, fallback: number): number => {
+  const pixels = parseFloat(value);
+  return isNaN(pixels) ? fallback : pixels;
+};
 
 /**
  * Popup window, designed to contain and show any HTML content.
@@ -35,12 +89,30 @@ import '@refinitiv-ui/phrasebook/locale/en/dialog.js';
  * @attr {boolean} full-screen - Set dialog to full screen
  * @prop {boolean} [fullScreen=false] - Set dialog to full screen
  *
+ * @attr {boolean} [resizable=false] - Allow users to resize the dialog
+ * @prop {boolean} [resizable=false] - Allow users to resize the dialog
+ *
+ * @attr {boolean} [maximizable=false] - Show maximize and restore button in the header
+ * @prop {boolean} [maximizable=false] - Show maximize and restore button in the header
+ *
+ * @attr {boolean} [non-modal=false] - Allow interaction with the page and other dialogs while the dialog is opened
+ * @prop {boolean} [nonModal=false] - Allow interaction with the page and other dialogs while the dialog is opened
+ *
+ * @attr {boolean} [minimizable=false] - Show minimize button in the header
+ * @prop {boolean} [minimizable=false] - Show minimize button in the header
+ *
+ * @attr {boolean} [minimized=false] - Collapse the dialog to its header and put it to the tray at the bottom of the viewport
+ * @prop {boolean} [minimized=false] - Collapse the dialog to its header and put it to the tray at the bottom of the viewport
+ *
  * @attr {string | undefined} position-target - Set position of dialog i.e. `top`, `right`, `left`, `bottom`, `center` or combination of theme e.g. `top right`.
  * @prop {string | undefined} positionTarget - Set position of dialog i.e. `top`, `right`, `left`, `bottom`, `center` or combination of theme e.g. `top right`.
  *
  * @fires opened-changed - Fired when value of `opened` property is changed. Prevent default to stop default action
  * @fires confirm - Fired when dialog is closed by user clicked a default OK button. Prevent default to stop default action
  * @fires cancel - Fired when dialog is closed by user clicked a default Cancel button, clicked outside to close dialog or press ESC to close the dialog. Prevent default to stop default action
+ * @fires active-changed - Fired when a non-modal dialog becomes the front most dialog or loses this state
+ * @fires minimized-changed - Fired when the user minimizes or restores the dialog
+ * @fires geometry-changed - Fired when the user has moved, resized, maximized or restored the dialog. Use `x`, `y` and size in `event.detail` to persist the geometry.
  *
  * @slot footer - Hide default OK and Cancel button and replace dialog's footer with your custom content.
  */
@@ -99,10 +171,55 @@ export class Dialog extends Overlay {
         flex: none;
       }
 
-      [part=close] {
+      :host([minimized]) {
+        width: 200px;
+        height: auto;
+        min-height: 0;
+      }
+
+      :host([minimized]) [part=content],
+      :host([minimized]) [part=footer] {
+        display: none;
+      }
+
+      [part=close],
+      [part=minimize],
+      [part=maximize] {
         flex: none;
         cursor: pointer;
       }
+
+      [part~=resize-handle] {
+        position: absolute;
+        z-index: 1;
+        touch-action: none;
+      }
+
+      [direction=n], [direction=s] {
+        left: 6px;
+        right: 6px;
+        height: 6px;
+        cursor: ns-resize;
+      }
+
+      [direction=e], [direction=w] {
+        top: 6px;
+        bottom: 6px;
+        width: 6px;
+        cursor: ew-resize;
+      }
+
+      [direction=ne], [direction=nw], [direction=se], [direction=sw] {
+        width: 12px;
+        height: 12px;
+      }
+
+      [direction=n], [direction=ne], [direction=nw] { top: 0; }
+      [direction=s], [direction=se], [direction=sw] { bottom: 0; }
+      [direction=e], [direction=ne], [direction=se] { right: 0; }
+      [direction=w], [direction=nw], [direction=sw] { left: 0; }
+      [direction=ne], [direction=sw] { cursor: nesw-resize; }
+      [direction=nw], [direction=se] { cursor: nwse-resize; }
     `];
   }
 
@@ -118,6 +235,80 @@ export class Dialog extends Overlay {
   @property({ type: Boolean, reflect: true })
   public draggable = false;
 
+  /**
+   * Allow users to resize the dialog by dragging its edges and corners.
+   * Use CSS `min-width`, `max-width`, `min-height` and `max-height` to limit the size.
+   */
+  @property({ type: Boolean, reflect: true })
+  public resizable = false;
+
+  /**
+   * Show a button in the header to toggle between full screen and the previous geometry
+   */
+  @property({ type: Boolean, reflect: true })
+  public maximizable = false;
+
+  private _nonModal = false;
+  /**
+   * Allow users to interact with the page and other dialogs, while the dialog is opened.
+   * Non-modal dialogs have no backdrop and come to the front when clicked.
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'non-modal' })
+  public get nonModal (): boolean {
+    return this._nonModal;
+  }
+  public set nonModal (nonModal: boolean) {
+    const oldNonModal = this._nonModal;
+    if (oldNonModal !== nonModal) {
+      this._nonModal = nonModal;
+      this.withBackdrop = !nonModal;
+      this.noInteractionLock = nonModal;
+      this.requestUpdate('nonModal', oldNonModal);
+    }
+  }
+
+  /**
+   * Show a button in the header to minimize the dialog to the tray
+   */
+  @property({ type: Boolean, reflect: true })
+  public minimizable = false;
+
+  private _minimized = false;
+  /**
+   * Collapse the dialog to its header and place it
+   * in the tray at the bottom left corner of the viewport
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  public get minimized (): boolean {
+    return this._minimized;
+  }
+  public set minimized (minimized: boolean) {
+    const oldMinimized = this._minimized;
+    if (oldMinimized !== minimized) {
+      this._minimized = minimized;
+      minimized ? this.moveToTray() : this.restoreFromTray();
+      setWindowMinimized(this, minimized);
+      this.requestUpdate('minimized', oldMinimized);
+    }
+  }
+
+  /**
+   * `true` if the dialog is non-modal and it is the front most dialog, which is not minimized
+   * @readonly
+   */
+  @property({ type: Boolean, reflect: true })
+  public active = false;
+
+  /**
+   * @ignore
+   * Minimized dialogs stay in the tray, until the user restores them
+   */
+  public override get focusCycleEnabled (): boolean {
+    return super.focusCycleEnabled && !this.minimized;
+  }
+
   /**
    * Used for translations
    */
@@ -153,6 +344,36 @@ export class Dialog extends Overlay {
    */
   protected confirmed = false;
 
+  /**
+   * Pointer resizing which is in progress
+   */
+  private resizeState: ResizeState | null = null;
+
+  /**
+   * Keyboard move or resize mode, entered by `Alt+F7` or `Alt+F8`
+   */
+  private keyboardMode: KeyboardMode | null = null;
+
+  /**
+   * Geometry before entering keyboard mode, used to revert on `Escape`
+   */
+  private keyboardStartGeometry: DialogGeometry | null = null;
+
+  /**
+   * Geometry to restore to, when the dialog is maximized
+   */
+  private restoreGeometry: DialogGeometry | null = null;
+
+  /**
+   * Inline size to restore to, when the dialog is maximized
+   */
+  private restoreSize: { width: string; height: string } | null = null;
+
+  /**
+   * Position and size to restore to, when the dialog is restored from the tray
+   */
+  private trayRestoreState: TrayRestoreState | null = null;
+
   /**
    * Close dialog when user clicked outside the dialog
    */
@@ -175,6 +396,31 @@ export class Dialog extends Overlay {
   public disconnectedCallback (): void {
     super.disconnectedCallback();
     draggableDeregister(this);
+    windowDeregister(this);
+    this.endResize();
+    this.setKeyboardMode(null);
+  }
+
+  /**
+   * Current position and size of the dialog.
+   * If the dialog is maximized, returns the geometry to restore to.
+   * @readonly
+   */
+  public get geometry (): DialogGeometry {
+    if (this.fullScreen && this.restoreGeometry) {
+      return { ...this.restoreGeometry, maximized: true };
+    }
+
+    const { offsetLeft, offsetTop } = getViewAreaInfo(this);
+    const rect = this.getBoundingClientRect();
+
+    return {
+      x: Math.round(rect.left - offsetLeft),
+      y: Math.round(rect.top - offsetTop),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+      maximized: this.fullScreen
+    };
   }
 
   /**
@@ -206,7 +452,7 @@ export class Dialog extends Overlay {
   protected shouldUpdate (changedProperties: PropertyValues): boolean {
     const shouldUpdate = super.shouldUpdate(changedProperties);
     return shouldUpdate
-      || ((changedProperties.has('draggable') || changedProperties.has('header') || changedProperties.has('noInteractionLock') || changedProperties.has(TranslatePropertyKey)) && this.opened);
+      || ((changedProperties.has('draggable') || changedProperties.has('resizable') || changedProperties.has('maximizable') || changedProperties.has('minimizable') || changedProperties.has('minimized') || changedProperties.has('nonModal') || changedProperties.has('header') || changedProperties.has('noInteractionLock') || changedProperties.has(TranslatePropertyKey)) && this.opened);
   }
 
   /**
@@ -220,6 +466,10 @@ export class Dialog extends Overlay {
     if (changedProperties.has('opened') || changedProperties.has('noInteractionLock')) {
       this.setAttribute('aria-modal', String(!this.noInteractionLock));
     }
+
+    if (changedProperties.has('fullScreen')) {
+      this.updateMaximizedSize();
+    }
   }
 
   /**
@@ -230,6 +480,9 @@ export class Dialog extends Overlay {
   protected firstUpdated (changedProperties: PropertyValues): void {
     super.firstUpdated(changedProperties);
     this.setAttribute('aria-modal', String(!this.noInteractionLock));
+    this.addEventListener('keydown', this.onKeyDown);
+    this.addEventListener('tapstart', this.activate);
+    this.addEventListener('focus', this.activate, true);
   }
 
   /**
@@ -243,6 +496,10 @@ export class Dialog extends Overlay {
     if (this.isDraggableBehaviourNeedToBeChanged(changedProperties)) {
       this.updateDraggableBehavior();
     }
+
+    if (changedProperties.has('opened') || changedProperties.has('nonModal')) {
+      this.updateWindowBehavior();
+    }
   }
 
   /**
@@ -252,6 +509,8 @@ export class Dialog extends Overlay {
    */
   protected onClosed (): void {
     super.onClosed();
+    this.endResize();
+    this.setKeyboardMode(null);
     this.restrictContentMaxHeight();
   }
 
@@ -325,6 +584,12 @@ export class Dialog extends Overlay {
    * @returns {void}
    */
   protected override setOpened (opened: boolean): void {
+    // Escape or outside click leaves keyboard mode first
+    if (!opened && this.keyboardMode) {
+      this.revertKeyboardMode();
+      return;
+    }
+
     if (!opened) {
       // if default is prevented, do not proceed to closed
       if (!this.fireCancelOrConfirmEvent(this.confirmed)) {
@@ -340,10 +605,13 @@ export class Dialog extends Overlay {
    * @returns {void}
    */
   private updateDraggableBehavior (): void {
-    if (this.draggable && this.opened) {
+    if (this.draggable && this.opened && !this.fullScreen && !this.minimized) {
       const handle = this.handle;
 
-      handle && draggableRegister(this, handle);
+      handle && draggableRegister(this, handle, {
+        getBounds: () => this.viewArea,
+        onDragEnd: () => this.commitPosition()
+      });
     }
     else {
       draggableDeregister(this);
@@ -355,9 +623,433 @@ export class Dialog extends Overlay {
    * @returns true if needs to update draggable behavior
    */
   private isDraggableBehaviourNeedToBeChanged (changedProperties: PropertyValues): boolean {
-    return changedProperties.has('draggable') || changedProperties.has('opened');
+    return changedProperties.has('draggable') || changedProperties.has('opened') || changedProperties.has('fullScreen') || changedProperties.has('minimized');
+  }
+
+  /**
+   * Register opened non-modal dialog in window manager
+   * @returns {void}
+   */
+  private updateWindowBehavior (): void {
+    if (this.nonModal && this.opened) {
+      windowRegister(this, this.onWindowChange);
+    }
+    else {
+      windowDeregister(this);
+      this.onWindowChange();
+    }
+  }
+
+  /**
+   * Run when the stack of non-modal dialogs or the tray has changed
+   * @returns {void}
+   */
+  private onWindowChange = (): void => {
+    const active = this.nonModal && this.opened && isActiveWindow(this);
+    if (this.active !== active) {
+      this.active = active;
+      this.notifyPropertyChange('active', active);
+    }
+
+    if (this.minimized) {
+      this.x = getTrayOffset(this);
+    }
+  };
+
+  /**
+   * Bring non-modal dialog to front, when the user interacts with it
+   * @returns {void}
+   */
+  private activate = (): void => {
+    if (this.nonModal && this.opened && !this.active) {
+      this.toFront();
+      windowUpdate();
+    }
+  };
+
+  /**
+   * Store current position and size and place the dialog in the tray
+   * @returns {void}
+   */
+  private moveToTray (): void {
+    this.setKeyboardMode(null);
+    this.endResize();
+    this.trayRestoreState = {
+      x: this.x,
+      y: this.y,
+      positionTarget: this.positionTarget,
+      fullScreen: this.fullScreen,
+      width: this.style.getPropertyValue('width'),
+      height: this.style.getPropertyValue('height')
+    };
+    this.style.removeProperty('width');
+    this.style.removeProperty('height');
+    this.fullScreen = false;
+    this.positionTarget = 'bottom left';
+    this.x = getTrayOffset(this);
+    this.y = 0;
   }
 
+  /**
+   * Put the dialog back to position and size it had before minimizing
+   * @returns {void}
+   */
+  private restoreFromTray (): void {
+    const restoreState = this.trayRestoreState;
+    this.trayRestoreState = null;
+
+    if (!restoreState) {
+      return;
+    }
+
+    const { x, y, positionTarget, fullScreen, width, height } = restoreState;
+    this.x = x;
+    this.y = y;
+    this.positionTarget = positionTarget;
+    this.fullScreen = fullScreen;
+    width && this.style.setProperty('width', width);
+    height && this.style.setProperty('height', height);
+  }
+
+  /**
+   * Minimize the dialog or restore it from the tray on behalf of the user
+   * @returns {void}
+   */
+  private toggleMinimized (): void {
+    this.minimized = !this.minimized;
+    this.notifyPropertyChange('minimized', this.minimized);
+
+    if (!this.minimized) {
+      this.activate();
+    }
+  }
+
+  /**
+   * Size of the area, where the dialog can be positioned
+   */
+  private get viewArea (): { width: number; height: number } {
+    const { viewWidth, viewHeight } = getViewAreaInfo(this);
+    const scrollingElement = document.documentElement;
+
+    return {
+      width: viewWidth || scrollingElement.clientWidth,
+      height: viewHeight || scrollingElement.clientHeight
+    };
+  }
+
+  /**
+   * Size limits defined in styles, restricted to the view area
+   * @param geometry Geometry the limits are calculated for
+   * @returns size limits
+   */
+  private getSizeLimits (geometry: DialogGeometry): SizeLimits {
+    const style = window.getComputedStyle(this);
+    const { width, height } = this.viewArea;
+    const maxWidth = Math.min(toPixels(style.maxWidth, Infinity), width);
+    const maxHeight = Math.min(toPixels(style.maxHeight, Infinity), height);
+
+    return {
+      minWidth: Math.min(toPixels(style.minWidth, 0) || MIN_RESIZE_SIZE, maxWidth, geometry.width),
+      maxWidth,
+      minHeight: Math.min(toPixels(style.minHeight, 0) || MIN_RESIZE_SIZE, maxHeight, geometry.height),
+      maxHeight
+    };
+  }
+
+  /**
+   * Apply position and size to the dialog, keeping it inside the view area
+   * @param geometry New geometry
+   * @returns {void}
+   */
+  private applyGeometry ({ x, y, width, height }: Omit<DialogGeometry, 'maximized'>): void {
+    const viewArea = this.viewArea;
+    x = Math.max(0, Math.min(x, viewArea.width - width));
+    y = Math.max(0, Math.min(y, viewArea.height - height));
+
+    this.style.setProperty('width', `${width}px`);
+    this.style.setProperty('height', `${height}px`);
+    this.x = x;
+    this.y = y;
+  }
+
+  /**
+   * Store the position, which the user has dragged the dialog to
+   * @returns {void}
+   */
+  private commitPosition (): void {
+    const { x, y } = this.geometry;
+    this.x = x;
+    this.y = y;
+    this.notifyGeometryChange();
+  }
+
+  /**
+   * Fire `geometry-changed` event
+   * @returns {void}
+   */
+  private notifyGeometryChange (): void {
+    this.dispatchEvent(new CustomEvent('geometry-changed', {
+      detail: this.geometry
+    }));
+  }
+
+  /**
+   * Remove inline size in full screen mode and put it back, when the dialog is restored
+   * @returns {void}
+   */
+  private updateMaximizedSize (): void {
+    if (this.fullScreen) {
+      // size is already stored, if maximized dialog is restored from the tray
+      this.restoreSize = this.restoreSize || {
+        width: this.style.getPropertyValue('width'),
+        height: this.style.getPropertyValue('height')
+      };
+      this.style.removeProperty('width');
+      this.style.removeProperty('height');
+      this.endResize();
+      this.setKeyboardMode(null);
+    }
+    else if (this.restoreSize && !this.minimized) {
+      const { width, height } = this.restoreSize;
+      width && this.style.setProperty('width', width);
+      height && this.style.setProperty('height', height);
+      this.restoreSize = null;
+      this.restoreGeometry = null;
+    }
+  }
+
+  /**
+   * Maximize the dialog or restore it to the previous geometry
+   * @returns {void}
+   */
+  private toggleMaximized (): void {
+    if (this.fullScreen) {
+      const restoreGeometry = this.restoreGeometry;
+      this.fullScreen = false;
+      this.dispatchEvent(new CustomEvent('geometry-changed', {
+        detail: { ...restoreGeometry || this.geometry, maximized: false }
+      }));
+    }
+    else {
+      this.restoreGeometry = this.geometry;
+      this.fullScreen = true;
+      this.notifyGeometryChange();
+    }
+  }
+
+  /**
+   * Toggle maximized state, when the user double clicks the header
+   * @param event Double click event
+   * @returns {void}
+   */
+  private onHeaderDoubleClick (event: MouseEvent): void {
+    if (event.target !== this.handle) {
+      return;
+    }
+
+    if (this.minimized) {
+      this.toggleMinimized();
+    }
+    else if (this.maximizable) {
+      this.toggleMaximized();
+    }
+  }
+
+  /**
+   * Starts resizing when the user presses a resize handle
+   * @param event Pointer down event
+   * @returns {void}
+   */
+  private onResizeStart (event: PointerEvent): void {
+    if (this.resizeState || event.button !== 0 || !event.isPrimary) {
+      return;
+    }
+
+    event.preventDefault(); /* prevent text selection */
+    this.setKeyboardMode(null);
+    this.resizeState = {
+      pointerId: event.pointerId,
+      direction: (event.currentTarget as HTMLElement).getAttribute('direction') as DialogResizeDirection,
+      startX: event.clientX,
+      startY: event.clientY,
+      geometry: this.geometry
+    };
+
+    document.addEventListener('pointermove', this.onResizeMove);
+    document.addEventListener('pointerup', this.onResizeEnd);
+    document.addEventListener('pointercancel', this.onResizeEnd);
+  }
+
+  /**
+   * Resizes the dialog, while the user drags a handle
+   * @param event Pointer move event
+   * @returns {void}
+   */
+  private onResizeMove = (event: PointerEvent): void => {
+    const resizeState = this.resizeState;
+    if (!resizeState || event.pointerId !== resizeState.pointerId) {
+      return;
+    }
+
+    this.resize(resizeState.geometry, resizeState.direction, event.clientX - resizeState.startX, event.clientY - resizeState.startY);
+  };
+
+  /**
+   * Stops resizing and notifies about the new geometry
+   * @returns {void}
+   */
+  private onResizeEnd = (): void => {
+    const resized = this.resizeState !== null;
+    this.endResize();
+    resized && this.notifyGeometryChange();
+  };
+
+  /**
+   * Stops resizing
+   * @returns {void}
+   */
+  private endResize (): void {
+    document.removeEventListener('pointermove', this.onResizeMove);
+    document.removeEventListener('pointerup', this.onResizeEnd);
+    document.removeEventListener('pointercancel', this.onResizeEnd);
+    this.resizeState = null;
+  }
+
+  /**
+   * Resize the dialog from its initial geometry
+   * @param geometry Geometry before resizing
+   * @param direction Edge or corner, which is dragged
+   * @param deltaX Horizontal distance, which the edge is moved by
+   * @param deltaY Vertical distance, which the edge is moved by
+   * @returns {void}
+   */
+  private resize (geometry: DialogGeometry, direction: DialogResizeDirection, deltaX: number, deltaY: number): void {
+    const { minWidth, maxWidth, minHeight, maxHeight } = this.getSizeLimits(geometry);
+    const { width: viewWidth, height: viewHeight } = this.viewArea;
+    const right = geometry.x + geometry.width;
+    const bottom = geometry.y + geometry.height;
+    let { x, y, width, height } = geometry;
+
+    if (direction.includes('e')) {
+      width = Math.max(minWidth, Math.min(geometry.width + deltaX, maxWidth, viewWidth - geometry.x));
+    }
+    else if (direction.includes('w')) {
+      width = Math.max(minWidth, Math.min(geometry.width - deltaX, maxWidth, right));
+      x = right - width;
+    }
+
+    if (direction.includes('s')) {
+      height = Math.max(minHeight, Math.min(geometry.height + deltaY, maxHeight, viewHeight - geometry.y));
+    }
+    else if (direction.includes('n')) {
+      height = Math.max(minHeight, Math.min(geometry.height - deltaY, maxHeight, bottom));
+      y = bottom - height;
+    }
+
+    this.applyGeometry({ x, y, width, height });
+  }
+
+  /**
+   * Enter or leave keyboard move and resize mode
+   * @param mode Mode to enter or `null` to leave the mode
+   * @returns {void}
+   */
+  private setKeyboardMode (mode: KeyboardMode | null): void {
+    this.keyboardMode = mode;
+    this.keyboardStartGeometry = mode ? this.geometry : null;
+
+    if (mode) {
+      this.setAttribute('keyboard-mode', mode);
+    }
+    else {
+      this.removeAttribute('keyboard-mode');
+    }
+  }
+
+  /**
+   * Leave keyboard mode and revert the geometry changed in this mode
+   * @returns {void}
+   */
+  private revertKeyboardMode (): void {
+    const geometry = this.keyboardStartGeometry;
+    this.setKeyboardMode(null);
+
+    if (geometry) {
+      this.applyGeometry(geometry);
+    }
+  }
+
+  /**
+   * Handles key down event
+   * - `Alt+F7` to start moving the dialog with arrow keys
+   * - `Alt+F8` to start resizing the dialog with arrow keys
+   * - `Enter` to finish moving or resizing, `Escape` to cancel
+   * @param event Key down event
+   * @returns {void}
+   */
+  private onKeyDown (event: KeyboardEvent): void {
+    if (event.defaultPrevented || this.fullScreen || this.minimized) {
+      return;
+    }
+
+    if (event.altKey && (event.key === 'F7' || event.key === 'F8')) {
+      const mode = event.key === 'F7' ? 'move' : 'resize';
+      if (mode === 'move' ? this.draggable : this.resizable) {
+        this.setKeyboardMode(mode);
+        event.preventDefault();
+      }
+      return;
+    }
+
+    if (!this.keyboardMode) {
+      return;
+    }
+
+    let deltaX = 0;
+    let deltaY = 0;
+
+    switch (event.key) {
+      case 'Up':
+      case 'ArrowUp':
+        deltaY = -KEYBOARD_STEP;
+        break;
+      case 'Down':
+      case 'ArrowDown':
+        deltaY = KEYBOARD_STEP;
+        break;
+      case 'Left':
+      case 'ArrowLeft':
+        deltaX = -KEYBOARD_STEP;
+        break;
+      case 'Right':
+      case 'ArrowRight':
+        deltaX = KEYBOARD_STEP;
+        break;
+      case 'Esc':
+      case 'Escape': /* closing dialog reverts the mode, unless `noCancelOnEscKey` is set */
+        this.revertKeyboardMode();
+        event.preventDefault();
+        return;
+      case 'Enter':
+      case 'Tab':
+        this.setKeyboardMode(null);
+        this.notifyGeometryChange();
+        event.key === 'Enter' && event.preventDefault();
+        return;
+      default:
+        return;
+    }
+
+    const geometry = this.geometry;
+    if (this.keyboardMode === 'move') {
+      this.applyGeometry({ ...geometry, x: geometry.x + deltaX, y: geometry.y + deltaY });
+    }
+    else {
+      this.resize(geometry, 'se', deltaX, deltaY);
+    }
+
+    event.preventDefault();
+  }
   /**
    * fire `cancel` or `confirm` event looking to `confirm` property
    * @param isConfirm true to fire `confirm` event. false to fire `cancel` event
@@ -400,10 +1092,63 @@ export class Dialog extends Overlay {
   protected get headerRegion (): TemplateResult {
     return html`
       ${this.header === null ? this.t('HEADER') : this.header}
+      ${this.minimizeTemplate}
+      ${this.maximizeTemplate}
       <ef-icon aria-hidden="true" part="close" icon="cross" slot="right" @tap="${this.defaultCancel}"></ef-icon>
     `;
   }
 
+  /**
+   * Template of minimize button, which restores the dialog when it is minimized
+   */
+  private get minimizeTemplate (): TemplateResult | null {
+    if (!this.minimizable) {
+      return null;
+    }
+
+    return html`<ef-icon
+      part="minimize"
+      role="button"
+      tabindex="0"
+      slot="right"
+      icon="${this.minimized ? 'restore' : 'minimize'}"
+      aria-label="${this.minimized ? this.t('RESTORE') : this.t('MINIMIZE')}"
+      @tap="${this.toggleMinimized}"></ef-icon>`;
+  }
+
+  /**
+   * Template of maximize and restore button
+   */
+  private get maximizeTemplate (): TemplateResult | null {
+    if (!this.maximizable || this.minimized) {
+      return null;
+    }
+
+    return html`<ef-icon
+      part="maximize"
+      role="button"
+      tabindex="0"
+      slot="right"
+      icon="${this.fullScreen ? 'exit-fullscreen' : 'fullscreen'}"
+      aria-label="${this.fullScreen ? this.t('RESTORE') : this.t('MAXIMIZE')}"
+      @tap="${this.toggleMaximized}"></ef-icon>`;
+  }
+
+  /**
+   * Template of resize handles on edges and corners
+   */
+  private get resizeHandlesTemplate (): TemplateResult[] | null {
+    if (!this.resizable || this.fullScreen || this.minimized) {
+      return null;
+    }
+
+    return RESIZE_DIRECTIONS.map(direction => html`<div
+      part="resize-handle resize-handle-${direction}"
+      direction="${direction}"
+      aria-hidden="true"
+      @pointerdown=${this.onResizeStart}></div>`);
+  }
+
   /**
    * A `TemplateResult` that will be used
    * to render the updated internal template.
@@ -411,9 +1156,10 @@ export class Dialog extends Overlay {
    */
   protected render (): TemplateResult {
     return html`
-      <ef-header drag-handle part="header">${this.headerRegion}</ef-header>
+      <ef-header drag-handle part="header" @dblclick=${this.onHeaderDoubleClick}>${this.headerRegion}</ef-header>
       <ef-panel part="content" spacing transparent>${this.contentRegion}</ef-panel>
       <div part="footer">${this.footerRegion}</div>
+      ${this.resizeHandlesTemplate}
     `;
   }
 }
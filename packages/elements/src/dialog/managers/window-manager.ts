@@ -0,0 +1,169 @@
+import type { Dialog } from '../index';
+import { getOverlays } from '../../overlay/managers/zindex-manager.js';
+
+type WindowCallback = () => void;
+
+const TRAY_SPACING = 4; /* px between minimized dialogs */
+
+/**
+ * Window manager keeps track of opened non-modal dialogs.
+ * It decides, which dialog is active and where minimized dialogs are placed in the tray
+ * @returns {void}
+ */
+export class WindowManager {
+  private registry: Map<Dialog, WindowCallback> = new Map();
+  private tray: Dialog[] = [];
+
+  /**
+   * Registered dialogs sorted by z-index, the front most dialog first
+   */
+  private get windows (): Dialog[] {
+    return getOverlays().filter(overlay => this.registry.has(overlay as Dialog)) as Dialog[];
+  }
+
+  /**
+   * Notify all dialogs that the stack or the tray has changed
+   * @returns {void}
+   */
+  public update (): void {
+    this.registry.forEach(callback => callback());
+  }
+
+  /**
+   * Check if the dialog is the front most dialog, which is not minimized
+   * @param dialog Dialog to check
+   * @returns true if active
+   */
+  public isActive (dialog: Dialog): boolean {
+    return this.windows.find(window => !this.tray.includes(window)) === dialog;
+  }
+
+  /**
+   * Get horizontal offset of the dialog in the tray
+   * @param dialog Minimized dialog
+   * @returns offset in pixels
+   */
+  public getTrayOffset (dialog: Dialog): number {
+    let offset = 0;
+
+    for (const window of this.tray) {
+      if (window === dialog) {
+        break;
+      }
+      offset += window.offsetWidth + TRAY_SPACING;
+    }
+
+    return offset;
+  }
+
+  /**
+   * Add or remove the dialog from the tray
+   * @param dialog Dialog
+   * @param minimized True to put the dialog to the tray
+   * @returns {void}
+   */
+  public setMinimized (dialog: Dialog, minimized: boolean): void {
+    const index = this.tray.indexOf(dialog);
+
+    if (minimized && index === -1 && this.registry.has(dialog)) { /* closed dialog is put to the tray on register */
+      this.tray.push(dialog);
+    }
+    else if (!minimized && index !== -1) {
+      this.tray.splice(index, 1);
+    }
+
+    this.update();
+  }
+
+  public register (dialog: Dialog, callback: WindowCallback): void { /* callback is passed as dialog handles the changes privately */
+    if (!this.registry.has(dialog)) {
+      this.registry.set(dialog, callback);
+      if (dialog.minimized) {
+        this.tray.push(dialog);
+      }
+      this.update();
+    }
+  }
+
+  public deregister (dialog: Dialog): void {
+    if (this.registry.has(dialog)) {
+      this.registry.delete(dialog);
+      const index = this.tray.indexOf(dialog);
+      if (index !== -1) {
+        this.tray.splice(index, 1);
+      }
+      this.update();
+    }
+  }
+
+  /**
+   * @returns count of elements inside manager
+   */
+  public size (): number {
+    return this.registry.size;
+  }
+}
+
+const windowManager = new WindowManager();
+
+/**
+ * Register opened non-modal dialog
+ * @param dialog Dialog
+ * @param callback Called when the dialog stack or tray changes
+ * @returns {void}
+ */
+export const register = (dialog: Dialog, callback: WindowCallback): void => {
+  windowManager.register(dialog, callback);
+};
+
+/**
+ * Deregister the dialog
+ * @param dialog Dialog
+ * @returns {void}
+ */
+export const deregister = (dialog: Dialog): void => {
+  windowManager.deregister(dialog);
+};
+
+/**
+ * Notify dialogs that the dialog stack has changed, e.g. a dialog was brought to front
+ * @returns {void}
+ */
+export const update = (): void => {
+  windowManager.update();
+};
+
+/**
+ * Check if the dialog is active
+ * @param dialog Dialog
+ * @returns true if active
+ */
+export const isActive = (dialog: Dialog): boolean => {
+  return windowManager.isActive(dialog);
+};
+
+/**
+ * Add or remove the dialog from the tray
+ * @param dialog Dialog
+ * @param minimized True if minimized
+ * @returns {void}
+ */
+export const setMinimized = (dialog: Dialog, minimized: boolean): void => {
+  windowManager.setMinimized(dialog, minimized);
+};
+
+/**
+ * Get horizontal offset of minimized dialog in the tray
+ * @param dialog Dialog
+ * @returns offset in pixels
+ */
+export const getTrayOffset = (dialog: Dialog): number => {
+  return windowManager.getTrayOffset(dialog);
+};
+
+/**
+ * @returns count of elements inside manager
+ */
+export const size = (): number => {
+  return windowManager.size();
+};
@@ -136,6 +136,64 @@ type ItemTriggerEvent = CustomEvent<{
   value: string;
 }>;
 
+/**
+ * Dispatched when the user moves an item to another position
+ * Prevent default to keep the item at its current position
+ */
+type ItemMoveEvent<T = unknown> = CustomEvent<{
+  /**
+   * item being moved
+   */
+  source: T;
+  /**
+   * item to move relative to
+   */
+  target: T;
+  /**
+   * position relative to `target`
+   */
+  position: 'before' | 'after' | 'inside';
+}>;
+
+/**
+ * Dispatched when a request to the data source fails
+ */
+type DataSourceErrorEvent = CustomEvent<{
+  /**
+   * Query of the failed request
+   */
+  query: string;
+  /**
+   * Page of the failed request
+   */
+  page: number;
+  /**
+   * Reason of the failure
+   */
+  error: unknown;
+}>;
+
+/**
+ * Dispatched when `progress` of a notification changes
+ */
+type ProgressChangedEvent = CustomEvent<{
+  /**
+   * new `progress`
+   */
+  value: number | null;
+}>;
+
+/**
+ * Dispatched when the user moves, resizes, maximizes or restores a dialog
+ */
+type GeometryChangedEvent = CustomEvent<{
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  maximized: boolean;
+}>;
+
 export {
   OpenedChangedEvent,
   ValueChangedEvent,
@@ -143,6 +201,10 @@ export {
   ActiveChangedEvent,
   ViewChangedEvent,
   ItemTriggerEvent,
+  ItemMoveEvent,
+  DataSourceErrorEvent,
+  GeometryChangedEvent,
+  ProgressChangedEvent,
   CheckChangedEvent,
   OffsetChangedEvent,
   ExpandedChangedEvent,
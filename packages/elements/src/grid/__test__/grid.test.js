@@ -0,0 +1,370 @@
+import { fixture, expect, elementUpdated, keyboardEvent, nextFrame, oneEvent } from '@refinitiv-ui/test-helpers';
+
+// import element and theme
+import '@refinitiv-ui/elements/grid';
+import '@refinitiv-ui/elemental-theme/light/ef-grid';
+
+const columns = [
+  { field: 'name', title: 'Name', sortable: true, resizable: true },
+  { field: 'price', title: 'Price', sortable: true, align: 'end' },
+  { field: 'currency', title: 'Currency' }
+];
+
+const getData = () => [
+  { value: 'a', name: 'Apple', price: 30, currency: 'USD' },
+  { value: 'b', name: 'banana', price: 4, currency: 'EUR' },
+  { value: 'c', name: 'Cherry', price: 120, currency: 'GBP', disabled: true },
+  { value: 'd', name: 'Date', price: 12, currency: 'THB' },
+  { value: 'e', name: 'Elderberry', price: 12, currency: 'JPY', hidden: true }
+];
+
+const createGrid = async (attributes = '') => {
+  const el = await fixture(`<ef-grid ${attributes}></ef-grid>`);
+  el.columns = columns;
+  el.data = getData();
+  await elementUpdated(el);
+  return el;
+};
+
+const getRows = (el) => el.shadowRoot.querySelectorAll('[part~=body] [role=row]');
+const getColumnTexts = (el, columnIndex) => Array.from(getRows(el))
+  .map(row => row.querySelector(`[aria-colindex="${columnIndex + 1}"]`).textContent);
+const getHeaderCell = (el, columnIndex) => el.shadowRoot.querySelector(`[role=columnheader][aria-colindex="${columnIndex + 1}"]`);
+const getCell = (el, rowIndex, columnIndex) => getRows(el)[rowIndex].querySelector(`[aria-colindex="${columnIndex + 1}"]`);
+
+const pressKeys = async (el, keys) => {
+  for (const key of keys) {
+    el.dispatchEvent(keyboardEvent('keydown', { key }));
+    await elementUpdated(el);
+    await nextFrame();
+  }
+};
+
+describe('grid/Grid', () => {
+  describe('Rendering', () => {
+    it('Renders header and visible rows', async () => {
+      const el = await createGrid();
+      const headers = el.shadowRoot.querySelectorAll('[role=columnheader]');
+      expect(Array.from(headers).map(header => header.textContent.trim())).to.deep.equal(['Name', 'Price', 'Currency']);
+      expect(getRows(el).length).to.equal(4, 'Hidden rows should not be rendered');
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Apple', 'banana', 'Cherry', 'Date']);
+    });
+
+    it('Uses field name as a title if title is not set', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'name' }];
+      await elementUpdated(el);
+      expect(getHeaderCell(el, 0).textContent.trim()).to.equal('name');
+    });
+
+    it('Formats cell values using column formatter', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'price', formatter: (value, item) => `${value.toFixed(2)} ${item.currency}` }];
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['30.00 USD', '4.00 EUR', '120.00 GBP', '12.00 THB']);
+    });
+
+    it('Applies fixed column width', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'name', width: 150 }, { field: 'price' }];
+      await elementUpdated(el);
+      expect(getHeaderCell(el, 0).getBoundingClientRect().width).to.equal(150);
+      expect(getCell(el, 0, 0).getBoundingClientRect().width).to.equal(150);
+    });
+  });
+
+  describe('Accessibility', () => {
+    it('Has grid semantics', async () => {
+      const el = await createGrid();
+      expect(el.getAttribute('role')).to.equal('grid');
+      expect(el.getAttribute('aria-rowcount')).to.equal('5');
+      expect(el.getAttribute('aria-colcount')).to.equal('3');
+      expect(el.getAttribute('aria-multiselectable')).to.equal('false');
+      expect(getRows(el)[0].getAttribute('aria-rowindex')).to.equal('2');
+      expect(getCell(el, 0, 1).getAttribute('role')).to.equal('gridcell');
+    });
+
+    it('Reflects sort and selection state', async () => {
+      const el = await createGrid('multiple');
+      el.sort = { field: 'price', direction: 'descending' };
+      el.values = ['a'];
+      await elementUpdated(el);
+      expect(el.getAttribute('aria-multiselectable')).to.equal('true');
+      expect(getHeaderCell(el, 0).getAttribute('aria-sort')).to.equal('none');
+      expect(getHeaderCell(el, 1).getAttribute('aria-sort')).to.equal('descending');
+      expect(getHeaderCell(el, 2).hasAttribute('aria-sort')).to.equal(false, 'Non-sortable column should not have aria-sort');
+      expect(Array.from(getRows(el)).map(row => row.getAttribute('aria-selected'))).to.deep.equal(['false', 'true', 'false', 'false']);
+      expect(getRows(el)[0].getAttribute('aria-disabled')).to.equal('true');
+    });
+
+    it('Does not set aria-selected when stateless', async () => {
+      const el = await createGrid('stateless');
+      expect(getRows(el)[0].hasAttribute('aria-selected')).to.equal(false);
+    });
+
+    it('Only the first header cell is in tab sequence by default', async () => {
+      const el = await createGrid();
+      const tabbable = el.shadowRoot.querySelectorAll('[tabindex="0"]');
+      expect(tabbable.length).to.equal(1);
+      expect(tabbable[0]).to.equal(getHeaderCell(el, 0));
+    });
+  });
+
+  describe('Sorting', () => {
+    it('Sorts rows by sort property', async () => {
+      const el = await createGrid();
+      el.sort = { field: 'price', direction: 'ascending' };
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['banana', 'Date', 'Apple', 'Cherry']);
+      el.sort = { field: 'name', direction: 'descending' };
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Date', 'Cherry', 'banana', 'Apple']);
+      el.sort = null;
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Apple', 'banana', 'Cherry', 'Date']);
+    });
+
+    it('Uses column comparator', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'name', sortable: true, comparator: (a, b) => a.length - b.length }];
+      el.sort = { field: 'name', direction: 'ascending' };
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Date', 'Apple', 'banana', 'Cherry']);
+    });
+
+    it('Cycles sorting on header tap and fires sort-changed', async () => {
+      const el = await createGrid();
+      const header = getHeaderCell(el, 1);
+
+      setTimeout(() => header.click());
+      let event = await oneEvent(el, 'sort-changed');
+      expect(event.detail.value).to.deep.equal({ field: 'price', direction: 'ascending' });
+
+      setTimeout(() => header.click());
+      event = await oneEvent(el, 'sort-changed');
+      expect(event.detail.value).to.deep.equal({ field: 'price', direction: 'descending' });
+
+      setTimeout(() => header.click());
+      event = await oneEvent(el, 'sort-changed');
+      expect(event.detail.value).to.equal(null);
+    });
+
+    it('Does not sort by non-sortable column', async () => {
+      const el = await createGrid();
+      getHeaderCell(el, 2).click();
+      await elementUpdated(el);
+      expect(el.sort).to.equal(null);
+    });
+
+    it('Updates order when data is modified', async () => {
+      const el = await createGrid();
+      el.sort = { field: 'name', direction: 'ascending' };
+      await elementUpdated(el);
+      el.data.push({ value: 'f', name: 'Avocado', price: 1, currency: 'USD' });
+      el.data = [...el.data];
+      await elementUpdated(el);
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Apple', 'Avocado', 'banana', 'Cherry', 'Date']);
+    });
+
+    it('Does not sort rows again when selection changes', async () => {
+      const el = await createGrid();
+      el.sort = { field: 'price', direction: 'ascending' };
+      await elementUpdated(el);
+      const rows = el.rows;
+      getCell(el, 0, 0).click();
+      await elementUpdated(el);
+      await nextFrame();
+      expect(el.value).to.equal('b');
+      expect(el.rows).to.equal(rows);
+    });
+
+    it('Updates order when a value of the sorted column is modified through composer', async () => {
+      const el = await createGrid();
+      el.sort = { field: 'price', direction: 'ascending' };
+      await elementUpdated(el);
+      el.composer.setItemPropertyValue(el.data[1], 'price', 500);
+      await elementUpdated(el);
+      await nextFrame();
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Date', 'Apple', 'Cherry', 'banana']);
+      expect(getColumnTexts(el, 1)).to.deep.equal(['12', '30', '120', '500']);
+    });
+
+    it('Updates order when a row is hidden through composer', async () => {
+      const el = await createGrid();
+      el.sort = { field: 'price', direction: 'ascending' };
+      await elementUpdated(el);
+      el.composer.setItemPropertyValue(el.data[1], 'hidden', true);
+      await elementUpdated(el);
+      await nextFrame();
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Date', 'Apple', 'Cherry']);
+    });
+  });
+
+  describe('Data', () => {
+    it('Stops listening to the previous composer', async () => {
+      const el = await createGrid();
+      const composer = el.composer;
+      const oldData = el.data;
+      el.data = getData();
+      await elementUpdated(el);
+      let updates = 0;
+      const requestUpdate = el.requestUpdate;
+      el.requestUpdate = (...args) => {
+        updates += 1;
+        return requestUpdate.apply(el, args);
+      };
+      composer.setItemPropertyValue(oldData[0], 'hidden', true);
+      await nextFrame();
+      expect(updates).to.equal(0, 'Modification of the previous composer should not update the grid');
+      expect(getColumnTexts(el, 0)).to.deep.equal(['Apple', 'banana', 'Cherry', 'Date']);
+    });
+  });
+
+  describe('Selection', () => {
+    it('Selects a row on tap and fires value-changed', async () => {
+      const el = await createGrid();
+      setTimeout(() => getCell(el, 1, 0).click());
+      const event = await oneEvent(el, 'value-changed');
+      expect(event.detail.value).to.equal('b');
+      expect(el.value).to.equal('b');
+    });
+
+    it('Keeps a single selection in single mode', async () => {
+      const el = await createGrid();
+      el.value = 'a';
+      getCell(el, 1, 0).click();
+      await elementUpdated(el);
+      expect(el.values).to.deep.equal(['b']);
+    });
+
+    it('Toggles selection in multiple mode', async () => {
+      const el = await createGrid('multiple');
+      getCell(el, 0, 0).click();
+      getCell(el, 1, 0).click();
+      await elementUpdated(el);
+      expect(el.values).to.deep.equal(['a', 'b']);
+      getCell(el, 0, 0).click();
+      await elementUpdated(el);
+      expect(el.values).to.deep.equal(['b']);
+    });
+
+    it('Does not select disabled rows or when stateless', async () => {
+      const el = await createGrid();
+      getCell(el, 2, 0).click();
+      await elementUpdated(el);
+      expect(el.value).to.equal('');
+
+      el.stateless = true;
+      getCell(el, 0, 0).click();
+      await elementUpdated(el);
+      expect(el.value).to.equal('');
+    });
+
+    it('Sets only the first value in single mode', async () => {
+      const el = await createGrid();
+      el.values = ['b', 'd'];
+      expect(el.values).to.deep.equal(['b']);
+      el.values = 'invalid';
+      expect(el.values).to.deep.equal([]);
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    it('Navigates between cells using arrow keys', async () => {
+      const el = await createGrid();
+      await pressKeys(el, ['ArrowDown']);
+      expect(el.shadowRoot.activeElement).to.equal(getHeaderCell(el, 0));
+      await pressKeys(el, ['ArrowDown', 'ArrowRight']);
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 0, 1));
+      await pressKeys(el, ['ArrowDown', 'ArrowDown']);
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 3, 1), 'Disabled row should be skipped');
+      await pressKeys(el, ['Home']);
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 3, 0));
+      await pressKeys(el, ['End']);
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 3, 2));
+      await pressKeys(el, ['ArrowUp']);
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 1, 2));
+    });
+
+    it('Navigates to first and last cell using Ctrl+Home and Ctrl+End', async () => {
+      const el = await createGrid();
+      await pressKeys(el, ['ArrowDown']);
+      el.dispatchEvent(keyboardEvent('keydown', { key: 'End', ctrlKey: true }));
+      await elementUpdated(el);
+      await nextFrame();
+      expect(el.shadowRoot.activeElement).to.equal(getCell(el, 3, 2));
+      el.dispatchEvent(keyboardEvent('keydown', { key: 'Home', ctrlKey: true }));
+      await elementUpdated(el);
+      await nextFrame();
+      expect(el.shadowRoot.activeElement).to.equal(getHeaderCell(el, 0));
+    });
+
+    it('Sorts and selects using Enter and Space', async () => {
+      const el = await createGrid();
+      await pressKeys(el, ['ArrowDown', 'Enter']);
+      expect(el.sort).to.deep.equal({ field: 'name', direction: 'ascending' });
+      await pressKeys(el, ['ArrowDown', 'ArrowDown', ' ']);
+      expect(el.value).to.equal('b');
+    });
+  });
+
+  describe('Column Resizing', () => {
+    it('Resizes a column and fires column-resize', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'name', width: 100, resizable: true }, { field: 'price' }];
+      await elementUpdated(el);
+
+      const resizer = el.shadowRoot.querySelector('[part=resizer]');
+      const { right, top } = resizer.getBoundingClientRect();
+      const init = { bubbles: true, composed: true, pointerId: 1, button: 0, clientY: top };
+      resizer.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX: right }));
+      resizer.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: right + 50 }));
+      setTimeout(() => resizer.dispatchEvent(new PointerEvent('pointerup', { ...init, clientX: right + 50 })));
+
+      const event = await oneEvent(el, 'column-resize');
+      expect(event.detail).to.deep.equal({ field: 'name', width: 150 });
+      await elementUpdated(el);
+      expect(getHeaderCell(el, 0).getBoundingClientRect().width).to.equal(150);
+    });
+
+    it('Does not resize below minimum width', async () => {
+      const el = await createGrid();
+      el.columns = [{ field: 'name', width: 100, minWidth: 80, resizable: true }];
+      await elementUpdated(el);
+
+      const resizer = el.shadowRoot.querySelector('[part=resizer]');
+      const init = { bubbles: true, composed: true, pointerId: 1, button: 0 };
+      resizer.dispatchEvent(new PointerEvent('pointerdown', { ...init, clientX: 100 }));
+      resizer.dispatchEvent(new PointerEvent('pointermove', { ...init, clientX: 0 }));
+      setTimeout(() => resizer.dispatchEvent(new PointerEvent('pointerup', { ...init, clientX: 0 })));
+
+      const event = await oneEvent(el, 'column-resize');
+      expect(event.detail.width).to.equal(80);
+    });
+  });
+
+  describe('Virtual Rendering', () => {
+    it('Only renders rows in view', async () => {
+      const el = await fixture('<ef-grid virtual style="height: 300px;"></ef-grid>');
+      el.columns = columns;
+      el.data = Array(1000).fill(0).map((_, i) => ({ value: `${i}`, name: `Item ${i}`, price: i }));
+      await elementUpdated(el);
+      await nextFrame();
+      await elementUpdated(el);
+
+      const rowCount = getRows(el).length;
+      expect(rowCount).to.be.above(0);
+      expect(rowCount).to.be.below(100);
+      expect(el.getAttribute('aria-rowcount')).to.equal('1001');
+
+      el.scrollTop = el.scrollHeight;
+      el.dispatchEvent(new Event('scroll'));
+      await nextFrame();
+      await nextFrame();
+      await elementUpdated(el);
+
+      const rows = getRows(el);
+      expect(rows[rows.length - 1].getAttribute('aria-rowindex')).to.equal('1001');
+    });
+  });
+});
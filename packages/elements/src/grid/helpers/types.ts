@@ -0,0 +1,76 @@
+import type { CollectionComposer, DataItem } from '@refinitiv-ui/utils/collection.js';
+
+export type GridDataItem = DataItem;
+
+export type GridData<T extends GridDataItem = GridDataItem> = T[] | CollectionComposer<T> | null;
+
+export type GridSortDirection = 'ascending' | 'descending';
+
+export type GridSort = {
+  /**
+   * Field of the sorted column
+   */
+  field: string;
+  /**
+   * Sort direction
+   */
+  direction: GridSortDirection;
+};
+
+/**
+ * Compares two cell values
+ *
+ * @param a First cell value
+ * @param b Second cell value
+ * @return Negative if `a` goes first, positive if `b` goes first or `0` if values are equal
+ */
+export type GridComparator = (a: unknown, b: unknown) => number;
+
+/**
+ * Converts the cell value into text
+ *
+ * @param value Cell value
+ * @param item Row data item
+ * @return Text to display in the cell
+ */
+export type GridFormatter<T extends GridDataItem = GridDataItem> = (value: unknown, item: T) => string;
+
+export interface GridColumn<T extends GridDataItem = GridDataItem> {
+  /**
+   * Property of the data item to display in the column
+   */
+  field: string;
+  /**
+   * Text of the column header
+   */
+  title?: string;
+  /**
+   * Width of the column in pixels.
+   * Columns without width share the remaining space
+   */
+  width?: number;
+  /**
+   * Minimum width of the column in pixels, used when resizing
+   */
+  minWidth?: number;
+  /**
+   * Alignment of cell content
+   */
+  align?: 'start' | 'center' | 'end';
+  /**
+   * Allow sorting by the column
+   */
+  sortable?: boolean;
+  /**
+   * Allow the user to resize the column
+   */
+  resizable?: boolean;
+  /**
+   * Custom compare function used for sorting
+   */
+  comparator?: GridComparator;
+  /**
+   * Custom text of the cell
+   */
+  formatter?: GridFormatter<T>;
+}
@@ -0,0 +1,983 @@
+import {
+  ControlElement,
+  css,
+  CSSResultGroup,
+  html,
+  PropertyValues,
+  TapEvent,
+  TemplateResult,
+  WarningNotice
+} from '@refinitiv-ui/core';
+import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
+import { property } from '@refinitiv-ui/core/decorators/property.js';
+import { styleMap, StyleInfo } from '@refinitiv-ui/core/directives/style-map.js';
+import { ifDefined } from '@refinitiv-ui/core/directives/if-defined.js';
+import { VERSION } from '../version.js';
+import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
+import type { CollectionModification } from '@refinitiv-ui/utils/collection.js';
+import { VirtualScrollController } from '@refinitiv-ui/utils/virtual.js';
+import {
+  CellIndex,
+  NavigationGrid,
+  NavigationRow,
+  up,
+  down,
+  left,
+  right,
+  first,
+  last
+} from '@refinitiv-ui/utils/navigation.js';
+import '../icon/index.js';
+import { preload } from '../icon/index.js';
+
+import type {
+  GridColumn,
+  GridComparator,
+  GridData,
+  GridDataItem,
+  GridFormatter,
+  GridSort,
+  GridSortDirection
+} from './helpers/types';
+export type {
+  GridColumn,
+  GridComparator,
+  GridData,
+  GridDataItem,
+  GridFormatter,
+  GridSort,
+  GridSortDirection
+};
+
+preload('up', 'down');
+
+/**
+ * Columns cannot be resized below this width, unless specified in column definition
+ */
+const DEFAULT_MIN_COLUMN_WIDTH = 40;
+
+/**
+ * Header is always the first row of the navigation grid
+ */
+const HEADER_ROW = 0;
+
+const valueFormatWarning = new WarningNotice('The specified \'values\' format does not conform to the required format.');
+
+type ResizeState<T extends GridDataItem> = {
+  column: GridColumn<T>;
+  pointerId: number;
+  startX: number;
+  startWidth: number;
+};
+
+/**
+ * Displays data items as rows of a table.
+ * Supports sorting, column resizing and row selection.
+ *
+ * @fires value-changed - Fired when the user changes selected rows.
+ * @fires sort-changed - Fired when the user changes sorting.
+ * @fires column-resize - Fired when the user finishes resizing a column. `detail.field` is the column field and `detail.width` the new width.
+ */
+@customElement('ef-grid')
+export class Grid<T extends GridDataItem = GridDataItem> extends ControlElement {
+
+  /**
+   * Element version number
+   * @returns version number
+   */
+  static get version (): string {
+    return VERSION;
+  }
+
+  protected readonly defaultRole: string | null = 'grid';
+
+  /**
+   * A `CSSResultGroup` that will be used
+   * to style the host, slotted children
+   * and the internal template of the element.
+   * @return CSS template
+   */
+  static get styles (): CSSResultGroup {
+    return css`
+      :host {
+        display: block;
+        max-height: 600px;
+        overflow: auto;
+        position: relative;
+      }
+      [part~=header] {
+        position: sticky;
+        top: 0;
+        z-index: 1;
+      }
+      [part~=row] {
+        display: flex;
+      }
+      [part~=cell],
+      [part~=header-cell] {
+        position: relative;
+        box-sizing: border-box;
+        flex: 1 1 0;
+        min-width: 0;
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+      [part~=header-cell] {
+        display: flex;
+        align-items: center;
+      }
+      [part=header-label] {
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+      [part=sort-icon] {
+        flex: none;
+      }
+      [part=resizer] {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        right: 0;
+        width: 6px;
+        cursor: col-resize;
+        touch-action: none;
+      }
+      :host(:dir(rtl)) [part=resizer] {
+        right: auto;
+        left: 0;
+      }
+    `;
+  }
+
+  /**
+   * Requests an update after a composer modification.
+   * Selection and highlight do not change visible rows or their order,
+   * so rows are queried again only if the view or hidden state has changed.
+   * @param modification Modifications since the last update
+   * @returns {void}
+   */
+  private modificationUpdate = (modification: CollectionModification): void => {
+    if (modification.viewChanged || modification.properties.has('hidden')) {
+      this.visibleRows = null;
+    }
+    this.requestUpdate();
+  };
+
+  /**
+   * Composer used to query and modify row state.
+   */
+  protected composer = new CollectionComposer<T>([]);
+
+  /**
+   * Visible rows in display order.
+   * Cached, as querying large data sets on every render is expensive
+   */
+  private visibleRows: readonly T[] | null = null;
+
+  /**
+   * Active cells of the header and rows, used for keyboard navigation
+   */
+  private navigationGrid: NavigationGrid = [];
+
+  /**
+   * Cell, which receives focus. Column index and navigation row index
+   */
+  private activeCell: CellIndex | null = null;
+
+  /**
+   * Widths of columns resized by the user
+   */
+  private columnWidths = new Map<string, number>();
+
+  /**
+   * Column resizing in progress
+   */
+  private resizeState: ResizeState<T> | null = null;
+
+  /**
+   * Calculates the visible range in virtual mode.
+   * Row height is also used for keyboard navigation in both modes.
+   */
+  private virtualScroll = new VirtualScrollController(this, {
+    measure: () => this.renderRoot.querySelector<HTMLElement>('[part~=body] [role=row]')?.offsetHeight || 0,
+    offset: () => this.headerHeight
+  });
+
+  /**
+   * Space reserved for rows which are
+   * outside of the visible range in virtual mode.
+   */
+  private virtualPadding = { top: 0, bottom: 0 };
+
+  /**
+   * Height of a single row, measured from rendered rows.
+   */
+  private get rowHeight (): number {
+    return this.virtualScroll.itemHeight;
+  }
+
+  /**
+   * Column definitions
+   * @type {GridColumn[]}
+   */
+  @property({ attribute: false })
+  public columns: GridColumn<T>[] = [];
+
+  /**
+   * Disable selections
+   */
+  @property({ type: Boolean })
+  public stateless = false;
+
+  /**
+   * Allow multiple selections
+   */
+  @property({ type: Boolean })
+  public multiple = false;
+
+  /**
+   * Only render rows which are in view.
+   * Improves performance for large data sets.
+   * All rows are expected to be the same height.
+   */
+  @property({ type: Boolean })
+  public virtual = false;
+
+  /**
+   * Current sorting. Set to `null` to display rows in data order
+   * @type {GridSort | null}
+   */
+  @property({ attribute: false })
+  public sort: GridSort | null = null;
+
+  /**
+   * The data object, used to render rows.
+   * @type {GridData}
+   * @default null
+   */
+  @property({ attribute: false })
+  public get data (): GridData<T> {
+    return this._data;
+  }
+  public set data (value: GridData<T>) {
+    const oldValue = this._data;
+    if (oldValue === value) {
+      return;
+    }
+    this.composer.off('modification', this.modificationUpdate);
+    if (value instanceof CollectionComposer) {
+      this.composer = value;
+    }
+    else if (Array.isArray(value)) {
+      this.composer = new CollectionComposer<T>(value);
+    }
+    else {
+      this.composer = new CollectionComposer<T>([]);
+    }
+    this.composer.on('modification', this.modificationUpdate);
+    this._data = value;
+    this.requestUpdate('data', oldValue);
+  }
+
+  private _data: GridData<T> = null;
+
+  /**
+   * Returns the first selected row value.
+   * Use `values` when multiple selection mode is enabled.
+   * @default -
+   */
+  @property({ type: String })
+  public get value (): string {
+    return this.values[0] || '';
+  }
+  public set value (value: string) {
+    const oldValue = this.value;
+    if (value !== oldValue || this.values.length > 1) {
+      this.clearSelection();
+      const item = this.composer.queryItemsByPropertyValue('value', value)[0];
+      if (item) {
+        this.composer.setItemPropertyValue(item, 'selected', true);
+      }
+      this.requestUpdate('value', oldValue);
+    }
+  }
+
+  /**
+   * Value to be submitted with the form.
+   * Multiple selection submits an entry per selected value
+   */
+  protected get formValue (): string | FormData | null {
+    return this.multiple ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
+  /**
+   * Returns a values collection of the currently
+   * selected row values
+   * @type {string[]}
+   * @default []
+   */
+  @property({ type: Array, attribute: false })
+  public get values (): string[] {
+    return this.composer.queryItemsByPropertyValue('selected', true)
+      .map(item => this.composer.getItemPropertyValue(item, 'value') as string);
+  }
+  public set values (values: string[]) {
+    if (!Array.isArray(values)) {
+      valueFormatWarning.show();
+      this.values = [];
+      return;
+    }
+
+    const oldValue = this.values;
+    if ([...values].sort().toString() !== [...oldValue].sort().toString()) {
+      this.clearSelection();
+      values.some((value) => {
+        this.composer.queryItemsByPropertyValue('value', value)
+          .forEach(item => this.composer.setItemPropertyValue(item, 'selected', true));
+        return !this.multiple; // Only set the first value if multiple is not enabled
+      });
+      this.requestUpdate('values', oldValue);
+    }
+  }
+
+  /**
+   * Selects a row, toggling the selection in multiple mode
+   * @param item Data item of the row
+   * @returns If the selection has changed or not
+   */
+  public selectItem (item: T): boolean {
+    if (this.stateless || !this.isItemSelectable(item)) {
+      return false;
+    }
+    if (this.multiple) {
+      const selected = this.composer.getItemPropertyValue(item, 'selected') === true;
+      this.composer.setItemPropertyValue(item, 'selected', !selected);
+      return true;
+    }
+    if (this.composer.getItemPropertyValue(item, 'selected') !== true) {
+      this.clearSelection();
+      this.composer.setItemPropertyValue(item, 'selected', true);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Visible rows in display order
+   */
+  protected get rows (): readonly T[] {
+    if (!this.visibleRows) {
+      this.visibleRows = this.composer.queryItems((item, composer) => composer.getItemPropertyValue(item, 'hidden') !== true);
+    }
+    return this.visibleRows;
+  }
+
+  /**
+   * Sorts rows using the sort view of the composer.
+   * The view is updated when values of the sorted column are modified through the composer
+   * @returns {void}
+   */
+  private applySort (): void {
+    const sort = this.sort;
+    const column = sort && this.columns.find(column => column.field === sort.field);
+    this.composer.setSort(sort && column ? { property: column.field, direction: sort.direction, compare: column.comparator } : null);
+  }
+
+  /**
+   * Can the row be selected by the user?
+   * @param item Data item of the row
+   * @returns True if the row is selectable
+   */
+  protected isItemSelectable (item: T): boolean {
+    return this.composer.getItemPropertyValue(item, 'disabled') !== true
+      && this.composer.getItemPropertyValue(item, 'readonly') !== true;
+  }
+
+  /**
+   * Clears the current selected rows
+   * @returns {void}
+   */
+  protected clearSelection (): void {
+    this.composer.queryItemsByPropertyValue('selected', true)
+      .forEach(item => this.composer.setItemPropertyValue(item, 'selected', false));
+    this.requestUpdate();
+  }
+
+  /**
+   * Toggles sorting of the column between ascending, descending and data order
+   * @param column Column definition
+   * @returns {void}
+   */
+  protected toggleSort (column: GridColumn<T>): void {
+    if (!column.sortable) {
+      return;
+    }
+
+    const direction = this.sort?.field === column.field ? this.sort.direction : null;
+    this.sort = direction === 'descending'
+      ? null
+      : { field: column.field, direction: direction === 'ascending' ? 'descending' : 'ascending' };
+
+    this.notifyPropertyChange('sort', this.sort);
+  }
+
+  /**
+   * Builds the navigation grid from the header and the rows.
+   * Cells of disabled rows cannot be navigated to
+   * @returns {void}
+   */
+  private updateNavigationGrid (): void {
+    const activeRow: NavigationRow = this.columns.map(() => 1);
+    const inactiveRow: NavigationRow = this.columns.map(() => 0);
+    this.navigationGrid = [
+      activeRow,
+      ...this.rows.map(item => this.composer.getItemPropertyValue(item, 'disabled') === true ? inactiveRow : activeRow)
+    ];
+
+    const cell = this.activeCell;
+    if (cell && !this.navigationGrid[cell[1]]?.[cell[0]]) {
+      this.activeCell = null;
+    }
+  }
+
+  /**
+   * Moves focus to the cell, scrolling it into view
+   * @param cell Column index and navigation row index
+   * @returns {void}
+   */
+  private async focusCell (cell: CellIndex): Promise<void> {
+    this.activeCell = cell;
+    this.requestUpdate();
+    if (cell[1] !== HEADER_ROW) {
+      this.scrollToRow(cell[1] - 1);
+    }
+    await this.updateComplete;
+    const element = this.getCellElement(cell);
+    element?.focus();
+  }
+
+  /**
+   * Gets rendered cell element
+   * @param cell Column index and navigation row index
+   * @returns Cell element, if rendered
+   */
+  private getCellElement (cell: CellIndex): HTMLElement | null {
+    return this.renderRoot.querySelector(`[role=row][aria-rowindex="${cell[1] + 1}"] [aria-colindex="${cell[0] + 1}"]`);
+  }
+
+  /**
+   * Height of the sticky header
+   */
+  private get headerHeight (): number {
+    return this.renderRoot.querySelector<HTMLElement>('[part~=header]')?.offsetHeight || 0;
+  }
+
+  /**
+   * Scrolls the row into view, keeping it below the sticky header
+   * @param index Index of the row in display order
+   * @returns {void}
+   */
+  private scrollToRow (index: number): void {
+    const rowHeight = this.rowHeight;
+    if (!rowHeight) {
+      return;
+    }
+
+    const headerHeight = this.headerHeight;
+    const top = headerHeight + index * rowHeight;
+
+    if (top - headerHeight < this.scrollTop) {
+      this.scrollTop = top - headerHeight;
+    }
+    else if (top + rowHeight > this.scrollTop + this.clientHeight) {
+      this.scrollTop = top + rowHeight - this.clientHeight;
+    }
+  }
+
+  /**
+   * Number of rows, which fit into the visible area
+   */
+  private get pageSize (): number {
+    return this.rowHeight ? Math.max(1, Math.floor((this.clientHeight - this.headerHeight) / this.rowHeight)) : 1;
+  }
+
+  /**
+   * Calculates the next cell to focus
+   * @param key Navigation key
+   * @param ctrlKey Is Ctrl or Meta key pressed
+   * @returns Next cell, if any
+   */
+  private getNextCell (key: string, ctrlKey: boolean): CellIndex | null {
+    const grid = this.navigationGrid;
+    const cell = this.activeCell;
+    if (!cell) {
+      return first(grid);
+    }
+
+    const [columnIndex, rowIndex] = cell;
+    const rowCount = grid.length;
+    switch (key) {
+      case 'Up':
+      case 'ArrowUp':
+        return up(grid, cell);
+      case 'Down':
+      case 'ArrowDown':
+        return down(grid, cell);
+      case 'Left':
+      case 'ArrowLeft':
+        return left(grid, cell);
+      case 'Right':
+      case 'ArrowRight':
+        return right(grid, cell);
+      case 'Home':
+        return ctrlKey ? first(grid) : [0, rowIndex];
+      case 'End':
+        return ctrlKey ? last(grid) : [this.columns.length - 1, rowIndex];
+      case 'PageUp':
+        return up(grid, [columnIndex, Math.max(1, rowIndex - this.pageSize + 1)]) || first(grid);
+      case 'PageDown':
+        return down(grid, [columnIndex, Math.min(rowCount - 2, rowIndex + this.pageSize - 1)]) || up(grid, [columnIndex, rowCount]);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Handles key input
+   * @param event Key down event object
+   * @returns {void}
+   */
+  protected onKeyDown (event: KeyboardEvent): void {
+    if (event.defaultPrevented || !this.columns.length) {
+      return;
+    }
+
+    switch (event.key) {
+      case ' ':
+      case 'Spacebar':
+      case 'Enter':
+        this.activateCell();
+        break;
+      default: {
+        const cell = this.getNextCell(event.key, event.ctrlKey || event.metaKey);
+        if (!cell) {
+          return;
+        }
+        void this.focusCell(cell);
+      }
+    }
+
+    event.preventDefault();
+  }
+
+  /**
+   * Sorts by the column of an active header cell,
+   * or selects the row of an active cell
+   * @returns {void}
+   */
+  private activateCell (): void {
+    const cell = this.activeCell;
+    if (!cell) {
+      return;
+    }
+
+    if (cell[1] === HEADER_ROW) {
+      this.toggleSort(this.columns[cell[0]]);
+      return;
+    }
+
+    const item = this.rows[cell[1] - 1];
+    if (item && this.selectItem(item)) {
+      this.fireSelectionUpdate();
+    }
+  }
+
+  /**
+   * Handles tap on header and row cells
+   * @param event Tap event
+   * @returns {void}
+   */
+  protected onTap (event: TapEvent): void {
+    const path = event.composedPath() as HTMLElement[];
+    let columnIndex = -1;
+    let rowIndex = -1;
+
+    for (const target of path) {
+      if (target === this) {
+        break;
+      }
+      if (!(target instanceof HTMLElement)) {
+        continue;
+      }
+      if (target.getAttribute('part') === 'resizer') {
+        return;
+      }
+      if (target.hasAttribute('aria-colindex')) {
+        columnIndex = Number(target.getAttribute('aria-colindex')) - 1;
+      }
+      if (target.getAttribute('role') === 'row') {
+        rowIndex = Number(target.getAttribute('aria-rowindex')) - 1;
+        break;
+      }
+    }
+
+    if (rowIndex < 0 || columnIndex < 0 || !this.navigationGrid[rowIndex]?.[columnIndex]) {
+      return;
+    }
+
+    this.activeCell = [columnIndex, rowIndex];
+    this.activateCell();
+    this.requestUpdate();
+  }
+
+  /**
+   * Fire value changed event
+   * @returns {void}
+   */
+  private fireSelectionUpdate (): void {
+    this.notifyPropertyChange('value', this.value);
+  }
+
+  /**
+   * Starts resizing the column
+   * @param event Pointer down event
+   * @param column Column definition
+   * @returns {void}
+   */
+  private onResizeStart (event: PointerEvent, column: GridColumn<T>): void {
+    const resizer = event.target as HTMLElement;
+    const cell = resizer.parentElement;
+    if (event.button !== 0 || !cell) {
+      return;
+    }
+
+    event.preventDefault();
+    resizer.setPointerCapture?.(event.pointerId);
+
+    this.resizeState = {
+      column,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startWidth: cell.getBoundingClientRect().width
+    };
+  }
+
+  /**
+   * Updates the column width while resizing
+   * @param event Pointer move event
+   * @returns {void}
+   */
+  private onResizeMove = (event: PointerEvent): void => {
+    const state = this.resizeState;
+    if (!state || state.pointerId !== event.pointerId) {
+      return;
+    }
+
+    const direction = getComputedStyle(this).direction === 'rtl' ? -1 : 1;
+    const minWidth = state.column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+    const width = Math.max(minWidth, Math.round(state.startWidth + (event.clientX - state.startX) * direction));
+
+    if (this.columnWidths.get(state.column.field) !== width) {
+      this.columnWidths.set(state.column.field, width);
+      this.requestUpdate();
+    }
+  };
+
+  /**
+   * Finishes resizing the column
+   * @param event Pointer up or cancel event
+   * @returns {void}
+   */
+  private onResizeEnd = (event: PointerEvent): void => {
+    const state = this.resizeState;
+    if (!state || state.pointerId !== event.pointerId) {
+      return;
+    }
+
+    this.resizeState = null;
+    const width = this.columnWidths.get(state.column.field);
+    if (width === undefined) {
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent('column-resize', {
+      detail: {
+        field: state.column.field,
+        width
+      }
+    }));
+  };
+
+  /**
+   * Gets the width of the column, resized by the user or from column definition
+   * @param column Column definition
+   * @returns Width in pixels, if fixed
+   */
+  private getColumnWidth (column: GridColumn<T>): number | undefined {
+    return this.columnWidths.get(column.field) ?? column.width;
+  }
+
+  /**
+   * Gets sizing and alignment styles of the column cells
+   * @param column Column definition
+   * @returns Style info
+   */
+  private getColumnStyle (column: GridColumn<T>): StyleInfo {
+    const width = this.getColumnWidth(column);
+    const style: StyleInfo = width
+      ? { flex: `0 0 ${width}px` }
+      : { minWidth: `${column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH}px` };
+
+    if (column.align) {
+      style.textAlign = column.align;
+      style.justifyContent = column.align === 'start' ? 'flex-start' : column.align === 'end' ? 'flex-end' : 'center';
+    }
+    return style;
+  }
+
+  /**
+   * Minimum width of a row, so that columns overflow horizontally rather than shrink
+   */
+  private get rowMinWidth (): string {
+    const width = this.columns.reduce((sum, column) => sum + (this.getColumnWidth(column) ?? column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH), 0);
+    return `${width}px`;
+  }
+
+  /**
+   * Gets the range of rows to render.
+   * Calculates the space to reserve for the remaining rows in virtual mode.
+   * @returns Start and end index of rows to render
+   */
+  private getRenderRange (): [number, number] {
+    const count = this.rows.length;
+    this.virtualPadding = { top: 0, bottom: 0 };
+
+    if (!this.virtual) {
+      return [0, count];
+    }
+
+    const { start, end, paddingTop, paddingBottom } = this.virtualScroll.getRange(count);
+    this.virtualPadding = { top: paddingTop, bottom: paddingBottom };
+    return [start, end];
+  }
+
+  /**
+   * Gets tabindex of the cell. Only the active cell can be tabbed to
+   * @param columnIndex Column index
+   * @param rowIndex Navigation row index
+   * @returns tabindex value
+   */
+  private getCellTabIndex (columnIndex: number, rowIndex: number): string {
+    const [activeColumn, activeRow] = this.activeCell || [0, HEADER_ROW];
+    return columnIndex === activeColumn && rowIndex === activeRow ? '0' : '-1';
+  }
+
+  /**
+   * Gets cell text
+   * @param column Column definition
+   * @param item Data item of the row
+   * @returns Cell text
+   */
+  private formatCell (column: GridColumn<T>, item: T): string {
+    const value = this.composer.getItemPropertyValue(item, column.field);
+    if (column.formatter) {
+      return column.formatter(value, item);
+    }
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  /**
+   * Gets value of `aria-sort` for the column
+   * @param column Column definition
+   * @returns Sort direction, if the column is sortable
+   */
+  private getAriaSort (column: GridColumn<T>): GridSortDirection | 'none' | undefined {
+    if (!column.sortable) {
+      return undefined;
+    }
+    return this.sort?.field === column.field ? this.sort.direction : 'none';
+  }
+
+  /**
+   * Template of the header row
+   */
+  protected get headerTemplate (): TemplateResult {
+    return html`
+      <div part="header" role="rowgroup">
+        <div part="row header-row" role="row" aria-rowindex="1" style=${styleMap({ minWidth: this.rowMinWidth })}>
+          ${this.columns.map((column, columnIndex) => this.headerCellTemplate(column, columnIndex))}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Template of a header cell
+   * @param column Column definition
+   * @param columnIndex Index of the column
+   * @returns Header cell template
+   */
+  protected headerCellTemplate (column: GridColumn<T>, columnIndex: number): TemplateResult {
+    const ariaSort = this.getAriaSort(column);
+    return html`
+      <div
+        part="header-cell"
+        role="columnheader"
+        aria-colindex="${columnIndex + 1}"
+        aria-sort=${ifDefined(ariaSort)}
+        tabindex=${this.getCellTabIndex(columnIndex, HEADER_ROW)}
+        ?sortable=${column.sortable}
+        style=${styleMap(this.getColumnStyle(column))}>
+        <span part="header-label">${column.title ?? column.field}</span>
+        ${ariaSort && ariaSort !== 'none' ? html`<ef-icon part="sort-icon" icon="${ariaSort === 'ascending' ? 'up' : 'down'}"></ef-icon>` : null}
+        ${column.resizable ? html`<div
+          part="resizer"
+          aria-hidden="true"
+          @pointerdown=${(event: PointerEvent) => this.onResizeStart(event, column)}
+          @pointermove=${this.onResizeMove}
+          @pointerup=${this.onResizeEnd}
+          @pointercancel=${this.onResizeEnd}></div>` : null}
+      </div>
+    `;
+  }
+
+  /**
+   * Template of a row
+   * @param item Data item of the row
+   * @param index Index of the row in display order
+   * @returns Row template
+   */
+  protected rowTemplate (item: T, index: number): TemplateResult {
+    const rowIndex = index + 1;
+    const selected = this.composer.getItemPropertyValue(item, 'selected') === true;
+    const disabled = this.composer.getItemPropertyValue(item, 'disabled') === true;
+    return html`
+      <div
+        part="row"
+        role="row"
+        aria-rowindex="${rowIndex + 1}"
+        aria-selected=${ifDefined(this.stateless ? undefined : String(selected))}
+        aria-disabled=${ifDefined(disabled ? 'true' : undefined)}
+        ?selected=${selected}
+        ?disabled=${disabled}
+        ?readonly=${this.composer.getItemPropertyValue(item, 'readonly') === true}
+        style=${styleMap({ minWidth: this.rowMinWidth })}>
+        ${this.columns.map((column, columnIndex) => html`
+          <div
+            part="cell"
+            role="gridcell"
+            aria-colindex="${columnIndex + 1}"
+            tabindex=${this.getCellTabIndex(columnIndex, rowIndex)}
+            style=${styleMap(this.getColumnStyle(column))}>${this.formatCell(column, item)}</div>
+        `)}
+      </div>
+    `;
+  }
+
+  /**
+   * Invoked before update() to compute values needed during the update.
+   * @param changedProperties changed properties
+   * @returns {void}
+   */
+  protected willUpdate (changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('data') || changedProperties.has('columns') || changedProperties.has('sort')) {
+      // keep the sort view of a composer passed as data, unless the grid has been sorted
+      if (this.sort || changedProperties.get('sort')) {
+        this.applySort();
+      }
+      this.visibleRows = null;
+    }
+    if (changedProperties.has('data') || changedProperties.has('virtual')) {
+      this.virtualScroll.reset(); // row height needs to be measured again
+    }
+    if (changedProperties.has('multiple')) {
+      this.setAttribute('aria-multiselectable', this.multiple ? 'true' : 'false');
+    }
+
+    this.updateNavigationGrid();
+    this.setAttribute('aria-rowcount', String(this.rows.length + 1));
+    this.setAttribute('aria-colcount', String(this.columns.length));
+  }
+
+  /**
+   * Called after the element’s DOM has been updated
+   * @param changedProperties changed properties
+   * @returns {void}
+   */
+  protected updated (changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    // Render the visible range, once the row height is known
+    if (this.virtualScroll.measure() && this.virtual) {
+      this.requestUpdate();
+    }
+  }
+
+  /**
+   * Called when the element has been appended to the DOM
+   * @returns {void}
+   */
+  public connectedCallback (): void {
+    super.connectedCallback();
+    this.virtualScroll.connect();
+  }
+
+  /**
+   * Called when the element has been removed from the DOM
+   * @returns {void}
+   */
+  public disconnectedCallback (): void {
+    super.disconnectedCallback();
+    this.virtualScroll.disconnect();
+  }
+
+  /**
+   * Invoked when the element is first updated
+   * @param changedProperties changed properties
+   * @returns {void}
+   */
+  protected firstUpdated (changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    this.addEventListener('keydown', this.onKeyDown);
+    this.addEventListener('tap', this.onTap);
+  }
+
+  /**
+   * A `TemplateResult` that will be used
+   * to render the updated internal template.
+   * @return Render template
+   */
+  protected render (): TemplateResult {
+    const rows = this.rows;
+    const [startIndex, endIndex] = this.getRenderRange();
+    const { top, bottom } = this.virtualPadding;
+    const renderRows: TemplateResult[] = [];
+    for (let index = startIndex; index < endIndex; index += 1) {
+      renderRows.push(this.rowTemplate(rows[index], index));
+    }
+
+    return html`
+      ${this.headerTemplate}
+      <div part="body" role="rowgroup" style=${styleMap({ paddingTop: `${top}px`, paddingBottom: `${bottom}px` })}>
+        ${renderRows}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'ef-grid': Grid;
+  }
+}
@@ -611,6 +611,15 @@ export class Heatmap extends ResponsiveElement {
     }
   }
 
+  /**
+   * Repaints the heatmap with colours of the new theme
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    super.themeChangedCallback();
+    this.prepareAndPaint();
+  }
+
   /**
    * Stop any current animations on a cell.
    * @param {HeatmapCell} cell cell to stop the animation on
@@ -0,0 +1,104 @@
+import { fixture, expect, elementUpdated, nextFrame } from '@refinitiv-ui/test-helpers';
+
+// import element and theme
+import '@refinitiv-ui/elements/interactive-chart';
+import '@refinitiv-ui/elemental-theme/light/ef-interactive-chart.js';
+
+const closes = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03
+];
+
+const createConfig = (indicators) => ({
+  series: [
+    {
+      type: 'line',
+      symbol: 'Price',
+      data: closes.map((value, index) => ({ time: index + 1, value }))
+    },
+    {
+      type: 'volume',
+      data: closes.map((value, index) => ({ time: index + 1, value: 100 }))
+    }
+  ],
+  indicators
+});
+
+const createChart = async (indicators) => {
+  const el = await fixture('<ef-interactive-chart style="width: 600px;"></ef-interactive-chart>');
+  el.config = createConfig(indicators);
+  await elementUpdated(el);
+  await nextFrame();
+  await nextFrame();
+  return el;
+};
+
+const getSeries = (el, symbol) => el.internalConfig.series.find(series => series.symbol === symbol);
+const getLastValue = (series) => series.data[series.data.length - 1].value;
+
+describe('interactive-chart/Indicators', () => {
+  it('Should create indicator series after config series', async () => {
+    const el = await createChart([
+      { type: 'sma', source: 0, period: 5 },
+      { type: 'bollinger', source: 0, period: 5 },
+      { type: 'macd', source: 0, fastPeriod: 3, slowPeriod: 6, signalPeriod: 3 }
+    ]);
+
+    expect(el.config.series.length).to.equal(2, 'Config should not be changed');
+    expect(el.seriesList.length).to.equal(2 + 1 + 3 + 3);
+    expect(getSeries(el, 'SMA 5').data.length).to.equal(closes.length - 4);
+    expect(getLastValue(getSeries(el, 'SMA 5'))).to.be.closeTo(46.04, 0.01);
+  });
+
+  it('Should calculate RSI', async () => {
+    const el = await createChart([{ type: 'rsi', source: 0 }]);
+    const rsi = getSeries(el, 'RSI 14');
+    expect(rsi.data[0].value).to.be.closeTo(70.46, 0.01);
+  });
+
+  it('Should calculate VWAP from volume series', async () => {
+    const el = await createChart([{ type: 'vwap', source: 0, volume: 1 }]);
+    const vwap = getSeries(el, 'VWAP');
+    const average = closes.reduce((sum, value) => sum + value, 0) / closes.length;
+    expect(getLastValue(vwap)).to.be.closeTo(average, 0.0001);
+  });
+
+  it('Should show indicators in legend', async () => {
+    const el = await createChart([
+      { type: 'ema', source: 0, period: 5 },
+      { type: 'bollinger', source: 0, period: 5, symbol: 'Bands' }
+    ]);
+    const symbols = Array.from(el.shadowRoot.querySelectorAll('[part=legend] .symbol')).map(symbol => symbol.textContent);
+    expect(symbols).to.deep.equal(['Price : ', 'EMA 5 : ', 'Bands : ']);
+  });
+
+  it('Should render oscillators in a separate pane', async () => {
+    const el = await createChart([{ type: 'rsi', source: 0 }, { type: 'sma', source: 0 }]);
+    const rsiScale = el.seriesList[2].priceScale().options();
+    const mainScale = el.chart.priceScale('right').options();
+    expect(rsiScale.scaleMargins.top).to.be.above(1 - mainScale.scaleMargins.bottom);
+    expect(el.seriesList[3].options().priceScaleId).to.not.equal(el.seriesList[2].options().priceScaleId);
+  });
+
+  it('Should recalculate indicators on streaming updates', async () => {
+    const el = await createChart([{ type: 'sma', source: 0, period: 2 }]);
+    const sma = getSeries(el, 'SMA 2');
+    const length = sma.data.length;
+
+    el.updateSeries(0, { time: closes.length, value: 50 });
+    await nextFrame();
+    await nextFrame();
+    expect(sma.data.length).to.equal(length, 'Last value should be replaced');
+    expect(getLastValue(sma)).to.be.closeTo((46.00 + 50) / 2, 0.0001);
+
+    el.updateSeries(0, { time: closes.length + 1, value: 52 });
+    await nextFrame();
+    await nextFrame();
+    expect(sma.data.length).to.equal(length + 1);
+    expect(getLastValue(sma)).to.equal(51);
+  });
+
+  it('Should ignore indicators with unknown source', async () => {
+    const el = await createChart([{ type: 'sma', source: 5 }]);
+    expect(el.seriesList.length).to.equal(2);
+  });
+});
@@ -0,0 +1,131 @@
+import { fixture, expect, elementUpdated, nextFrame } from '@refinitiv-ui/test-helpers';
+
+// import element and theme
+import '@refinitiv-ui/elements/interactive-chart';
+import '@refinitiv-ui/elemental-theme/light/ef-interactive-chart.js';
+
+const createConfig = () => ({
+  series: [
+    {
+      type: 'line',
+      symbol: 'Line',
+      data: [
+        { time: '2019-04-11', value: 80.01 },
+        { time: '2019-04-12', value: 96.63 },
+        { time: '2019-04-13', value: 76.64 }
+      ]
+    },
+    {
+      type: 'candlestick',
+      symbol: 'OHLC',
+      data: [
+        { time: '2019-04-11', open: 10, high: 12, low: 9, close: 11 },
+        { time: '2019-04-12', open: 11, high: 13, low: 10, close: 12 },
+        { time: '2019-04-13', open: 12, high: 14, low: 11, close: 13 }
+      ]
+    }
+  ]
+});
+
+const createChart = async () => {
+  const el = await fixture('<ef-interactive-chart style="width: 600px;"></ef-interactive-chart>');
+  el.config = createConfig();
+  await elementUpdated(el);
+  await nextFrame();
+  await nextFrame();
+  return el;
+};
+
+const getLegendPrice = (el, index) => el.shadowRoot.querySelectorAll('[part=legend] .row')[index].querySelector('.price').textContent;
+
+describe('interactive-chart/Streaming', () => {
+  it('Should append a new data point', async () => {
+    const el = await createChart();
+    const chart = el.chart;
+
+    el.updateSeries(0, { time: '2019-04-14', value: 90.5 });
+    await nextFrame();
+    await nextFrame();
+
+    expect(el.chart).to.equal(chart, 'Chart should not be re-created');
+    expect(el.config.series[0].data.length).to.equal(4);
+    expect(getLegendPrice(el, 0)).to.equal('90.5');
+  });
+
+  it('Should update the last data point with the same time', async () => {
+    const el = await createChart();
+
+    el.updateSeries(1, { time: '2019-04-13', open: 12, high: 15, low: 11, close: 14 });
+    await nextFrame();
+    await nextFrame();
+
+    const data = el.config.series[1].data;
+    expect(data.length).to.equal(3);
+    expect(data[2].close).to.equal(14);
+  });
+
+  it('Should batch updates on animation frame', async () => {
+    const el = await createChart();
+
+    el.updateSeries(0, { time: '2019-04-14', value: 81 });
+    el.updateSeries(0, { time: '2019-04-14', value: 82 });
+    el.updateSeries(0, { time: '2019-04-15', value: 83 });
+    expect(el.config.series[0].data.length).to.equal(3, 'Updates should not be applied synchronously');
+
+    await nextFrame();
+    await nextFrame();
+    const data = el.config.series[0].data;
+    expect(data.length).to.equal(5);
+    expect(data[3].value).to.equal(82);
+    expect(getLegendPrice(el, 0)).to.equal('83');
+  });
+
+  it('Should keep visible range when scrolled away from real time', async () => {
+    const el = await createChart();
+    const timeScale = el.chart.timeScale();
+    timeScale.scrollToPosition(-2, false);
+    const range = timeScale.getVisibleLogicalRange();
+
+    el.updateSeries(0, { time: '2019-04-14', value: 81 });
+    await nextFrame();
+    await nextFrame();
+
+    expect(timeScale.getVisibleLogicalRange()).to.deep.equal(range);
+  });
+
+  it('Should not modify data passed to config', async () => {
+    const el = await createChart();
+    const data = el.config.series[0].data;
+
+    el.updateSeries(0, { time: '2019-04-14', value: 81 });
+    await nextFrame();
+    await nextFrame();
+
+    expect(data.length).to.equal(3, 'Original data should not change');
+    expect(el.config.series[0].data.length).to.equal(4);
+  });
+
+  it('Should ignore data points older than the last data point', async () => {
+    const el = await createChart();
+
+    el.updateSeries(0, { time: '2019-04-10', value: 81 });
+    el.updateSeries(0, { time: '2019-04-14', value: 82 });
+    await nextFrame();
+    await nextFrame();
+
+    const data = el.config.series[0].data;
+    expect(data.length).to.equal(4);
+    expect(data[3].value).to.equal(82);
+    expect(getLegendPrice(el, 0)).to.equal('82');
+  });
+
+  it('Should ignore data points of unknown series', async () => {
+    const el = await createChart();
+
+    el.updateSeries(5, { time: '2019-04-14', value: 81 });
+    await nextFrame();
+    await nextFrame();
+
+    expect(el.config.series[0].data.length).to.equal(3);
+  });
+});
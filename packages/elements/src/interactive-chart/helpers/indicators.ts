@@ -0,0 +1,279 @@
+import type { BarData, HistogramData, LineData } from 'lightweight-charts';
+import type { InteractiveChartIndicator, IndicatorType } from './types';
+
+/**
+ * Data point used to calculate indicators
+ */
+type SourcePoint = {
+  time: LineData['time'];
+  value: number;
+  high: number;
+  low: number;
+  volume?: number;
+};
+
+/**
+ * Value of each indicator line, or null when there is not enough data
+ */
+type IndicatorValues = (number | null)[];
+
+/**
+ * Calculates the next state and values from the previous state.
+ * States must not be mutated, so the last data point can be recalculated
+ */
+type IndicatorStep<T> = (state: T, point: SourcePoint) => { state: T; values: IndicatorValues };
+
+/**
+ * Calculates indicator values point by point, regardless of the indicator state
+ */
+type IndicatorCalculation = {
+  length: number;
+  next: (point: SourcePoint, replace?: boolean) => IndicatorValues;
+};
+
+/**
+ * Description of the indicator line
+ */
+type IndicatorLine = {
+  name: string;
+  histogram?: boolean;
+  legendVisible?: boolean;
+};
+
+/**
+ * Indicator definition
+ */
+type IndicatorDefinition = {
+  label: string;
+  pane: boolean;
+  lines: IndicatorLine[];
+  calculator: IndicatorCalculation;
+};
+
+type WindowState = { window: number[] };
+type EmaState = { count: number; sum: number; ema: number | null };
+type VwapState = { priceVolume: number; volume: number };
+type RsiState = { previous: number | null; count: number; gain: number; loss: number };
+type MacdState = { fast: EmaState; slow: EmaState; signal: EmaState };
+
+const DEFAULT_PERIOD = 20;
+const DEFAULT_RSI_PERIOD = 14;
+const DEFAULT_DEVIATION = 2;
+const DEFAULT_FAST_PERIOD = 12;
+const DEFAULT_SLOW_PERIOD = 26;
+const DEFAULT_SIGNAL_PERIOD = 9;
+
+/**
+ * Indicators, which have their own scale and are rendered in a separate pane
+ */
+const PANE_INDICATORS: IndicatorType[] = ['rsi', 'macd'];
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Add the value to moving window
+ * @param state window state
+ * @param value new value
+ * @param period window size
+ * @returns new window state
+ */
+const pushWindow = (state: WindowState, value: number, period: number): WindowState => {
+  return { window: state.window.concat(value).slice(-period) };
+};
+
+/**
+ * Calculate exponential moving average.
+ * The first value is seeded with simple moving average
+ * @param state EMA state
+ * @param value new value
+ * @param period EMA period
+ * @returns new EMA state
+ */
+const nextEma = (state: EmaState, value: number, period: number): EmaState => {
+  const count = state.count + 1;
+  if (state.ema !== null) {
+    return { count, sum: state.sum, ema: (value - state.ema) * 2 / (period + 1) + state.ema };
+  }
+  const sum = state.sum + value;
+  return { count, sum, ema: count === period ? sum / period : null };
+};
+
+const initialEma = (): EmaState => ({ count: 0, sum: 0, ema: null });
+
+const sma = (period: number): IndicatorStep<WindowState> => (state, point) => {
+  const next = pushWindow(state, point.value, period);
+  return { state: next, values: [next.window.length === period ? average(next.window) : null] };
+};
+
+const ema = (period: number): IndicatorStep<EmaState> => (state, point) => {
+  const next = nextEma(state, point.value, period);
+  return { state: next, values: [next.ema] };
+};
+
+const bollinger = (period: number, deviation: number): IndicatorStep<WindowState> => (state, point) => {
+  const next = pushWindow(state, point.value, period);
+  if (next.window.length < period) {
+    return { state: next, values: [null, null, null] };
+  }
+  const mean = average(next.window);
+  const sd = Math.sqrt(average(next.window.map(value => (value - mean) ** 2)));
+  return { state: next, values: [mean + deviation * sd, mean, mean - deviation * sd] };
+};
+
+const vwap = (): IndicatorStep<VwapState> => (state, point) => {
+  const volume = point.volume || 0;
+  const typicalPrice = (point.high + point.low + point.value) / 3;
+  const next = { priceVolume: state.priceVolume + typicalPrice * volume, volume: state.volume + volume };
+  return { state: next, values: [next.volume ? next.priceVolume / next.volume : null] };
+};
+
+const rsi = (period: number): IndicatorStep<RsiState> => (state, point) => {
+  if (state.previous === null) {
+    return { state: { ...state, previous: point.value }, values: [null] };
+  }
+
+  const change = point.value - state.previous;
+  const gain = Math.max(change, 0);
+  const loss = Math.max(-change, 0);
+  const count = state.count + 1;
+
+  // Wilder's smoothing, seeded with average gain and loss of the first period
+  const next: RsiState = count <= period
+    ? { previous: point.value, count, gain: state.gain + gain / period, loss: state.loss + loss / period }
+    : { previous: point.value, count, gain: (state.gain * (period - 1) + gain) / period, loss: (state.loss * (period - 1) + loss) / period };
+
+  if (count < period) {
+    return { state: next, values: [null] };
+  }
+  return { state: next, values: [next.loss ? 100 - 100 / (1 + next.gain / next.loss) : 100] };
+};
+
+const macd = (fastPeriod: number, slowPeriod: number, signalPeriod: number): IndicatorStep<MacdState> => (state, point) => {
+  const fast = nextEma(state.fast, point.value, fastPeriod);
+  const slow = nextEma(state.slow, point.value, slowPeriod);
+  if (fast.ema === null || slow.ema === null) {
+    return { state: { fast, slow, signal: state.signal }, values: [null, null, null] };
+  }
+
+  const value = fast.ema - slow.ema;
+  const signal = nextEma(state.signal, value, signalPeriod);
+  return {
+    state: { fast, slow, signal },
+    values: [value, signal.ema, signal.ema === null ? null : value - signal.ema]
+  };
+};
+
+/**
+ * Calculates indicator values point by point.
+ * The last data point can be replaced, which allows to recalculate
+ * indicators incrementally while the last bar is updated
+ */
+class IndicatorCalculator<T> implements IndicatorCalculation {
+  private committed: T;
+  private last: SourcePoint | null = null;
+
+  /**
+   * Number of data points used in calculation
+   */
+  public length = 0;
+
+  /**
+   * Create calculator
+   * @param step Function to calculate the next values
+   * @param initialState Initial state
+   */
+  constructor (private step: IndicatorStep<T>, initialState: T) {
+    this.committed = initialState;
+  }
+
+  /**
+   * Calculate values for the next data point
+   * @param point Data point
+   * @param replace True to replace the last data point
+   * @returns values of indicator lines
+   */
+  public next (point: SourcePoint, replace = false): IndicatorValues {
+    if (this.last && !replace) {
+      this.committed = this.step(this.committed, this.last).state;
+    }
+    if (!this.last || !replace) {
+      this.length += 1;
+    }
+    this.last = point;
+    return this.step(this.committed, point).values;
+  }
+}
+
+/**
+ * Create indicator definition from the config
+ * @param config Indicator config
+ * @returns indicator definition
+ */
+const createIndicator = (config: InteractiveChartIndicator): IndicatorDefinition => {
+  const period = config.period || (config.type === 'rsi' ? DEFAULT_RSI_PERIOD : DEFAULT_PERIOD);
+  const pane = PANE_INDICATORS.includes(config.type);
+  const calculator = <T>(step: IndicatorStep<T>, state: T): IndicatorCalculation => new IndicatorCalculator(step, state);
+
+  switch (config.type) {
+    case 'ema':
+      return { label: `EMA ${period}`, pane, lines: [{ name: '' }], calculator: calculator(ema(period), initialEma()) };
+    case 'bollinger': {
+      const deviation = config.deviation || DEFAULT_DEVIATION;
+      return {
+        label: `BB ${period}, ${deviation}`,
+        pane,
+        lines: [{ name: 'upper', legendVisible: false }, { name: '' }, { name: 'lower', legendVisible: false }],
+        calculator: calculator(bollinger(period, deviation), { window: [] })
+      };
+    }
+    case 'vwap':
+      return { label: 'VWAP', pane, lines: [{ name: '' }], calculator: calculator(vwap(), { priceVolume: 0, volume: 0 }) };
+    case 'rsi':
+      return { label: `RSI ${period}`, pane, lines: [{ name: '' }], calculator: calculator(rsi(period), { previous: null, count: 0, gain: 0, loss: 0 }) };
+    case 'macd': {
+      const fastPeriod = config.fastPeriod || DEFAULT_FAST_PERIOD;
+      const slowPeriod = config.slowPeriod || DEFAULT_SLOW_PERIOD;
+      const signalPeriod = config.signalPeriod || DEFAULT_SIGNAL_PERIOD;
+      return {
+        label: `MACD ${fastPeriod}, ${slowPeriod}, ${signalPeriod}`,
+        pane,
+        lines: [{ name: '' }, { name: 'signal', legendVisible: false }, { name: 'histogram', histogram: true, legendVisible: false }],
+        calculator: calculator(macd(fastPeriod, slowPeriod, signalPeriod), { fast: initialEma(), slow: initialEma(), signal: initialEma() })
+      };
+    }
+    case 'sma':
+    default:
+      return { label: `SMA ${period}`, pane, lines: [{ name: '' }], calculator: calculator(sma(period), { window: [] }) };
+  }
+};
+
+/**
+ * Convert series data into a data point used for calculation.
+ * Close price is used for bars and candlesticks
+ * @param data Series data point
+ * @param [volume] Volume of the data point
+ * @returns source point or null if the data point has no value
+ */
+const toSourcePoint = (data: LineData | BarData | HistogramData, volume?: number): SourcePoint | null => {
+  const bar = data as BarData;
+  const value = 'close' in data ? Number(bar.close) : Number((data as LineData).value);
+  if (isNaN(value)) {
+    return null;
+  }
+  return {
+    time: data.time,
+    value,
+    high: 'high' in data ? Number(bar.high) : value,
+    low: 'low' in data ? Number(bar.low) : value,
+    volume
+  };
+};
+
+export {
+  createIndicator,
+  toSourcePoint,
+  IndicatorCalculator,
+  IndicatorDefinition,
+  IndicatorValues,
+  SourcePoint
+};
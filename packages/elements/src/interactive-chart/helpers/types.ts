@@ -45,6 +45,7 @@ interface Time {
 
 interface InteractiveChartConfig {
   series: InteractiveChartSeries[];
+  indicators?: InteractiveChartIndicator[];
   options?: DeepPartial<ChartOptions>;
 }
 
@@ -73,8 +74,27 @@ interface InteractiveChartSeries {
   seriesOptions?: SeriesPartialOptions<SeriesOptions>;
 }
 
+type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd';
+
+interface InteractiveChartIndicator {
+  type: IndicatorType;
+  source: number;
+  volume?: number;
+  period?: number;
+  deviation?: number;
+  fastPeriod?: number;
+  slowPeriod?: number;
+  signalPeriod?: number;
+  symbol?: string;
+  legendVisible?: boolean;
+  legendPriceFormatter?: (price: string | number) => string | number;
+  seriesOptions?: LineSeriesPartialOptions;
+}
+
 export {
   InteractiveChartConfig,
+  InteractiveChartIndicator,
+  IndicatorType,
   InteractiveChartSeries,
   Time,
   Theme,
@@ -6,13 +6,17 @@ import {
   CSSResultGroup,
   PropertyValues,
   ElementSize,
-  DeprecationNotice
+  DeprecationNotice,
+  WarningNotice
 } from '@refinitiv-ui/core';
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
 import { VERSION } from '../version.js';
 import { color as parseColor, RGBColor, HSLColor } from '@refinitiv-ui/utils/color.js';
+import { AnimationTaskRunner } from '@refinitiv-ui/utils/async.js';
+import { replaceThemeValues } from '@refinitiv-ui/utils/theme.js';
+import type { ThemeSnapshot } from '@refinitiv-ui/utils/theme.js';
 import {
   createChart as chart,
   IChartApi,
@@ -36,6 +40,8 @@ import '../tooltip/index.js';
 import type {
   InteractiveChartConfig,
   InteractiveChartSeries,
+  InteractiveChartIndicator,
+  IndicatorType,
   Time,
   Theme,
   RowLegend,
@@ -47,16 +53,88 @@ import type {
 
 import { LegendStyle } from './helpers/types.js';
 import { merge, MergeObject } from './helpers/merge.js';
+import { createIndicator, toSourcePoint } from './helpers/indicators.js';
+import type { IndicatorDefinition } from './helpers/indicators';
 
 export type {
   InteractiveChartConfig,
   InteractiveChartSeries,
+  InteractiveChartIndicator,
+  IndicatorType,
   LegendStyle
 };
 
+/**
+ * Indicator with its calculation state
+ */
+type ChartIndicator = {
+  config: InteractiveChartIndicator;
+  definition: IndicatorDefinition;
+  series: InteractiveChartSeries[];
+  processed: number;
+};
+
 const NOT_AVAILABLE_DATA = 'N/A';
 const NO_DATA_POINT = '--';
 
+/**
+ * Check if two data points are on the same time point
+ * @param a time of the first data point
+ * @param b time of the second data point
+ * @returns true if time points are equal
+ */
+const isSameTime = (a: SeriesDataItem['time'], b: SeriesDataItem['time']): boolean => {
+  if (typeof a === 'object' && typeof b === 'object') {
+    return a.year === b.year && a.month === b.month && a.day === b.day;
+  }
+  return a === b;
+};
+
+/**
+ * Get the time point in seconds, so that time points can be ordered
+ * @param time time of the data point
+ * @returns time in seconds
+ */
+const getTimeValue = (time: SeriesDataItem['time']): number => {
+  if (typeof time === 'object') {
+    return Date.UTC(time.year, time.month - 1, time.day) / 1000;
+  }
+  return typeof time === 'string' ? Date.parse(time) / 1000 : time;
+};
+
+/**
+ * Get a key, which identifies the time point
+ * @param time time of the data point
+ * @returns time key
+ */
+const getTimeKey = (time: SeriesDataItem['time']): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return typeof time === 'object' ? `${time.year}-${pad(time.month)}-${pad(time.day)}` : String(time);
+};
+
+/**
+ * Append the data point or replace the last data point with the same time
+ * @param data series data
+ * @param point data point
+ * @returns {void}
+ */
+const syncData = (data: SeriesDataItem[], point: SeriesDataItem): void => {
+  const lastData = data[data.length - 1];
+  if (lastData && isSameTime(lastData.time, point.time)) {
+    data[data.length - 1] = point;
+  }
+  else {
+    data.push(point);
+  }
+};
+
+/**
+ * Default legend formatter of indicator values
+ * @param price indicator value
+ * @returns formatted value
+ */
+const formatIndicatorPrice = (price: string | number): string => Number(price).toFixed(2);
+
 /**
  * A charting component that allows you to create several use cases of financial chart.
  * By lightweight-charts library.
@@ -87,6 +165,9 @@ export class InteractiveChart extends ResponsiveElement {
     SPARSE_DOTTED: 4
   };
   private static readonly DEFAULT_LEGEND_LEFT_POSITION = 15;
+  private static readonly INDICATOR_PANE_HEIGHT = 0.2;
+  private static readonly INDICATOR_PANES_MAX_HEIGHT = 0.5;
+  private static readonly INDICATOR_PANE_GAP = 0.05;
 
   private _legendStyle?: LegendStyle;
 
@@ -160,15 +241,26 @@ export class InteractiveChart extends ResponsiveElement {
   private height = 0;
   private theme: Theme | null = null;
   private themeColors: string[] = [];
+  private themeSnapshot: ThemeSnapshot | null = null;
 
   private hasDataPoint = false;
 
+  private updateRunner = new AnimationTaskRunner();
+  private pendingUpdates: { seriesIndex: number; point: SeriesDataItem }[] = [];
+
+  private indicators: ChartIndicator[] = [];
+  private indicatorConfig: InteractiveChartConfig | null = null;
+
   /**
    * @returns return config of property component
    */
   protected get internalConfig (): InteractiveChartConfig {
     // Check config is available
-    return this.config === null ? { series: [] } : this.config;
+    if (this.config === null) {
+      return { series: [] };
+    }
+    // Indicator series are rendered after series from config
+    return this.indicatorConfig || this.config;
   }
 
   /**
@@ -322,23 +414,14 @@ export class InteractiveChart extends ResponsiveElement {
     if (config && width && height) {
 
       // init css variables
-      this.themeColors = this.colors();
-      this.theme = {
-        backgroundColor: this.getComputedVariable('--background-color'),
-        textColor: this.getComputedVariable('--text-color'),
-        scalePriceBorderColor: this.getComputedVariable('--scale-price-border-color'),
-        scaleTimesBorderColor: this.getComputedVariable('--scale-times-border-color'),
-        gridVertLineColor: this.getComputedVariable('--grid-vert-line-color'),
-        gridHorzLineColor: this.getComputedVariable('--grid-horz-line-color'),
-        crossHairColor: this.getComputedVariable('--cross-hair-color'),
-        chartUpColor: this.getComputedVariable('--chart-up-color'),
-        chartDownColor: this.getComputedVariable('--chart-down-color'),
-        fillOpacity: this.cssVarAsNumber('--fill-opacity', InteractiveChart.DEFAULT_FILL_OPACITY),
-        lineWidth: this.cssVarAsNumber('--line-width', InteractiveChart.DEFAULT_LINE_WIDTH)
-      };
+      this.readTheme();
+      this.themeSnapshot = this.createThemeSnapshot();
+
+      this.createIndicators(config);
 
       this.chart = chart(this.chartContainer);
       this.mergeConfig(config);
+      this.applyIndicatorPanes(config);
       this.applyChartOptionSize(width, height);
 
       if (!this.disabledLegend) {
@@ -358,11 +441,220 @@ export class InteractiveChart extends ResponsiveElement {
     }
   }
 
+  /**
+   * Read theme colours and sizes from css variables
+   * @returns {void}
+   */
+  private readTheme (): void {
+    this.themeColors = this.colors();
+    this.theme = {
+      backgroundColor: this.getComputedVariable('--background-color'),
+      textColor: this.getComputedVariable('--text-color'),
+      scalePriceBorderColor: this.getComputedVariable('--scale-price-border-color'),
+      scaleTimesBorderColor: this.getComputedVariable('--scale-times-border-color'),
+      gridVertLineColor: this.getComputedVariable('--grid-vert-line-color'),
+      gridHorzLineColor: this.getComputedVariable('--grid-horz-line-color'),
+      crossHairColor: this.getComputedVariable('--cross-hair-color'),
+      chartUpColor: this.getComputedVariable('--chart-up-color'),
+      chartDownColor: this.getComputedVariable('--chart-down-color'),
+      fillOpacity: this.cssVarAsNumber('--fill-opacity', InteractiveChart.DEFAULT_FILL_OPACITY),
+      lineWidth: this.cssVarAsNumber('--line-width', InteractiveChart.DEFAULT_LINE_WIDTH)
+    };
+  }
+
+  /**
+   * Collect theme colours and fonts, which are merged into the config
+   * @returns theme values
+   */
+  private createThemeSnapshot (): ThemeSnapshot {
+    const snapshot: ThemeSnapshot = new Map([
+      ['font-family', getComputedStyle(this).getPropertyValue('font-family')]
+    ]);
+
+    if (this.theme) {
+      Object.entries(this.theme).forEach(([key, value]) => {
+        if (typeof value === 'string') {
+          snapshot.set(key, value);
+        }
+      });
+    }
+
+    const fillOpacity = this.theme?.fillOpacity;
+    this.themeColors.forEach((color, index) => {
+      const colors = [
+        this.convertColorToString(parseColor, color),
+        this.convertColorToString(this.setOpacity, color, fillOpacity),
+        this.convertColorToString(this.setOpacity, color, '0')
+      ];
+      colors.forEach((value, variant) => {
+        if (typeof value === 'string') {
+          snapshot.set(`color-${index}-${variant}`, value);
+        }
+      });
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Replace colours of the previous theme and re-create the chart
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    super.themeChangedCallback();
+    if (!this.chart || !this.config || !this.themeSnapshot) {
+      return;
+    }
+
+    this.readTheme();
+    replaceThemeValues(this.config, this.themeSnapshot, this.createThemeSnapshot());
+    this.createChart(this.width, this.height, this.config);
+  }
+
+  /**
+   * Create indicator series and calculate their data
+   * @param config data config
+   * @returns {void}
+   */
+  private createIndicators (config: InteractiveChartConfig): void {
+    this.indicators = [];
+    this.indicatorConfig = null;
+    let paneIndex = 0;
+
+    (config.indicators || []).forEach((indicatorConfig, index) => {
+      const source = config.series[indicatorConfig.source];
+      if (!source) {
+        return;
+      }
+
+      const definition = createIndicator(indicatorConfig);
+      const label = indicatorConfig.symbol || definition.label;
+      const color = indicatorConfig.seriesOptions?.color
+        || this.themeColors[(config.series.length + index) % this.themeColors.length];
+      const priceScaleId = definition.pane ? `indicator-${paneIndex++}` : source.seriesOptions?.priceScaleId;
+
+      const series = definition.lines.map((line): InteractiveChartSeries => {
+        const isSecondary = line.legendVisible === false;
+        const seriesOptions = line.histogram ? { priceLineVisible: false } : {
+          color,
+          lineStyle: isSecondary ? InteractiveChart.LINE_STYLES.DASHED : InteractiveChart.LINE_STYLES.SOLID,
+          priceLineVisible: false,
+          ...indicatorConfig.seriesOptions
+        };
+        return {
+          type: line.histogram ? 'volume' : 'line',
+          symbol: line.name ? `${label} ${line.name}` : label,
+          legendVisible: indicatorConfig.legendVisible !== false && !isSecondary,
+          legendPriceFormatter: indicatorConfig.legendPriceFormatter || source.legendPriceFormatter || formatIndicatorPrice,
+          data: [],
+          seriesOptions: priceScaleId ? { ...seriesOptions, priceScaleId } : seriesOptions
+        };
+      });
+
+      this.indicators.push({ config: indicatorConfig, definition, series, processed: 0 });
+    });
+
+    if (this.indicators.length) {
+      this.indicatorConfig = { ...config, series: config.series.concat(...this.indicators.map(indicator => indicator.series)) };
+      this.indicators.forEach(indicator => this.calculateIndicator(indicator));
+    }
+  }
+
+  /**
+   * Calculate indicator values for data points, which are new or updated since the last calculation.
+   * Indicator series are updated if the chart is created
+   * @param indicator indicator to calculate
+   * @returns {void}
+   */
+  private calculateIndicator (indicator: ChartIndicator): void {
+    const { config, definition, series } = indicator;
+    const data = (this.config?.series[config.source]?.data || []) as SeriesDataItem[];
+    const volumeData = (config.volume === undefined ? [] : this.config?.series[config.volume]?.data || []) as SeriesDataItem[];
+    const firstSeriesIndex = this.internalConfig.series.indexOf(series[0]);
+    let volumeMap: Map<string, SeriesDataItem> | null = null;
+
+    /**
+     * Volume series usually has the same time points,
+     * otherwise look it up by time
+     * @param index index of the data point
+     * @returns volume or undefined if there is no volume
+     */
+    const getVolume = (index: number): number | undefined => {
+      const time = data[index].time;
+      let volume: SeriesDataItem | undefined = volumeData[index];
+      if (!volume || !isSameTime(volume.time, time)) {
+        volumeMap = volumeMap || new Map(volumeData.map(item => [getTimeKey(item.time), item]));
+        volume = volumeMap.get(getTimeKey(time));
+      }
+      return volume ? Number((volume as LineData).value) : undefined;
+    };
+
+    // the last processed data point may have been updated
+    for (let index = Math.max(indicator.processed - 1, 0); index < data.length; index++) {
+      const time = data[index].time;
+      const point = toSourcePoint(data[index], config.volume === undefined ? undefined : getVolume(index));
+      if (!point) {
+        continue;
+      }
+
+      const values = definition.calculator.next(point, index < indicator.processed);
+      values.forEach((value, lineIndex) => {
+        if (value === null) {
+          return;
+        }
+        const linePoint: SeriesDataItem = definition.lines[lineIndex].histogram && this.theme
+          ? { time, value, color: value >= 0 ? this.theme.chartUpColor : this.theme.chartDownColor } as HistogramData
+          : { time, value };
+        syncData(series[lineIndex].data as SeriesDataItem[], linePoint);
+        if (firstSeriesIndex !== -1) {
+          this.seriesList[firstSeriesIndex + lineIndex]?.update(linePoint);
+        }
+      });
+    }
+    indicator.processed = data.length;
+  }
+
+  /**
+   * Place indicators, which have their own scale, in separate panes below the main chart
+   * @param config data config
+   * @returns {void}
+   */
+  private applyIndicatorPanes (config: InteractiveChartConfig): void {
+    const panes = this.indicators.filter(indicator => indicator.definition.pane);
+    if (!this.chart || !panes.length) {
+      return;
+    }
+
+    const height = Math.min(InteractiveChart.INDICATOR_PANE_HEIGHT, InteractiveChart.INDICATOR_PANES_MAX_HEIGHT / panes.length);
+    const gap = InteractiveChart.INDICATOR_PANE_GAP;
+
+    // Keep scale margins, which are set in the config
+    (['left', 'right'] as const).forEach(position => {
+      if (!config.options?.[`${position}PriceScale`]?.scaleMargins) {
+        this.chart?.priceScale(position).applyOptions({ scaleMargins: { top: 0.1, bottom: panes.length * height + gap } });
+      }
+    });
+
+    panes.forEach((indicator, index) => {
+      const seriesIndex = this.internalConfig.series.indexOf(indicator.series[0]);
+      this.seriesList[seriesIndex]?.priceScale().applyOptions({
+        scaleMargins: {
+          top: 1 - (panes.length - index) * height + gap,
+          bottom: (panes.length - index - 1) * height
+        }
+      });
+    });
+  }
+
   /**
    * Destroy chart
    * @returns {void}
    */
   private destroyChart (): void {
+    this.updateRunner.cancel();
+    this.pendingUpdates = [];
+    this.indicators = [];
+    this.indicatorConfig = null;
     if (this.chart) {
       this.removeLegend();
       this.removeJumpButton();
@@ -1150,6 +1442,81 @@ export class InteractiveChart extends ResponsiveElement {
     }
   }
 
+  /**
+   * Append a new data point or update the last data point of the series.
+   * Updates are applied on the next animation frame.
+   * The visible range is kept, unless the chart is scrolled to the latest data.
+   * Series data in config is replaced with a copy, data points older than the last data point are ignored
+   * @param seriesIndex index of the series in config
+   * @param point data point. The last data point is replaced if it has the same time
+   * @returns {void}
+   */
+  public updateSeries (seriesIndex: number, point: SeriesDataItem): void {
+    this.pendingUpdates.push({ seriesIndex, point });
+    this.updateRunner.schedule(this.applyPendingUpdates);
+  }
+
+  /**
+   * Apply all queued data points to the series and legend
+   * @returns {void}
+   */
+  private applyPendingUpdates = (): void => {
+    const updates = this.pendingUpdates;
+    this.pendingUpdates = [];
+    if (!this.chart || !updates.length) {
+      return;
+    }
+
+    const timeScale = this.chart.timeScale();
+    const scrollPosition = timeScale.scrollPosition();
+    const visibleRange = timeScale.getVisibleLogicalRange();
+
+    // data is copied once per series, so that the data passed by the app is not modified
+    const updatedData = new Map<number, SeriesDataItem[]>();
+    updates.forEach(({ seriesIndex, point }) => {
+      const series = this.seriesList[seriesIndex];
+      const config = this.config?.series[seriesIndex];
+      if (!series || !config) {
+        return;
+      }
+
+      const data = updatedData.get(seriesIndex) || [...config.data as SeriesDataItem[]];
+      const lastData = data[data.length - 1];
+      // the chart library throws, if the data point is older than the last data point
+      if (lastData && getTimeValue(point.time) < getTimeValue(lastData.time)) {
+        new WarningNotice(`${this.localName}: Data point at ${getTimeKey(point.time)} is older than the last data point of series ${seriesIndex} and is ignored.`).show();
+        return;
+      }
+
+      series.update(point);
+      // keep config in sync, legend reads the latest data from it
+      syncData(data, point);
+      updatedData.set(seriesIndex, data);
+    });
+
+    updatedData.forEach((data, seriesIndex) => {
+      const config = this.config?.series[seriesIndex];
+      if (config) {
+        config.data = data as InteractiveChartSeries['data'];
+      }
+    });
+    const updatedSeries = new Set(updatedData.keys());
+
+    this.indicators
+      .filter(({ config }) => updatedSeries.has(config.source) || (config.volume !== undefined && updatedSeries.has(config.volume)))
+      .forEach(indicator => this.calculateIndicator(indicator));
+
+    // follow the latest data only when the chart is scrolled to real time
+    if (scrollPosition >= 0) {
+      timeScale.scrollToPosition(scrollPosition, false);
+    }
+    else if (visibleRange) {
+      timeScale.setVisibleLogicalRange(visibleRange);
+    }
+
+    this.updateLegendWithLatestData();
+  };
+
   /**
    *  Handle event clicked scroll to realtime
    *  @returns {void}
@@ -188,11 +188,11 @@ export class Item extends ControlElement {
    * @returns {void}
    */
   private typeChanged (): void {
-    const noInteraction = this.type === 'header' || this.type === 'divider' || this.disabled;
+    const noInteraction = this.type === 'header' || this.type === 'divider' || this.isDisabled;
     if (noInteraction) {
       this.disableFocus();
     }
-    else if (!this.disabled) {
+    else if (!this.isDisabled) {
       this.enableFocus();
     }
   }
@@ -315,7 +315,7 @@ export class Item extends ControlElement {
    * @returns whether element is highlightable
    */
   public get highlightable (): boolean {
-    return !this.disabled && this.type !== 'header' && this.type !== 'divider';
+    return !this.isDisabled && this.type !== 'header' && this.type !== 'divider';
   }
 
   /**
@@ -1,4 +1,4 @@
-import { fixture, expect, elementUpdated, keyboardEvent, nextFrame, triggerFocusFor } from '@refinitiv-ui/test-helpers';
+import { fixture, expect, elementUpdated, keyboardEvent, nextFrame, triggerFocusFor, aTimeout } from '@refinitiv-ui/test-helpers';
 
 // import element and theme
 import '@refinitiv-ui/elements/list';
@@ -192,6 +192,69 @@ describe('list/List', () => {
     });
   });
 
+  describe('Composer views', () => {
+    it('Renders items in order of the sort view', async () => {
+      const el = await fixture('<ef-list></ef-list>');
+      const composer = new CollectionComposer(data);
+      el.data = composer;
+      await elementUpdated(el);
+
+      composer.setSort({ property: 'label' });
+      await nextFrame();
+      await elementUpdated(el);
+
+      const labels = Array.from(el.querySelectorAll('ef-list-item')).map(item => item.label);
+      expect(labels).to.deep.equal(['Bye', 'Cry', 'Hi', 'Lie', 'Sigh', 'Why']);
+      expect(data[0].label).to.equal('Hi', 'Data should not be modified');
+    });
+  });
+
+  describe('Typeahead', () => {
+    const typeaheadData = [
+      { label: 'Germany', value: 'de' },
+      { label: 'Ghana', value: 'gh' },
+      { label: 'Gibraltar', value: 'gi', disabled: true },
+      { label: 'Greece', value: 'gr', readonly: true },
+      { label: 'Grenada', value: 'gd' },
+      { label: 'Ísland', value: 'is' }
+    ];
+
+    it('Buffers typed characters', async () => {
+      const el = await fixture('<ef-list></ef-list>');
+      el.data = typeaheadData;
+      await elementUpdated(el);
+
+      await iterateKeyboardEvent(el, el, ['g', 'h'], [0, 1]);
+      expect(el.value).to.equal('', 'Typeahead should only highlight items');
+    });
+
+    it('Repeating the same character cycles through items and skips disabled and readonly items', async () => {
+      const el = await fixture('<ef-list></ef-list>');
+      el.data = typeaheadData;
+      await elementUpdated(el);
+
+      await iterateKeyboardEvent(el, el, ['g', 'g', 'g', 'g'], [0, 1, 4, 0]);
+    });
+
+    it('Ignores diacritics', async () => {
+      const el = await fixture('<ef-list></ef-list>');
+      el.data = typeaheadData;
+      await elementUpdated(el);
+
+      await iterateKeyboardEvent(el, el, ['i'], [5]);
+    });
+
+    it('Starts a new search after a timeout', async () => {
+      const el = await fixture('<ef-list></ef-list>');
+      el.data = typeaheadData;
+      await elementUpdated(el);
+
+      await iterateKeyboardEvent(el, el, ['g', 'r'], [0, 4]);
+      await aTimeout(500);
+      await iterateKeyboardEvent(el, el, ['g'], [0]);
+    });
+  });
+
   describe('Item id', () => {
     it('Should combine prefix and value', () => {
       const prefix = 'prefix';
@@ -349,5 +412,84 @@ describe('list/List', () => {
 
     expect(document.activeElement).to.be.equal(el);
   })
+
+  describe('Virtual mode', () => {
+    const makeData = (length) => Array(length).fill(0).map((_, i) => ({ label: `Item ${i}`, value: `${i}` }));
+
+    it('Renders only items in view', async () => {
+      const el = await fixture('<ef-list virtual style="height: 200px;"></ef-list>');
+      el.data = makeData(10000);
+      await elementUpdated(el);
+      await nextFrame();
+      await elementUpdated(el);
+
+      expect(el.children.length).to.be.above(0);
+      expect(el.children.length).to.be.below(100);
+      expect(el.scrollHeight).to.be.above(el.children[0].offsetHeight * 1000);
+    });
+
+    it('Recycles elements while scrolling', async () => {
+      const el = await fixture('<ef-list virtual style="height: 200px;"></ef-list>');
+      el.data = makeData(10000);
+      await elementUpdated(el);
+      await nextFrame();
+      await elementUpdated(el);
+
+      const firstElement = el.children[0];
+      el.scrollTop = el.scrollHeight / 2;
+      el.dispatchEvent(new Event('scroll'));
+      await nextFrame();
+      await elementUpdated(el);
+
+      expect(el.children.length).to.be.below(100);
+      expect(firstElement.value).to.not.equal('0');
+    });
+
+    it('Supports navigating to items out of view', async () => {
+      const el = await fixture('<ef-list virtual style="height: 200px;"></ef-list>');
+      el.data = makeData(10000);
+      await elementUpdated(el);
+      await nextFrame();
+      await elementUpdated(el);
+
+      el.last();
+      await elementUpdated(el);
+      expect(el.querySelector('[highlighted]').value).to.equal('9999');
+
+      el.down();
+      await elementUpdated(el);
+      expect(el.querySelector('[highlighted]').value).to.equal('0');
+
+      el.up();
+      el.dispatchEvent(keyboardEvent('keydown', { key: 'Enter' }));
+      await elementUpdated(el);
+      expect(el.value).to.equal('9999');
+    });
+
+    it('Renders items in view once a hidden list is shown', async () => {
+      const el = await fixture('<ef-list virtual style="height: 200px; display: none;"></ef-list>');
+      el.data = makeData(10000);
+      await elementUpdated(el);
+      await nextFrame();
+      await elementUpdated(el);
+
+      el.style.display = '';
+      await nextFrame();
+      await nextFrame();
+      await elementUpdated(el);
+
+      expect(el.scrollHeight).to.be.above(el.children[0].offsetHeight * 1000, 'Item height should be measured');
+    });
+
+    it('Supports selecting items out of view', async () => {
+      const el = await fixture('<ef-list virtual style="height: 200px;"></ef-list>');
+      const items = makeData(10000);
+      el.data = items;
+      await elementUpdated(el);
+
+      el.selectItem(items[5000]);
+      expect(el.value).to.equal('5000');
+    });
+  });
 });
 
@@ -10,8 +10,11 @@ import {
 } from '@refinitiv-ui/core';
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
+import { styleMap } from '@refinitiv-ui/core/directives/style-map.js';
 import { VERSION } from '../../version.js';
 import { CollectionComposer, DataItem } from '@refinitiv-ui/utils/collection.js';
+import { VirtualScrollController } from '@refinitiv-ui/utils/virtual.js';
+import { Typeahead } from '@refinitiv-ui/utils/navigation.js';
 import type { ItemData } from '../../item';
 import type { ListData } from '../helpers/types';
 import { getItemId } from '../helpers/item-id.js';
@@ -77,6 +80,28 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    */
   protected composer = new CollectionComposer<T>([]);
 
+  /**
+   * Calculates the visible range in virtual mode.
+   */
+  private virtualScroll = new VirtualScrollController(this, {
+    measure: () => {
+      const first = this.firstElementChild as HTMLElement | null;
+      const last = this.lastElementChild as HTMLElement | null;
+      return first && last ? (last.offsetTop + last.offsetHeight - first.offsetTop) / this.children.length : 0;
+    }
+  });
+
+  /**
+   * Space reserved for items which are
+   * outside of the visible range in virtual mode.
+   */
+  private virtualPadding = { top: 0, bottom: 0 };
+
+  /**
+   * Finds items by typing the start of their label
+   */
+  private typeahead = new Typeahead();
+
   /**
    * Element focus delegation.
    * Set to `false` and relies on native focusing.
@@ -102,6 +127,14 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
   @property({ type: Boolean })
   public multiple = false;
 
+  /**
+   * Only render items which are in view, recycling elements while scrolling.
+   * Improves performance for large data sets.
+   * All items are expected to be the same height.
+   */
+  @property({ type: Boolean })
+  public virtual = false;
+
   /**
    * The data object, used to render the list.
    * @type {ListData}
@@ -157,6 +190,21 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     }
   }
 
+  /**
+   * Value to be submitted with the form.
+   * Multiple selection submits an entry per selected value
+   */
+  protected get formValue (): string | FormData | null {
+    return this.multiple ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
   /**
    * Returns a values collection of the currently
    * selected item values
@@ -242,7 +290,7 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    * @returns {void}
    */
   public first (): void {
-    const firstItem = this.itemMap.get(this.tabbableItems[0]);
+    const firstItem = this.virtual ? this.navigableItems[0] : this.itemMap.get(this.tabbableItems[0]);
     this.highlightItem(firstItem, true);
   }
 
@@ -251,7 +299,9 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    * @returns {void}
    */
   public last (): void {
-    const lastItem = this.itemMap.get(this.tabbableItems[this.tabbableItems.length - 1]);
+    const lastItem = this.virtual
+      ? this.navigableItems[this.navigableItems.length - 1]
+      : this.itemMap.get(this.tabbableItems[this.tabbableItems.length - 1]);
     this.highlightItem(lastItem, true);
   }
 
@@ -325,6 +375,9 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    * @returns A data item, if found.
    */
   protected getNextHighlightItem (direction: Direction): T | undefined {
+    if (this.virtual) {
+      return this.getNextNavigableItem(direction);
+    }
     const highlightItem = this.queryItemsByPropertyValue('highlighted', true)[0];
     const nextElement = this.getNextFocusableItem(direction) || this.getNextFocusableItem(direction, this.elementFromItem(highlightItem));
     const backupElement = this.tabbableItems[0];
@@ -339,6 +392,46 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     return undefined;
   }
 
+  /**
+   * Tries to find the next highlight item from the data.
+   * Used in virtual mode, where items out of view have no elements.
+   * @param direction Direction to search
+   * @returns A data item, if found.
+   */
+  protected getNextNavigableItem (direction: Direction): T | undefined {
+    const items = this.navigableItems;
+    const highlightItem = this.queryItemsByPropertyValue('highlighted', true)[0];
+    let index = items.indexOf(highlightItem);
+
+    if (index === -1) {
+      return items[0];
+    }
+
+    index += direction;
+    if (index < 0) {
+      index = items.length - 1;
+    }
+    else if (index >= items.length) {
+      index = 0;
+    }
+
+    return items[index];
+  }
+
+  /**
+   * Checks whether the data item can be highlighted by keyboard navigation.
+   * Follows the same rules as `tabbableItems`, using data rather than elements.
+   * @param item Data item to check
+   * @returns True if the item can be navigated to
+   */
+  protected isItemNavigable (item: T): boolean {
+    const type = this.composer.getItemPropertyValue(item, 'type') as string | undefined;
+    const isEnabled = this.composer.getItemPropertyValue(item, 'disabled') !== true;
+    const isOption = !type || type === 'text';
+
+    return isOption && isEnabled;
+  }
+
   /**
    * Clears any highlighted item
    * @returns {void}
@@ -385,6 +478,14 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     });
   }
 
+  /**
+   * Gets the data items which can be navigated to in virtual mode,
+   * including items which are out of view.
+   */
+  protected get navigableItems (): T[] {
+    return this.renderItems.filter(item => this.isItemNavigable(item));
+  }
+
   /**
    * Returns the current focused element
    */
@@ -393,13 +494,26 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     return this.elementFromItem(item) || null;
   }
 
+  /**
+   * Returns the current highlighted data item.
+   * In virtual mode, the item may be out of view and not have an element.
+   */
+  protected get highlightedItem (): T | undefined {
+    const element = this.highlightElement;
+    if (element) {
+      return this.itemFromElement(element);
+    }
+    if (this.virtual) {
+      return this.queryItemsByPropertyValue('highlighted', true)[0];
+    }
+  }
+
   /**
    * Tries to select the current highlighted element
    * @returns {void}
    */
   protected triggerActiveItem (): void {
-    const element = this.highlightElement;
-    const item = element && this.itemFromElement(element);
+    const item = this.highlightedItem;
     item && this.selectItem(item) && this.fireSelectionUpdate();
   }
 
@@ -409,32 +523,57 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    * @returns {void}
    */
   public scrollToItem (item: T): void {
-    const element = this.elementFromItem(item);
-    if (element) {
+    const bounds = this.getItemBounds(item);
+    if (bounds) {
       const minPosition = this.scrollTop;
-      const maxPosition = this.scrollTop + this.clientHeight - element.offsetHeight;
-      const position = element.offsetTop;
+      const maxPosition = this.scrollTop + this.clientHeight - bounds.height;
+      const position = bounds.top;
 
       let scrollPosition;
       if (position > maxPosition) {
-        scrollPosition = element.offsetTop - this.clientHeight + element.offsetHeight;
+        scrollPosition = position - this.clientHeight + bounds.height;
       }
       else if (position < minPosition) {
-        scrollPosition = element.offsetTop;
+        scrollPosition = position;
       }
 
-      if (scrollPosition) {
+      if (scrollPosition !== undefined) {
         this.scrollTop = scrollPosition;
       }
     }
   }
 
+  /**
+   * Gets the offset and height of an item within the list.
+   * In virtual mode, bounds are calculated so that items out of view can be scrolled to.
+   * @param item Data item
+   * @returns Item bounds, if the item can be displayed
+   */
+  private getItemBounds (item: T): { top: number; height: number } | undefined {
+    const itemHeight = this.virtualScroll.itemHeight;
+    if (this.virtual && itemHeight) {
+      const index = this.renderItems.indexOf(item);
+      return index === -1 ? undefined : { top: index * itemHeight, height: itemHeight };
+    }
+    const element = this.elementFromItem(item);
+    if (element) {
+      return { top: element.offsetTop, height: element.offsetHeight };
+    }
+  }
+
   /**
    * Handles key input
    * @param event Key down event object
    * @returns {void}
    */
   protected onKeyDown (event: KeyboardEvent): void {
+    // Space is a part of the search term while the user is typing
+    if (Typeahead.isTypeaheadKey(event) && (event.key !== ' ' || this.typeahead.active)) {
+      this.typeaheadSearch(event.key);
+      event.preventDefault();
+      return;
+    }
+
     switch (event.key) {
       case ' ':
       case 'Spacebar':
@@ -461,6 +600,22 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     event.preventDefault();
   }
 
+  /**
+   * Highlights the next item, which label starts with the typed characters.
+   * Disabled, readonly and hidden items are skipped.
+   * @param key Typed character
+   * @returns {void}
+   */
+  protected typeaheadSearch (key: string): void {
+    const items = this.navigableItems.filter(item => this.composer.getItemPropertyValue(item, 'readonly') !== true);
+    const item = this.typeahead.search(key, items, this.queryItemsByPropertyValue('highlighted', true)[0],
+      item => (this.composer.getItemPropertyValue(item, 'label') as string | undefined) || '');
+
+    if (item) {
+      this.highlightItem(item, true);
+    }
+  }
+
   /**
    * Handle list on tap
    * Typically it will select an item
@@ -541,6 +696,18 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     });
   }
 
+  /**
+   * Gets the items in, or near, the visible area.
+   * Calculates the space to reserve for the remaining items.
+   * @returns Collection of items to render in virtual mode
+   */
+  private get virtualRenderItems (): readonly T[] {
+    const renderItems = this.renderItems;
+    const { start, end, paddingTop, paddingBottom } = this.virtualScroll.getRange(renderItems.length);
+    this.virtualPadding = { top: paddingTop, bottom: paddingBottom };
+    return renderItems.slice(start, end);
+  }
+
   /**
    * Proxy for creating list item elements.
    * Allows for a mapping to be created between
@@ -619,7 +786,7 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    * @returns {void}
    */
   protected renderLightDOM (): void {
-    const renderItems = this.renderItems;
+    const renderItems = this.virtual ? this.virtualRenderItems : this.renderItems;
     const currentChildren = Array.from(this.children);
     const recyclableElements = this.calculateRecyclableElements(renderItems);
     const renderChildren = renderItems.map((item) => this.createListItem(item, recyclableElements));
@@ -635,6 +802,24 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
     });
   }
 
+  /**
+   * Called when the element has been appended to the DOM
+   * @returns {void}
+   */
+  public connectedCallback (): void {
+    super.connectedCallback();
+    this.virtualScroll.connect();
+  }
+
+  /**
+   * Called when the element has been removed from the DOM
+   * @returns {void}
+   */
+  public disconnectedCallback (): void {
+    super.disconnectedCallback();
+    this.virtualScroll.disconnect();
+  }
+
   /**
    * Invoked when the element is first updated. Implement to perform one time work on the element after update.
    * @param changeProperties changed properties
@@ -660,6 +845,23 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
       this.renderTimestamp.clear(); // force render of all items
       this.setAttribute('aria-multiselectable', this.multiple ? 'true' : 'false');
     }
+    if (changeProperties.has('virtual') || changeProperties.has('data') || changeProperties.has('renderer')) {
+      this.virtualScroll.reset(); // item height needs to be measured again
+    }
+  }
+
+  /**
+   * Called after the element’s DOM has been updated
+   * @param changeProperties changed properties
+   * @returns {void}
+   */
+  protected updated (changeProperties: PropertyValues): void {
+    super.updated(changeProperties);
+
+    // Render the visible range, once the item height is known
+    if (this.virtual && this.virtualScroll.measure()) {
+      this.requestUpdate();
+    }
   }
 
   /**
@@ -686,6 +888,10 @@ export class List<T extends DataItem = ItemData> extends ControlElement {
    */
   protected render (): TemplateResult {
     this.renderLightDOM();
+    if (this.virtual) {
+      const { top, bottom } = this.virtualPadding;
+      return html`<div part="virtual-container" style=${styleMap({ paddingTop: `${top}px`, paddingBottom: `${bottom}px` })}><slot></slot></div>`;
+    }
     return html`<slot></slot>`;
   }
 }
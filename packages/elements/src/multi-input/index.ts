@@ -102,6 +102,21 @@ export class MultiInput extends ControlElement implements MultiValue {
     `;
   }
 
+  /**
+   * Value to be submitted with the form.
+   * Every pill value is submitted as a separate entry
+   */
+  protected get formValue (): FormData | null {
+    return this.valuesToFormData(this.values);
+  }
+
+  /**
+   * Value is missing if there are no pills
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
   /**
    * Array of item's values ( readonly )
    * @readonly
@@ -441,7 +456,7 @@ export class MultiInput extends ControlElement implements MultiValue {
    * @returns void
    */
   public select (): void {
-    if (!this.disabled && !this.readonly) {
+    if (!this.isDisabled && !this.readonly) {
       if (this.searchRef.value) {
         this.searchRef.value.select();
       }
@@ -475,7 +490,7 @@ export class MultiInput extends ControlElement implements MultiValue {
           tabindex="1"
           part="search"
           transparent
-          ?disabled="${this.disabled}"
+          ?disabled="${this.isDisabled}"
           @keydown="${this.handleKeyDown}"
           @change="${this.onInputChange}"
           @input="${this.onInputChange}"
@@ -512,7 +527,7 @@ export class MultiInput extends ControlElement implements MultiValue {
         index="${index}"
         clears
         ?readonly="${item.readonly || this.readonly}"
-        ?disabled="${item.disabled || this.disabled}"
+        ?disabled="${item.disabled || this.isDisabled}"
         value="${item.value}"
         @clear="${this.onPillClearsHandler}">
         ${item.label}
@@ -622,7 +637,7 @@ export class MultiInput extends ControlElement implements MultiValue {
    * @returns the condition checks the search value is empty and switched off readonly and disabled of this component
    */
   private isSearchValueEmptyWithoutReadonlyAndDisabled (): boolean {
-    return this.value === '' && !this.readonly && !this.disabled;
+    return this.value === '' && !this.readonly && !this.isDisabled;
   }
 
   /**
@@ -630,7 +645,7 @@ export class MultiInput extends ControlElement implements MultiValue {
    * @returns the condition checks the search value is empty and switched off readonly and disabled of this component
    */
   private isSearchValueNotEmptyWithoutReadonlyAndDisabled (): boolean {
-    return this.value.trim() !== '' && !this.readonly && !this.disabled;
+    return this.value.trim() !== '' && !this.readonly && !this.isDisabled;
   }
 
   /**
@@ -1,5 +1,5 @@
-import { oneEvent, expect } from '@refinitiv-ui/test-helpers';
-import { info, confirm, warn, error } from '@refinitiv-ui/elements/notification';
+import { oneEvent, expect, elementUpdated } from '@refinitiv-ui/test-helpers';
+import { info, confirm, warn, error, notify, NotificationType } from '@refinitiv-ui/elements/notification';
 
 describe('notification/Helpers', () => {
   describe('Helpers', () => {
@@ -63,5 +63,29 @@ describe('notification/Helpers', () => {
       await oneEvent(notification, 'collapsed');
       expect(notification.shadowRoot.querySelector('[part=content]').innerText).to.equal(message);
     });
+
+    it('Helpers should accept notification options', async () => {
+      const undo = () => {};
+      const notification = warn('Deleted', { title: 'Trash', undo, duration: 100 });
+      expect(notification.header).to.equal('Trash');
+      expect(notification.actions[0].id).to.equal('undo');
+      expect(notification.actions[0].callback).to.equal(undo);
+      expect(notification.warning).to.be.true;
+      expect(await notification.result).to.equal('dismissed');
+    });
+
+    it('notify() should resolve with the chosen action', async () => {
+      const result = notify({
+        message: 'New version',
+        type: NotificationType.INFO,
+        duration: Infinity,
+        actions: [{ id: 'reload', label: 'Reload' }]
+      });
+      const el = document.querySelector('ef-notification-tray');
+      const notification = el.querySelector('ef-notification:not([collapsed])');
+      await elementUpdated(notification);
+      notification.shadowRoot.querySelector('[part=action]').click();
+      expect(await result).to.equal('reload');
+    });
   });
 });
@@ -94,6 +94,57 @@ describe('notification/Notification', () => {
       });
     });
 
+    describe('Rich content', () => {
+      it('Should show header, repeat counter and progress', async () => {
+        el.header = 'Upload';
+        el.repeat = 3;
+        el.progress = 0.25;
+        await elementUpdated(el);
+        expect(el.shadowRoot.querySelector('[part=header]').textContent).to.equal('Upload');
+        expect(el.shadowRoot.querySelector('[part=counter]').value).to.equal('3');
+        const progress = el.shadowRoot.querySelector('[part=progress]');
+        expect(progress.getAttribute('aria-valuenow')).to.equal('25');
+        expect(progress.style.width).to.equal('25%');
+
+        el.repeat = 1;
+        el.progress = null;
+        await elementUpdated(el);
+        expect(el.shadowRoot.querySelector('[part=counter]')).to.equal(null);
+        expect(el.shadowRoot.querySelector('[part=progress]')).to.equal(null);
+      });
+
+      it('Should call action callback and resolve result with the action', async () => {
+        let called = null;
+        el.actions = [{ id: 'retry', label: 'Retry', callback: (notification) => { called = notification; } }, { id: 'undo' }];
+        await elementUpdated(el);
+        const buttons = el.shadowRoot.querySelectorAll('[part=action]');
+        expect(buttons[0].textContent).to.equal('Retry');
+        expect(buttons[1].textContent).to.equal('Undo');
+
+        buttons[0].click();
+        expect(called).to.equal(el);
+        expect(el.collapsed).to.be.true;
+        expect(await el.result).to.equal('retry');
+      });
+
+      it('Should resolve result with dismissed', async () => {
+        setTimeout(() => el.shadowRoot.querySelector('[part=clear]').click());
+        const event = await oneEvent(el, 'dismiss');
+        expect(event.detail.action).to.equal('dismissed');
+        expect(await el.result).to.equal('dismissed');
+      });
+
+      it('Should not resolve result if dismiss is prevented', async () => {
+        let result = null;
+        el.result.then((value) => { result = value; });
+        el.addEventListener('dismiss', (event) => event.preventDefault(), { once: true });
+        el.dismiss();
+        await nextFrame();
+        expect(result).to.equal(null);
+        expect(el.collapsed).to.be.false;
+      });
+    });
+
     describe('Events', () => {
       it('Should dispatch dismiss event', async () => {
         setTimeout(() => el.dismiss());
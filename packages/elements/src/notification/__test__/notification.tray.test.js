@@ -1,4 +1,4 @@
-import { fixture, expect, elementUpdated, oneEvent } from '@refinitiv-ui/test-helpers';
+import { fixture, expect, elementUpdated, oneEvent, aTimeout } from '@refinitiv-ui/test-helpers';
 
 // import element and theme
 import '@refinitiv-ui/elements/notification';
@@ -98,6 +98,63 @@ describe('notification/NotificationTray', () => {
         await oneEvent(notification3, 'collapsed');
       });
 
+      it('Should increase repeat count of the same notification', async () => {
+        const notification1 = document.createElement('ef-notification');
+        const notification2 = document.createElement('ef-notification');
+        const notification3 = document.createElement('ef-notification');
+
+        expect(el.push(notification1, { message: 'Saved', duration: 100, type: NotificationType.INFO })).to.equal(notification1);
+        expect(el.push(notification2, { message: 'Saved', duration: 100, type: NotificationType.INFO })).to.equal(notification1);
+        expect(el.push(notification3, { message: 'Saved', duration: 100, type: NotificationType.ERROR })).to.equal(notification3);
+        expect(notification1.repeat).to.equal(2);
+        expect(notification3.repeat).to.equal(1);
+        expect(notification2.parentElement).to.equal(null);
+
+        await oneEvent(notification1, 'collapsed');
+        await oneEvent(notification3, 'collapsed');
+      });
+
+      it('Should pause auto-dismiss on hover', async () => {
+        const notification = document.createElement('ef-notification');
+        el.push(notification, { message: 'Paused', duration: 100, type: NotificationType.INFO });
+        el.dispatchEvent(new MouseEvent('mouseenter'));
+        await aTimeout(200);
+        expect(notification.collapsed).to.be.false;
+
+        el.dispatchEvent(new MouseEvent('mouseleave'));
+        await oneEvent(notification, 'collapsed');
+        expect(await notification.result).to.equal('dismissed');
+      });
+
+      it('Should not dismiss notification in progress automatically', async () => {
+        const notification = document.createElement('ef-notification');
+        notification.progress = 0.5;
+        el.push(notification, { message: 'Uploading', duration: 100, type: NotificationType.INFO, progress: 0.5 });
+        await aTimeout(200);
+        expect(notification.collapsed).to.be.false;
+        notification.dismiss();
+        await oneEvent(notification, 'collapsed');
+      });
+
+      it('Should dismiss notification automatically when progress completes or is removed', async () => {
+        const completed = document.createElement('ef-notification');
+        const removed = document.createElement('ef-notification');
+        el.max = 2;
+        completed.progress = 0.5;
+        removed.progress = 0.5;
+        el.push(completed, { message: 'Uploading', duration: 100, type: NotificationType.INFO, progress: 0.5 });
+        el.push(removed, { message: 'Downloading', duration: 100, type: NotificationType.INFO, progress: 0.5 });
+        await aTimeout(200);
+        expect(completed.collapsed).to.be.false;
+
+        completed.progress = 1;
+        await oneEvent(completed, 'collapsed');
+        expect(removed.collapsed).to.be.false;
+
+        removed.progress = null;
+        await oneEvent(removed, 'collapsed');
+      });
+
       it('Attach point notification', async () => {
         const notification = document.createElement('ef-notification');
         el.attach = 'top';
@@ -30,6 +30,10 @@ export class NotificationTray extends ResponsiveElement {
   private resizeTask = new TimeoutTaskRunner();
   private nextToDismiss: Task | null = null;
   private defaultTimeout = 10000;
+  private dismissTimeout = 0;
+  private dismissTimeLeft = 0;
+  private dismissTimerStart = 0;
+  private paused = false;
 
   /**
    * Maximum number to show notification limit
@@ -56,7 +60,18 @@ export class NotificationTray extends ResponsiveElement {
    * @returns notification task
    */
   private get nextDismissable (): Task {
-    return this.showing.filter(item => item.options.duration !== Infinity)[0];
+    return this.showing.filter(item => this.isDismissable(item))[0];
+  }
+
+  /**
+   * Checks if the notification can be dismissed automatically.
+   * Notifications in progress wait for the progress to complete or for the application to dismiss them.
+   * @param item notification task
+   * @returns true if the notification is dismissable
+   */
+  private isDismissable (item: Task): boolean {
+    const progress = item.el.progress;
+    return item.options.duration !== Infinity && (progress === null || progress >= 1);
   }
 
   /**
@@ -67,6 +82,9 @@ export class NotificationTray extends ResponsiveElement {
   protected firstUpdated (changedProperties: PropertyValues): void {
     super.firstUpdated(changedProperties);
     this.addEventListener('collapsed', (event) => this.removeChild(event.target as Node), true);
+    // auto-dismiss waits while the user reads or interacts with notifications
+    this.addEventListener('mouseenter', this.pauseDismissTimer);
+    this.addEventListener('mouseleave', this.resumeDismissTimer);
     this.max = parseInt(this.getComputedVariable('--max'), 10) || 1;
     this.defaultTimeout = parseInt(this.getComputedVariable('--default-timeout'), 10) || 10000;
   }
@@ -124,18 +142,89 @@ export class NotificationTray extends ResponsiveElement {
   private dismissNext (): void {
     const next = this.nextDismissable;
     if (next && next !== this.nextToDismiss) {
-      const duration = next.options.duration;
       this.nextToDismiss = next;
+      this.restartDismissTimer();
+    }
+  }
+
+  /**
+   * Reschedules dismissal when progress of the notification changes.
+   * @param item notification task
+   * @returns {void}
+   */
+  private onProgressChanged (item: Task): void {
+    if (item === this.nextToDismiss && !this.isDismissable(item)) {
+      clearTimeout(this.dismissTimeout);
+      this.nextToDismiss = null;
+    }
+    this.dismissNext();
+  }
+
+  /**
+   * Starts the full duration of the next notification to dismiss again.
+   * @returns {void}
+   */
+  private restartDismissTimer (): void {
+    const duration = this.nextToDismiss?.options.duration;
+    this.dismissTimeLeft = typeof duration === 'number' ? duration : this.defaultTimeout;
+    this.startDismissTimer();
+  }
 
-      const timeout = setTimeout(() => {
+  /**
+   * Starts the timer of the next notification to dismiss, unless the tray is paused.
+   * @returns {void}
+   */
+  private startDismissTimer (): void {
+    clearTimeout(this.dismissTimeout);
+    const next = this.nextToDismiss;
+    if (next && !this.paused) {
+      this.dismissTimerStart = Date.now();
+      this.dismissTimeout = window.setTimeout(() => {
         next.el.dismiss();
-      }, typeof duration === 'number' ? duration : this.defaultTimeout);
-      next.el.addEventListener('dismiss', () => {
-        clearTimeout(timeout);
-      }, { once: true });
+      }, this.dismissTimeLeft);
     }
   }
 
+  /**
+   * Pauses auto-dismissal, keeping the remaining time.
+   * @returns {void}
+   */
+  private pauseDismissTimer = (): void => {
+    if (!this.paused) {
+      this.paused = true;
+      clearTimeout(this.dismissTimeout);
+      this.dismissTimeLeft = Math.max(0, this.dismissTimeLeft - (Date.now() - this.dismissTimerStart));
+    }
+  };
+
+  /**
+   * Resumes auto-dismissal with the remaining time.
+   * @returns {void}
+   */
+  private resumeDismissTimer = (): void => {
+    if (this.paused) {
+      this.paused = false;
+      this.startDismissTimer();
+    }
+  };
+
+  /**
+   * Finds a notification with the same content, which is showing or waiting to be shown.
+   * Notifications with progress are never duplicates.
+   * @param options notification options
+   * @returns notification task
+   */
+  private findDuplicate (options: TaskOptions): Task | undefined {
+    const actionIds = (task: TaskOptions): string => (task.actions || []).map(action => action.id).join();
+    return [...this.showing, ...this.queue].find(({ el, options: taskOptions }) => !el.collapsed
+      && taskOptions.message === options.message
+      && taskOptions.type === options.type
+      && taskOptions.title === options.title
+      && actionIds(taskOptions) === actionIds(options)
+      && Boolean(taskOptions.undo) === Boolean(options.undo)
+      && taskOptions.progress === undefined && options.progress === undefined);
+  }
+
   /**
    * Process notifications
    * @returns {void}
@@ -148,7 +237,13 @@ export class NotificationTray extends ResponsiveElement {
       if (item) {
         showing.push(item);
         this.appendChild(item.el);
+        const onProgressChanged = (): void => this.onProgressChanged(item);
+        item.el.addEventListener('progress-changed', onProgressChanged);
         item.el.addEventListener('dismiss', () => {
+          item.el.removeEventListener('progress-changed', onProgressChanged);
+          if (item === this.nextToDismiss) {
+            clearTimeout(this.dismissTimeout);
+          }
           showing.splice(showing.indexOf(item), 1);
           this.dismissNext();
           this.tick();
@@ -161,13 +256,25 @@ export class NotificationTray extends ResponsiveElement {
   /**
    * Pushes a new notification into the tray.
    * It will be shown when available to do so.
+   * If the same notification is already in the tray,
+   * its repeat count is increased instead and its timer is restarted.
    * @param el notification element to append.
    * @param options notification options
-   * @returns {void}
+   * @returns notification in the tray
    */
-  public push (el: Notification, options: TaskOptions): void {
+  public push (el: Notification, options: TaskOptions): Notification {
+    const duplicate = this.findDuplicate(options);
+    if (duplicate) {
+      duplicate.el.repeat += 1;
+      if (duplicate === this.nextToDismiss) {
+        this.restartDismissTimer();
+      }
+      return duplicate.el;
+    }
+
     this.queue.push({ el, options });
     this.tick();
+    return el;
   }
 
   /**
@@ -8,17 +8,32 @@ import {
 } from '@refinitiv-ui/core';
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
+import { styleMap } from '@refinitiv-ui/core/directives/style-map.js';
 import { translate, Translate } from '@refinitiv-ui/translate';
 import { VERSION } from '../../version.js';
+import type { NotificationAction, NotificationResult } from '../helpers/types';
 import '@refinitiv-ui/phrasebook/locale/en/notification.js';
 
 import '../../icon/index.js';
+import '../../button/index.js';
+import '../../counter/index.js';
+
+/**
+ * Result of a notification, which is closed without choosing an action
+ */
+export const DISMISSED: NotificationResult = 'dismissed';
+
+/**
+ * Id of the undo action
+ */
+export const UNDO_ACTION = 'undo';
 
 /**
  * Used to show informative content when something happens in the application
  *
  * @fires collapsed - Dispatched when notification is collapsed
- * @fires dismiss - Dispatched when notification is dismissed
+ * @fires dismiss - Dispatched when notification is dismissed. `detail.action` is the id of the chosen action or `dismissed`
+ * @fires progress-changed - Dispatched when `progress` changes. `detail.value` is the new progress
  *
  */
 @customElement('ef-notification', {
@@ -69,6 +84,44 @@ export class Notification extends BasicElement {
   @property({ type: Boolean, reflect: true })
   public collapsed = false;
 
+  /**
+   * Title shown before the message
+   */
+  @property({ type: String })
+  public header = '';
+
+  /**
+   * Action buttons. Clicking an action dismisses the notification.
+   * @type {NotificationAction[]}
+   */
+  @property({ type: Array, attribute: false })
+  public actions: NotificationAction[] = [];
+
+  /**
+   * Determinate progress between 0 and 1.
+   * Progress is not shown if the value is `null`.
+   * Notifications in the tray are dismissed automatically only when progress is `null` or complete.
+   * @type {number | null}
+   */
+  @property({ type: Number })
+  public progress: number | null = null;
+
+  /**
+   * Number of times the same notification has been shown
+   */
+  @property({ type: Number })
+  public repeat = 1;
+
+  private resolveResult!: (result: NotificationResult) => void;
+
+  /**
+   * Resolves with the id of the chosen action or `dismissed`,
+   * when the notification is dismissed
+   */
+  public readonly result = new Promise<NotificationResult>(resolve => {
+    this.resolveResult = resolve;
+  });
+
   /**
    * Used for translations
    */
@@ -92,24 +145,47 @@ export class Notification extends BasicElement {
     if (changedProperties.has('confirm') || changedProperties.has('warning') || changedProperties.has('error')) {
       this.updateStyles();
     }
+
+    // notification tray waits for the progress to complete before dismissing the notification
+    if (changedProperties.has('progress') && changedProperties.get('progress') !== undefined) {
+      this.dispatchEvent(new CustomEvent('progress-changed', {
+        bubbles: false,
+        detail: { value: this.progress }
+      }));
+    }
   }
 
   /**
    * Dismisses the notification, firing a `dismiss` event and collapsing the notification.
+   * @param [action=dismissed] Id of the chosen action
    * @returns {void}
    */
-  public dismiss (): void {
+  public dismiss (action: NotificationResult = DISMISSED): void {
     const event = new CustomEvent('dismiss', {
       bubbles: false,
-      cancelable: true
+      cancelable: true,
+      detail: { action }
     });
 
     // do action only if it was not prevented by a handler
     if (this.dispatchEvent(event)) {
       this.collapsed = true;
+      this.resolveResult(action);
     }
   }
 
+  /**
+   * Event handler for action buttons.
+   * @param event event object
+   * @param action chosen action
+   * @returns {void}
+   */
+  private onActionClick (event: Event, action: NotificationAction): void {
+    event.stopPropagation();
+    action.callback?.(this);
+    this.dismiss(action.id);
+  }
+
   /**
    * Event handler for the clear button.
    * @param event event object
@@ -152,6 +228,54 @@ export class Notification extends BasicElement {
     `;
   }
 
+  /**
+   * Template of the title
+   * @returns title template
+   */
+  private get headerTemplate (): TemplateResult | null {
+    return this.header ? html`<span part="header">${this.header}</span>` : null;
+  }
+
+  /**
+   * Template of action buttons
+   * @returns actions template
+   */
+  private get actionsTemplate (): TemplateResult | null {
+    if (!this.actions.length) {
+      return null;
+    }
+    return html`<div part="actions">${this.actions.map(action => html`<ef-button
+      part="action"
+      transparent
+      @click="${(event: Event) => this.onActionClick(event, action)}">${action.label || (action.id === UNDO_ACTION ? this.t('UNDO') : action.id)}</ef-button>`)}</div>`;
+  }
+
+  /**
+   * Template of the repeat counter
+   * @returns counter template
+   */
+  private get repeatTemplate (): TemplateResult | null {
+    return this.repeat > 1 ? html`<ef-counter part="counter" value="${this.repeat}"></ef-counter>` : null;
+  }
+
+  /**
+   * Template of determinate progress
+   * @returns progress template
+   */
+  private get progressTemplate (): TemplateResult | null {
+    if (this.progress === null || isNaN(this.progress)) {
+      return null;
+    }
+    const progress = Math.min(Math.max(this.progress, 0), 1);
+    return html`<div
+      part="progress"
+      role="progressbar"
+      aria-valuemin="0"
+      aria-valuemax="100"
+      aria-valuenow="${Math.round(progress * 100)}"
+      style=${styleMap({ width: `${progress * 100}%` })}></div>`;
+  }
+
   /**
    * A `TemplateResult` that will be used
    * to render the updated internal template.
@@ -166,7 +290,11 @@ export class Notification extends BasicElement {
     }
     </style>
     <div part="container">
+      ${this.headerTemplate}
       <div part="content"><slot>${this.message}</slot></div>
+      ${this.repeatTemplate}
+      ${this.actionsTemplate}
+      ${this.progressTemplate}
       <ef-icon part="clear" icon="cross" role="button" aria-description="${this.t('CLOSE')}" @click="${this.onClearClick.bind(this)}"></ef-icon>
     </div>
     `;
@@ -1,5 +1,6 @@
 import type { Notification } from '../elements/notification';
-import type { TaskOptions } from './types';
+import type { TaskOptions, NotificationOptions, NotificationResult } from './types';
+import { UNDO_ACTION } from '../elements/notification.js';
 import { NotificationTray } from '../elements/notification-tray.js';
 
 // TODO: Add to utils?
@@ -65,79 +66,89 @@ const prepareTray = (): void => {
 
 /**
  * Creates a notification and pushes it into the default tray.
+ * If the same notification is already in the tray, it is returned instead.
  *
  * @param options notification task options
  * @returns instance of the `Notification`.
  */
-const notify = (options: TaskOptions): Notification => {
+const createNotification = (options: TaskOptions): Notification => {
   prepareTray();
 
   const el = document.createElement('ef-notification');
   el.message = options.message;
+  el.header = options.title || '';
+  el.actions = options.actions || [];
+  if (options.undo) {
+    el.actions = [{ id: UNDO_ACTION, callback: options.undo }, ...el.actions];
+  }
+  el.progress = options.progress ?? null;
   el.confirm = options.type === NotificationType.CONFIRM;
   el.warning = options.type === NotificationType.WARN;
   el.error = options.type === NotificationType.ERROR;
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-  tray!.push(el, options);
+  return tray!.push(el, options);
+};
 
-  return el;
+/**
+ * Creates task options of a helper
+ * @param message Message to show in the notification.
+ * @param type Notification type
+ * @param options Duration or notification options
+ * @returns task options
+ */
+const toTaskOptions = (message: string, type: string, options?: number | NotificationOptions): TaskOptions => {
+  return options && typeof options === 'object' ? { ...options, message, type } : { message, type, duration: options };
+};
+
+/**
+ * Shows a notification in the default tray.
+ *
+ * @param options notification task options
+ * @returns promise, which resolves with the id of the chosen action or `dismissed`
+ */
+const notify = (options: TaskOptions): Promise<NotificationResult> => {
+  return createNotification(options).result;
 };
 
 
 /**
  * Show an info notification (default)
  * @param message Message to show in the notification.
- * @param duration Duration the notification should be displayed for.
+ * @param options Duration the notification should be displayed for, or notification options.
  * @returns instance of the `Notification`.
  */
-const info = (message: string, duration: number): Notification => {
-  return notify({
-    message: message,
-    duration: duration,
-    type: NotificationType.INFO
-  });
+const info = (message: string, options?: number | NotificationOptions): Notification => {
+  return createNotification(toTaskOptions(message, NotificationType.INFO, options));
 };
 
 /**
  * Show a confirmation notification
  * @param message Message to show in the notification.
- * @param duration Duration the notification should be displayed for.
+ * @param options Duration the notification should be displayed for, or notification options.
  * @returns instance of the `Notification`.
  */
-const confirm = (message: string, duration: number): Notification => {
-  return notify({
-    message: message,
-    duration: duration,
-    type: NotificationType.CONFIRM
-  });
+const confirm = (message: string, options?: number | NotificationOptions): Notification => {
+  return createNotification(toTaskOptions(message, NotificationType.CONFIRM, options));
 };
 
 /**
  * Show a warning notification
  * @param message Message to show in the notification.
- * @param duration Duration the notification should be displayed for.
+ * @param options Duration the notification should be displayed for, or notification options.
  * @returns instance of the `Notification`.
  */
-const warn = (message: string, duration: number): Notification => {
-  return notify({
-    message: message,
-    duration: duration,
-    type: NotificationType.WARN
-  });
+const warn = (message: string, options?: number | NotificationOptions): Notification => {
+  return createNotification(toTaskOptions(message, NotificationType.WARN, options));
 };
 
 /**
  * Show an error notification
  * @param message Message to show in the notification.
- * @param duration Duration the notification should be displayed for.
+ * @param options Duration the notification should be displayed for, or notification options.
  * @returns instance of the `Notification`.
  */
-const error = (message: string, duration: number): Notification => {
-  return notify({
-    message: message,
-    duration: duration,
-    type: NotificationType.ERROR
-  });
+const error = (message: string, options?: number | NotificationOptions): Notification => {
+  return createNotification(toTaskOptions(message, NotificationType.ERROR, options));
 };
 
 if (DEV_ENV) {
@@ -147,4 +158,4 @@ if (DEV_ENV) {
   });
 }
 
-export { info, confirm, warn, error };
+export { info, confirm, warn, error, notify, NotificationType };
@@ -5,9 +5,50 @@ export type Task = {
   options: TaskOptions;
 }
 
+/**
+ * Result of a notification: id of the chosen action or `dismissed`
+ */
+export type NotificationResult = string;
+
+export type NotificationAction = {
+  /**
+   * Id of the action, which the notification resolves with
+   */
+  id: string;
+  /**
+   * Label of the action button. Defaults to `id`
+   */
+  label?: string;
+  /**
+   * Called when the action button is clicked, before the notification is dismissed
+   */
+  callback?: (notification: Notification) => void;
+}
+
 export type TaskOptions = {
   message: string;
   type: string;
-  duration: number;
+  duration?: number;
+  /**
+   * Title shown above the message
+   */
+  title?: string;
+  /**
+   * Action buttons
+   */
+  actions?: NotificationAction[];
+  /**
+   * Adds an undo action, which calls this function
+   */
+  undo?: () => void;
+  /**
+   * Initial progress between 0 and 1.
+   * Notifications in progress are not dismissed automatically.
+   */
+  progress?: number;
 }
 
+/**
+ * Options of `info`, `confirm`, `warn` and `error` helpers
+ */
+export type NotificationOptions = Omit<TaskOptions, 'message' | 'type'>;
@@ -1,2 +1,3 @@
 export * from './elements/notification.js';
-export { info, confirm, warn, error } from './helpers/status.js';
+export { info, confirm, warn, error, notify, NotificationType } from './helpers/status.js';
+export type { NotificationAction, NotificationOptions, NotificationResult, TaskOptions } from './helpers/types.js';
@@ -0,0 +1,109 @@
+import { fixture, expect, elementUpdated, triggerFocusFor, nextFrame } from '@refinitiv-ui/test-helpers';
+
+import '@refinitiv-ui/elements/number-field';
+import '@refinitiv-ui/elemental-theme/light/ef-number-field';
+
+const typeInput = (el, input) => {
+  el.inputValue = input;
+  el.inputElement.dispatchEvent(new Event('input'));
+};
+
+const blur = async (el) => {
+  el.inputElement.blur();
+  await elementUpdated(el);
+};
+
+describe('number-field/Format', () => {
+  it('Value is displayed with locale grouping and decimal separators', async () => {
+    const el = await fixture('<ef-number-field lang="de" value="1234567.5"></ef-number-field>');
+    el.formatOptions = {};
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1.234.567,5');
+    expect(el.value).to.equal('1234567.5');
+    expect(el.inputElement.getAttribute('aria-valuetext')).to.equal('1.234.567,5');
+  });
+
+  it('Typed localised input is parsed to the canonical value', async () => {
+    const el = await fixture('<ef-number-field lang="de"></ef-number-field>');
+    el.formatOptions = {};
+    await elementUpdated(el);
+    await triggerFocusFor(el.inputElement);
+
+    typeInput(el, '1.234,50');
+    expect(el.value).to.equal('1234.50', 'Trailing zeros should be kept');
+    expect(el.valueAsNumber).to.equal(1234.5);
+
+    typeInput(el, '12.345.678.901.234.567,89');
+    expect(el.value).to.equal('12345678901234567.89', 'Precision should be kept');
+
+    typeInput(el, '1,2,3');
+    expect(el.value).to.equal('');
+    expect(el.checkValidity()).to.equal(false, 'Invalid number should be reported as bad input');
+  });
+
+  it('Focused input shows an editable number, blurred input shows a formatted number', async () => {
+    const el = await fixture('<ef-number-field lang="de" value="1234.5"></ef-number-field>');
+    el.formatOptions = { style: 'currency', currency: 'EUR' };
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1.234,50 €');
+
+    await triggerFocusFor(el.inputElement);
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1234,5');
+
+    typeInput(el, '99,9');
+    await blur(el);
+    expect(el.inputValue).to.equal('99,90 €');
+    expect(el.value).to.equal('99.9');
+  });
+
+  it('Percent is displayed and typed in hundreds', async () => {
+    const el = await fixture('<ef-number-field lang="en" value="0.25"></ef-number-field>');
+    el.formatOptions = { style: 'percent' };
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('25%');
+
+    await triggerFocusFor(el.inputElement);
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('25');
+
+    typeInput(el, '12.5');
+    expect(el.value).to.equal('0.125');
+
+    typeInput(el, '0.0001');
+    expect(el.value).to.equal('0.000001', 'Small values should not use exponent notation');
+  });
+
+  it('Step decimals are used, when fraction digits are not set', async () => {
+    const el = await fixture('<ef-number-field lang="ja" value="1000" step="0.05" min="0" max="1000.1"></ef-number-field>');
+    el.formatOptions = {};
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1,000.00');
+
+    el.stepUp();
+    await elementUpdated(el);
+    expect(el.value).to.equal('1000.05');
+    expect(el.inputValue).to.equal('1,000.05');
+
+    el.stepUp();
+    await elementUpdated(el);
+    expect(el.value).to.equal('1000.1', 'Value should not exceed max');
+  });
+
+  it('Input is formatted again when lang changes', async () => {
+    const el = await fixture('<ef-number-field lang="en" value="1234.5"></ef-number-field>');
+    el.formatOptions = {};
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1,234.5');
+
+    el.lang = 'de';
+    await nextFrame();
+    await elementUpdated(el);
+    expect(el.inputValue).to.equal('1.234,5');
+  });
+
+  it('Input is not formatted without format options', async () => {
+    const el = await fixture('<ef-number-field lang="de" value="1234.5"></ef-number-field>');
+    expect(el.inputValue).to.equal('1234.5');
+  });
+});
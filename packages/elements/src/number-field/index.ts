@@ -12,7 +12,10 @@ import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
 import { TemplateMap } from '@refinitiv-ui/core/directives/template-map.js';
+import { getLocale, observeLocale, disconnectLocale } from '@refinitiv-ui/translate';
+import { resolveNumberLocale, getNumberFormatter } from '@refinitiv-ui/utils/number.js';
 import { VERSION } from '../version.js';
+import { parseLocaleNumber, formatEditableNumber } from './utils.js';
 import '../icon/index.js';
 
 type SelectionDirection = 'forward' | 'backward' | 'none';
@@ -52,6 +55,8 @@ enum Direction {
  *
  * @attr {string} value - Input's value
  * @prop {string} [value=""] - Input's value
+ *
+ * @attr {string} lang - Locale used to format and parse the number, when `formatOptions` are set
  */
 @customElement('ef-number-field', {
   alias: 'coral-number-field'
@@ -134,6 +139,19 @@ export class NumberField extends FormFieldElement {
   @property({ type: String, reflect: true })
   public max: string | null = null;
 
+  /**
+   * Format the number using `Intl.NumberFormat` options, such as
+   * `{ style: 'currency', currency: 'EUR' }` or `{ style: 'percent' }`.
+   * When set, the input displays the formatted number and accepts numbers
+   * in the format of the element's locale, while `value` stays a plain number string.
+   * If fraction digits are not set, decimals follow `step`.
+   * @type {Intl.NumberFormatOptions | null}
+   * @default null
+   */
+  @property({ attribute: false })
+  public formatOptions: Intl.NumberFormatOptions | null = null;
+
+  private formattedInputValue = ''; // formatted text may be rounded, so it is never parsed back to value
   private interimValueState = false; // make sure that internal input field value is updated only on external value change
   /**
   * The value of the number entered into the input.
@@ -168,6 +186,24 @@ export class NumberField extends FormFieldElement {
   @query('[part=spinner-down]')
   private spinnerDownEl?: HTMLInputElement;
 
+  /**
+   * Called when the element has been appended to the DOM
+   * @returns {void}
+   */
+  public override connectedCallback (): void {
+    super.connectedCallback();
+    observeLocale(this);
+  }
+
+  /**
+   * Called when the element has been removed from the DOM
+   * @returns {void}
+   */
+  public override disconnectedCallback (): void {
+    super.disconnectedCallback();
+    disconnectLocale(this);
+  }
+
   /**
    * Updates the element
    * @param changedProperties Properties that has changed
@@ -177,7 +213,7 @@ export class NumberField extends FormFieldElement {
     // This code probably should not be here, as validation must be instantiated by the app developer
     // Keep the element inline with others for now
     if (changedProperties.has(FocusedPropertyKey) && !this.focused) {
-      this.reportValidity();
+      this.validate();
     }
 
     super.update(changedProperties);
@@ -193,9 +229,76 @@ export class NumberField extends FormFieldElement {
     // set it manually only if value has been updated externally
     // all internal input changes should not update input value
     if (changedProperties.has('value') && this.interimValueState) {
-      this.inputValue = this.value;
+      this.inputValue = this.toInputValue(this.value);
       this.interimValueState = false;
     }
+    // formatted number is shown only when the user is not editing
+    // invalid input is kept as it is, so the user can correct it
+    else if ((this.formatOptions || changedProperties.has('formatOptions')) && super.value !== '' && (changedProperties.has(FocusedPropertyKey)
+      || changedProperties.has('formatOptions') || changedProperties.has('lang') || changedProperties.has('step'))) {
+      this.inputValue = this.toInputValue(super.value);
+    }
+  }
+
+  /**
+   * Locale used to format and parse numbers
+   */
+  private get numberLocale (): string {
+    return resolveNumberLocale(getLocale(this));
+  }
+
+  /**
+   * Format options used to display the number, with decimals defaulting to the step precision
+   */
+  private get displayFormatOptions (): Intl.NumberFormatOptions {
+    const options = { ...this.formatOptions };
+    const decimals = this.stepValue === ANY_STEP ? 0 : this.stepDecimals;
+    if (decimals && options.style !== 'percent' && options.minimumFractionDigits === undefined && options.maximumFractionDigits === undefined) {
+      options.minimumFractionDigits = decimals;
+      options.maximumFractionDigits = Math.max(decimals, 3);
+    }
+    return options;
+  }
+
+  /**
+   * Get formatted number for display, e.g. `1.234,50 €`
+   * @param value Valid number string
+   * @returns formatted number
+   */
+  private formatNumber (value: string): string {
+    return getNumberFormatter(this.numberLocale, this.displayFormatOptions).format(Number(value));
+  }
+
+  /**
+   * Convert a number string to the text of the input.
+   * When `formatOptions` are set, focused input shows an editable number and blurred input a formatted number.
+   * @param value Number string
+   * @returns input text
+   */
+  private toInputValue (value: string): string {
+    if (!this.formatOptions || !this.isValidValue(value) || value === '') {
+      return value;
+    }
+    if (this.focused) {
+      return formatEditableNumber(value, this.numberLocale, this.formatOptions);
+    }
+    this.formattedInputValue = this.formatNumber(value);
+    return this.formattedInputValue;
+  }
+
+  /**
+   * Number string of the input text.
+   * When `formatOptions` are set, the text is parsed following the locale.
+   */
+  private get inputNumberString (): string {
+    const inputValue = this.inputValue;
+    if (!this.formatOptions) {
+      return inputValue;
+    }
+    if (inputValue && inputValue === this.formattedInputValue) {
+      return super.value;
+    }
+    return parseLocaleNumber(inputValue, this.numberLocale, this.formatOptions);
   }
 
   /**
@@ -277,7 +380,7 @@ export class NumberField extends FormFieldElement {
    */
   private get internalValue (): string {
     // cover the case when value getter is called before first render or in interim state
-    return this.interimValueState || !this.inputElement ? super.value : this.inputValue;
+    return this.interimValueState || !this.inputElement ? super.value : this.inputNumberString;
   }
 
   /**
@@ -286,7 +389,7 @@ export class NumberField extends FormFieldElement {
    * @returns {void}
    */
   protected onInputKeyDown (event: KeyboardEvent): void {
-    if (this.readonly || this.disabled || event.defaultPrevented) {
+    if (this.readonly || this.isDisabled || event.defaultPrevented) {
       return;
     }
 
@@ -312,7 +415,7 @@ export class NumberField extends FormFieldElement {
    * @returns {void}
    */
   protected onSpinnerTap (event: TapEvent): void {
-    if (this.disabled || this.readonly || event.defaultPrevented) {
+    if (this.isDisabled || this.readonly || event.defaultPrevented) {
       return;
     }
 
@@ -355,6 +458,11 @@ export class NumberField extends FormFieldElement {
     // but still do full validation on actual `input` and `change` events
     const inputType = event.inputType;
 
+    // localised numbers are validated on parsing
+    if (this.formatOptions) {
+      return;
+    }
+
     // cover all insert types, such as type, paste, drag&drop and others
     if (inputType.startsWith('insert')) {
       const data = event.data || '';
@@ -409,7 +517,7 @@ export class NumberField extends FormFieldElement {
    */
   protected onNativeInputChange (event: InputEvent): void {
     const currentInput = this.inputValue;
-    const inputValue = this.stripeInvalidCharacters(currentInput, this.value, event.data || '');
+    const inputValue = this.formatOptions ? currentInput : this.stripeInvalidCharacters(currentInput, this.value, event.data || '');
 
     if (inputValue !== currentInput) {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -479,7 +587,7 @@ export class NumberField extends FormFieldElement {
     // Nobody likes to see a red border
     this.resetError();
 
-    const value = this.valueAsNumberString(this.inputValue);
+    const value = this.valueAsNumberString(this.inputNumberString);
     if (super.value !== value) {
       // here we must set the value silently to avoid re-rendering of input
       super.value = value;
@@ -492,8 +600,8 @@ export class NumberField extends FormFieldElement {
    * @returns {void}
    */
   private resetError (): void {
-    if (this.error && this.checkValidity()) {
-      this.reportValidity();
+    if (this.error && this.updateValidity()) {
+      this.notifyErrorChange(false);
     }
   }
 
@@ -617,7 +725,7 @@ export class NumberField extends FormFieldElement {
 
     // If applying the algorithm to convert a string to a number to the string given by the element's value
     // does not result in an error, then let value be the result of that algorithm. Otherwise, let value be zero.
-    const inputValue = this.stringToNumber(this.inputValue);
+    const inputValue = this.stringToNumber(this.inputNumberString);
     const valueBeforeStepping = isNaN(inputValue) ? 0 : inputValue;
     let value = valueBeforeStepping;
 
@@ -654,7 +762,7 @@ export class NumberField extends FormFieldElement {
       return;
     }
 
-    this.inputValue = String(value);
+    this.inputValue = this.toInputValue(String(value));
   }
 
   /**
@@ -676,19 +784,20 @@ export class NumberField extends FormFieldElement {
   }
 
   /**
-   * Returns true if an input element contains valid data.
-   * @returns true if input is valid
+   * Get the constraints the element is suffering from
+   * @returns validity state flags
    */
-  public checkValidity (): boolean {
+  protected override getValidityFlags (): ValidityStateFlags {
+    const flags = super.getValidityFlags();
     const value = this.internalValue;
 
-    // No support for required
+    // Empty value can only fail required constraint, which is checked by the base class
     if (value === '') {
-      return true;
+      return flags;
     }
 
     if (!this.isValidValue(value)) {
-      return false;
+      return { ...flags, badInput: true };
     }
 
     // Check min and max numbers
@@ -696,31 +805,21 @@ export class NumberField extends FormFieldElement {
     const max = this.stringToNumber(this.max);
     const min = this.stringToNumber(this.min);
 
-    if (numberValue < min || numberValue > max) {
-      return false;
+    if (numberValue < min) {
+      return { ...flags, rangeUnderflow: true };
+    }
+
+    if (numberValue > max) {
+      return { ...flags, rangeOverflow: true };
     }
 
     // Check step for an integral step
     const stepValue = this.stepValue;
     if (stepValue !== ANY_STEP && !this.isValueIntegralMultipleOfStep(numberValue)) {
-      return false;
-    }
-
-    return true;
-  }
-
-  /**
-   * Validate input. Mark as error if input is invalid
-   * @returns false if there is an error
-   */
-  public reportValidity (): boolean {
-    const hasError = !this.checkValidity();
-    if (this.error !== hasError) {
-      this.error = hasError;
-      this.notifyPropertyChange('error', this.error);
+      return { ...flags, stepMismatch: true };
     }
 
-    return !hasError;
+    return flags;
   }
 
   /**
@@ -800,13 +899,13 @@ export class NumberField extends FormFieldElement {
           icon="up"
           part="spinner-up"
           ?readonly=${this.readonly}
-          ?disabled=${this.disabled}>
+          ?disabled=${this.isDisabled}>
         </ef-icon>
         <ef-icon
           icon="down"
           part="spinner-down"
           ?readonly=${this.readonly}
-          ?disabled=${this.disabled}>
+          ?disabled=${this.isDisabled}>
         </ef-icon>
       </div>
     `;
@@ -817,9 +916,10 @@ export class NumberField extends FormFieldElement {
    * type="text" - always `text`
    * part="input" - always "input", used for styling
    * inputmode="decimal" - show decimals keyboard by default
-   * pattern="'^[-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?$'" - numbers only
+   * pattern="'^[-+]?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?$'" - numbers only, unless `formatOptions` are set
    * role="spinbutton" - number field is actually a spinner
    * aria-valuenow - current value or 0
+   * aria-valuetext - formatted value, if `formatOptions` are set
    * @keydown - Listener for `keydown` event. Runs `this.onInputKeyDown`
    * @beforeinput - Listener for `beforeinput` event. Runs `this.onBeforeInputChange`
    * @returns template map
@@ -830,9 +930,10 @@ export class NumberField extends FormFieldElement {
       'type': 'text',
       'part': 'input',
       'inputmode': 'decimal',
-      'pattern': NUMBER_PATTERN,
+      'pattern': this.formatOptions ? null : NUMBER_PATTERN,
       'role': 'spinbutton',
       'aria-valuenow': `${this.value || 0}`,
+      'aria-valuetext': this.formatOptions && this.value ? this.formatNumber(this.value) : null,
       '@keydown': this.onInputKeyDown,
       '@beforeinput': this.onBeforeInputChange
     };
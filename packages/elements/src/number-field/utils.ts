@@ -0,0 +1,147 @@
+import { getNumberFormatter } from '@refinitiv-ui/utils/number.js';
+
+/**
+ * Number symbols of a locale
+ */
+interface NumberSymbols {
+  decimal: string;
+  group: string;
+  minusSign: string;
+  digits: string[];
+  affixes: string[];
+}
+
+const symbols = new Map<string, NumberSymbols>();
+
+/**
+ * Browsers use various spaces as grouping separators or around currency symbols
+ */
+const SPACES = /\s/g;
+const SPACE = /^\s$/;
+const MINUS_SIGNS = /[−‒–—]/g;
+const CANONICAL_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+const NON_ZERO_DIGIT = /[1-9]/;
+
+/**
+ * Get decimal and group separators, digits and affixes, such as currency symbols, of the locale
+ * @param locale Locale
+ * @param options Format options
+ * @returns number symbols
+ */
+const getNumberSymbols = (locale: string, options: Intl.NumberFormatOptions): NumberSymbols => {
+  const key = `${locale}${JSON.stringify(options)}`;
+  let result = symbols.get(key);
+
+  if (!result) {
+    // force fraction digits, as percent and some currencies do not have decimals by default
+    const parts = getNumberFormatter(locale, { ...options, useGrouping: true, minimumFractionDigits: 1, maximumFractionDigits: 1 }).formatToParts(-12345.6);
+    const getPart = (type: string): string => parts.find(part => part.type === type)?.value.normalize('NFKC') || '';
+    const digitFormatter = getNumberFormatter(locale, { useGrouping: false });
+    result = {
+      decimal: getPart('decimal') || '.',
+      group: getPart('group'),
+      minusSign: getPart('minusSign') || '-',
+      digits: Array.from({ length: 10 }, (_, digit) => digitFormatter.format(digit)),
+      affixes: parts
+        .filter(part => part.type === 'currency' || part.type === 'percentSign' || part.type === 'unit' || part.type === 'literal')
+        .map(part => part.value.normalize('NFKC').replace(SPACES, ''))
+        .filter(affix => affix.length)
+    };
+    symbols.set(key, result);
+  }
+
+  return result;
+};
+
+/**
+ * Normalise a number string without converting it to a number,
+ * so that precision and trailing zeros of the fraction are kept
+ * @param value Number string, which matches the canonical number pattern
+ * @returns canonical number string, e.g. `-12.50` for `-012.50`
+ */
+const normalizeNumber = (value: string): string => {
+  const sign = value.startsWith('-') ? '-' : '';
+  const [integer, fraction = ''] = value.replace(/^[-+]/, '').split('.');
+  const digits = `${integer.replace(/^0+/, '') || '0'}${fraction ? `.${fraction}` : ''}`;
+  // negative zero is shown as zero
+  return NON_ZERO_DIGIT.test(digits) ? `${sign}${digits}` : digits;
+};
+
+/**
+ * Move the decimal point of the canonical number
+ * @param value Canonical number string
+ * @param exponent Number of places to move the point by
+ * @returns canonical number string
+ */
+const shiftDecimal = (value: string, exponent: number): string => {
+  const sign = value.startsWith('-') ? '-' : '';
+  const [integer, fraction = ''] = value.replace(/^[-+]/, '').split('.');
+  let digits = `${integer}${fraction}`;
+  let point = integer.length + exponent;
+  if (point < 1) {
+    digits = `${'0'.repeat(1 - point)}${digits}`;
+    point = 1;
+  }
+  digits = digits.padEnd(point, '0');
+  return normalizeNumber(`${sign}${digits.slice(0, point)}${point < digits.length ? `.${digits.slice(point)}` : ''}`);
+};
+
+/**
+ * Parse localised text to a canonical number string, for instance `1.234,5 €` to `1234.5` in German.
+ * Grouping separators, currency and percent signs are optional.
+ * Percent values are divided by 100.
+ * @param text Text to parse
+ * @param locale Locale
+ * @param options Format options
+ * @returns canonical number string, empty string if text is empty or `NaN` if text is not a number
+ */
+export const parseLocaleNumber = (text: string, locale: string, options: Intl.NumberFormatOptions): string => {
+  const { decimal, group, minusSign, digits, affixes } = getNumberSymbols(locale, options);
+
+  // NFKC converts full-width characters typed with East Asian IMEs
+  let value = text.normalize('NFKC').replace(SPACES, '');
+  affixes.forEach(affix => {
+    value = value.split(affix).join('');
+  });
+  if (group && !SPACE.test(group)) {
+    value = value.split(group).join('');
+  }
+  value = value
+    .split(minusSign).join('-')
+    .replace(MINUS_SIGNS, '-')
+    .split(decimal).join('.');
+  digits.forEach((digit, index) => {
+    value = value.split(digit).join(String(index));
+  });
+
+  if (!value) {
+    return '';
+  }
+
+  if (!CANONICAL_NUMBER.test(value)) {
+    return 'NaN';
+  }
+
+  value = normalizeNumber(value);
+  return options.style === 'percent' ? shiftDecimal(value, -2) : value;
+};
+
+/**
+ * Format canonical number for editing: no grouping, currency or percent signs and full precision
+ * @param value Canonical number string
+ * @param locale Locale
+ * @param options Format options
+ * @returns editable text
+ */
+export const formatEditableNumber = (value: string, locale: string, options: Intl.NumberFormatOptions): string => {
+  // numbers in exponent notation cannot be shown in full precision
+  if (!CANONICAL_NUMBER.test(value)) {
+    return getNumberFormatter(locale, { useGrouping: false, maximumFractionDigits: 20 }).format(Number(value));
+  }
+  const { decimal, minusSign, digits } = getNumberSymbols(locale, options);
+  const number = normalizeNumber(options.style === 'percent' ? shiftDecimal(value, 2) : value);
+  return number
+    .replace(/\d/g, digit => digits[Number(digit)])
+    .replace('.', decimal)
+    .replace('-', minusSign);
+};
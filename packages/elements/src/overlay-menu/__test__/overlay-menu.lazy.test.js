@@ -0,0 +1,102 @@
+import { expect, fixture, aTimeout } from '@refinitiv-ui/test-helpers';
+// import element and theme
+import '@refinitiv-ui/elements/overlay-menu';
+import '@refinitiv-ui/elemental-theme/light/ef-overlay-menu';
+import { getMenuTriggers, openedUpdated, triggerMouseMove } from './utils';
+
+const lazyData = () => [
+  { label: 'Open', value: 'open' },
+  { label: 'Add to watchlist', value: 'watchlist', lazy: true },
+  { label: 'Share', value: 'share', lazy: true }
+];
+
+const createMenu = async (childrenProvider) => {
+  const el = await fixture('<div><ef-overlay-menu></ef-overlay-menu></div>');
+  const menu = el.querySelector('ef-overlay-menu');
+  menu.data = lazyData();
+  menu.childrenProvider = childrenProvider;
+  menu.opened = true;
+  await openedUpdated(el);
+  return { el, menu };
+};
+
+const openNested = async (el, menu, index = 0) => {
+  const triggers = getMenuTriggers([...menu.renderRoot.querySelectorAll('ef-item')]);
+  triggerMouseMove(triggers[index]);
+  await openedUpdated(el);
+  return document.getElementById(triggers[index].for);
+};
+
+describe('overlay-menu/Lazy', () => {
+  it('Lazy items have nested menus', async () => {
+    const { menu } = await createMenu(() => Promise.resolve([]));
+    const triggers = getMenuTriggers([...menu.renderRoot.querySelectorAll('ef-item')]);
+    expect(triggers.length).to.equal(2);
+  });
+
+  it('Shows loading item and loads items when nested menu opens', async () => {
+    let resolve;
+    const requested = [];
+    const { el, menu } = await createMenu((item) => {
+      requested.push(item.value);
+      return new Promise(r => { resolve = r; });
+    });
+    const nested = await openNested(el, menu);
+
+    expect(requested).to.deep.equal(['watchlist']);
+    expect(nested.opened).to.equal(true);
+    expect(nested.getAttribute('aria-busy')).to.equal('true');
+    expect(nested.renderRoot.querySelector('[part=menu-loading]').label).to.equal('Loading...');
+
+    const loaded = [{ label: 'Tech', value: 1 }, { label: 'Energy', value: 2 }];
+    resolve(loaded);
+    await openedUpdated(nested);
+
+    const items = [...nested.renderRoot.querySelectorAll('ef-item')];
+    expect(items.map(item => item.label)).to.deep.equal(['Tech', 'Energy']);
+    expect(items[0].value).to.equal('1');
+    expect(loaded[0].value).to.equal(1, 'Provider items should not be modified');
+    expect(nested.hasAttribute('aria-busy')).to.equal(false);
+  });
+
+  it('Caches loaded items until invalidated', async () => {
+    let count = 0;
+    const { el, menu } = await createMenu(() => {
+      count += 1;
+      return Promise.resolve([{ label: `List ${count}`, value: String(count) }]);
+    });
+    let nested = await openNested(el, menu);
+    await openedUpdated(nested);
+    expect(count).to.equal(1);
+
+    nested.opened = false;
+    await openedUpdated(el);
+    nested = await openNested(el, menu);
+    expect(count).to.equal(1, 'Loaded items should be reused');
+
+    menu.invalidateChildren();
+    await openedUpdated(nested);
+    expect(count).to.equal(2, 'Opened menu should load items again');
+    expect(nested.renderRoot.querySelector('ef-item:not([part])').label).to.equal('List 2');
+  });
+
+  it('Aborts loading when the user moves to another item', async () => {
+    const signals = [];
+    const { el, menu } = await createMenu((item, signal) => {
+      signals.push(signal);
+      return aTimeout(100).then(() => [{ label: item.value, value: item.value }]);
+    });
+    const watchlist = await openNested(el, menu, 0);
+    await openNested(el, menu, 1);
+
+    expect(watchlist.opened).to.equal(false);
+    expect(signals[0].aborted).to.equal(true);
+    expect(signals[1].aborted).to.equal(false);
+
+    await aTimeout(150);
+    expect(watchlist.hasAttribute('aria-busy')).to.equal(false);
+
+    await openNested(el, menu, 0);
+    expect(signals.length).to.equal(3, 'Aborted items should be requested again');
+  });
+});
@@ -7,4 +7,22 @@ export type NestedMenu = {
   item: Item;
 };
 
-export type OverlayMenuData = ItemData[] | CollectionComposer<ItemData>;
+/**
+ * Item of the menu.
+ * `lazy` item has a nested menu, which items are requested from `childrenProvider` when the nested menu opens.
+ */
+export type OverlayMenuDataItem = ItemData & {
+  lazy?: boolean;
+};
+
+export type OverlayMenuData = OverlayMenuDataItem[] | CollectionComposer<OverlayMenuDataItem>;
+
+/**
+ * Children provider callback
+ * Loads items of a lazy nested menu
+ *
+ * @param item Item, which nested menu is opened
+ * @param signal Aborted when the nested menu closes before the items are loaded
+ * @return Promise resolving to the items of the nested menu
+ */
+export type OverlayMenuChildrenProvider = (item: OverlayMenuDataItem, signal: AbortSignal) => Promise<OverlayMenuDataItem[]>;
@@ -17,14 +17,17 @@ import { uuid } from '@refinitiv-ui/utils/uuid.js';
 
 import '../icon/index.js';
 import '../item/index.js';
-import { Item, ItemData } from '../item/index.js';
+import { Item } from '../item/index.js';
 import { Overlay, OverlayPosition, OverlayPositionTarget } from '../overlay/index.js';
 import { applyLock } from '../overlay/managers/interaction-lock-manager.js';
 import { OpenedMenusManager } from './managers/menu-manager.js';
 import { Navigation } from './helpers/constants.js';
-import type { OverlayMenuData } from './helpers/types';
+import type { OverlayMenuData, OverlayMenuDataItem, OverlayMenuChildrenProvider } from './helpers/types';
 
-export type { OverlayMenuData };
+import '@refinitiv-ui/phrasebook/locale/en/overlay-menu.js';
+import { translate, Translate } from '@refinitiv-ui/translate';
+
+export type { OverlayMenuData, OverlayMenuDataItem, OverlayMenuChildrenProvider };
 
 /**
  * Overlay that supports single-level and multi-level menus
@@ -150,10 +153,11 @@ export class OverlayMenu extends Overlay {
     };
   } = {};
 
-  private composer = new CollectionComposer<ItemData>([]);
+  private composer = new CollectionComposer<OverlayMenuDataItem>([]);
   private _data: OverlayMenuData | undefined;
-  private parentDataItem?: ItemData; /* used to reference CC to get the correct collection */
+  private parentDataItem?: OverlayMenuDataItem; /* used to reference CC to get the correct collection */
   private lazyRendered = false; /* speed up rendering by not populating overlay on first load */
+  private loadController?: AbortController; /* aborts loading of lazy items */
 
   /**
    * Switch to compact style menu
@@ -212,14 +216,14 @@ export class OverlayMenu extends Overlay {
           item.value = String(item.value);
         }
       });
-      this.composer = new CollectionComposer<ItemData>(value);
+      this.composer = new CollectionComposer<OverlayMenuDataItem>(value);
     }
     else if (value instanceof CollectionComposer) {
       this.composer = value;
     }
     else {
       new WarningNotice('ef-overlay-menu: invalid data provided').show();
-      this.composer = new CollectionComposer<ItemData>([]);
+      this.composer = new CollectionComposer<OverlayMenuDataItem>([]);
     }
     this._data = value;
 
@@ -231,6 +235,22 @@ export class OverlayMenu extends Overlay {
     this.requestUpdate('data', oldValue);
   }
 
+  /**
+   * Function to load items of nested menus, which data items are `lazy`.
+   * Called when a lazy nested menu opens. Loaded items are kept,
+   * until they are cleared by `invalidateChildren()`.
+   * Nested menus use the provider of the parent menu.
+   * @type {OverlayMenuChildrenProvider | null}
+   */
+  @property({ attribute: false })
+  public childrenProvider: OverlayMenuChildrenProvider | null = null;
+
+  /**
+   * Used for translations
+   */
+  @translate()
+  protected t!: Translate;
+
   /**
    * A flag indicating that the menu is nested
    * Used for styling
@@ -305,10 +325,10 @@ export class OverlayMenu extends Overlay {
    * Valid only for CC
    * @returns descendant data item
    */
-  private getDataDescendants (): ItemData[] {
+  private getDataDescendants (): OverlayMenuDataItem[] {
     return (this.parentDataItem
       ? this.composer.getItemDescendants(this.parentDataItem, Infinity)
-      : this.composer.queryItems(() => true, Infinity)) as ItemData[];
+      : this.composer.queryItems(() => true, Infinity)) as OverlayMenuDataItem[];
   }
 
   /**
@@ -351,12 +371,122 @@ export class OverlayMenu extends Overlay {
     return items;
   }
 
+  /**
+   * Children provider of the menu or the closest parent menu
+   */
+  private get resolvedChildrenProvider (): OverlayMenuChildrenProvider | null {
+    return this.childrenProvider || OpenedMenusManager.getParentMenu(this)?.resolvedChildrenProvider || null;
+  }
+
+  /**
+   * Clears loaded items of lazy nested menus,
+   * so that the items are requested again when the nested menu opens.
+   * Opened nested menus load their items straight away.
+   * @param [item] Lazy data item to clear. If omitted, all loaded items are cleared
+   * @returns {void}
+   */
+  public invalidateChildren (item?: OverlayMenuDataItem): void {
+    const composer = this.composer;
+    const items = item ? [item] : composer.queryItemsByPropertyValue('loaded', true, Infinity);
+
+    items.forEach(lazyItem => {
+      if (composer.getItemPropertyValue(lazyItem, 'loaded') !== true) {
+        return;
+      }
+      composer.getItemChildren(lazyItem).forEach(child => composer.removeItem(child));
+      composer.setItemPropertyValue(lazyItem, 'loaded', false);
+    });
+  }
+
+  /**
+   * Checks if items of the nested menu need to be requested
+   * @returns true if the menu is lazy and items are not loaded yet
+   */
+  private get shouldLoadChildren (): boolean {
+    const item = this.parentDataItem;
+    return !!item
+      && this.composer.getItemPropertyValue(item, 'lazy') === true
+      && this.composer.getItemPropertyValue(item, 'loaded') !== true;
+  }
+
+  /**
+   * Requests items of a lazy nested menu from `childrenProvider`.
+   * If loading fails, the menu closes and the items are requested again next time.
+   * @returns {void}
+   */
+  private loadChildren (): void {
+    const item = this.parentDataItem;
+    const provider = this.resolvedChildrenProvider;
+    if (!item || !provider || !this.shouldLoadChildren || this.loadController) {
+      return;
+    }
+
+    const composer = this.composer;
+    const controller = new AbortController();
+    this.loadController = controller;
+    this.setAttribute('aria-busy', 'true');
+    composer.setItemPropertyValue(item, 'loading', true);
+
+    // provider items are copied, as values are converted to strings
+    const addItems = (parent: OverlayMenuDataItem, items: OverlayMenuDataItem[]): void => {
+      items.forEach(child => {
+        const copy = { ...child };
+        if (copy.value !== undefined && copy.value !== null) {
+          copy.value = String(copy.value);
+        }
+        composer.addItem(copy, parent);
+        child.items && addItems(copy, child.items as OverlayMenuDataItem[]);
+      });
+    };
+
+    provider(item, controller.signal)
+      .then(items => {
+        if (controller.signal.aborted || composer !== this.composer) {
+          return;
+        }
+        addItems(item, items);
+        composer.setItemPropertyValue(item, 'loaded', true);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted && this.opened) {
+          this.setOpened(false);
+        }
+      })
+      .finally(() => {
+        if (this.loadController === controller) {
+          this.stopLoading();
+        }
+      });
+  }
+
+  /**
+   * Resets loading state of the menu
+   * @returns {void}
+   */
+  private stopLoading (): void {
+    this.loadController = undefined;
+    this.removeAttribute('aria-busy');
+    this.parentDataItem && this.composer.setItemPropertyValue(this.parentDataItem, 'loading', false);
+  }
+
+  /**
+   * Aborts pending request of lazy items, e.g. when the user moves to another item
+   * @returns {void}
+   */
+  private cancelLoading (): void {
+    if (this.loadController) {
+      this.loadController.abort();
+      this.stopLoading();
+    }
+  }
+
   /**
    * Invoked when a component is removed from the document’s DOM.
    * @return {void}
    */
   public disconnectedCallback (): void {
     super.disconnectedCallback();
+    this.cancelLoading();
     this.disconnectNestedMenus();
   }
 
@@ -471,11 +601,11 @@ export class OverlayMenu extends Overlay {
    * Selects all data from CollectionComposer
    * @return all MenuItems stored in CollectionComposer
    */
-  private getAllComposedData (): ItemData[] {
+  private getAllComposedData (): OverlayMenuDataItem[] {
     const items = this.parentDataItem
       ? this.composer.getItemChildren(this.parentDataItem)
       : this.composer.queryItems(() => true, 0);
-    return items as ItemData[];
+    return items as OverlayMenuDataItem[];
   }
 
   /**
@@ -523,6 +653,7 @@ export class OverlayMenu extends Overlay {
       applyLock();
     }
     this.registerMenu();
+    this.loadChildren();
   }
 
   /**
@@ -530,6 +661,7 @@ export class OverlayMenu extends Overlay {
    * @return {void}
    */
   private closing (): void {
+    this.cancelLoading();
     OpenedMenusManager.deregister(this);
   }
 
@@ -540,6 +672,8 @@ export class OverlayMenu extends Overlay {
   private modificationUpdate (): void {
     this.constructDataMenus();
     this.requestUpdate();
+    // items of an opened menu may have been invalidated
+    this.opened && this.loadChildren();
   }
 
   /**
@@ -555,7 +689,7 @@ export class OverlayMenu extends Overlay {
 
     // try to match existing menus via CC
     // this is true if modification are done via CC APIs
-    const findMenuByDataItem = (dataItem: ItemData): OverlayMenu | undefined => {
+    const findMenuByDataItem = (dataItem: OverlayMenuDataItem): OverlayMenu | undefined => {
       const menuId = (this.composer?.getItemPropertyValue(dataItem, 'for') || '') as string;
       return oldMenuIndex[menuId]?.menu;
     };
@@ -573,7 +707,7 @@ export class OverlayMenu extends Overlay {
 
     data.forEach((dataItem, index) => {
       // has menu
-      if (dataItem.items && dataItem.items.length) {
+      if (this.composer.isItemParent(dataItem) || this.composer.getItemPropertyValue(dataItem, 'lazy') === true) {
         const dataId = `${dataItem.value || index}-${depth}`;
         const menu = findMenuByDataItem(dataItem) || findMenuByDataId(dataId) || this.toOverlayMenu();
         menu.setAttribute('aria-label', String(dataItem.label));
@@ -989,7 +1123,7 @@ export class OverlayMenu extends Overlay {
    * @param item JSON object to parse
    * @return template result
    */
-  private toItem (item: ItemData): TemplateResult {
+  private toItem (item: OverlayMenuDataItem): TemplateResult {
     const composer = this.composer as CollectionComposer;
     const type = composer.getItemPropertyValue(item, 'type');
 
@@ -1048,6 +1182,18 @@ export class OverlayMenu extends Overlay {
     return this.getAllComposedData().map(this.toItem);
   }
 
+  /**
+   * Construct placeholder item, which is shown while items are loading
+   * @returns {TemplateResult} Template result
+   */
+  private loadingItem (): TemplateResult | undefined {
+    if (!this.parentDataItem || this.composer.getItemPropertyValue(this.parentDataItem, 'loading') !== true) {
+      return undefined;
+    }
+
+    return html`<ef-item part="menu-loading" role="presentation" readonly label=${this.t('LOADING')}></ef-item>`;
+  }
+
   /**
    * Construct back item for compact menu
    * @returns {TemplateResult} Template result
@@ -1076,6 +1222,7 @@ export class OverlayMenu extends Overlay {
      */
     return html`
       ${this.compactBackItem()}
+      ${this.withData ? this.loadingItem() : undefined}
       ${this.withData ? this.fromDataItems : html`<slot @slotchange=${this.onSlotChange}></slot>`}
     `;
   }
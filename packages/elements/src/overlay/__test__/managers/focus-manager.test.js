@@ -234,6 +234,47 @@ describe('overlay/manager/FocusManager', () => {
           expect(document.activeElement).to.equal(second);
         });
 
+        it('Test `ctrl + F6` cycles non-modal overlays', async () => {
+          const cycle = () => document.dispatchEvent(new KeyboardEvent('keydown', { key: 'F6', ctrlKey: true, bubbles: true }));
+          element.noInteractionLock = true;
+          element2.noInteractionLock = true;
+          await elementUpdated(element2);
+
+          second.focus();
+          cycle();
+          expect(document.activeElement).to.equal(first);
+          expect(zIndexManager.getOverlays()[0]).to.equal(element, 'Focused overlay should be brought to front');
+
+          cycle();
+          expect(document.activeElement).to.equal(second);
+
+          element2.withBackdrop = true;
+          await elementUpdated(element2);
+          cycle();
+          expect(document.activeElement).to.equal(second, 'Overlay with backdrop should keep the focus');
+        });
+
+        it('Test `ctrl + shift + F6` sends the top overlay to the back and skips overlays without focus cycling', async () => {
+          const cycleBack = () => document.dispatchEvent(new KeyboardEvent('keydown', { key: 'F6', ctrlKey: true, shiftKey: true, bubbles: true }));
+          const element3 = await fixture('<ef-overlay opened no-interaction-lock><button id="third">third</button></ef-overlay>');
+          const third = element3.querySelector('#third');
+          element.noInteractionLock = true;
+          element2.noInteractionLock = true;
+          await elementUpdated(element2);
+
+          third.focus();
+          cycleBack();
+          expect(document.activeElement).to.equal(second);
+          expect(zIndexManager.getOverlays()).to.deep.equal([element2, element, element3]);
+
+          cycleBack();
+          expect(document.activeElement).to.equal(first);
+          expect(zIndexManager.getOverlays()).to.deep.equal([element, element3, element2]);
+
+          Object.defineProperty(element3, 'focusCycleEnabled', { value: false });
+          cycleBack();
+          expect(document.activeElement).to.equal(second, 'Overlay without focus cycling should be skipped');
+        });
       });
     });
   });
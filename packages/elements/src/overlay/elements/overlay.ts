@@ -1691,6 +1691,16 @@ export class Overlay extends ResponsiveElement {
     return this._fullyOpened === OpenedState.OPENING || this._fullyOpened === OpenedState.CLOSING;
   }
 
+  /**
+   * @ignore
+   * Returns true if the overlay takes part in `Ctrl+F6` focus cycling of non-modal overlays.
+   * Override to skip the overlay
+   * @readonly
+   */
+  public get focusCycleEnabled (): boolean {
+    return this.noInteractionLock && !this.withBackdrop;
+  }
+
   /**
    * A `TemplateResult` that will be used
    * to render the updated internal template.
@@ -102,6 +102,45 @@ export class FocusManager {
     }
   }
 
+  /**
+   * Move focus to the next or previous non-modal overlay,
+   * similar to `Ctrl+F6` in desktop applications
+   * @param event Keyboard event
+   * @returns {void}
+   */
+  private onCycleKey (event: KeyboardEvent): void {
+    const overlays = this.overlays;
+
+    if (!overlays.length || overlays[0].withBackdrop) { /* modal overlay keeps the focus */
+      return;
+    }
+
+    const windows = overlays.filter(overlay => overlay.focusCycleEnabled);
+    if (windows.length < 2) {
+      return;
+    }
+
+    event.preventDefault();
+
+    let overlay: Overlay;
+    if (event.shiftKey) {
+      // Going backwards sends the top overlay to the back,
+      // by bringing the other overlays to front in their current order
+      for (let i = windows.length - 1; i > 0; i -= 1) {
+        windows[i].toFront();
+      }
+      overlay = windows[1];
+    }
+    else {
+      // Bringing the last overlay to front cycles through all overlays
+      overlay = windows[windows.length - 1];
+      overlay.toFront();
+    }
+
+    const focusNode = this.lastFocused.get(overlay) || this.getTabbableElements(overlay)[0] || overlay;
+    focusNode.focus();
+  }
+
   private getReTargetFocusNode (nodes: HTMLElement[]): HTMLElement | null {
     let activeElement = this.getActiveElement();
 
@@ -153,6 +192,10 @@ export class FocusManager {
       this.onTabKey(event);
       return;
     }
+
+    if (event.key === 'F6' && (event.ctrlKey || event.metaKey)) {
+      this.onCycleKey(event);
+    }
   };
 
   /**
@@ -105,7 +105,7 @@ export class PasswordField extends TextField {
         aria-label="${this.isPasswordVisible ? this.t('HIDE_PASSWORD') : this.t('SHOW_PASSWORD')}"
         icon=${this.isPasswordVisible ? 'eye-off' : 'eye'}
         ?readonly="${this.readonly}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         @tap="${this.togglePasswordVisibility}"
       ></ef-icon>
     `;
@@ -89,6 +89,37 @@ export class RadioButton extends ControlElement {
   @property({ type: Boolean, reflect: true })
   public checked = false;
 
+  /**
+   * Checked state on first render. Form reset restores it
+   */
+  private defaultChecked = false;
+
+  /**
+   * Only the checked radio button of the group is submitted.
+   * Defaults to `on` if value is not set
+   */
+  protected get formValue (): string | null {
+    return this.checked ? this.value || 'on' : null;
+  }
+
+  /**
+   * Value is missing if no radio button of the group is checked
+   */
+  protected override get valueMissing (): boolean {
+    return !this.checked && !getRadioGroup(this).some(radio => radio.checked);
+  }
+
+  /**
+   * Resets value and checked state to initial setting
+   * @returns Whether the value or checked state has changed
+   */
+  public reset (): boolean {
+    const valueChanged = super.reset();
+    const checkedChanged = this.checked !== this.defaultChecked;
+    this.checked = this.defaultChecked;
+    return valueChanged || checkedChanged;
+  }
+
   /**
    * Getter for label
    */
@@ -152,6 +183,7 @@ export class RadioButton extends ControlElement {
    */
   protected firstUpdated (changedProperties: PropertyValues): void {
     super.firstUpdated(changedProperties);
+    this.defaultChecked = this.checked;
     this.addEventListener('tap', this.onTap);
     this.addEventListener('keydown', this.onKeyDown);
 
@@ -173,6 +205,9 @@ export class RadioButton extends ControlElement {
         radio.tabIndex = -1;
       });
     }
+
+    // required constraint depends on checked state of the whole group
+    getRadioGroup(this).forEach(radio => radio.updateValidity());
   }
 
   /**
@@ -181,7 +216,7 @@ export class RadioButton extends ControlElement {
    * @returns {void}
    */
   private onTap (event: TapEvent): void {
-    if (this.disabled || this.readonly || event.defaultPrevented) {
+    if (this.isDisabled || this.readonly || event.defaultPrevented) {
       return;
     }
 
@@ -194,7 +229,7 @@ export class RadioButton extends ControlElement {
    * @returns {void}
    */
   private onKeyDown (event: KeyboardEvent): void {
-    if (this.disabled || event.defaultPrevented) {
+    if (this.isDisabled || event.defaultPrevented) {
       return;
     }
 
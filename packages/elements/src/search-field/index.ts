@@ -84,7 +84,7 @@ export class SearchField extends TextField {
         icon="search"
         aria-label="${this.t('SEARCH')}"
         ?readonly="${this.readonly}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         @tap="${this.iconClick}"
         tabindex="${ifDefined(this.iconHasAction ? '0' : undefined)}"
       ></ef-icon>
@@ -0,0 +1,98 @@
+import { fixture, expect, elementUpdated, nextFrame, keyboardEvent } from '@refinitiv-ui/test-helpers';
+import { getMenuEl, openedUpdated } from './utils';
+
+import '@refinitiv-ui/elements/select';
+import '@refinitiv-ui/elemental-theme/light/ef-select';
+
+const getGroupData = () => [{
+  type: 'header',
+  label: 'Europe',
+  items: [
+    { value: 'AL', label: 'Albania' },
+    { value: 'AT', label: 'Austria', selected: true }
+  ]
+}, {
+  type: 'header',
+  label: 'Asia',
+  disabled: true,
+  items: [
+    { value: 'AF', label: 'Afghanistan' }
+  ]
+}, {
+  type: 'header',
+  label: 'Africa',
+  items: [
+    { value: 'DZ', label: 'Algeria' }
+  ]
+}];
+
+const pressKey = async (el, key) => {
+  getMenuEl(el).dispatchEvent(keyboardEvent('keydown', { key }));
+  await elementUpdated(el);
+  await nextFrame();
+};
+
+describe('select/Groups', () => {
+  it('Groups are rendered with a header and group semantics', async () => {
+    const el = await fixture('<ef-select opened></ef-select>');
+    el.data = getGroupData();
+    await openedUpdated(el);
+
+    const groups = getMenuEl(el).querySelectorAll('[role=group]');
+    expect(groups.length).to.equal(3);
+    expect(groups[0].getAttribute('aria-label')).to.equal('Europe');
+
+    const header = groups[0].querySelector('[part~=group-header]');
+    expect(header.type).to.equal('header');
+    expect(header.label).to.equal('Europe');
+    expect(getComputedStyle(header).position).to.equal('sticky');
+
+    const options = [...groups[0].querySelectorAll('[role=option]')];
+    expect(options.map(option => option.value)).to.deep.equal(['AL', 'AT']);
+  });
+
+  it('Nested options can be selected', async () => {
+    const el = await fixture('<ef-select></ef-select>');
+    el.data = getGroupData();
+    await elementUpdated(el);
+    expect(el.value).to.equal('AT', 'Selected option of a group should set the value');
+    expect(el.label).to.equal('Austria');
+
+    el.value = 'DZ';
+    await elementUpdated(el);
+    expect(el.value).to.equal('DZ');
+    expect(el.label).to.equal('Algeria');
+    expect(el.data[0].items[1].selected).to.equal(false);
+    expect(el.data[2].items[0].selected).to.equal(true);
+  });
+
+  it('Options of a disabled group are disabled', async () => {
+    const el = await fixture('<ef-select opened></ef-select>');
+    el.data = getGroupData();
+    await openedUpdated(el);
+
+    const option = getMenuEl(el).querySelector('ef-item[value=AF]');
+    expect(option.disabled).to.equal(true);
+    option.click();
+    await elementUpdated(el);
+    expect(el.value).to.equal('AT', 'Disabled option should not be selected');
+  });
+
+  it('Navigation skips group headers and disabled groups', async () => {
+    const el = await fixture('<ef-select opened></ef-select>');
+    el.data = getGroupData();
+    await openedUpdated(el);
+    const menu = getMenuEl(el);
+    const highlighted = () => menu.querySelector('[highlighted]').value;
+
+    expect(highlighted()).to.equal('AT', 'Selected option should be highlighted');
+    await pressKey(el, 'ArrowDown');
+    expect(highlighted()).to.equal('DZ');
+    await pressKey(el, 'ArrowDown');
+    expect(highlighted()).to.equal('AL');
+    await pressKey(el, 'ArrowUp');
+    expect(highlighted()).to.equal('DZ');
+    await pressKey(el, 'Home');
+    expect(highlighted()).to.equal('AL');
+  });
+});
@@ -0,0 +1,110 @@
+import { fixture, expect, elementUpdated, nextFrame, oneEvent, keyboardEvent } from '@refinitiv-ui/test-helpers';
+import { getData, getMenuEl, getOptions, openedUpdated } from './utils';
+
+import '@refinitiv-ui/elements/select';
+import '@refinitiv-ui/elemental-theme/light/ef-select';
+
+const pressKey = async (el, key, options = {}) => {
+  getMenuEl(el).dispatchEvent(keyboardEvent('keydown', Object.assign({ key }, options)));
+  await elementUpdated(el);
+  await nextFrame();
+};
+
+const getLabelText = (el) => el.shadowRoot.querySelector('[part=label]').textContent.trim();
+const getCounter = (el) => el.shadowRoot.querySelector('[part=counter]');
+const getSelectAll = (el) => el.shadowRoot.querySelector('[part=select-all]');
+
+describe('select/Multiple', () => {
+  it('Only the first value is selected, when multiple is not set', async () => {
+    const el = await fixture('<ef-select></ef-select>');
+    el.data = getData();
+    el.values = ['AF', 'AL'];
+    await elementUpdated(el);
+    expect(el.values).to.deep.equal(['AF']);
+  });
+
+  it('Values can be set in multiple mode', async () => {
+    const el = await fixture('<ef-select multiple></ef-select>');
+    el.data = getData();
+    el.values = ['AL', 'AF'];
+    await elementUpdated(el);
+    expect(el.values).to.deep.equal(['AF', 'AL']);
+    expect(el.labels).to.deep.equal(['Afghanistan', 'Albania']);
+    expect(getLabelText(el)).to.equal('Afghanistan, Albania');
+
+    el.multiple = false;
+    await elementUpdated(el);
+    expect(el.values).to.deep.equal(['AF'], 'Switching off multiple should keep the first value');
+  });
+
+  it('Options toggle selection and the list stays opened', async () => {
+    const el = await fixture(`<ef-select multiple opened>${getOptions()}</ef-select>`);
+    await openedUpdated(el);
+    const items = el.querySelectorAll('ef-item');
+    expect(items[1].multiple).to.equal(true, 'Options should display a checkbox');
+    expect(getMenuEl(el).getAttribute('aria-multiselectable')).to.equal('true');
+
+    setTimeout(() => items[1].click());
+    await oneEvent(el, 'value-changed');
+    items[4].click();
+    await elementUpdated(el);
+    expect(el.values).to.deep.equal(['AF', 'AL']);
+    expect(el.opened).to.equal(true, 'List should stay opened');
+
+    items[1].click();
+    await elementUpdated(el);
+    expect(el.values).to.deep.equal(['AL']);
+  });
+
+  it('Shift and arrow keys select a range of options', async () => {
+    const el = await fixture('<ef-select multiple opened></ef-select>');
+    el.data = getData();
+    await openedUpdated(el);
+
+    await pressKey(el, 'ArrowDown');
+    await pressKey(el, ' ');
+    expect(el.values).to.deep.equal(['AF']);
+
+    await pressKey(el, 'ArrowDown', { shiftKey: true });
+    await pressKey(el, 'ArrowDown', { shiftKey: true });
+    expect(el.values).to.deep.equal(['AF', 'AX', 'AL']);
+
+    await pressKey(el, 'Enter');
+    expect(el.values).to.deep.equal(['AF', 'AX'], 'Enter should toggle highlighted option');
+  });
+
+  it('Ctrl+A and select all control select or clear all options', async () => {
+    const el = await fixture('<ef-select multiple opened></ef-select>');
+    el.data = getData([], [2]);
+    await openedUpdated(el);
+
+    await pressKey(el, 'a', { ctrlKey: true });
+    expect(el.values).to.deep.equal(['AF', 'AL'], 'Disabled option should not be selected');
+    expect(getSelectAll(el).checked).to.equal(true);
+
+    await pressKey(el, 'a', { ctrlKey: true });
+    expect(el.values).to.deep.equal([]);
+
+    el.values = ['AF'];
+    await elementUpdated(el);
+    const selectAll = getSelectAll(el);
+    expect(selectAll.indeterminate).to.equal(true);
+
+    setTimeout(() => selectAll.click());
+    await oneEvent(el, 'value-changed');
+    expect(el.values).to.deep.equal(['AF', 'AL']);
+  });
+
+  it('Label is summarised when many options are selected', async () => {
+    const el = await fixture('<ef-select multiple max-labels="1"></ef-select>');
+    el.data = getData([1, 2, 4]);
+    await elementUpdated(el);
+    expect(getLabelText(el)).to.equal('Afghanistan');
+    expect(getCounter(el).textContent).to.equal('+2');
+
+    el.maxLabels = 0;
+    await elementUpdated(el);
+    expect(getLabelText(el)).to.equal('3 selected');
+    expect(getCounter(el)).to.equal(null);
+  });
+});
@@ -139,7 +139,7 @@ describe('select/Navigation', () => {
   });
 
   describe('Quick Search', () => {
-    const KEY_SEARCH_DEBOUNCER = 300;
+    const KEY_SEARCH_DEBOUNCER = 500;
 
     const emulateQuickSearch = async (el, scope) => {
       await openedUpdated(el);
@@ -178,5 +178,44 @@ describe('select/Navigation', () => {
       el.data = getData();
       await emulateQuickSearch(el, getMenuEl(el));
     });
+
+    it('Repeating the same character cycles through matching items', async () => {
+      const el = await fixture('<ef-select opened></ef-select>');
+      el.data = getData();
+      await openedUpdated(el);
+      const scope = getMenuEl(el);
+      const children = scope.querySelectorAll('ef-item');
+
+      await keyBoardEvent(el, 'a');
+      await keyBoardEvent(el, 'a');
+      expect(scope.querySelector('[highlighted]') === children[2]).to.equal(true, 'Second item starting with "A" should be highlighted');
+      await keyBoardEvent(el, 'a');
+      expect(scope.querySelector('[highlighted]') === children[4]).to.equal(true, 'Third item starting with "A" should be highlighted');
+    });
+
+    it('Space is a part of the search term while typing', async () => {
+      const el = await fixture('<ef-select opened></ef-select>');
+      el.data = getData();
+      await openedUpdated(el);
+      const scope = getMenuEl(el);
+      const children = scope.querySelectorAll('ef-item');
+
+      for (const key of 'aland i') {
+        await keyBoardEvent(el, key);
+      }
+      expect(scope.querySelector('[highlighted]') === children[2]).to.equal(true, '"Aland Islands" should be highlighted');
+      expect(el.value).to.equal('', 'Space should not select an item while typing');
+    });
+
+    it('Quick search skips disabled and readonly items', async () => {
+      const el = await fixture('<ef-select opened></ef-select>');
+      el.data = getData([], [1], [2]);
+      await openedUpdated(el);
+      const scope = getMenuEl(el);
+      const children = scope.querySelectorAll('ef-item');
+
+      await keyBoardEvent(el, 'A');
+      expect(scope.querySelector('[highlighted]') === children[4]).to.equal(true, 'Only "Albania" can be highlighted');
+    });
   });
 });
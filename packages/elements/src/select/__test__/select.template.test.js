@@ -1,6 +1,8 @@
 import { fixture, expect, elementUpdated, isIE } from '@refinitiv-ui/test-helpers';
 import { getData, getMenuEl, getOptions, openedUpdated, snapshotIgnore } from './utils';
 
+import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
+
 import '@refinitiv-ui/elements/select';
 import '@refinitiv-ui/elemental-theme/light/ef-select';
 
@@ -82,5 +84,39 @@ describe('select/Template', () => {
       expect(styles.maxWidth).to.equal('50px', 'CSS Variable is not passed');
       expect(styles.minWidth).to.equal('0px', 'min width is not reset');
     });
+
+    it('Renders sort and group views of a composer', async () => {
+      const el = await fixture('<ef-select opened></ef-select>');
+      const composer = new CollectionComposer(getData().filter(item => item.value));
+      el.data = composer;
+      await openedUpdated(el);
+
+      composer.setSort({ property: 'label', direction: 'descending' });
+      composer.setGroup({ value: item => item.label[0], header: group => ({ type: 'header', label: group }) });
+      await openedUpdated(el);
+
+      const labels = Array.from(getMenuEl(el).querySelectorAll('ef-item')).map(item => item.label);
+      expect(labels).to.deep.equal(['A', 'Albania', 'Aland Islands', 'Afghanistan']);
+      expect(getMenuEl(el).querySelector('ef-item').type).to.equal('header');
+    });
+
+    it('Stops listening to the previous composer', async () => {
+      const el = await fixture('<ef-select opened></ef-select>');
+      const composer = new CollectionComposer(getData().filter(item => item.value));
+      el.data = composer;
+      await openedUpdated(el);
+      el.data = getData();
+      await openedUpdated(el);
+
+      let updates = 0;
+      const requestUpdate = el.requestUpdate;
+      el.requestUpdate = (...args) => {
+        updates += 1;
+        return requestUpdate.apply(el, args);
+      };
+      composer.setSort({ property: 'label', direction: 'descending' });
+      await elementUpdated(el);
+      expect(updates).to.equal(0, 'Modification of the previous composer should not update the select');
+    });
   });
 });
@@ -1,4 +1,30 @@
 import type { ItemData } from '../../item';
+import type { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
 
-export type SelectData = ItemData[];
-export type SelectDataItem= ItemData;
+/**
+ * Group of options, similar to `<optgroup>` of the native select.
+ * The group label is rendered as a header above its options.
+ */
+export type SelectDataGroup = {
+  /**
+   * Additional keys are allowed, same as for other data items
+   */
+  [key: string]: unknown;
+  type?: 'header';
+  /**
+   * Label of the group
+   */
+  label: string;
+  /**
+   * Disables all options of the group
+   */
+  disabled?: boolean;
+  /**
+   * Options of the group
+   */
+  items: SelectDataItem[];
+};
+
+export type SelectDataItem = ItemData | SelectDataGroup;
+export type SelectData = SelectDataItem[];
+export type SelectDataSource = SelectData | CollectionComposer<SelectDataItem>;
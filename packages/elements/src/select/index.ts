@@ -7,7 +7,8 @@ import {
   PropertyValues,
   MultiValue,
   FocusedPropertyKey,
-  StyleMap
+  StyleMap,
+  TapEvent
 } from '@refinitiv-ui/core';
 import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
@@ -17,16 +18,20 @@ import { VERSION } from '../version.js';
 import '../overlay/index.js';
 import '../item/index.js';
 import '../icon/index.js';
+import '../checkbox/index.js';
 import { Item } from '../item/index.js';
 import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
-import { TimeoutTaskRunner, AnimationTaskRunner } from '@refinitiv-ui/utils/async.js';
+import { AnimationTaskRunner } from '@refinitiv-ui/utils/async.js';
 import { isElementOverflown } from '@refinitiv-ui/utils/element.js';
+import { Typeahead } from '@refinitiv-ui/utils/navigation.js';
 import { registerOverflowTooltip } from '../tooltip/index.js';
+import { translate, Translate } from '@refinitiv-ui/translate';
+import '@refinitiv-ui/phrasebook/locale/en/select.js';
 import type { Overlay } from '../overlay';
-import type { SelectData, SelectDataItem } from './helpers/types';
-import type { OpenedChangedEvent } from '../events';
+import type { SelectData, SelectDataItem, SelectDataGroup, SelectDataSource } from './helpers/types';
+import type { OpenedChangedEvent, CheckChangedEvent } from '../events';
 
-export type { SelectData, SelectDataItem };
+export type { SelectData, SelectDataItem, SelectDataGroup };
 
 // Observer config for items
 const observerOptions = {
@@ -43,9 +48,8 @@ const observerOptions = {
   ]
 };
 
-const LABEL_SEPARATOR = ', '; // TODO: for multiselect
+const LABEL_SEPARATOR = ', ';
 const POPUP_POSITION = ['bottom-start', 'top-start'];
-const KEY_SEARCH_DEBOUNCER = 300;
 
 enum Navigation {
   FIRST = 'First',
@@ -61,7 +65,7 @@ enum Navigation {
  * @attr {boolean} disabled - Set disabled state
  * @prop {boolean} [disabled=false] - Set disabled state
  *
- * @fires value-changed - Fired when the value property changes.
+ * @fires value-changed - Fired when the value property changes. Use `values` to get all selected values in `multiple` mode.
  * @fires opened-changed - Fired when the opened property changes.
  */
 @customElement('ef-select', {
@@ -110,6 +114,19 @@ export class Select extends ControlElement implements MultiValue {
       :host [part="list"] ::slotted(:not(ef-item)) {
         display: none;
       }
+      [part~=group-header] {
+        position: sticky;
+        top: 0;
+        z-index: 1;
+      }
+      [part=select-all] {
+        position: sticky;
+        top: 0;
+        z-index: 2;
+      }
+      [part=counter] {
+        flex: none;
+      }
       #box {
         align-items: center;
         display: inline-flex;
@@ -149,17 +166,25 @@ export class Select extends ControlElement implements MultiValue {
   }
 
   private composer: CollectionComposer<SelectDataItem> = new CollectionComposer([]);
-  private _data: SelectData | null = null;
+  private _data: SelectDataSource | null = null;
   private mutationObserver?: MutationObserver;
   private popupDynamicStyles: StyleMap = {}; /* set popup min-width based on select width or CSS vars */
   private lazyRendered = false; /* speed up rendering by not populating popup window on first load */
   private popupScrollTop = 0; /* remember scroll position on popup refit actions */
   private observingMutations = false;
   private highlightedItem?: Item;
-  private keySearchTerm = ''; /* used for quick search */
-  private keySearchThrottler = new TimeoutTaskRunner(KEY_SEARCH_DEBOUNCER);
+  private typeahead = new Typeahead(); /* used for quick search */
+  private selectionAnchor?: Item; /* start of a range selection in multiple mode */
   private resizeThrottler = new AnimationTaskRunner();
 
+  /**
+   * Requests an update after a composer modification
+   * @returns {void}
+   */
+  private modificationUpdate = (): void => {
+    this.requestUpdate();
+  };
+
   /**
   * Current text content of the selected value
   * @readonly
@@ -170,7 +195,6 @@ export class Select extends ControlElement implements MultiValue {
   }
   /**
   * Current text content of the selected values
-  * @ignore
   * @readonly
   */
   @property({ type: Array, attribute: false })
@@ -207,47 +231,58 @@ export class Select extends ControlElement implements MultiValue {
   public warning = false;
 
   /**
-  * Switch to multiple select input
-  * @ignore
-  * @param multiple True if element needs to support multi selection
+  * Allow multiple selections.
+  * The list stays opened while options are toggled
   */
-  @property({ type: Boolean })
-  public set multiple (multiple: boolean) {
-    // TODO: not implemented
-  }
+  @property({ type: Boolean, reflect: true })
+  public multiple = false;
+
   /**
-  * @ignore
+  * Maximum number of labels to display in `multiple` mode.
+  * Other selected options are summarised by a counter.
+  * Set to `0` to display the number of selected options only
   */
-  public get multiple (): boolean {
-    return false;
-  }
+  @property({ type: Number, attribute: 'max-labels' })
+  public maxLabels = 3;
+
+  /**
+   * Used for translations
+   */
+  @translate({ scope: 'ef-select' })
+  protected t!: Translate;
 
   /**
-  * Construct the menu from data object. Cannot be used with slotted content
-  * @type {SelectData | null}
+  * Construct the menu from data object. Cannot be used with slotted content.
+  * Pass a collection composer to render its sort and group-by views.
+  * @type {SelectDataSource | null}
   * @default null
   */
   @property({ attribute: false })
-  public get data (): SelectData | null {
+  public get data (): SelectDataSource | null {
     return this._data;
   }
-  public set data (value: SelectData | null) {
+  public set data (value: SelectDataSource | null) {
     const oldValue = this._data;
     if (oldValue === value) {
       return;
     }
+    this.composer.off('modification', this.modificationUpdate);
+    if (value instanceof CollectionComposer) {
+      this.composer = value;
+    }
     else if (Array.isArray(value)) {
       this.composer = new CollectionComposer<SelectDataItem>(value);
     }
     else {
       this.composer = new CollectionComposer<SelectDataItem>([]);
     }
+    this.composer.on('modification', this.modificationUpdate);
     this._data = value;
 
     // check if new set of data contains selected, which becomes the new value
     // otherwise try to set current value
     if (!this.selectedDataItems.length) {
-      this.value = this.cachedValue;
+      this.values = this.cachedValues;
     }
 
     this.requestUpdate('data', oldValue);
@@ -258,7 +293,7 @@ export class Select extends ControlElement implements MultiValue {
    * This is developer error to use both, selected and value to control the selections.
    * Therefore as soon as value has been set externally, selected state in data setter is ignored
    */
-  private cachedValue = '';
+  private cachedValues: string[] = [];
 
   /**
   * Value of the element
@@ -269,10 +304,10 @@ export class Select extends ControlElement implements MultiValue {
   public set value (value: string) {
     value = this.castValue(value);
 
-    this.cachedValue = value;
+    this.cachedValues = value ? [value] : [];
 
     const oldValue = this.value;
-    if (value !== oldValue) {
+    if (value !== oldValue || this.values.length > 1) {
       this.stopObserveMutations();
       // setting the value always overrides the selected attribute
       // either defined in data or by having selected as an attribute
@@ -286,11 +321,27 @@ export class Select extends ControlElement implements MultiValue {
   }
 
   /**
-   * Array of selected items` values
-   * @ignore
-   * @readonly
+   * Value to be submitted with the form.
+   * Multiple selection submits an entry per selected value
    */
-  @property({ attribute: false })
+  protected override get formValue (): string | FormData | null {
+    return this.multiple ? this.valuesToFormData(this.values) : this.value;
+  }
+
+  /**
+   * Value is missing if nothing is selected
+   */
+  protected override get valueMissing (): boolean {
+    return !this.values.length;
+  }
+
+  /**
+   * Array of selected items` values.
+   * Only the first value is selected, unless `multiple` is set
+   * @type {string[]}
+   * @default []
+   */
+  @property({ type: Array, attribute: false })
   public get values (): string[] {
     if (this.hasDataItems()) {
       return this.selectedDataItems.map(item => this.composer.getItemPropertyValue(item, 'value') as string);
@@ -298,6 +349,22 @@ export class Select extends ControlElement implements MultiValue {
 
     return this.selectedSlotItems.map(item => this.getItemValue(item));
   }
+  public set values (values: string[]) {
+    const newValues = (Array.isArray(values) ? values : []).map(value => this.castValue(value));
+    const selectValues = this.multiple ? newValues : newValues.slice(0, 1);
+
+    this.cachedValues = selectValues;
+
+    const oldValues = this.values;
+    if (selectValues.slice().sort().toString() !== oldValues.slice().sort().toString()) {
+      const oldValue = this.value;
+      this.stopObserveMutations();
+      this.clearSelection();
+      selectValues.forEach(value => this.selectValue(value));
+      this.requestUpdate('values', oldValues);
+      this.requestUpdate('value', oldValue);
+    }
+  }
 
   /**
    * Reference to the menu element
@@ -326,7 +393,18 @@ export class Select extends ControlElement implements MultiValue {
    * @returns {void}
    */
   protected update (changedProperties: PropertyValues): void {
-    this.cachedValue = ''; /* reset cached value as it is only valid when value and data are set the same time */
+    this.cachedValues = []; /* reset cached values as they are only valid when values and data are set the same time */
+
+    if (changedProperties.has('multiple')) {
+      if (!this.multiple && this.values.length > 1) {
+        this.values = this.values.slice(0, 1);
+      }
+      this.selectionAnchor = undefined;
+    }
+
+    if (!this.hasDataItems()) {
+      this.syncSlottedItems();
+    }
 
     const focusedChanged = changedProperties.has(FocusedPropertyKey);
 
@@ -368,7 +446,7 @@ export class Select extends ControlElement implements MultiValue {
     this.addEventListener('keydown', this.onKeyDown); /* keydown when select is closed */
     registerOverflowTooltip(this,
       () => this.labelText,
-      () => this.labelRef.value ? isElementOverflown(this.labelRef.value) : false);
+      () => this.hiddenLabelCount > 0 || (this.labelRef.value ? isElementOverflown(this.labelRef.value) : false));
   }
 
   /**
@@ -603,14 +681,30 @@ export class Select extends ControlElement implements MultiValue {
    * @param event tap event
    * @returns {void}
    */
-  private onPopupTap (event: Event): void {
+  private onPopupTap (event: TapEvent): void {
     const item = this.findSelectableElement(event);
-    if (item) {
+    if (!item) {
+      return;
+    }
+
+    if (this.multiple) {
+      this.toggleItem(item, event.shiftKey);
+    }
+    else {
       this.setValueAndNotify(this.getItemValue(item));
       this.setOpened(false);
     }
   }
 
+  /**
+   * Run when select all control is toggled
+   * @param event checked-changed event
+   * @returns {void}
+   */
+  private onSelectAllChanged (event: CheckChangedEvent): void {
+    this.setAllSelected(event.detail.value);
+  }
+
   /**
    * Run mouse move event over the popup
    * @param event mouse move event
@@ -656,61 +750,64 @@ export class Select extends ControlElement implements MultiValue {
    * @returns {void}
    */
   private onPopupKeyDown (event: KeyboardEvent): void {
+    // Space is a part of the search term while the user is typing
+    if (Typeahead.isTypeaheadKey(event) && (event.key !== ' ' || this.typeahead.active)) {
+      this.onKeySearch(event.key);
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
     switch (event.key) {
       case ' ':
       case 'Spacebar':
       case 'Enter':
-        this.highlightedItem?.click();
+        if (this.multiple) {
+          this.highlightedItem && this.toggleItem(this.highlightedItem, event.shiftKey);
+        }
+        else {
+          this.highlightedItem?.click();
+        }
         break;
       case 'Up':
       case 'ArrowUp':
-        this.focusElement(Navigation.PREVIOUS);
+        this.focusElement(Navigation.PREVIOUS, event.shiftKey);
         break;
       case 'Down':
       case 'ArrowDown':
-        this.focusElement(Navigation.NEXT);
+        this.focusElement(Navigation.NEXT, event.shiftKey);
         break;
       case 'Tab':
         this.focusElement(event.shiftKey ? Navigation.PREVIOUS : Navigation.NEXT);
         break;
       case 'Home':
-        this.focusElement(Navigation.FIRST);
+        this.focusElement(Navigation.FIRST, event.shiftKey);
         break;
       case 'End':
-        this.focusElement(Navigation.LAST);
+        this.focusElement(Navigation.LAST, event.shiftKey);
         break;
-      default:
-        if (this.isValidFilterKey(event)) {
-          this.onKeySearch(event.key);
-          break;
+      case 'a':
+      case 'A':
+        if (!this.multiple || !(event.ctrlKey || event.metaKey)) {
+          return;
         }
+        this.setAllSelected(!this.allSelected);
+        break;
+      default:
         return;
-      // no default
     }
 
     event.preventDefault();
     event.stopPropagation(); /* must be her to not reach self key listener */
   }
 
-  /**
-   * Check if keyboard keydown can be used for data searching
-   * @param event Keyboard event
-   * @returns true if a valid key
-   */
-  private isValidFilterKey (event: KeyboardEvent): boolean {
-    // all printable keys have length of 1. This is better than regexp as we cover all non latin characters
-    return event.key.length === 1
-      && !event.ctrlKey
-      && !event.altKey
-      && !event.metaKey;
-  }
-
   /**
    * Focus and highlight element according to specified direction
    * @param direction previous, next, first or last focusable element
+   * @param [extendSelection=false] Select options from the selection anchor up to the element in `multiple` mode
    * @returns {void}
    */
-  private focusElement (direction: Navigation): void {
+  private focusElement (direction: Navigation, extendSelection = false): void {
     const highlightedItem = this.highlightedItem || this.getSelectedElements()[0];
     const selectableElements = this.getSelectableElements();
 
@@ -748,6 +845,122 @@ export class Select extends ControlElement implements MultiValue {
     if (element) {
       element.focus();
       this.setItemHighlight(element);
+
+      if (extendSelection && this.multiple) {
+        this.selectRange(element);
+      }
+    }
+  }
+
+  /**
+   * Toggles an option in `multiple` mode and notifies about the change.
+   * The option becomes an anchor of the next range selection
+   * @param item Option to toggle
+   * @param [range=false] Select options from the selection anchor up to the option instead
+   * @returns {void}
+   */
+  private toggleItem (item: Item, range = false): void {
+    if (range && this.selectionAnchor) {
+      this.selectRange(item);
+      return;
+    }
+
+    this.selectionAnchor = item;
+    const value = this.getItemValue(item);
+    const values = this.values;
+    this.setValuesAndNotify(item.selected ? values.filter(itemValue => itemValue !== value) : values.concat(value));
+  }
+
+  /**
+   * Selects all options between the selection anchor and the item
+   * @param item The last option of the range
+   * @returns {void}
+   */
+  private selectRange (item: Item): void {
+    const elements = this.getSelectableElements();
+    const anchor = this.selectionAnchor && elements.includes(this.selectionAnchor) ? this.selectionAnchor : item;
+    const from = elements.indexOf(anchor);
+    const to = elements.indexOf(item);
+
+    this.selectionAnchor = anchor;
+
+    const values = this.values;
+    const rangeValues = elements
+      .slice(Math.min(from, to), Math.max(from, to) + 1)
+      .map(element => this.getItemValue(element))
+      .filter(value => !values.includes(value));
+
+    this.setValuesAndNotify(values.concat(rangeValues));
+  }
+
+  /**
+   * Selects or clears all options, which a user can select
+   * @param selected True to select options
+   * @returns {void}
+   */
+  private setAllSelected (selected: boolean): void {
+    const selectableValues = this.selectableValues;
+    const values = this.values.filter(value => !selectableValues.includes(value));
+    this.setValuesAndNotify(selected ? values.concat(selectableValues) : values);
+  }
+
+  /**
+   * Set values and fire `value-changed` if the selection has changed
+   * @param values New values
+   * @returns {void}
+   */
+  private setValuesAndNotify (values: string[]): void {
+    const oldValues = this.values.toString();
+    this.values = values;
+    if (this.values.toString() !== oldValues) {
+      this.notifyPropertyChange('value', this.value);
+    }
+  }
+
+  /**
+   * True if all options, which a user can select, are selected
+   */
+  private get allSelected (): boolean {
+    const values = this.values;
+    const selectableValues = this.selectableValues;
+    return selectableValues.length > 0 && selectableValues.every(value => values.includes(value));
+  }
+
+  /**
+   * Values of options, which a user can select
+   */
+  private get selectableValues (): string[] {
+    if (this.hasDataItems()) {
+      return this.composer.queryItems(item => this.isSelectableDataItem(item), Infinity)
+        .map(item => this.composer.getItemPropertyValue(item, 'value') as string);
+    }
+    return this.getSelectableElements().map(item => this.getItemValue(item));
+  }
+
+  /**
+   * Check if a data item is an option, which a user can select
+   * @param item Data item to check
+   * @returns true if option can be selected
+   */
+  private isSelectableDataItem (item: SelectDataItem): boolean {
+    return (!item.type || item.type === 'text')
+      && !item.disabled
+      && !item.readonly
+      && !this.composer.isItemParent(item)
+      && !this.composer.getItemAncestors(item).some(group => group.disabled);
+  }
+
+  /**
+   * Display checkboxes on slotted options in `multiple` mode
+   * @returns {void}
+   */
+  private syncSlottedItems (): void {
+    const children = this.children;
+    for (let i = 0; i < children.length; i += 1) {
+      const item = children[i];
+      if (item instanceof Item) {
+        item.multiple = this.multiple;
+      }
     }
   }
 
@@ -773,25 +986,13 @@ export class Select extends ControlElement implements MultiValue {
   }
 
   /**
-   * A simple search that highlight elements on key press
+   * Highlights the next item, which label starts with the typed characters
    * @param key A key pressed
    * @returns {void}
    */
   private onKeySearch (key: string): void {
-    this.keySearchTerm += key.toLowerCase();
-    this.keySearchThrottler.schedule(() => {
-      this.keySearchTerm = '';
-    });
-
-    // start from highlighted and continue in circles
-    let selectableElements = this.getSelectableElements();
-    const highlightedIdx = this.highlightedItem ? selectableElements.indexOf(this.highlightedItem) : -1;
-    selectableElements = selectableElements.concat(selectableElements.splice(0, highlightedIdx));
-
-    const focusElement = selectableElements.find(item => {
-      const label = this.getItemLabel(item).toLowerCase();
-      return label.startsWith(this.keySearchTerm) && item !== this.highlightedItem;
-    });
+    const focusElement = this.typeahead.search(key, this.getSelectableElements(), this.highlightedItem,
+      item => this.getItemLabel(item));
 
     if (focusElement) {
       focusElement.focus();
@@ -823,7 +1024,8 @@ export class Select extends ControlElement implements MultiValue {
     }
 
     const items: Item[] = [];
-    const rootChildren = root.children;
+    // data options may be nested within groups
+    const rootChildren = this.hasDataItems() ? root.querySelectorAll('ef-item') : root.children;
 
     for (let i = 0; i < rootChildren.length; i += 1) {
       const item = rootChildren[i];
@@ -902,7 +1104,7 @@ export class Select extends ControlElement implements MultiValue {
    * @returns true if corresponding item is found and item selected
    */
   private selectDataItem (value: string): boolean {
-    const item = this.composer.queryItemsByPropertyValue('value', value)[0];
+    const item = this.composer.queryItemsByPropertyValue('value', value, Infinity)[0];
     if (item) {
       this.composer.setItemPropertyValue(item, 'selected', true);
       return true;
@@ -951,7 +1153,7 @@ export class Select extends ControlElement implements MultiValue {
    * @returns True if working with data
    */
   private hasDataItems (): boolean {
-    return !!this.data?.length;
+    return !!this.data && this.composer.size > 0;
   }
 
   /**
@@ -959,7 +1161,7 @@ export class Select extends ControlElement implements MultiValue {
    * @returns Selected data item
    */
   private get selectedDataItems (): SelectData {
-    return this.composer.queryItemsByPropertyValue('selected', true) as SelectData;
+    return this.composer.queryItemsByPropertyValue('selected', true, Infinity) as SelectData;
   }
 
   /**
@@ -978,6 +1180,13 @@ export class Select extends ControlElement implements MultiValue {
     return this.multiple ? this.labels.join(LABEL_SEPARATOR) : this.label;
   }
 
+  /**
+   * Number of selected labels, which are not displayed in `multiple` mode
+   */
+  private get hiddenLabelCount (): number {
+    return this.multiple ? Math.max(this.labels.length - Math.max(this.maxLabels, 0), 0) : 0;
+  }
+
   /**
    * Calculating whether the placeholder should be hidden
    * @returns result
@@ -989,9 +1198,13 @@ export class Select extends ControlElement implements MultiValue {
   /**
    * Create template for menu item
    * @param item JSON object to parse
+   * @param [groupDisabled=false] True if the item belongs to a disabled group
    * @returns template result
    */
-  private toItem (item: SelectDataItem): TemplateResult {
+  private toItem (item: SelectDataItem, groupDisabled = false): TemplateResult {
+    if (this.composer.isItemParent(item)) {
+      return this.toGroup(item as SelectDataGroup, groupDisabled);
+    }
     switch (item.type) {
       case 'divider':
         return html`<ef-item role="presentation" part="item" type="divider"></ef-item>`;
@@ -1008,11 +1221,33 @@ export class Select extends ControlElement implements MultiValue {
       part="item"
       .value=${item.value}
       .label=${item.label}
+      ?multiple=${this.multiple}
       ?selected=${this.composer.getItemPropertyValue(item, 'selected') as boolean}
-      ?disabled=${item.disabled}
+      ?disabled=${groupDisabled || item.disabled}
     ></ef-item>`;
   }
 
+  /**
+   * Create template for a group of options.
+   * Group header stays on top of the list, while the group options are scrolled
+   * @param group Group data item
+   * @param parentDisabled True if the group is nested within a disabled group
+   * @returns template result
+   */
+  private toGroup (group: SelectDataGroup, parentDisabled: boolean): TemplateResult {
+    const disabled = parentDisabled || !!group.disabled;
+    const items = this.composer.getItemChildren(group) as SelectData;
+    return html`<div role="group" part="group" aria-label=${group.label}>
+      <ef-item
+        role="presentation"
+        part="item group-header"
+        type="header"
+        ?disabled=${disabled}
+        .label=${group.label}></ef-item>
+      ${items.map(item => this.toItem(item, disabled))}
+    </div>`;
+  }
+
   /**
    * Template for placeholder
    */
@@ -1024,14 +1259,49 @@ export class Select extends ControlElement implements MultiValue {
    * Template for label
    */
   private get labelTemplate (): TemplateResult {
-    return html`<div part="label" ${ref(this.labelRef)}>${this.labelText}</div>`;
+    if (!this.multiple) {
+      return html`<div part="label" ${ref(this.labelRef)}>${this.labelText}</div>`;
+    }
+
+    const labels = this.labels;
+    if (this.maxLabels <= 0) {
+      return html`<div part="label" ${ref(this.labelRef)}>${this.t('SELECTED_COUNT', { count: labels.length })}</div>`;
+    }
+
+    const hiddenLabelCount = this.hiddenLabelCount;
+    return html`
+      <div part="label" ${ref(this.labelRef)}>${labels.slice(0, this.maxLabels).join(LABEL_SEPARATOR)}</div>
+      ${hiddenLabelCount ? html`<div part="counter">+${hiddenLabelCount}</div>` : null}
+    `;
+  }
+
+  /**
+   * Template for select all control in `multiple` mode
+   */
+  private get selectAllTemplate (): TemplateResult | null {
+    if (!this.multiple) {
+      return null;
+    }
+
+    const values = this.values;
+    const selectableValues = this.selectableValues;
+    const selectedCount = selectableValues.filter(value => values.includes(value)).length;
+    const allSelected = selectedCount > 0 && selectedCount === selectableValues.length;
+
+    return html`<ef-checkbox
+      part="select-all"
+      tabindex="-1"
+      .checked=${allSelected}
+      .indeterminate=${selectedCount > 0 && !allSelected}
+      ?disabled=${selectableValues.length === 0}
+      @checked-changed=${this.onSelectAllChanged}>${this.t(allSelected ? 'CLEAR_ALL' : 'SELECT_ALL')}</ef-checkbox>`;
   }
 
   /**
    * Edit template when select is not readonly or disabled
    */
   private get editTemplate (): TemplateResult | undefined {
-    if (!this.readonly && !this.disabled) {
+    if (!this.readonly && !this.isDisabled) {
       return html`
         <div id="trigger" @tapstart="${this.toggleOpened}"></div>
         ${this.popupTemplate}
@@ -1064,6 +1334,7 @@ export class Select extends ControlElement implements MultiValue {
         id="menu"
         part="list"
         role="listbox"
+        aria-multiselectable=${this.multiple ? 'true' : 'false'}
         style=${styleMap(this.popupDynamicStyles)}
         with-shadow
         lock-position-target
@@ -1076,7 +1347,7 @@ export class Select extends ControlElement implements MultiValue {
         @opened-changed="${this.onPopupOpenedChanged}"
         @opened="${this.onPopupOpened}"
         @refit=${this.onPopupRefit}
-        @closed="${this.onPopupClosed}">${this.hasDataItems() ? this.dataContent : this.slottedContent}</ef-overlay>`;
+        @closed="${this.onPopupClosed}">${this.selectAllTemplate}${this.hasDataItems() ? this.dataContent : this.slottedContent}</ef-overlay>`;
     }
     else {
       // This code is required because IE11 polyfill need items to be within a slot
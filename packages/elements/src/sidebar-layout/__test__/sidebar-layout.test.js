@@ -1,7 +1,9 @@
 import {
   fixture,
   expect,
-  elementUpdated
+  elementUpdated,
+  oneEvent,
+  createStateStorage
 } from '@refinitiv-ui/test-helpers';
 
 // import elements
@@ -99,5 +101,92 @@ describe('sidebar-layout/SidebarLayout', () => {
     el.removeAttribute('sidebar-width');
     expect(el.sidebarWidth).to.equal(null);
   });
-});
 
+  describe('Persisted state', () => {
+    it('Restores and saves collapsed state and sidebar width', async () => {
+      const storage = createStateStorage({ workspace: { collapsed: true, sidebarWidth: '200px' } });
+      const el = document.createElement('ef-sidebar-layout');
+      el.stateStorage = storage;
+      el.setAttribute('state-key', 'workspace');
+      const wrapper = await fixture('<div></div>');
+      wrapper.appendChild(el);
+      await elementUpdated(el);
+      expect(el.collapsed).to.equal(true);
+      expect(el.sidebarWidth).to.equal('200px');
+
+      el.collapsed = false;
+      await elementUpdated(el);
+      expect(storage.read('workspace')).to.deep.equal({ collapsed: false, sidebarWidth: '200px' });
+    });
+  });
+
+  describe('Resizable', () => {
+    const resizableLayout = '<ef-sidebar-layout resizable sidebar-width="200px" style="width: 800px;"></ef-sidebar-layout>';
+
+    it('Resize handle is only rendered when resizable', async () => {
+      const el = await fixture(defaultLayout);
+      expect(el.shadowRoot.querySelector('[part=resize-handle]')).to.equal(null);
+      el.resizable = true;
+      await elementUpdated(el);
+      const handle = el.shadowRoot.querySelector('[part=resize-handle]');
+      expect(handle.getAttribute('role')).to.equal('separator');
+    });
+
+    it('Sidebar is resized with keyboard within min and max width', async () => {
+      const el = await fixture(resizableLayout);
+      el.sidebarMaxWidth = 220;
+      await elementUpdated(el);
+      const handle = el.shadowRoot.querySelector('[part=resize-handle]');
+
+      setTimeout(() => handle.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' })));
+      const event = await oneEvent(el, 'sidebar-width-changed');
+      expect(event.detail.value).to.equal('210px');
+      await elementUpdated(el);
+      expect(handle.getAttribute('aria-valuenow')).to.equal('210');
+
+      handle.dispatchEvent(new KeyboardEvent('keydown', { key: 'End' }));
+      expect(el.sidebarWidth).to.equal('220px');
+      await elementUpdated(el);
+      handle.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      expect(el.sidebarWidth).to.equal('220px', 'Width should not exceed max width');
+      handle.dispatchEvent(new KeyboardEvent('keydown', { key: 'Home' }));
+      expect(el.sidebarWidth).to.equal('100px');
+    });
+
+    it('Sidebar is resized by dragging the handle', async () => {
+      const el = await fixture(resizableLayout);
+      el.sidebarPosition = 'right';
+      await elementUpdated(el);
+      const handle = el.shadowRoot.querySelector('[part=resize-handle]');
+      const pointer = { pointerId: 1, isPrimary: true, button: 0, bubbles: true };
+
+      handle.dispatchEvent(new PointerEvent('pointerdown', { ...pointer, clientX: 600 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { ...pointer, clientX: 550 }));
+      expect(el.sidebarWidth).to.equal('250px', 'Right sidebar should grow when dragged to the left');
+      document.dispatchEvent(new PointerEvent('pointerup', pointer));
+      document.dispatchEvent(new PointerEvent('pointermove', { ...pointer, clientX: 500 }));
+      expect(el.sidebarWidth).to.equal('250px', 'Resizing should stop on pointer up');
+    });
+
+    it('Sidebar width is saved when resizing ends', async () => {
+      const storage = createStateStorage();
+      const el = await fixture(resizableLayout);
+      el.stateStorage = storage;
+      el.stateKey = 'workspace';
+      await elementUpdated(el);
+      const handle = el.shadowRoot.querySelector('[part=resize-handle]');
+      const pointer = { pointerId: 1, isPrimary: true, button: 0, bubbles: true };
+
+      handle.dispatchEvent(new PointerEvent('pointerdown', { ...pointer, clientX: 200 }));
+      document.dispatchEvent(new PointerEvent('pointermove', { ...pointer, clientX: 250 }));
+      await elementUpdated(el);
+      expect(storage.read('workspace')).to.equal(null, 'Width should not be saved while dragging');
+      document.dispatchEvent(new PointerEvent('pointerup', pointer));
+      expect(storage.read('workspace').sidebarWidth).to.equal('250px');
+
+      await elementUpdated(el);
+      handle.dispatchEvent(new KeyboardEvent('keydown', { key: 'Home' }));
+      expect(storage.read('workspace').sidebarWidth).to.equal('100px');
+    });
+  });
+});
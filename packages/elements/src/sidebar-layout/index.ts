@@ -11,9 +11,18 @@ import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
 import { ifDefined } from '@refinitiv-ui/core/directives/if-defined.js';
 import { VERSION } from '../version.js';
+import { PersistedStateController, StateStorage } from '@refinitiv-ui/utils/persistence.js';
 import type { Layout } from '../layout';
 import '../layout/index.js';
 
+const RESIZE_STEP = 10; /* px resized by arrow keys */
+
+type ResizeState = {
+  pointerId: number;
+  startX: number;
+  startWidth: number;
+};
+
 /**
  * Provides an app layout with sidebar.
  * There are 4 sections that can be slotted a component in.
@@ -22,6 +31,8 @@ import '../layout/index.js';
  * @slot sidebar-content - Content of sidebar.
  * @slot main-header - Main header.
  * @slot main-content - Content of main section.
+ *
+ * @fires sidebar-width-changed - Fired when the user resizes the sidebar.
  */
 @customElement('ef-sidebar-layout', {
   alias: 'carbon-sidebar-layout'
@@ -73,6 +84,32 @@ export class SidebarLayout extends BasicElement {
       :host([collapsed][sidebar-position=right]) [part=sidebar] {
         margin-right: calc(var(--sidebar-width) * -1);
       }
+
+      :host([resizable]) [part=sidebar] {
+        position: relative;
+      }
+
+      [part=resize-handle] {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        right: 0;
+        z-index: 1;
+        width: 6px;
+        transform: translateX(50%);
+        cursor: col-resize;
+        touch-action: none;
+      }
+
+      :host([sidebar-position=right]) [part=resize-handle] {
+        right: auto;
+        left: 0;
+        transform: translateX(-50%);
+      }
+
+      :host([collapsed]) [part=resize-handle] {
+        display: none;
+      }
     `;
   }
 
@@ -95,6 +132,46 @@ export class SidebarLayout extends BasicElement {
   @property({ type: String, reflect: true, attribute: 'sidebar-position' })
   public sidebarPosition: 'left' | 'right' = 'left';
 
+  /**
+   * Allow users to resize the sidebar with a drag handle or arrow keys
+   */
+  @property({ type: Boolean, reflect: true })
+  public resizable = false;
+
+  /**
+   * Minimum width of a resizable sidebar in pixels
+   */
+  @property({ type: Number, attribute: 'sidebar-min-width' })
+  public sidebarMinWidth = 100;
+
+  /**
+   * Maximum width of a resizable sidebar in pixels
+   */
+  @property({ type: Number, attribute: 'sidebar-max-width' })
+  public sidebarMaxWidth = 600;
+
+  /**
+   * Key used to save `collapsed` and `sidebarWidth`,
+   * so they are restored when the page is loaded again
+   */
+  @property({ type: String, attribute: 'state-key' })
+  public stateKey: string | null = null;
+
+  /**
+   * Storage of the saved state. Uses `localStorage` by default.
+   * Set to `null` to stop saving the state
+   * @type {StateStorage | null | undefined}
+   */
+  @property({ attribute: false })
+  public stateStorage?: StateStorage | null;
+
+  /**
+   * Restores and saves `collapsed` and `sidebarWidth`
+   */
+  private persistedState = new PersistedStateController(this, { collapsed: 'boolean', sidebarWidth: 'string' });
+
+  private resizeState: ResizeState | null = null;
+
   /**
    * Property to get sidebar
    * @ignore
@@ -102,6 +179,159 @@ export class SidebarLayout extends BasicElement {
   @query('[part=sidebar]')
   public sidebar!: Layout;
 
+  /**
+   * Called before the element is updated
+   * @param changedProperties Properties which have changed
+   * @returns {void}
+   */
+  protected willUpdate (changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+    // width is saved when the user stops resizing, not on every pointer move
+    this.persistedState.update(changedProperties, ['collapsed']);
+  }
+
+  /**
+   * Called when the element is removed from DOM
+   * @returns {void}
+   */
+  public disconnectedCallback (): void {
+    super.disconnectedCallback();
+    this.endResize();
+  }
+
+  /**
+   * Get sidebar width, which fits within min and max widths
+   * @param width Sidebar width in pixels
+   * @returns Restricted width
+   */
+  private restrictWidth (width: number): number {
+    const maxWidth = Math.max(this.sidebarMinWidth, this.sidebarMaxWidth);
+    return Math.round(Math.min(Math.max(width, this.sidebarMinWidth), maxWidth));
+  }
+
+  /**
+   * Current width of the sidebar in pixels
+   */
+  private get currentSidebarWidth (): number {
+    return this.sidebar ? this.sidebar.getBoundingClientRect().width : 0;
+  }
+
+  /**
+   * Set the sidebar width on behalf of the user and fire `sidebar-width-changed`
+   * @param width New width in pixels
+   * @returns {void}
+   */
+  private resizeSidebar (width: number): void {
+    const sidebarWidth = `${this.restrictWidth(width)}px`;
+    if (sidebarWidth !== this.sidebarWidth) {
+      this.sidebarWidth = sidebarWidth;
+      this.notifyPropertyChange('sidebarWidth', sidebarWidth);
+    }
+  }
+
+  /**
+   * Starts resizing when the user presses the resize handle
+   * @param event Pointer down event
+   * @returns {void}
+   */
+  private onResizeStart (event: PointerEvent): void {
+    if (this.resizeState || event.button !== 0 || !event.isPrimary) {
+      return;
+    }
+
+    event.preventDefault(); /* prevent text selection */
+    this.resizeState = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startWidth: this.currentSidebarWidth
+    };
+
+    document.addEventListener('pointermove', this.onResizeMove);
+    document.addEventListener('pointerup', this.endResize);
+    document.addEventListener('pointercancel', this.endResize);
+  }
+
+  /**
+   * Resizes the sidebar, while the user drags the handle
+   * @param event Pointer move event
+   * @returns {void}
+   */
+  private onResizeMove = (event: PointerEvent): void => {
+    const resizeState = this.resizeState;
+    if (!resizeState || event.pointerId !== resizeState.pointerId) {
+      return;
+    }
+
+    const delta = event.clientX - resizeState.startX;
+    this.resizeSidebar(resizeState.startWidth + (this.sidebarPosition === 'right' ? -delta : delta));
+  };
+
+  /**
+   * Stops resizing
+   * @returns {void}
+   */
+  private endResize = (): void => {
+    document.removeEventListener('pointermove', this.onResizeMove);
+    document.removeEventListener('pointerup', this.endResize);
+    document.removeEventListener('pointercancel', this.endResize);
+    if (this.resizeState) {
+      this.resizeState = null;
+      this.persistedState.save('sidebarWidth');
+    }
+  };
+
+  /**
+   * Resizes the sidebar with arrow, Home and End keys
+   * @param event Key down event
+   * @returns {void}
+   */
+  private onResizeKeyDown (event: KeyboardEvent): void {
+    const width = this.currentSidebarWidth;
+    const step = this.sidebarPosition === 'right' ? -RESIZE_STEP : RESIZE_STEP;
+
+    switch (event.key) {
+      case 'Left':
+      case 'ArrowLeft':
+        this.resizeSidebar(width - step);
+        break;
+      case 'Right':
+      case 'ArrowRight':
+        this.resizeSidebar(width + step);
+        break;
+      case 'Home':
+        this.resizeSidebar(this.sidebarMinWidth);
+        break;
+      case 'End':
+        this.resizeSidebar(this.sidebarMaxWidth);
+        break;
+      default:
+        return;
+    }
+
+    this.persistedState.save('sidebarWidth');
+    event.preventDefault();
+  }
+
+  /**
+   * Template of the sidebar resize handle
+   */
+  private get resizeHandleTemplate (): TemplateResult | null {
+    if (!this.resizable) {
+      return null;
+    }
+
+    return html`<div
+      part="resize-handle"
+      role="separator"
+      tabindex="0"
+      aria-orientation="vertical"
+      aria-valuemin="${this.sidebarMinWidth}"
+      aria-valuemax="${this.sidebarMaxWidth}"
+      aria-valuenow="${ifDefined(this.sidebarWidth?.endsWith('px') ? parseFloat(this.sidebarWidth) : undefined)}"
+      @pointerdown=${this.onResizeStart}
+      @keydown=${this.onResizeKeyDown}></div>`;
+  }
+
   /**
    * A `TemplateResult` that will be used
    * to render the updated internal template.
@@ -112,6 +342,7 @@ export class SidebarLayout extends BasicElement {
       <ef-layout flex nowrap part="container">
 
         <ef-layout flex container part="sidebar" size="${ifDefined(this.sidebarWidth || undefined)}">
+          ${this.resizeHandleTemplate}
           <ef-layout size="auto">
             <slot name="sidebar-header"></slot>
           </ef-layout>
@@ -181,6 +181,14 @@ export class Slider extends ControlElement {
   @property({ type: Boolean, reflect: true })
   public range = false;
 
+  /**
+   * Value to be submitted with the form.
+   * Range mode submits `from` and `to` values
+   */
+  protected get formValue (): string | FormData | null {
+    return this.range ? this.valuesToFormData([this.from, this.to]) : this.value;
+  }
+
   /**
    * Show steps marker on slider.
    */
@@ -429,6 +437,7 @@ export class Slider extends ControlElement {
     super.willUpdate(changedProperties);
 
     if ((changedProperties.has('disabled') && changedProperties.get('disabled') !== undefined)
+      || (changedProperties.has('formDisabled') && changedProperties.get('formDisabled') !== undefined)
       || (changedProperties.has('readonly') && changedProperties.get('readonly') !== undefined)
     ) {
       this.prepareSliderTrack();
@@ -600,7 +609,7 @@ export class Slider extends ControlElement {
    * @returns {void}
    */
   private prepareSliderTrack (): void {
-    if (this.disabled || this.readonly) {
+    if (this.isDisabled || this.readonly) {
       this.sliderRef.value?.removeEventListener('mousedown', this.onDragStart);
       this.sliderRef.value?.removeEventListener('touchstart', this.onDragStart);
     }
@@ -801,7 +810,7 @@ export class Slider extends ControlElement {
    * @returns {void}
    */
   private onNumberFieldKeyDown (event: KeyboardEvent): void {
-    if (this.readonly || this.disabled) {
+    if (this.readonly || this.isDisabled) {
       return;
     }
 
@@ -1376,7 +1385,7 @@ export class Slider extends ControlElement {
         min="${this.min}"
         max="${this.max}"
         step="${this.step}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         ?readonly="${this.readonly || this.showInputField === 'readonly'}"
       ></ef-number-field>
     `;
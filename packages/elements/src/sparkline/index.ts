@@ -164,6 +164,16 @@ export class Sparkline extends ResponsiveElement {
     }
   }
 
+  /**
+   * Re-draw canvas with colours of the new theme
+   * @ignore
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    super.themeChangedCallback();
+    this.createChart();
+  }
+
   /**
    * Create chart
    * @protected
@@ -390,6 +390,25 @@ export class SwingGauge extends ResponsiveElement {
     }
   }
 
+  /**
+   * Repaints the gauge with colours of the new theme.
+   * Running animation reads colours on every frame
+   * @returns {void}
+   */
+  public themeChangedCallback (): void {
+    super.themeChangedCallback();
+
+    if (this.canvas.autoloop) {
+      return;
+    }
+
+    this.canvas.autoloop = true;
+    this.renderCanvas('frame');
+    this.canvas.addEventListener('frame', () => {
+      this.canvas.autoloop = false;
+    }, { once: true });
+  }
+
   /**
    * Calls easing based on both left and right values
    * @param primaryValue primary value
@@ -215,6 +215,26 @@ export class TextField extends FormFieldElement {
     this.setValueAndNotify(value);
   }
 
+  /**
+   * Get the constraints the element is suffering from.
+   * Includes `pattern`, `minLength` and `maxLength` constraints of the input
+   * @returns validity state flags
+   */
+  protected override getValidityFlags (): ValidityStateFlags {
+    const flags = super.getValidityFlags();
+    const validity = this.inputElement?.validity;
+    if (!validity || validity.valid) {
+      return flags;
+    }
+    return {
+      ...flags,
+      patternMismatch: validity.patternMismatch,
+      typeMismatch: validity.typeMismatch,
+      tooLong: validity.tooLong,
+      tooShort: validity.tooShort
+    };
+  }
+
   /**
    * Validate input according `pattern`, `minLength` and `maxLength` properties
    * change state of `error` property according pattern validation
@@ -244,7 +264,7 @@ export class TextField extends FormFieldElement {
    * @returns {void}
    */
   protected iconClick (): void {
-    if (this.iconHasAction && !this.disabled) {
+    if (this.iconHasAction && !this.isDisabled) {
       this.dispatchEvent(new CustomEvent('icon-click', { bubbles: false }));
     }
   }
@@ -281,7 +301,7 @@ export class TextField extends FormFieldElement {
         icon="${this.icon}"
         aria-label="${ifDefined(this.iconHasAction ? this.icon : undefined)}"
         ?readonly="${this.readonly}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         @tap="${this.iconClick}"
         tabindex="${ifDefined(this.iconHasAction ? '0' : undefined)}"
       ></ef-icon>
@@ -630,7 +630,7 @@ export class TimePicker extends ControlElement {
    * @returns {void}
    */
   private manageControlKeys (event: KeyboardEvent): void {
-    if (this.readonly || this.disabled || event.defaultPrevented) {
+    if (this.readonly || this.isDisabled || event.defaultPrevented) {
       return;
     }
 
@@ -869,7 +869,7 @@ export class TimePicker extends ControlElement {
         max="${this.amPm ? HOURS_OF_NOON : MAX_HOURS}"
         .value="${hours}"
         placeholder="${ifDefined(hours ? undefined : Placeholder.HOURS)}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         ?readonly="${this.readonly}"
         @value-changed="${this.onInputValueChanged}"
         @focused-changed=${this.onInputFocusedChanged}></ef-number-field>`;
@@ -891,7 +891,7 @@ export class TimePicker extends ControlElement {
         .value="${minutes}"
         placeholder="${ifDefined(minutes ? undefined : Placeholder.MINUTES)}"
         ?readonly="${this.readonly}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         transparent
         @value-changed="${this.onInputValueChanged}"
         @focused-changed=${this.onInputFocusedChanged}></ef-number-field>`;
@@ -914,7 +914,7 @@ export class TimePicker extends ControlElement {
         .value="${seconds}"
         placeholder="${ifDefined(seconds ? undefined : Placeholder.SECONDS)}"
         ?readonly="${this.readonly}"
-        ?disabled="${this.disabled}"
+        ?disabled="${this.isDisabled}"
         transparent
         @value-changed="${this.onInputValueChanged}"
         @focused-changed=${this.onInputFocusedChanged}></ef-number-field>`;
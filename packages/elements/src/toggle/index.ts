@@ -73,6 +73,37 @@ export class Toggle extends ControlElement {
   @property({ type: Boolean, reflect: true })
   public checked = false;
 
+  /**
+   * Initial checked state, restored on form reset
+   */
+  private defaultChecked = false;
+
+  /**
+   * Toggle is submitted only when checked.
+   * Submits `on` if value is not set
+   */
+  protected get formValue (): string | null {
+    return this.checked ? this.value || 'on' : null;
+  }
+
+  /**
+   * Value is missing if the element is not checked
+   */
+  protected override get valueMissing (): boolean {
+    return !this.checked;
+  }
+
+  /**
+   * Resets the element value and checked state to its initial setting
+   * @returns Whether the value or checked state has changed
+   */
+  public reset (): boolean {
+    const valueChanged = super.reset();
+    const checkedChanged = this.checked !== this.defaultChecked;
+    this.checked = this.defaultChecked;
+    return valueChanged || checkedChanged;
+  }
+
   /**
    * A `CSSResultGroup` that will be used
    * to style the host, slotted children
@@ -108,6 +139,7 @@ export class Toggle extends ControlElement {
    */
   protected firstUpdated (changedProperties: PropertyValues): void {
     super.firstUpdated(changedProperties);
+    this.defaultChecked = this.checked;
     this.addEventListener('tap', this.handleCheckedChange);
     this.addEventListener('keydown', this.handleKeyDown);
   }
@@ -117,7 +149,7 @@ export class Toggle extends ControlElement {
    * @returns {void}
    */
   private handleCheckedChange (): void {
-    if (this.disabled || this.readonly) {
+    if (this.isDisabled || this.readonly) {
       return;
     }
 
@@ -0,0 +1,170 @@
+import { fixture, expect, nextFrame, elementUpdated, aTimeout, oneEvent, keyboardEvent } from '@refinitiv-ui/test-helpers';
+
+// import element and theme
+import '@refinitiv-ui/elements/tooltip';
+import '@refinitiv-ui/elemental-theme/light/ef-tooltip.js';
+
+const ShowDelay = 300;
+const HideDelay = 150;
+const TransitionTime = 500; // opacity
+
+const wait = async (tooltip, delay) => {
+  await aTimeout(delay + TransitionTime + 5);
+  await elementUpdated(tooltip);
+  await nextFrame();
+};
+
+const mouseMove = async (target, tooltip, x = 0, y = 0, delay = ShowDelay) => {
+  await nextFrame();
+  target.dispatchEvent(new MouseEvent('mousemove', {
+    clientX: x,
+    clientY: y,
+    bubbles: true,
+    composed: true,
+    cancelable: true,
+    view: document.defaultView
+  }));
+  await wait(tooltip, delay);
+};
+
+const click = (target) => {
+  target.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }));
+};
+
+const createTooltip = async (attributes = 'interactive') => {
+  const el = await fixture(`<div>
+    <button id="target" style="margin: 20px;">Target</button>
+    <button id="other">Other</button>
+    <ef-tooltip ${attributes} selector="#target"><a href="#">Link</a></ef-tooltip>
+  </div>`);
+  return {
+    target: el.querySelector('#target'),
+    other: el.querySelector('#other'),
+    tooltip: el.querySelector('ef-tooltip')
+  };
+};
+
+describe('tooltip/Interactive', () => {
+  it('Should reference interactive tooltip from the target', async () => {
+    const { target, tooltip } = await createTooltip();
+    target.setAttribute('aria-describedby', 'description');
+
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+    expect(tooltip.id).to.not.equal('');
+    expect(target.getAttribute('aria-describedby')).to.equal(`description ${tooltip.id}`);
+
+    tooltip.opened = false;
+    await elementUpdated(tooltip);
+    expect(target.getAttribute('aria-describedby')).to.equal('description');
+  });
+
+  it('Should not reference non-interactive tooltip from the target', async () => {
+    const { target, tooltip } = await createTooltip('');
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+    expect(target.hasAttribute('aria-describedby')).to.equal(false);
+  });
+
+  it('Should keep tooltip opened while the pointer is over it', async () => {
+    const { target, tooltip } = await createTooltip();
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+
+    await mouseMove(tooltip.querySelector('a'), tooltip, 0, 0, HideDelay);
+    expect(tooltip.opened).to.equal(true);
+  });
+
+  it('Should hide tooltip when the pointer leaves to another element', async () => {
+    const { target, other, tooltip } = await createTooltip();
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+
+    await mouseMove(other, tooltip, 0, 0, HideDelay);
+    expect(tooltip.opened).to.equal(false);
+  });
+
+  it('Should pin and unpin tooltip by clicking the target', async () => {
+    const { target, other, tooltip } = await createTooltip();
+    await mouseMove(target, tooltip);
+
+    setTimeout(() => click(target));
+    let event = await oneEvent(tooltip, 'pinned-changed');
+    expect(event.detail.value).to.equal(true);
+    expect(tooltip.pinned).to.equal(true);
+
+    await mouseMove(other, tooltip, 0, 0, HideDelay);
+    expect(tooltip.opened).to.equal(true, 'Pinned tooltip should stay opened');
+
+    click(other);
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(true, 'Pinned tooltip should not be closed by outside click');
+
+    setTimeout(() => click(target));
+    event = await oneEvent(tooltip, 'pinned-changed');
+    expect(event.detail.value).to.equal(false);
+    expect(tooltip.opened).to.equal(true);
+  });
+
+  it('Should dismiss pinned tooltip on Escape within the target', async () => {
+    const { target, tooltip } = await createTooltip();
+    await mouseMove(target, tooltip);
+    click(target);
+    expect(tooltip.pinned).to.equal(true);
+
+    document.dispatchEvent(keyboardEvent('keydown', { key: 'Escape' }));
+    await wait(tooltip, 0);
+    expect(tooltip.pinned).to.equal(true, 'Escape outside of the tooltip should not unpin it');
+
+    target.dispatchEvent(keyboardEvent('keydown', { key: 'Escape', bubbles: true, composed: true }));
+    await wait(tooltip, 0);
+    expect(tooltip.pinned).to.equal(false);
+    expect(tooltip.opened).to.equal(false);
+  });
+
+  it('Should keep tooltip opened when tabbing within the tooltip', async () => {
+    const { target, tooltip } = await createTooltip();
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+
+    tooltip.querySelector('a').dispatchEvent(keyboardEvent('keydown', { key: 'Tab', bubbles: true, composed: true }));
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(true);
+
+    document.dispatchEvent(keyboardEvent('keydown', { key: 'Tab' }));
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(false, 'Keys pressed elsewhere should hide the tooltip');
+  });
+
+  it('Should hide non-interactive tooltip on any key pressed within the target', async () => {
+    const { target, tooltip } = await createTooltip('');
+    await mouseMove(target, tooltip);
+    expect(tooltip.opened).to.equal(true);
+
+    target.dispatchEvent(keyboardEvent('keydown', { key: 'a', bubbles: true, composed: true }));
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(false);
+  });
+
+  it('Should show tooltip when the target receives focus', async () => {
+    const { target, other, tooltip } = await createTooltip();
+    target.focus();
+    await wait(tooltip, ShowDelay);
+    expect(tooltip.opened).to.equal(true);
+
+    document.dispatchEvent(keyboardEvent('keydown', { key: 'Shift' }));
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(true, 'Focus tooltip should not be hidden on key press');
+
+    other.focus();
+    await wait(tooltip, 0);
+    expect(tooltip.opened).to.equal(false);
+  });
+
+  it('Should not show non-interactive tooltip on focus', async () => {
+    const { target, tooltip } = await createTooltip('');
+    target.focus();
+    await wait(tooltip, ShowDelay);
+    expect(tooltip.opened).to.equal(false);
+  });
+});
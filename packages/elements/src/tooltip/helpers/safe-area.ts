@@ -0,0 +1,62 @@
+type Point = {
+  x: number;
+  y: number;
+};
+
+type Rect = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/**
+ * Get the cross product of vectors `origin -> a` and `origin -> b`
+ * @param origin Start point of both vectors
+ * @param a End point of the first vector
+ * @param b End point of the second vector
+ * @returns cross product
+ */
+const cross = (origin: Point, a: Point, b: Point): number => (a.x - origin.x) * (b.y - origin.y) - (a.y - origin.y) * (b.x - origin.x);
+
+/**
+ * Check if the point is inside the triangle, including its edges
+ * @param point Point to check
+ * @param a First vertex
+ * @param b Second vertex
+ * @param c Third vertex
+ * @returns true if the point is inside
+ */
+const isInTriangle = (point: Point, a: Point, b: Point, c: Point): boolean => {
+  const ab = cross(point, a, b);
+  const bc = cross(point, b, c);
+  const ca = cross(point, c, a);
+
+  return !((ab < 0 || bc < 0 || ca < 0) && (ab > 0 || bc > 0 || ca > 0));
+};
+
+/**
+ * Check if the pointer is inside the safe area, which connects
+ * the point where the pointer left the target with the tooltip.
+ * The area is a convex hull of the origin point and the tooltip rectangle.
+ * @param point Current pointer position
+ * @param origin The last pointer position over the target
+ * @param rect Tooltip rectangle
+ * @returns true if the pointer is inside the area
+ */
+export const isInSafeArea = (point: Point, origin: Point, rect: Rect): boolean => {
+  const { top, right, bottom, left } = rect;
+
+  if (point.x >= left && point.x <= right && point.y >= top && point.y <= bottom) {
+    return true;
+  }
+
+  const corners: Point[] = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom }
+  ];
+
+  return corners.some((corner, index) => isInTriangle(point, origin, corner, corners[(index + 1) % corners.length]));
+};
@@ -7,6 +7,7 @@ export type TooltipPositionMap = { [K in TooltipPosition]: OverlayPosition[] };
 
 // Manager Types
 type MouseMoveCallback = (event: MouseEvent, paths: EventTarget[]) => void;
+type FocusInCallback = (event: FocusEvent, paths: EventTarget[]) => void;
 type MouseCallback = (event: MouseEvent) => void;
 type WheelCallback = (event: WheelEvent) => void;
 type FocusCallback = (event: FocusEvent) => void;
@@ -21,4 +22,6 @@ export type DocumentCallbacks = {
   wheel: WheelCallback;
   keydown: KeyboardCallback;
   blur: FocusCallback;
+  focusin: FocusInCallback;
+  focusout: FocusCallback;
 };
@@ -12,6 +12,7 @@ import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { query } from '@refinitiv-ui/core/decorators/query.js';
 import { VERSION } from '../version.js';
 import { isSlotEmpty } from '@refinitiv-ui/utils/is-slot-empty.js';
+import { uuid } from '@refinitiv-ui/utils/uuid.js';
 import '../overlay/index.js';
 import type { OverlayTransitionStyle as TooltipTransitionStyle, Overlay, OverlayPosition } from '../overlay';
 
@@ -24,6 +25,7 @@ import {
   TooltipPositionMap
 } from './helpers/types.js';
 import { tooltipRenderer } from './helpers/renderer.js';
+import { isInSafeArea } from './helpers/safe-area.js';
 import {
   register as registerOverflowTooltip,
   deregister as deregisterOverflowTooltip
@@ -40,6 +42,8 @@ const TooltipPositionMap: TooltipPositionMap = {
 /**
  * Tooltip displays extra information when the
  * user hovers the pointer over an item.
+ *
+ * @fires pinned-changed - Fired when the user pins or unpins interactive tooltip
  */
 @customElement('ef-tooltip', {
   alias: 'coral-tooltip'
@@ -61,6 +65,9 @@ class Tooltip extends BasicElement {
   private clicked = false;
   private timerTimeout?: number;
   private contentNodes?: (Node)[];
+  private shownByFocus = false;
+  private safeAreaOrigin: { x: number; y: number } | null = null;
+  private describedTarget: HTMLElement | null = null;
 
   protected readonly defaultRole: string | null = 'tooltip';
 
@@ -162,6 +169,21 @@ class Tooltip extends BasicElement {
   @property({ type: String, attribute: 'transition-style' })
   public transitionStyle: TooltipTransitionStyle | null = 'fade';
 
+  /**
+  * Allow users to move the pointer into the tooltip and interact with its content.
+  * Interactive tooltip is also shown when the target receives focus
+  * and is referenced by `aria-describedby` of the target.
+  */
+  @property({ type: Boolean, reflect: true })
+  public interactive = false;
+
+  /**
+  * Keep interactive tooltip opened until it is unpinned or dismissed by `Escape`.
+  * Users pin and unpin the tooltip by clicking the target
+  */
+  @property({ type: Boolean, reflect: true })
+  public pinned = false;
+
   /**
    * Get tooltip popup window
    * Used for testing and legacy
@@ -240,9 +262,11 @@ class Tooltip extends BasicElement {
       click: this.onClick,
       mouseout: this.onMouseOut,
       mouseleave: this.resetTooltip,
-      wheel: this.resetTooltip,
-      keydown: this.resetTooltip,
-      blur: this.resetTooltip
+      wheel: this.onWheel,
+      keydown: this.onKeyDown,
+      blur: this.resetTooltip,
+      focusin: this.onFocusIn,
+      focusout: this.onFocusOut
     });
   }
 
@@ -265,6 +289,19 @@ class Tooltip extends BasicElement {
     this.hideDelay = parseInt(this.getComputedVariable('--hide-delay', '150'), 10);
   }
 
+  /**
+   * Called after the element’s properties has been updated
+   * @param changedProperties Properties that has changed
+   * @returns {void}
+   */
+  protected updated (changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('opened') || changedProperties.has('interactive')) {
+      this.describeTarget(this.opened ? this.matchTarget : null);
+    }
+  }
+
   /**
    * Clear all timers
    * @returns {void}
@@ -401,6 +438,8 @@ class Tooltip extends BasicElement {
    */
   private hideTooltip (): void {
     this.reset();
+    this.shownByFocus = false;
+    this.safeAreaOrigin = null;
     this.matchTarget = null;
     this.matchTargetRect = null;
     this.positionTarget = null;
@@ -412,9 +451,62 @@ class Tooltip extends BasicElement {
    * @returns {void}
    */
   private resetTooltip = (): void => {
+    if (this.pinned || this.shownByFocus) {
+      return;
+    }
+
     this.hideTooltip();
   };
 
+  /**
+   * Pin or unpin the tooltip on behalf of the user
+   * @param pinned True to pin the tooltip
+   * @returns {void}
+   */
+  private setPinned (pinned: boolean): void {
+    if (this.pinned !== pinned) {
+      this.pinned = pinned;
+      this.notifyPropertyChange('pinned', pinned);
+    }
+  }
+
+  /**
+   * Add or remove tooltip id from `aria-describedby` of interactive tooltip target.
+   * The id can only be referenced if the target is in the same DOM tree
+   * @param target Target to describe or `null` to clean up
+   * @returns {void}
+   */
+  private describeTarget (target: HTMLElement | null): void {
+    const describedTarget = this.describedTarget;
+    if (describedTarget === target) {
+      return;
+    }
+
+    if (describedTarget) {
+      const ids = (describedTarget.getAttribute('aria-describedby') || '').split(' ').filter(id => id && id !== this.id);
+      ids.length ? describedTarget.setAttribute('aria-describedby', ids.join(' ')) : describedTarget.removeAttribute('aria-describedby');
+      this.describedTarget = null;
+    }
+
+    if (target && this.interactive && target.getRootNode() === this.getRootNode()) {
+      this.id = this.id || `tooltip-${uuid()}`;
+      const ids = (target.getAttribute('aria-describedby') || '').split(' ').filter(id => id);
+      ids.includes(this.id) || target.setAttribute('aria-describedby', [...ids, this.id].join(' '));
+      this.describedTarget = target;
+    }
+  }
+
+  /**
+   * Check if the pointer is on the way from the target to interactive tooltip
+   * @param x X mouse coordinate
+   * @param y Y mouse coordinate
+   * @returns true if the pointer is inside the safe area
+   */
+  private isInSafeArea (x: number, y: number): boolean {
+    const origin = this.safeAreaOrigin;
+    return !!origin && isInSafeArea({ x, y }, origin, this.tooltip.getBoundingClientRect());
+  }
+
   /**
    * Run when mouse is moving over the document
    * @param event Mouse move event
@@ -422,9 +514,103 @@ class Tooltip extends BasicElement {
    * @returns {void}
    */
   private onMouseMove = (event: MouseEvent, paths: EventTarget[]): void => {
+    if (this.pinned) {
+      return;
+    }
+
+    if (this.interactive && this.opened) {
+      const { clientX: x, clientY: y } = event;
+
+      if (paths.includes(this)) { /* pointer is over the tooltip */
+        this.reset();
+        return;
+      }
+
+      if (this.matchTarget && paths.includes(this.matchTarget)) {
+        this.safeAreaOrigin = { x, y };
+      }
+      else if (this.isInSafeArea(x, y)) { /* hide if the pointer stops before reaching the tooltip */
+        this.reset();
+        this.timerTimeout = window.setTimeout(this.resetTooltip, this.hideDelay);
+        return;
+      }
+    }
+
     this.showTooltip(paths, event.clientX, event.clientY);
   };
 
+  /**
+   * Run when an element on the document receives focus
+   * @param event Focus in event
+   * @param paths Event paths
+   * @returns {void}
+   */
+  private onFocusIn = (event: FocusEvent, paths: EventTarget[]): void => {
+    if (!this.interactive || this.pinned || paths.includes(this)) {
+      return;
+    }
+
+    const matchTarget = this.getMatchedElement(paths);
+    if (!matchTarget) {
+      return;
+    }
+
+    this.reset();
+    this.timerTimeout = window.setTimeout(() => {
+      const { left, bottom } = matchTarget.getBoundingClientRect();
+      this.matchTarget = matchTarget;
+      this.openTooltip(matchTarget, left, bottom);
+      this.shownByFocus = this.opened;
+    }, this.showDelay);
+  };
+
+  /**
+   * Run when an element on the document loses focus
+   * @param event Focus out event
+   * @returns {void}
+   */
+  private onFocusOut = ({ relatedTarget }: FocusEvent): void => {
+    if (!this.shownByFocus || this.pinned || (relatedTarget instanceof Node && this.contains(relatedTarget))) {
+      return;
+    }
+
+    this.hideTooltip();
+  };
+
+  /**
+   * Run when document key down event happens.
+   * Any key dismisses the tooltip, unless it is interactive.
+   * Keys pressed within an interactive tooltip or its target, such as `Tab`, keep the tooltip opened,
+   * while `Escape` dismisses it.
+   * @param event Key down event
+   * @returns {void}
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    const path = event.composedPath();
+    if (!this.interactive || (!path.includes(this) && !(this.matchTarget && path.includes(this.matchTarget)))) {
+      this.resetTooltip();
+      return;
+    }
+
+    if (event.key === 'Escape' || event.key === 'Esc') {
+      this.setPinned(false);
+      this.hideTooltip();
+    }
+  };
+
+  /**
+   * Run when the user scrolls with mouse wheel
+   * @param event Wheel event
+   * @returns {void}
+   */
+  private onWheel = (event: WheelEvent): void => {
+    if (this.interactive && event.composedPath().includes(this)) { /* allow to scroll tooltip content */
+      return;
+    }
+
+    this.resetTooltip();
+  };
+
   /**
    * Try to show the tooltip if it matches the target
    * @param paths The paths leading to target
@@ -451,27 +637,40 @@ class Tooltip extends BasicElement {
       }
 
       this.matchTargetRect = matchTargetRect;
-      this.clicked = false;
+      this.safeAreaOrigin = { x, y };
+      this.shownByFocus = false;
+      this.openTooltip(matchTarget, x, y);
+    }, this.getTooltipShowDelay);
+  }
 
-      // adjust tooltip x & y vs clientX and clientY
-      const adjusterRect = this.positionAdjusterEl.getBoundingClientRect();
-      x = adjusterRect.left >= 0 ? x - adjusterRect.left : x;
-      y = adjusterRect.top >= 0 ? y - adjusterRect.top : y;
+  /**
+   * Render the content for the target and open the tooltip
+   * @param matchTarget Target to show the tooltip for
+   * @param x X coordinate relative to the viewport
+   * @param y Y coordinate relative to the viewport
+   * @returns {void}
+   */
+  private openTooltip (matchTarget: HTMLElement, x: number, y: number): void {
+    this.clicked = false;
 
-      if (this.hasSlotContent()) {
-        this.showTooltipAtPosition(matchTarget, x, y);
-        return;
-      }
+    // adjust tooltip x & y vs clientX and clientY
+    const adjusterRect = this.positionAdjusterEl.getBoundingClientRect();
+    x = adjusterRect.left >= 0 ? x - adjusterRect.left : x;
+    y = adjusterRect.top >= 0 ? y - adjusterRect.top : y;
 
-      const contentNode = this.getContentNode(matchTarget);
-      if (contentNode) {
-        this.renderContentNode(contentNode);
-        this.showTooltipAtPosition(matchTarget, x, y);
-        return;
-      }
+    if (this.hasSlotContent()) {
+      this.showTooltipAtPosition(matchTarget, x, y);
+      return;
+    }
 
-      this.setOpened(false);
-    }, this.getTooltipShowDelay);
+    const contentNode = this.getContentNode(matchTarget);
+    if (contentNode) {
+      this.renderContentNode(contentNode);
+      this.showTooltipAtPosition(matchTarget, x, y);
+      return;
+    }
+
+    this.setOpened(false);
   }
 
   /**
@@ -505,13 +704,35 @@ class Tooltip extends BasicElement {
     }
 
     this.setOpened(true);
+
+    if (this.hasUpdated && !this.isUpdatePending) { /* target has changed, while the tooltip is opened */
+      this.describeTarget(matchTarget);
+    }
   }
 
   /**
    * Run when document click or contextmenu event happens
+   * @param event Mouse click or contextmenu event
    * @returns {void}
    */
-  private onClick = (): void => {
+  private onClick = (event: MouseEvent): void => {
+    if (this.interactive && this.opened) {
+      const paths = event.composedPath();
+
+      if (paths.includes(this)) { /* interacting with tooltip content */
+        return;
+      }
+
+      if (event.type === 'click' && this.matchTarget && paths.includes(this.matchTarget)) {
+        this.setPinned(!this.pinned);
+        return;
+      }
+    }
+
+    if (this.pinned) {
+      return;
+    }
+
     this.clicked = true;
     this.hideTooltip();
   };
@@ -101,6 +101,23 @@ class TooltipManager {
     this.registry.forEach(({ blur }) => blur(event));
   };
 
+  /**
+   * @param event Focus in event
+   * @returns {void}
+   */
+  private onFocusIn = (event: FocusEvent): void => {
+    const paths = event.composedPath();
+    this.registry.forEach(({ focusin }) => focusin(event, paths));
+  };
+
+  /**
+   * @param event Focus out event
+   * @returns {void}
+   */
+  private onFocusOut = (event: FocusEvent): void => {
+    this.registry.forEach(({ focusout }) => focusout(event));
+  };
+
   public register (tooltip: Tooltip, documentCallbacks: DocumentCallbacks): void {
     if (!this.registry.size) {
       // IE11 does not support event options
@@ -113,6 +130,8 @@ class TooltipManager {
       document.addEventListener('wheel', this.onWheel, eventOptions);
       document.addEventListener('keydown', this.onKeyDown, eventOptions);
       document.body.addEventListener('blur', this.onBlur, eventOptions);
+      document.addEventListener('focusin', this.onFocusIn, eventOptions);
+      document.addEventListener('focusout', this.onFocusOut, eventOptions);
 
       const clickEventOptions = supportOptions ? { passive: true, capture: true } : true;
       document.addEventListener('click', this.onClick, clickEventOptions);
@@ -132,6 +151,8 @@ class TooltipManager {
       document.removeEventListener('wheel', this.onWheel);
       document.removeEventListener('keydown', this.onKeyDown);
       document.body.removeEventListener('blur', this.onBlur);
+      document.removeEventListener('focusin', this.onFocusIn);
+      document.removeEventListener('focusout', this.onFocusOut);
 
       document.removeEventListener('click', this.onClick, true);
       document.removeEventListener('contextmenu', this.onClick, true);
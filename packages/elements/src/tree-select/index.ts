@@ -27,6 +27,7 @@ import { TreeRenderer as TreeSelectRenderer } from '../tree/index.js';
 import { CheckedState, TreeManager, TreeManagerMode } from '../tree/managers/tree-manager.js';
 
 import type { TreeSelectData, TreeSelectDataItem } from './helpers/types';
+import type { TreeChildrenProvider } from '../tree';
 import type { Pill } from '../pill';
 import { translate, TranslateDirective } from '@refinitiv-ui/translate';
 import '@refinitiv-ui/phrasebook/locale/en/tree-select.js';
@@ -183,6 +184,13 @@ export class TreeSelect extends ComboBox<TreeSelectDataItem> {
   @property({ attribute: 'no-relation', type: Boolean })
   public noRelation = false;
 
+  /**
+   * Function to load children of `lazy` items on expand
+   * @type {TreeChildrenProvider<TreeSelectDataItem> | null}
+   */
+  @property({ attribute: false })
+  public childrenProvider: TreeChildrenProvider<TreeSelectDataItem> | null = null;
+
   /**
    * Should the control show pills
    */
@@ -943,7 +951,7 @@ export class TreeSelect extends ComboBox<TreeSelectDataItem> {
           tabindex="-1"
           clears
           .readonly="${pill.readonly || this.readonly}"
-          .disabled="${pill.disabled || this.disabled}"
+          .disabled="${pill.disabled || this.isDisabled}"
           .value="${pill.value}"
           @clear="${this.onPillRemoved}">${pill.label}</ef-pill>`
         )}
@@ -985,8 +993,10 @@ export class TreeSelect extends ComboBox<TreeSelectDataItem> {
               id="internal-list"
               part="tree"
               .noRelation=${this.noRelation}
+              .childrenProvider=${this.childrenProvider}
               .renderer=${this.renderer}
               .data="${this.composer}"
+              .virtual="${this.virtual}"
               .multiple="${this.multiple}"></ef-tree>
             ${this.pillsTemplate}
           </div>
@@ -501,6 +501,21 @@ describe('tree/Tree', () => {
       expect(el.manager.visibleItems.length).to.equal(11, 'All items are visible');
     });
 
+    it('Text filter ignores case and diacritics', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = [
+        { value: 'gle', label: 'Société Générale' },
+        { value: 'msft', label: 'Microsoft Corporation' }
+      ];
+      el.query = 'SOCIETE gen';
+      await elementUpdated(el);
+      expect(el.manager.visibleItems.map(item => item.value)).to.deep.equal(['gle']);
+
+      el.query = 'msft corp';
+      await elementUpdated(el);
+      expect(el.manager.visibleItems.map(item => item.value)).to.deep.equal(['msft']);
+    });
+
     it('Text filter applied, expanded ancestors of matched items correctly - multi level', async () => {
       const el = await fixture('<ef-tree query="-2"></ef-tree');
       el.data = multiLevelData;
@@ -600,5 +615,332 @@ describe('tree/Tree', () => {
 
     });
   });
-});
 
+  describe('Typeahead', () => {
+    const type = async (el, keys) => {
+      for (const key of keys) {
+        el.dispatchEvent(keyboardEvent('keydown', { key }));
+      }
+      await elementUpdated(el);
+    };
+
+    it('Highlights a visible item matching typed characters', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = nestedData;
+      await elementUpdated(el);
+
+      await type(el, 'item 1.2');
+      expect(el.querySelector('[highlighted]').label).to.equal('Item 1.2');
+    });
+
+    it('Repeating the same character skips readonly and disabled items', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = nestedData;
+      await elementUpdated(el);
+
+      await type(el, 'iii');
+      expect(el.querySelector('[highlighted]').label).to.equal('Item 1.2');
+      await type(el, 'i');
+      expect(el.querySelector('[highlighted]').label).to.equal('Item 4');
+    });
+  });
+
+  describe('Lazy Loading', () => {
+    const createLazyData = () => [{
+      label: 'Item 1',
+      value: '1',
+      lazy: true
+    }, {
+      label: 'Item 2',
+      value: '2'
+    }];
+    const loadChildren = (item) => Promise.resolve([{
+      label: `Item ${item.value}.1`,
+      value: `${item.value}.1`
+    }, {
+      label: `Item ${item.value}.2`,
+      value: `${item.value}.2`
+    }]);
+
+    it('Renders lazy items as groups', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = createLazyData();
+      await elementUpdated(el);
+      expect(el.children).to.have.lengthOf(2);
+      expect(el.children[0].parent).to.equal(true, 'Lazy item should be rendered as a group');
+      expect(el.children[1].parent).to.equal(false);
+    });
+
+    it('Loads children when lazy item is expanded', async () => {
+      let resolveChildren;
+      const el = await fixture('<ef-tree></ef-tree>');
+      const data = createLazyData();
+      el.data = data;
+      el.childrenProvider = (item) => new Promise(resolve => {
+        resolveChildren = () => resolve(loadChildren(item));
+      });
+      await elementUpdated(el);
+
+      el.children[0].click();
+      await elementUpdated(el);
+      expect(el.children[0].loading).to.equal(true, 'Item should show loading state');
+      expect(el.children[0].getAttribute('aria-busy')).to.equal('true');
+
+      resolveChildren();
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.children).to.have.lengthOf(4, 'Loaded children should be rendered');
+      expect(el.children[0].loading).to.equal(false);
+      expect(el.children[1].label).to.equal('Item 1.1');
+      expect(data[0].lazy).to.equal(false, 'Item should not be lazy once loaded');
+    });
+
+    it('Loads children only once', async () => {
+      let calls = 0;
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = createLazyData();
+      el.childrenProvider = (item) => {
+        calls += 1;
+        return loadChildren(item);
+      };
+      await elementUpdated(el);
+
+      el.children[0].click();
+      await nextFrame();
+      await elementUpdated(el);
+      el.collapseAll();
+      el.expandAll();
+      el.children[0].click();
+      el.children[0].click();
+      await nextFrame();
+      await elementUpdated(el);
+      expect(calls).to.equal(1);
+      expect(el.children).to.have.lengthOf(4);
+    });
+
+    it('Collapses item when children cannot be loaded', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      const data = createLazyData();
+      el.data = data;
+      el.childrenProvider = () => Promise.reject(new Error('Failed'));
+      await elementUpdated(el);
+
+      el.children[0].click();
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.children).to.have.lengthOf(2);
+      expect(el.children[0].expanded).to.equal(false, 'Item should collapse');
+      expect(el.children[0].loading).to.equal(false);
+      expect(data[0].lazy).to.equal(true, 'Item should stay lazy to allow retry');
+    });
+
+    it('Checks loaded children of a checked item in multiple mode', async () => {
+      const el = await fixture('<ef-tree multiple></ef-tree>');
+      el.data = createLazyData();
+      el.childrenProvider = loadChildren;
+      el.values = ['1'];
+      await elementUpdated(el);
+
+      el.children[0].shadowRoot.querySelector('[expand-toggle]').click();
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.children).to.have.lengthOf(4);
+      expect(el.values).to.deep.equal(['1.1', '1.2'], 'Loaded children should inherit checked state');
+      expect(el.children[0].checkedState).to.equal(1);
+    });
+
+    it('Keeps loaded children unchecked in no-relation mode', async () => {
+      const el = await fixture('<ef-tree multiple no-relation></ef-tree>');
+      el.data = createLazyData();
+      el.childrenProvider = loadChildren;
+      el.values = ['1'];
+      await elementUpdated(el);
+
+      el.children[0].shadowRoot.querySelector('[expand-toggle]').click();
+      await nextFrame();
+      await elementUpdated(el);
+      expect(el.values).to.deep.equal(['1']);
+    });
+  });
+
+  describe('Reordering', () => {
+    const createFolders = () => [{
+      label: 'Folder 1',
+      value: '1',
+      expanded: true,
+      items: [{
+        label: 'Item 1.1',
+        value: '1.1'
+      }, {
+        label: 'Item 1.2',
+        value: '1.2'
+      }]
+    }, {
+      label: 'Folder 2',
+      value: '2',
+      expanded: true,
+      items: [{
+        label: 'Item 2.1',
+        value: '2.1'
+      }]
+    }];
+    const labels = (el) => Array.from(el.children).map(item => item.label);
+    const ctrlKey = (key) => keyboardEvent('keydown', { key, ctrlKey: true });
+    const pointerEvent = (type, element, offset) => {
+      const { top, left, height } = element.getBoundingClientRect();
+      return new PointerEvent(type, {
+        bubbles: true,
+        composed: true,
+        cancelable: true,
+        isPrimary: true,
+        pointerId: 1,
+        button: 0,
+        clientX: left + 10,
+        clientY: top + height * offset
+      });
+    };
+
+    it('Can move items programmatically', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      const data = createFolders();
+      el.data = data;
+      await elementUpdated(el);
+
+      expect(el.moveItem(data[0].items[0], data[1].items[0], 'after')).to.equal(true);
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.2', 'Folder 2', 'Item 2.1', 'Item 1.1']);
+
+      expect(el.moveItem(data[1], data[0], 'before')).to.equal(true);
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 2', 'Item 2.1', 'Item 1.1', 'Folder 1', 'Item 1.2'], 'Children should move with the parent');
+
+      expect(el.moveItem(data[0], data[0].items[1], 'inside')).to.equal(false, 'Item cannot be moved into its descendant');
+    });
+
+    it('Moves items with the keyboard', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      el.data = createFolders();
+      await elementUpdated(el);
+
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(ctrlKey('Down'));
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.2', 'Item 1.1', 'Folder 2', 'Item 2.1']);
+
+      el.dispatchEvent(ctrlKey('Left'));
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.2', 'Item 1.1', 'Folder 2', 'Item 2.1']);
+      expect(el.children[2].depth).to.equal(0, 'Item should be moved out of its parent');
+
+      el.dispatchEvent(ctrlKey('Right'));
+      await elementUpdated(el);
+      expect(el.children[2].depth).to.equal(1, 'Item should be moved into the previous sibling');
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.2', 'Item 1.1', 'Folder 2', 'Item 2.1']);
+    });
+
+    it('Does not move items with the keyboard when not reorderable', async () => {
+      const el = await fixture('<ef-tree></ef-tree>');
+      el.data = createFolders();
+      await elementUpdated(el);
+
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(ctrlKey('Down'));
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.1', 'Item 1.2', 'Folder 2', 'Item 2.1']);
+    });
+
+    it('Fires cancelable item-move event', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      const data = createFolders();
+      el.data = data;
+      await elementUpdated(el);
+
+      let detail;
+      el.addEventListener('item-move', (event) => {
+        detail = event.detail;
+        event.preventDefault();
+      });
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(ctrlKey('Down'));
+      await elementUpdated(el);
+      expect(detail.source).to.equal(data[0].items[0]);
+      expect(detail.target).to.equal(data[0].items[1]);
+      expect(detail.position).to.equal('after');
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.1', 'Item 1.2', 'Folder 2', 'Item 2.1'], 'Prevented move should keep the order');
+    });
+
+    it('Respects drop predicate', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      el.data = createFolders();
+      el.dropPredicate = (item, target, position) => position !== 'inside';
+      await elementUpdated(el);
+
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(keyArrowDown);
+      el.dispatchEvent(ctrlKey('Right'));
+      await elementUpdated(el);
+      expect(el.children[2].depth).to.equal(1, 'Item should not be moved inside');
+    });
+
+    it('Moves items with the pointer', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      el.data = createFolders();
+      await elementUpdated(el);
+
+      const source = el.children[1];
+      const target = el.children[4];
+      source.dispatchEvent(pointerEvent('pointerdown', source, 0.5));
+      document.dispatchEvent(pointerEvent('pointermove', target, 0.5));
+      document.dispatchEvent(pointerEvent('pointermove', target, 0.9));
+      expect(el.hasAttribute('dragging')).to.equal(true);
+      expect(source.dragging).to.equal(true);
+      expect(target.getAttribute('drop-position')).to.equal('after');
+
+      document.dispatchEvent(pointerEvent('pointerup', target, 0.9));
+      await elementUpdated(el);
+      expect(el.hasAttribute('dragging')).to.equal(false);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.2', 'Folder 2', 'Item 2.1', 'Item 1.1']);
+      expect(Array.from(el.children).some(item => item.hasAttribute('drop-position'))).to.equal(false, 'Drop indicators should be removed');
+    });
+
+    it('Cancels pointer drag on Escape', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      el.data = createFolders();
+      await elementUpdated(el);
+
+      const source = el.children[1];
+      const target = el.children[3];
+      source.dispatchEvent(pointerEvent('pointerdown', source, 0.5));
+      document.dispatchEvent(pointerEvent('pointermove', target, 0.5));
+      expect(target.getAttribute('drop-position')).to.equal('inside');
+      document.dispatchEvent(keyboardEvent('keydown', { key: 'Escape' }));
+      document.dispatchEvent(pointerEvent('pointerup', target, 0.5));
+      await elementUpdated(el);
+      expect(labels(el)).to.deep.equal(['Folder 1', 'Item 1.1', 'Item 1.2', 'Folder 2', 'Item 2.1']);
+    });
+
+    it('Does not capture Escape before dragging starts', async () => {
+      const el = await fixture('<ef-tree reorderable></ef-tree>');
+      el.data = createFolders();
+      await elementUpdated(el);
+
+      const source = el.children[1];
+      source.dispatchEvent(pointerEvent('pointerdown', source, 0.5));
+      let escapeCount = 0;
+      const onKeyDown = (event) => {
+        if (event.key === 'Escape') {
+          escapeCount += 1;
+        }
+      };
+      document.addEventListener('keydown', onKeyDown);
+      document.dispatchEvent(keyboardEvent('keydown', { key: 'Escape' }));
+      document.removeEventListener('keydown', onKeyDown);
+      document.dispatchEvent(pointerEvent('pointerup', source, 0.5));
+      expect(escapeCount).to.equal(1, 'Escape should reach the page when no item is dragged');
+    });
+  });
+});
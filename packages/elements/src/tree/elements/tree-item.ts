@@ -10,7 +10,8 @@ import { VERSION } from '../../version.js';
 import '../../icon/index.js';
 import { preload } from '../../icon/index.js';
 import '../../checkbox/index.js';
-import type { TreeDataItem } from '../helpers/types';
+import '../../loader/index.js';
+import type { TreeDataItem, TreeDropPosition } from '../helpers/types';
 import { CheckedState } from '../managers/tree-manager.js';
 
 preload('right');
@@ -65,6 +66,25 @@ export class TreeItem<T extends TreeDataItem = TreeDataItem> extends ControlElem
   @property({ type: Boolean })
   public expanded = false;
 
+  /**
+   * Children of the item are being loaded
+   */
+  @property({ type: Boolean, reflect: true })
+  public loading = false;
+
+  /**
+   * The item is being dragged
+   */
+  @property({ type: Boolean, reflect: true })
+  public dragging = false;
+
+  /**
+   * Position to drop the dragged item relative to this item.
+   * Used to show drop indicators
+   */
+  @property({ type: String, reflect: true, attribute: 'drop-position' })
+  public dropPosition: TreeDropPosition | null = null;
+
   /**
    * Depth of the item
    */
@@ -111,11 +131,23 @@ export class TreeItem<T extends TreeDataItem = TreeDataItem> extends ControlElem
   protected get toggleTemplate (): TemplateResult {
     return html`
     <div expand-toggle part="toggle" style="pointer-events:all;visibility:${this.parent ? 'visible' : 'hidden'}">
-      <ef-icon part="toggle-icon${this.expanded ? ' toggle-icon-expanded' : ''}" icon="right"></ef-icon>
+      ${this.toggleIconTemplate}
     </div>
     `;
   }
 
+  /**
+   * Template for rendering the toggle icon.
+   * Loader replaces the icon while children are being loaded
+   */
+  protected get toggleIconTemplate (): TemplateResult {
+    if (this.loading) {
+      return html`<ef-loader part="loader" size="small"></ef-loader>`;
+    }
+
+    return html`<ef-icon part="toggle-icon${this.expanded ? ' toggle-icon-expanded' : ''}" icon="right"></ef-icon>`;
+  }
+
   /**
    * Template for rendering the checkbox
    */
@@ -128,7 +160,7 @@ export class TreeItem<T extends TreeDataItem = TreeDataItem> extends ControlElem
     <ef-checkbox
       part="checkbox"
       tabindex="-1"
-      .disabled="${this.disabled}"
+      .disabled="${this.isDisabled}"
       .readonly="${this.readonly}"
       .indeterminate="${this.indeterminate}"
       .checked="${this.checked}"
@@ -210,6 +242,19 @@ export class TreeItem<T extends TreeDataItem = TreeDataItem> extends ControlElem
     }
   }
 
+  /**
+   * Handles aria-busy when loading state changes
+   * @returns {void}
+   */
+  private loadingChanged (): void {
+    if (this.loading) {
+      this.setAttribute('aria-busy', 'true');
+    }
+    else {
+      this.removeAttribute('aria-busy');
+    }
+  }
+
   /**
    * Called after the component is first rendered
    * @param changedProperties Properties which have changed
@@ -237,6 +282,10 @@ export class TreeItem<T extends TreeDataItem = TreeDataItem> extends ControlElem
     if (changedProperties.has('expanded')) {
       this.expandedChanged();
     }
+
+    if (changedProperties.has('loading')) {
+      this.loadingChanged();
+    }
   }
 
   /**
@@ -6,22 +6,67 @@ import { customElement } from '@refinitiv-ui/core/decorators/custom-element.js';
 import { property } from '@refinitiv-ui/core/decorators/property.js';
 import { VERSION } from '../../version.js';
 import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
+import { AnimationTaskRunner, TimeoutTaskRunner } from '@refinitiv-ui/utils/async.js';
 
 import { List, valueFormatWarning } from '../../list/index.js';
 import { TreeRenderer } from '../helpers/renderer.js';
 import { defaultFilter } from '../helpers/filter.js';
-import type { TreeData, TreeDataItem, TreeFilter } from '../helpers/types';
+import type {
+  TreeData,
+  TreeDataItem,
+  TreeFilter,
+  TreeChildrenProvider,
+  TreeDropPosition,
+  TreeDropPredicate
+} from '../helpers/types';
 import { TreeManager, TreeManagerMode } from '../managers/tree-manager.js';
 import './tree-item.js';
+import type { TreeItem } from './tree-item.js';
 
 const EXPAND_TOGGLE_ATTR = 'expand-toggle';
 
+/**
+ * Distance in pixels the pointer has to travel to start dragging
+ */
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Time in milliseconds to hover over a collapsed item before it expands
+ */
+const AUTO_EXPAND_DELAY = 800;
+
+/**
+ * Distance in pixels from the edge of the tree, which starts scrolling
+ */
+const AUTO_SCROLL_EDGE = 24;
+
+/**
+ * Distance in pixels to scroll on each frame
+ */
+const AUTO_SCROLL_STEP = 8;
+
+type DragState<T> = {
+  item: T;
+  element: TreeItem;
+  pointerId: number;
+  startY: number;
+  clientY: number;
+  started: boolean;
+};
+
+type DropTarget<T> = {
+  item: T;
+  element: TreeItem;
+  position: TreeDropPosition;
+};
+
 /**
  * Displays a tree structure
  * to be used for menus and group selections
  *
  * @fires value-changed - Fired when the users changed selection item.
  * @fires expanded-changed - Fired when an item's expanded state has changed.
+ * @fires item-move - Fired when the user drops an item to a new position. Cancel the event to prevent the move.
  *
  * @attr {boolean} [stateless=false] - Disable selections
  * @prop {boolean} [stateless=false] - Disable selections
@@ -63,6 +108,56 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
   @property({ type: String })
   public query = '';
 
+  /**
+   * Function to load children of `lazy` items.
+   * Called when a lazy item is expanded,
+   * resolved children are appended to the item.
+   * @type {TreeChildrenProvider<T> | null}
+   */
+  @property({ attribute: false })
+  public childrenProvider: TreeChildrenProvider<T> | null = null;
+
+  /**
+   * Allows the user to reorganise items with pointer or keyboard.
+   * Use `Ctrl` + arrow keys to move the highlighted item.
+   * Has no effect while the data composer applies a sort or group-by view.
+   */
+  @property({ type: Boolean, reflect: true })
+  public reorderable = false;
+
+  /**
+   * Decides whether the item can be dropped at the position.
+   * All positions are allowed, if not set
+   * @type {TreeDropPredicate<T> | null}
+   */
+  @property({ attribute: false })
+  public dropPredicate: TreeDropPredicate<T> | null = null;
+
+  /**
+   * State of the pointer drag in progress
+   */
+  private dragState: DragState<T> | null = null;
+
+  /**
+   * Current drop target of the pointer drag
+   */
+  private dropTarget: DropTarget<T> | null = null;
+
+  /**
+   * Tap is fired after dropping an item, which should not select the item
+   */
+  private preventTap = false;
+
+  /**
+   * Runner used for expanding items on hover while dragging
+   */
+  private autoExpandRunner = new TimeoutTaskRunner(AUTO_EXPAND_DELAY);
+
+  /**
+   * Runner used for scrolling while dragging near the edges
+   */
+  private autoScrollRunner = new AnimationTaskRunner();
+
   /**
    * Custom filter for static data
    * @type {TreeFilter<T> | null}
@@ -112,6 +207,17 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
     this.manager.uncheckAllItems();
   }
 
+  /**
+   * Moves the item with its descendants next to or inside the target item
+   * @param item Data item to move
+   * @param target Data item to move relative to
+   * @param position Position relative to the target
+   * @returns `True` if the item has been moved
+   */
+  public moveItem (item: T, target: T, position: TreeDropPosition): boolean {
+    return this.manager.moveItem(item, target, position);
+  }
+
   /**
    * @override
    * @ignore
@@ -126,7 +232,7 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
       return this.manager.toggleItem(item);
     }
     // Single selection - expand/collapse group (parent)
-    if (this.manager.isItemParent(item)) {
+    if (this.manager.isItemExpandable(item)) {
       this.toggleExpandedState(item);
       return false;
     }
@@ -195,6 +301,10 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
    * @override
    */
   protected onTap (event: TapEvent): void {
+    if (this.preventTap) {
+      this.preventTap = false;
+      return;
+    }
     if (this.handleExpandCollapse(event)) {
       return;
     }
@@ -205,6 +315,10 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
    * @override
    */
   protected onKeyDown (event: KeyboardEvent): void {
+    if (this.canReorder && (event.ctrlKey || event.metaKey) && this.onMoveKeyDown(event)) {
+      event.preventDefault();
+      return;
+    }
     switch (event.key) {
       case 'Left':
       case 'ArrowLeft':
@@ -226,7 +340,7 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
    * @returns {void}
    */
   protected left (): void {
-    const item = this.highlightElement && this.itemFromElement(this.highlightElement);
+    const item = this.highlightedItem;
     if (item && this.manager.isItemExpanded(item)) {
       this.manager.collapseItem(item);
       this.dispatchExpandedChangedEvent(item);
@@ -239,10 +353,9 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
    * @returns {void}
    */
   protected right (): void {
-    const item = this.highlightElement && this.itemFromElement(this.highlightElement);
+    const item = this.highlightedItem;
     if (item && !this.manager.isItemExpanded(item)) {
-      this.manager.expandItem(item);
-      this.dispatchExpandedChangedEvent(item);
+      this.expandItem(item);
     }
   }
 
@@ -255,11 +368,62 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
   protected toggleExpandedState (item: T): void {
     if (this.manager.isItemExpanded(item)) {
       this.manager.collapseItem(item);
+      this.dispatchExpandedChangedEvent(item);
     }
     else {
-      this.manager.expandItem(item);
+      this.expandItem(item);
     }
+  }
+
+  /**
+   * Expands the item, loading children of lazy items
+   * @param item Original data item
+   * @returns {void}
+   */
+  protected expandItem (item: T): void {
+    this.manager.expandItem(item);
     this.dispatchExpandedChangedEvent(item);
+    void this.loadItemChildren(item);
+  }
+
+  /**
+   * Requests children of a lazy item from `childrenProvider`
+   * and adds them to the item once resolved.
+   * Item collapses if children cannot be loaded, so that it can be expanded to try again.
+   * @param item Original data item
+   * @returns Promise, which resolves when children are loaded
+   */
+  protected async loadItemChildren (item: T): Promise<void> {
+    const childrenProvider = this.childrenProvider;
+    if (!childrenProvider || !this.manager.isItemLazy(item) || this.manager.isItemLoading(item)) {
+      return;
+    }
+
+    const composer = this.composer;
+    this.manager.setItemLoading(item, true);
+
+    let children: T[] | null = null;
+    try {
+      children = await childrenProvider(item);
+    }
+    catch (error) {
+      children = null;
+    }
+
+    // Data has been replaced while loading
+    if (composer !== this.composer) {
+      return;
+    }
+
+    this.manager.setItemLoading(item, false);
+
+    if (children) {
+      this.manager.addItemChildren(item, children);
+    }
+    else if (this.manager.isItemExpanded(item)) {
+      this.manager.collapseItem(item);
+      this.dispatchExpandedChangedEvent(item);
+    }
   }
 
   /**
@@ -276,6 +440,356 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
     return this.composer.queryItemsByPropertyValue(property, value, Infinity);
   }
 
+  /**
+   * Can the item be dropped at the position?
+   * @param item Data item being moved
+   * @param target Data item to move relative to
+   * @param position Position relative to the target
+   * @returns `True` if the drop is allowed
+   */
+  protected canDropItem (item: T, target: T, position: TreeDropPosition): boolean {
+    return this.manager.canMoveItem(item, target, position)
+      && (!this.dropPredicate || this.dropPredicate(item, target, position));
+  }
+
+  /**
+   * Dispatches cancelable `item-move` event and moves the item if the event is not prevented
+   * @param item Data item being moved
+   * @param target Data item to move relative to
+   * @param position Position relative to the target
+   * @returns `True` if the item has been moved
+   */
+  protected dropItem (item: T, target: T, position: TreeDropPosition): boolean {
+    if (!this.canDropItem(item, target, position)) {
+      return false;
+    }
+
+    /**
+     * Property `detail.source` is the data item being moved.
+     * Property `detail.target` is the data item to move relative to.
+     * Property `detail.position` is `before`, `after` or `inside` the target.
+     */
+    const event = new CustomEvent('item-move', {
+      bubbles: false,
+      cancelable: true,
+      composed: true,
+      detail: {
+        source: item,
+        target,
+        position
+      }
+    });
+    this.dispatchEvent(event);
+
+    if (event.defaultPrevented || !this.moveItem(item, target, position)) {
+      return false;
+    }
+
+    if (position === 'inside' && !this.manager.isItemExpanded(target)) {
+      this.expandItem(target);
+    }
+    return true;
+  }
+
+  /**
+   * Moves the highlighted item with `Ctrl` + arrow keys.
+   * Up and Down swap the item with its siblings,
+   * Right moves it into the previous sibling and Left moves it out of its parent.
+   * @param event Keyboard event
+   * @returns `True` if the key is handled
+   */
+  protected onMoveKeyDown (event: KeyboardEvent): boolean {
+    const item = this.highlightedItem;
+    if (!item) {
+      return false;
+    }
+
+    let target: T | null = null;
+    let position: TreeDropPosition = 'before';
+
+    switch (event.key) {
+      case 'Up':
+      case 'ArrowUp':
+        target = this.manager.getPreviousSibling(item);
+        position = 'before';
+        break;
+      case 'Down':
+      case 'ArrowDown':
+        target = this.manager.getNextSibling(item);
+        position = 'after';
+        break;
+      case 'Left':
+      case 'ArrowLeft':
+        target = this.manager.getItemParent(item);
+        position = 'after';
+        break;
+      case 'Right':
+      case 'ArrowRight':
+        target = this.manager.getPreviousSibling(item);
+        position = 'inside';
+        break;
+      default:
+        return false;
+    }
+
+    if (target && this.dropItem(item, target, position)) {
+      void this.updateComplete.then(() => this.highlightItem(item, true));
+    }
+    return true;
+  }
+
+  /**
+   * Prepares dragging of an item, once the pointer is pressed
+   * @param event Pointer down event
+   * @returns {void}
+   */
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.canReorder || this.dragState || event.button !== 0 || !event.isPrimary) {
+      return;
+    }
+
+    const element = this.findItemElementFromTarget(event.target) as TreeItem | null;
+    const item = element && this.itemFromElement(element);
+    if (!element || !item || element.disabled) {
+      return;
+    }
+
+    this.dragState = {
+      item,
+      element,
+      pointerId: event.pointerId,
+      startY: event.clientY,
+      clientY: event.clientY,
+      started: false
+    };
+
+    document.addEventListener('pointermove', this.onPointerMove);
+    document.addEventListener('pointerup', this.onPointerUp);
+    document.addEventListener('pointercancel', this.onPointerCancel);
+  };
+
+  /**
+   * Starts dragging once the pointer moved far enough
+   * and tracks the drop target under the pointer
+   * @param event Pointer move event
+   * @returns {void}
+   */
+  private onPointerMove = (event: PointerEvent): void => {
+    const dragState = this.dragState;
+    if (!dragState || event.pointerId !== dragState.pointerId) {
+      return;
+    }
+
+    dragState.clientY = event.clientY;
+
+    if (!dragState.started) {
+      if (Math.abs(event.clientY - dragState.startY) < DRAG_THRESHOLD) {
+        return;
+      }
+      dragState.started = true;
+      dragState.element.dragging = true;
+      this.setAttribute('dragging', '');
+      // Escape is captured only while dragging, so that it is not taken from the rest of the page
+      document.addEventListener('keydown', this.onDragKeyDown, true);
+    }
+
+    event.preventDefault(); // prevent text selection
+    this.updateDropTarget();
+    this.autoScroll();
+  };
+
+  /**
+   * Drops the item at the current drop target
+   * @param event Pointer up event
+   * @returns {void}
+   */
+  private onPointerUp = (event: PointerEvent): void => {
+    const dragState = this.dragState;
+    if (!dragState || event.pointerId !== dragState.pointerId) {
+      return;
+    }
+
+    const dropTarget = this.dropTarget;
+    if (dragState.started) {
+      this.preventTap = true;
+      // Tap is not fired if the pointer is released outside of the item
+      setTimeout(() => {
+        this.preventTap = false;
+      });
+    }
+
+    this.endDrag();
+
+    if (dragState.started && dropTarget) {
+      this.dropItem(dragState.item, dropTarget.item, dropTarget.position);
+    }
+  };
+
+  /**
+   * Cancels dragging if the browser takes over the pointer
+   * @returns {void}
+   */
+  private onPointerCancel = (): void => {
+    this.endDrag();
+  };
+
+  /**
+   * Cancels dragging on Escape
+   * @param event Keyboard event
+   * @returns {void}
+   */
+  private onDragKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape' || event.key === 'Esc') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.endDrag();
+    }
+  };
+
+  /**
+   * Resets the drag state and removes all drag indicators
+   * @returns {void}
+   */
+  private endDrag (): void {
+    document.removeEventListener('pointermove', this.onPointerMove);
+    document.removeEventListener('pointerup', this.onPointerUp);
+    document.removeEventListener('pointercancel', this.onPointerCancel);
+    document.removeEventListener('keydown', this.onDragKeyDown, true);
+
+    if (this.dragState) {
+      this.dragState.element.dragging = false;
+      this.dragState = null;
+    }
+
+    this.setDropTarget(null);
+    this.autoScrollRunner.cancel();
+    this.removeAttribute('dragging');
+  }
+
+  /**
+   * Finds the item under the pointer and the drop position relative to it
+   * @returns {void}
+   */
+  private updateDropTarget (): void {
+    const dragState = this.dragState;
+    if (!dragState) {
+      return;
+    }
+
+    const clientY = dragState.clientY;
+    const element = (Array.from(this.children) as TreeItem[]).find(element => {
+      const { top, bottom } = element.getBoundingClientRect();
+      return clientY >= top && clientY < bottom;
+    });
+    let item = element && this.itemFromElement(element);
+
+    if (!element || !item) {
+      this.setDropTarget(null);
+      return;
+    }
+
+    const { top, height } = element.getBoundingClientRect();
+    const offset = (clientY - top) / height;
+    let position: TreeDropPosition = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+
+    // Bottom edge of an expanded item is the top of its first child
+    const firstChild = position === 'after' && this.manager.isItemExpanded(item) && this.manager.getItemChildren(item)[0];
+    if (firstChild && !this.manager.isItemHidden(firstChild)) {
+      item = firstChild;
+      position = 'before';
+    }
+
+    if (!this.canDropItem(dragState.item, item, position)) {
+      this.setDropTarget(null);
+      return;
+    }
+
+    this.setDropTarget({
+      item,
+      element: (this.elementFromItem(item) || element) as TreeItem,
+      position
+    });
+  }
+
+  /**
+   * Updates drop target indicators and schedules expanding the item when hovered
+   * @param dropTarget New drop target
+   * @returns {void}
+   */
+  private setDropTarget (dropTarget: DropTarget<T> | null): void {
+    const previous = this.dropTarget;
+    if (previous?.item === dropTarget?.item && previous?.position === dropTarget?.position) {
+      return;
+    }
+
+    if (previous) {
+      previous.element.dropPosition = null;
+    }
+
+    this.dropTarget = dropTarget;
+    this.autoExpandRunner.cancel();
+
+    if (dropTarget) {
+      dropTarget.element.dropPosition = dropTarget.position;
+
+      const item = dropTarget.item;
+      if (dropTarget.position === 'inside' && this.manager.isItemExpandable(item) && !this.manager.isItemExpanded(item)) {
+        this.autoExpandRunner.schedule(() => {
+          if (this.dropTarget?.item === item && !this.manager.isItemExpanded(item)) {
+            this.expandItem(item);
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Scrolls the tree while the pointer is dragged near the top or the bottom edge
+   * @returns {void}
+   */
+  private autoScroll (): void {
+    this.autoScrollRunner.schedule(() => {
+      const dragState = this.dragState;
+      if (!dragState?.started) {
+        return;
+      }
+
+      const { top, bottom } = this.getBoundingClientRect();
+      let step = 0;
+      if (dragState.clientY < top + AUTO_SCROLL_EDGE) {
+        step = -AUTO_SCROLL_STEP;
+      }
+      else if (dragState.clientY > bottom - AUTO_SCROLL_EDGE) {
+        step = AUTO_SCROLL_STEP;
+      }
+
+      const scrollTop = this.scrollTop;
+      this.scrollTop += step;
+
+      if (this.scrollTop !== scrollTop) {
+        this.updateDropTarget();
+        this.autoScroll();
+      }
+    });
+  }
+
+  /**
+   * Called when the element is removed from the DOM
+   * @returns {void}
+   */
+  public disconnectedCallback (): void {
+    super.disconnectedCallback();
+    this.endDrag();
+  }
+
+  /**
+   * @override
+   */
+  protected firstUpdated (changeProperties: PropertyValues): void {
+    super.firstUpdated(changeProperties);
+    this.addEventListener('pointerdown', this.onPointerDown);
+  }
+
   /**
    * @override
    */
@@ -468,6 +982,13 @@ export class Tree<T extends TreeDataItem = TreeDataItem> extends List<T> {
     return this.manager.visibleItems;
   }
 
+  /**
+   * Items can only be moved, when they are displayed in the original order
+   */
+  protected get canReorder (): boolean {
+    return this.reorderable && !this.composer.getSort().length && !this.composer.getGroup();
+  }
+
   /**
    * Mode to use in the tree manager
    */
@@ -1,26 +1,28 @@
+import { createMatcher, Matcher } from '@refinitiv-ui/utils/matching.js';
 import type { Tree, TreeDataItem } from '../index';
 import type { TreeFilter } from './types';
 
 /**
- * Default filter used by tree
+ * Default filter used by tree.
+ * Matches labels ignoring case and diacritics, including the start of each word
  * @param el Tree instance to filter
  * @returns Filter accepting an item
  */
 export const defaultFilter = <T extends TreeDataItem = TreeDataItem>(el: Tree<T>): TreeFilter<T> => {
-  // reference query string for validating queryRegExp cache state
+  // reference query string for validating matcher cache state
   let query = '';
-  // cache RegExp
-  let queryRegExp: RegExp;
+  // cache matcher
+  let matcher: Matcher;
 
-  // Get current RegExp, or renew if out of date
+  // Get current matcher, or renew if out of date
   // this is fetched on demand by filter/renderer
   // only created once per query
-  const getRegularExpressionOfQuery = (): RegExp => {
-    if (el.query !== query || !queryRegExp) {
+  const getMatcherOfQuery = (): Matcher => {
+    if (el.query !== query || !matcher) {
       query = el.query || '';
-      queryRegExp = new RegExp(query.replace(/(\W)/g, '\\$1'), 'i');
+      matcher = createMatcher(query);
     }
-    return queryRegExp;
+    return matcher;
   };
 
   // return scoped custom filter
@@ -30,10 +32,6 @@ export const defaultFilter = <T extends TreeDataItem = TreeDataItem>(el: Tree<T>
       return false;
     }
 
-    const regex = getRegularExpressionOfQuery();
-    const result = regex.test(label);
-    // this regex uses global scope, so the index needs resetting
-    regex.lastIndex = 0;
-    return result;
+    return !!getMatcherOfQuery()(label);
   };
 };
@@ -38,8 +38,9 @@ export class TreeRenderer extends Renderer {
       element.item = item;
       element.id = getItemId(this.key, item.value);
       element.depth = composer.getItemDepth(item);
-      element.parent = composer.getItemChildren(item).length > 0;
+      element.parent = manager.isItemExpandable(item);
       element.expanded = manager.isItemExpanded(item);
+      element.loading = manager.isItemLoading(item);
       element.checkedState = !multiple && element.parent ? CheckedState.UNCHECKED : manager.getItemCheckedState(item);
       element.icon = composer.getItemPropertyValue(item, 'icon') as string;
       element.label = composer.getItemPropertyValue(item, 'label') as string;
@@ -16,6 +16,16 @@ export interface TreeDataItem extends DataItem {
    * If `true`, child items will be visible
    */
   expanded?: boolean;
+  /**
+   * Item has children, which are not loaded yet.
+   * Children are requested from `childrenProvider` when the item is expanded.
+   */
+  lazy?: boolean;
+  /**
+   * Children of the item are being loaded.
+   * Managed by the tree.
+   */
+  loading?: boolean;
 }
 
 
@@ -27,3 +37,30 @@ export interface TreeDataItem extends DataItem {
  * @return Does item match filter
  */
 export type TreeFilter<T extends TreeDataItem = TreeDataItem> = (item: T) => boolean;
+
+/**
+ * Children provider callback
+ * Loads children of lazy items
+ *
+ * @param item Item to load children for
+ * @return Promise resolving to the list of children
+ */
+export type TreeChildrenProvider<T extends TreeDataItem = TreeDataItem> = (item: T) => Promise<T[]>;
+
+/**
+ * Position of a dropped item relative to the target item
+ * `before` and `after` place the item next to the target,
+ * `inside` appends the item to the target children
+ */
+export type TreeDropPosition = 'before' | 'after' | 'inside';
+
+/**
+ * Predicate callback
+ * Decides whether the item can be dropped at the position
+ *
+ * @param item Item being dragged
+ * @param target Item under the pointer
+ * @param position Drop position relative to the target
+ * @return Is the drop allowed
+ */
+export type TreeDropPredicate<T extends TreeDataItem = TreeDataItem> = (item: T, target: T, position: TreeDropPosition) => boolean;
@@ -2,5 +2,17 @@ export * from './elements/tree.js';
 export * from './elements/tree-item.js';
 export { TreeRenderer } from './helpers/renderer.js';
 
-import type { TreeData, TreeDataItem } from './helpers/types';
-export type { TreeData, TreeDataItem };
+import type {
+  TreeData,
+  TreeDataItem,
+  TreeChildrenProvider,
+  TreeDropPosition,
+  TreeDropPredicate
+} from './helpers/types';
+export type {
+  TreeData,
+  TreeDataItem,
+  TreeChildrenProvider,
+  TreeDropPosition,
+  TreeDropPredicate
+};
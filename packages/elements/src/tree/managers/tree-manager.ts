@@ -1,5 +1,5 @@
 import type { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
-import type { TreeDataItem } from '../helpers/types';
+import type { TreeDataItem, TreeDropPosition } from '../helpers/types';
 
 export enum CheckedState {
   CHECKED = 1,
@@ -124,7 +124,7 @@ export class TreeManager<T extends TreeDataItem> {
    * @param item Original data item
    * @returns `True` if the item is hidden
    */
-  private isItemHidden (item: T): boolean {
+  public isItemHidden (item: T): boolean {
     return this.composer.getItemPropertyValue(item, 'hidden') === true;
   }
 
@@ -205,6 +205,34 @@ export class TreeManager<T extends TreeDataItem> {
     path.forEach(item => this.composer.updateItemTimestamp(item));
   }
 
+  /**
+   * Adds the item and its descendants to the composer
+   * @param item Original data item
+   * @param parent Parent to add the item to, `null` for top level
+   * @param index Index within the parent children, appended if `undefined`
+   * @param getChildren Returns children to add along with the item
+   * @returns {void}
+   */
+  private addItemTree (item: T, parent: T | null, index: number | undefined, getChildren: (item: T) => readonly T[]): void {
+    if (parent) {
+      typeof index === 'number' ? this.composer.addItem(item, parent, index) : this.composer.addItem(item, parent);
+    }
+    else {
+      typeof index === 'number' ? this.composer.addItem(item, index) : this.composer.addItem(item);
+    }
+    getChildren(item).forEach(child => this.addItemTree(child, item, undefined, getChildren));
+  }
+
+  /**
+   * Returns the collection the item belongs to, including the item itself
+   * @param item Original data item
+   * @returns Children of the item parent or top level items
+   */
+  private getItemCollection (item: T): readonly T[] {
+    const parent = this.getItemParent(item);
+    return parent ? this.getItemChildren(parent) : this.composer.queryItems(() => true, 0);
+  }
+
   /**
    * Sets the mode (algorithm) the manager should use
    * @param mode Tree manager mode
@@ -263,10 +291,69 @@ export class TreeManager<T extends TreeDataItem> {
    * @returns `True` if the item is expanded and its children should be visible
    */
   public isItemExpanded (item: T): boolean {
-    return this.isItemParent(item)
+    return this.isItemExpandable(item)
       && this.composer.getItemPropertyValue(item, 'expanded') === true;
   }
 
+  /**
+   * Can the item be expanded?
+   * @param item Original data item
+   * @returns `True` if the item has children or children can be loaded
+   */
+  public isItemExpandable (item: T): boolean {
+    return this.isItemParent(item) || this.isItemLazy(item);
+  }
+
+  /**
+   * Does the item have children, which are not loaded yet?
+   * @param item Original data item
+   * @returns `True` if children should be loaded
+   */
+  public isItemLazy (item: T): boolean {
+    return this.composer.getItemPropertyValue(item, 'lazy') === true;
+  }
+
+  /**
+   * Are item children being loaded?
+   * @param item Original data item
+   * @returns `True` if the item is loading
+   */
+  public isItemLoading (item: T): boolean {
+    return this.composer.getItemPropertyValue(item, 'loading') === true;
+  }
+
+  /**
+   * Sets the loading state of the item
+   * @param item Original data item
+   * @param loading Loading state
+   * @returns {void}
+   */
+  public setItemLoading (item: T, loading: boolean): void {
+    this.composer.setItemPropertyValue(item, 'loading', loading);
+  }
+
+  /**
+   * Adds loaded children to a lazy item.
+   * When managing relationships, checked state of the item is passed to the children.
+   * @param item Original data item
+   * @param children Loaded children
+   * @returns {void}
+   */
+  public addItemChildren (item: T, children: readonly T[]): void {
+    const checked = this.composer.getItemPropertyValue(item, 'selected') === true;
+
+    children.forEach(child => this.addItemTree(child, item, undefined, descendant => descendant.items || []));
+    this.composer.setItemPropertyValue(item, 'lazy', false);
+
+    if (this.manageRelationships && this.isItemParent(item)) {
+      // The state of a parent is calculated from the children
+      this.composer.setItemPropertyValue(item, 'selected', false);
+      checked && this.getItemDescendants(item).forEach(descendant => this._checkItem(descendant, false));
+    }
+
+    this.forceUpdateOnPath(item);
+  }
+
   /**
    * Is the item a parent?
    * @param item Original data item
@@ -337,13 +424,91 @@ export class TreeManager<T extends TreeDataItem> {
     return this.composer.getItemChildren(item);
   }
 
+  /**
+   * Gets the sibling placed before the item
+   * @param item Original data item
+   * @returns Previous sibling, if available
+   */
+  public getPreviousSibling (item: T): T | null {
+    const collection = this.getItemCollection(item);
+    return collection[collection.indexOf(item) - 1] || null;
+  }
+
+  /**
+   * Gets the sibling placed after the item
+   * @param item Original data item
+   * @returns Next sibling, if available
+   */
+  public getNextSibling (item: T): T | null {
+    const collection = this.getItemCollection(item);
+    return collection[collection.indexOf(item) + 1] || null;
+  }
+
+  /**
+   * Can the item be moved relative to the target?
+   * An item cannot be moved into itself or its own descendants.
+   * @param item Original data item to move
+   * @param target Original data item to move relative to
+   * @param position Position relative to the target
+   * @returns `True` if the move is possible
+   */
+  public canMoveItem (item: T, target: T, position: TreeDropPosition): boolean {
+    if (item === target || this.getItemAncestors(target).includes(item)) {
+      return false;
+    }
+    // Dropping next to the current position does not change anything
+    if (position === 'before' && this.getNextSibling(item) === target) {
+      return false;
+    }
+    if (position === 'after' && this.getPreviousSibling(item) === target) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Moves the item with all its descendants next to the target or inside the target
+   * @param item Original data item to move
+   * @param target Original data item to move relative to
+   * @param position Position relative to the target
+   * @returns `True` if the item is moved
+   */
+  public moveItem (item: T, target: T, position: TreeDropPosition): boolean {
+    if (!this.canMoveItem(item, target, position)) {
+      return false;
+    }
+
+    const previousParent = this.getItemParent(item);
+
+    // Removing the item removes its descendants, so remember the structure to restore it.
+    // Nested `items` cannot be used, as children could be added or moved separately
+    const structure = new Map<T, readonly T[]>();
+    [item, ...this.getItemDescendants(item)].forEach(descendant => structure.set(descendant, this.getItemChildren(descendant)));
+
+    this.composer.removeItem(item);
+
+    if (position === 'inside') {
+      this.addItemTree(item, target, undefined, descendant => structure.get(descendant) || []);
+    }
+    else {
+      const parent = this.getItemParent(target);
+      // Composer adds items in the original order, which may differ from the displayed order
+      const index = this.composer.getItemIndex(target) + (position === 'after' ? 1 : 0);
+      this.addItemTree(item, parent, index, descendant => structure.get(descendant) || []);
+    }
+
+    previousParent && this.forceUpdateOnPath(previousParent);
+    this.forceUpdateOnPath(item);
+    return true;
+  }
+
   /**
    * Expand an item to show its children
    * @param item Original data item
    * @returns {void}
    */
   public expandItem (item: T): void {
-    if (this.isItemParent(item)) {
+    if (this.isItemExpandable(item)) {
       this.composer.setItemPropertyValue(item, 'expanded', true);
     }
   }
@@ -354,7 +519,7 @@ export class TreeManager<T extends TreeDataItem> {
    * @returns {void}
    */
   public collapseItem (item: T): void {
-    if (this.isItemParent(item)) {
+    if (this.isItemExpandable(item)) {
       this.composer.setItemPropertyValue(item, 'expanded', false);
     }
   }
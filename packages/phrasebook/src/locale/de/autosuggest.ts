@@ -2,7 +2,11 @@ import { Phrasebook } from '../../translation.js';
 
 const translations = {
   LOADING: 'Vorgeschlagene Elemente werden geladen',
-  MORE_RESULTS: 'Weitere Ergebnisse für <mark>{ query }</mark>'
+  MORE_RESULTS: 'Weitere Ergebnisse für <mark>{ query }</mark>',
+  RECENT_SEARCHES: 'Zuletzt gesucht',
+  PINNED_SEARCHES: 'Angeheftet',
+  GROUP_ERROR: 'Vorschläge konnten nicht geladen werden',
+  MORE_GROUP_RESULTS: 'Weitere Ergebnisse in { group }'
 };
 
 Phrasebook.define('de', 'ef-autosuggest', translations);
@@ -3,7 +3,9 @@ import './shared.js';
 
 const translations = {
   MULTIPLE_ITEMS: 'Mehrere Objekte',
-  NO_OPTIONS: 'Keine Ergebnisse'
+  LOADING: 'Ergebnisse werden geladen',
+  NO_OPTIONS: 'Keine Ergebnisse',
+  LOAD_FAILED: 'Ergebnisse konnten nicht geladen werden'
 };
 
 Phrasebook.define('de', 'ef-combo-box', translations);
@@ -3,7 +3,10 @@ import './shared.js';
 
 // deliberately empty as covered by shared
 const translations = {
-  HEADER: 'Dialog'
+  HEADER: 'Dialog',
+  MAXIMIZE: 'Maximieren',
+  RESTORE: 'Wiederherstellen',
+  MINIMIZE: 'Minimieren'
 };
 Phrasebook.define('de', 'ef-dialog', translations);
 
@@ -0,0 +1,9 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  LOADING: 'Wird geladen...'
+};
+
+Phrasebook.define('de', 'ef-overlay-menu', translations);
+
+export default translations;
@@ -0,0 +1,11 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  SELECTED_COUNT: '{count, plural, other {# ausgewählt}}',
+  SELECT_ALL: 'Alle auswählen',
+  CLEAR_ALL: 'Auswahl aufheben'
+};
+
+Phrasebook.define('de', 'ef-select', translations);
+
+export default translations;
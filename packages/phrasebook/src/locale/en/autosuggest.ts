@@ -2,7 +2,11 @@ import { Phrasebook } from '../../translation.js';
 
 const translations = {
   LOADING: 'Loading suggestion items',
-  MORE_RESULTS: 'More results for <mark>{ query }</mark>'
+  MORE_RESULTS: 'More results for <mark>{ query }</mark>',
+  RECENT_SEARCHES: 'Recent',
+  PINNED_SEARCHES: 'Pinned',
+  GROUP_ERROR: 'Failed to load suggestions',
+  MORE_GROUP_RESULTS: 'More results in { group }'
 };
 
 Phrasebook.define('en', 'ef-autosuggest', translations);
@@ -3,7 +3,9 @@ import './shared.js';
 
 const translations = {
   MULTIPLE_ITEMS: 'Multiple items',
-  NO_OPTIONS: 'No results found.'
+  LOADING: 'Loading results',
+  NO_OPTIONS: 'No results found.',
+  LOAD_FAILED: 'Failed to load results.'
 };
 
 Phrasebook.define('en', 'ef-combo-box', translations);
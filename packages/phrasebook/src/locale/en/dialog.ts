@@ -2,7 +2,10 @@ import { Phrasebook } from '../../translation.js';
 import './shared.js';
 
 const translations = {
-  HEADER: 'Dialog'
+  HEADER: 'Dialog',
+  MAXIMIZE: 'Maximize',
+  RESTORE: 'Restore',
+  MINIMIZE: 'Minimize'
 };
 
 Phrasebook.define('en', 'ef-dialog', translations);
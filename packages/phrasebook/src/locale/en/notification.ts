@@ -2,7 +2,8 @@ import { Phrasebook } from '../../translation.js';
 import shareTranslate from './shared.js';
 
 const translations = {
-  ...shareTranslate
+  ...shareTranslate,
+  UNDO: 'Undo'
 };
 
 Phrasebook.define('en', 'ef-notification', translations);
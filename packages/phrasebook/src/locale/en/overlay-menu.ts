@@ -0,0 +1,9 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  LOADING: 'Loading...'
+};
+
+Phrasebook.define('en', 'ef-overlay-menu', translations);
+
+export default translations;
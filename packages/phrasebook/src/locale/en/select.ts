@@ -0,0 +1,11 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  SELECTED_COUNT: '{count, plural, other {# selected}}',
+  SELECT_ALL: 'Select All',
+  CLEAR_ALL: 'Clear All'
+};
+
+Phrasebook.define('en', 'ef-select', translations);
+
+export default translations;
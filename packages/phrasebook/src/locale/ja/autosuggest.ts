@@ -2,7 +2,11 @@ import { Phrasebook } from '../../translation.js';
 
 const translations = {
   LOADING: '候補を読み込んでいます',
-  MORE_RESULTS: '<mark>{ query }</mark> のその他の検索結果'
+  MORE_RESULTS: '<mark>{ query }</mark> のその他の検索結果',
+  RECENT_SEARCHES: '最近の検索',
+  PINNED_SEARCHES: 'ピン留め',
+  GROUP_ERROR: '候補を読み込めませんでした',
+  MORE_GROUP_RESULTS: '{ group } のその他の結果'
 };
 
 Phrasebook.define('ja', 'ef-autosuggest', translations);
@@ -3,7 +3,9 @@ import './shared.js';
 
 const translations = {
   MULTIPLE_ITEMS: '複数項目',
-  NO_OPTIONS: '該当する結果はありません。'
+  LOADING: '結果を読み込んでいます',
+  NO_OPTIONS: '該当する結果はありません。',
+  LOAD_FAILED: '結果を読み込めませんでした。'
 };
 
 Phrasebook.define('ja', 'ef-combo-box', translations);
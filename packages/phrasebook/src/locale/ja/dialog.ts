@@ -3,7 +3,10 @@ import './shared.js';
 
 // deliberately empty as covered by shared
 const translations = {
-  HEADER: 'ダイアログ'
+  HEADER: 'ダイアログ',
+  MAXIMIZE: '最大化',
+  RESTORE: '元に戻す',
+  MINIMIZE: '最小化'
 };
 Phrasebook.define('ja', 'ef-dialog', translations);
 
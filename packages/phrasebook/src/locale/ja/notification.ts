@@ -2,7 +2,8 @@ import { Phrasebook } from '../../translation.js';
 import shareTranslate from './shared.js';
 
 const translations = {
-  ...shareTranslate
+  ...shareTranslate,
+  UNDO: '元に戻す'
 };
 
 Phrasebook.define('ja', 'ef-notification', translations);
@@ -0,0 +1,9 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  LOADING: '読み込んでいます...'
+};
+
+Phrasebook.define('ja', 'ef-overlay-menu', translations);
+
+export default translations;
@@ -0,0 +1,11 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  SELECTED_COUNT: '{count, plural, other {# 件選択済み}}',
+  SELECT_ALL: 'すべて選択',
+  CLEAR_ALL: '選択をすべて解除'
+};
+
+Phrasebook.define('ja', 'ef-select', translations);
+
+export default translations;
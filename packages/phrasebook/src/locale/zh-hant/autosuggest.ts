@@ -2,7 +2,11 @@ import { Phrasebook } from '../../translation.js';
 
 const translations = {
   LOADING: '正在加載推薦項目',
-  MORE_RESULTS: '更多結果關於 <mark>{ query }</mark>'
+  MORE_RESULTS: '更多結果關於 <mark>{ query }</mark>',
+  RECENT_SEARCHES: '最近搜尋',
+  PINNED_SEARCHES: '已釘選',
+  GROUP_ERROR: '無法加載推薦項目',
+  MORE_GROUP_RESULTS: '{ group } 中的更多結果'
 };
 
 Phrasebook.define('zh-Hant', 'ef-autosuggest', translations);
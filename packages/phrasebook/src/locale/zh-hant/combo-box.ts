@@ -3,7 +3,9 @@ import './shared.js';
 
 const translations = {
   MULTIPLE_ITEMS: '多項',
-  NO_OPTIONS: '未找到結果。'
+  LOADING: '正在載入結果',
+  NO_OPTIONS: '未找到結果。',
+  LOAD_FAILED: '無法載入結果。'
 };
 
 Phrasebook.define('zh-Hant', 'ef-combo-box', translations);
@@ -3,7 +3,10 @@ import './shared.js';
 
 // deliberately empty as covered by shared
 const translations = {
-  HEADER: '對話框'
+  HEADER: '對話框',
+  MAXIMIZE: '最大化',
+  RESTORE: '還原',
+  MINIMIZE: '最小化'
 };
 Phrasebook.define('zh-Hant', 'ef-dialog', translations);
 
@@ -0,0 +1,9 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  LOADING: '正在載入...'
+};
+
+Phrasebook.define('zh-Hant', 'ef-overlay-menu', translations);
+
+export default translations;
@@ -0,0 +1,11 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  SELECTED_COUNT: '{count, plural, other {已選 # 項}}',
+  SELECT_ALL: '全選',
+  CLEAR_ALL: '取消全選'
+};
+
+Phrasebook.define('zh-Hant', 'ef-select', translations);
+
+export default translations;
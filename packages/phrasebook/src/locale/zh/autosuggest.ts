@@ -2,7 +2,11 @@ import { Phrasebook } from '../../translation.js';
 
 const translations = {
   LOADING: '正在加载推荐项',
-  MORE_RESULTS: '更多结果关于 <mark>{ query }</mark>'
+  MORE_RESULTS: '更多结果关于 <mark>{ query }</mark>',
+  RECENT_SEARCHES: '最近搜索',
+  PINNED_SEARCHES: '已固定',
+  GROUP_ERROR: '无法加载推荐项',
+  MORE_GROUP_RESULTS: '{ group } 中的更多结果'
 };
 
 Phrasebook.define('zh', 'ef-autosuggest', translations);
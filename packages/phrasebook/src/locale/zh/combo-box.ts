@@ -3,7 +3,9 @@ import './shared.js';
 
 const translations = {
   MULTIPLE_ITEMS: '多项',
-  NO_OPTIONS: '未找到结果。'
+  LOADING: '正在加载结果',
+  NO_OPTIONS: '未找到结果。',
+  LOAD_FAILED: '无法加载结果。'
 };
 
 Phrasebook.define('zh', 'ef-combo-box', translations);
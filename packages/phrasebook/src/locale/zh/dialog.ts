@@ -3,7 +3,10 @@ import './shared.js';
 
 // deliberately empty as covered by shared
 const translations = {
-  HEADER: '对话框'
+  HEADER: '对话框',
+  MAXIMIZE: '最大化',
+  RESTORE: '还原',
+  MINIMIZE: '最小化'
 };
 Phrasebook.define('zh', 'ef-dialog', translations);
 
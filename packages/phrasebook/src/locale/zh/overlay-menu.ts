@@ -0,0 +1,9 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  LOADING: '正在加载...'
+};
+
+Phrasebook.define('zh', 'ef-overlay-menu', translations);
+
+export default translations;
@@ -0,0 +1,11 @@
+import { Phrasebook } from '../../translation.js';
+
+const translations = {
+  SELECTED_COUNT: '{count, plural, other {已选 # 项}}',
+  SELECT_ALL: '全选',
+  CLEAR_ALL: '取消全选'
+};
+
+Phrasebook.define('zh', 'ef-select', translations);
+
+export default translations;
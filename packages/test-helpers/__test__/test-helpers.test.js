@@ -1,4 +1,4 @@
-import { fixture, expect, keyboardEvent, oneEvent } from '../lib/test-helpers';
+import { fixture, expect, keyboardEvent, oneEvent, createStateStorage } from '../lib/test-helpers';
 
 describe('TestHelpersTest', () => {
 
@@ -48,4 +48,18 @@ describe('TestHelpersTest', () => {
     });
   });
 
+  describe('Test createStateStorage helper', () => {
+
+    it('Read and write state under the state key', () => {
+      const storage = createStateStorage({ panel: { expanded: true } });
+      expect(storage.getItem('ef-state:panel')).to.equal('{"expanded":true}', 'initial state should be saved as JSON');
+      expect(storage.read('panel')).to.deep.equal({ expanded: true }, 'initial state should be read by state key');
+      storage.setItem('ef-state:panel', '{"expanded":false}');
+      expect(storage.read('panel')).to.deep.equal({ expanded: false }, 'saved state should be read');
+      storage.removeItem('ef-state:panel');
+      expect(storage.getItem('ef-state:panel')).to.equal(null, 'removed state should not be found');
+      expect(storage.read('panel')).to.equal(null, 'removed state should be read as null');
+    });
+  });
+
 });
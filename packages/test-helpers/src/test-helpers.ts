@@ -56,3 +56,31 @@ export const keyboardEvent = (type: string, init: KeyboardEventInit = {}): Keybo
 
   return event;
 };
+
+export interface MockStateStorage {
+  getItem (key: string): string | null;
+  setItem (key: string, value: string): void;
+  removeItem (key: string): void;
+  read (stateKey: string): unknown;
+}
+
+const STATE_KEY_PREFIX = 'ef-state:'; /* matches the prefix used by persistence utils */
+
+/**
+ * Create an in-memory storage to test elements, which persist their state
+ * @param {Record<string, unknown>} state initial state of each state key
+ * @returns {MockStateStorage} storage, which can be set to `stateStorage` of elements
+ */
+export const createStateStorage = (state: Record<string, unknown> = {}): MockStateStorage => {
+  const map = new Map(Object.entries(state).map(([key, value]) => [`${STATE_KEY_PREFIX}${key}`, JSON.stringify(value)]));
+  return {
+    getItem: (key) => map.has(key) ? map.get(key) as string : null,
+    setItem: (key, value) => {
+      map.set(key, value);
+    },
+    removeItem: (key) => {
+      map.delete(key);
+    },
+    read: (stateKey) => JSON.parse(map.get(`${STATE_KEY_PREFIX}${stateKey}`) || 'null') as unknown
+  };
+};
@@ -12,12 +12,14 @@ const path = require('path');
  * @param {string} name element's path
  * @param {string} style element's path
  * @param {string} isEvent condition if need to be event method
+ * @param {string} [theme] theme name, used to switch themes at runtime
  * @returns {string} injector code
  */
-const wrap = (name, style, isEvent) => {
+const wrap = (name, style, isEvent, theme) => {
   const eventName = name.indexOf('-') > 0 ? 'custom' : 'native';
   if(isEvent) {
-    return `dispatchEvent(new CustomEvent('ef.${eventName}Styles.define', { detail: { name: '${name}', styles: '${style.replace(/'/g, '\\\'')}' }}));\n`;
+    const themeDetail = theme ? `, theme: '${theme}'` : '';
+    return `dispatchEvent(new CustomEvent('ef.${eventName}Styles.define', { detail: { name: '${name}', styles: '${style.replace(/'/g, '\\\'')}'${themeDetail} }}));\n`;
   }
   return `elf.${eventName}Styles.define('${name}', '${style.replace(/'/g, '\\\'')}');\n`;
 }
@@ -74,7 +76,7 @@ const generateJsInfo = (name, css, dependencies, variables) => {
   .map(dep => `import './${dep}.js';`).join('\n') + '\n';
   return {
     importString,
-    injectorString: wrap(name, css.replace(/([^\\])\\([^\\])/g, '$1\\\\$2'), variables.registration === 'event')
+    injectorString: wrap(name, css.replace(/([^\\])\\([^\\])/g, '$1\\\\$2'), variables.registration === 'event', variables.theme)
   };
 };
 
@@ -94,6 +94,34 @@ const translatePromise = (scope: string, locale: string, key: string, options?:
  */
 const getLocale = (element: HTMLElement): string => element.lang || LangAttributeObserver.documentLang || navigator.language;
 
+/**
+ * Observe locale changes of the element.
+ * The element is updated with `lang` property key and the old locale,
+ * so locale dependent values can be refreshed on update.
+ * Call `disconnectLocale` when the element is disconnected
+ * @param element ELF Basic Element
+ * @returns {void}
+ */
+const observeLocale = (element: BasicElement): void => {
+  let locale = getLocale(element);
+  LangAttributeObserver.observe(element, () => {
+    const oldLocale = locale;
+    locale = getLocale(element);
+    if (oldLocale !== locale) {
+      element.requestUpdate('lang', oldLocale);
+    }
+  });
+};
+
+/**
+ * Stop observing locale changes of the element
+ * @param element ELF Basic Element
+ * @returns {void}
+ */
+const disconnectLocale = (element: BasicElement): void => {
+  LangAttributeObserver.disconnect(element);
+};
+
 /**
  * Start observing translations.
  * This step is required when translations are loaded or the `lang` has been
@@ -194,6 +222,8 @@ export {
   translate,
   TranslatePropertyKey,
   getLocale,
+  observeLocale,
+  disconnectLocale,
   Translate,
   TranslatePromise,
   TranslateDirective,
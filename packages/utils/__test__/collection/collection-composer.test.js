@@ -0,0 +1,66 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
+
+const createData = () => [
+  { label: 'Fruit', items: [{ label: 'Apple' }] },
+  { label: 'Drink' }
+];
+
+describe('CollectionComposer', () => {
+  describe('addItem', () => {
+    it('Should resolve parent of items added to a parent', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      const pear = { label: 'Pear' };
+      const tea = { label: 'Tea' };
+      const green = { label: 'Green' };
+      composer.addItem(pear, data[0]);
+      composer.addItem(tea, data[1]);
+      composer.addItem(green, tea);
+
+      expect(composer.getItemParent(pear)).to.equal(data[0]);
+      expect(composer.getItemParent(tea)).to.equal(data[1]);
+      expect(composer.getItemParent(green)).to.equal(tea);
+      expect(composer.getItemAncestors(green)).to.deep.equal([data[1], tea]);
+      expect(composer.getItemChildren(data[0]).map(item => item.label)).to.deep.equal(['Apple', 'Pear']);
+      expect(data[0].items.length).to.equal(1, 'Data should not be modified');
+    });
+
+    it('Should not resolve parent of top level items', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      const item = { label: 'Snack' };
+      composer.addItem(item, 0);
+      expect(composer.getItemParent(item)).to.equal(null);
+      expect(composer.getItemParent({ label: 'Unknown' })).to.equal(null);
+    });
+
+    it('Should not add nested items of the added item', () => {
+      const composer = new CollectionComposer(createData());
+      const item = { label: 'Snack', items: [{ label: 'Chips' }] };
+      composer.addItem(item);
+      expect(composer.getItemChildren(item).length).to.equal(0);
+      expect(composer.size).to.equal(4);
+    });
+  });
+
+  describe('getItemIndex', () => {
+    it('Should return index within the parent collection in the original order', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      const pear = { label: 'Pear' };
+      composer.addItem(pear, data[0]);
+      composer.setSort({ property: 'label' });
+
+      expect(composer.getItemIndex(data[0])).to.equal(0);
+      expect(composer.getItemIndex(data[1])).to.equal(1);
+      expect(composer.getItemIndex(pear)).to.equal(1);
+      expect(composer.getItemIndex({ label: 'Unknown' })).to.equal(-1);
+
+      const grape = { label: 'Grape' };
+      composer.addItem(grape, data[0], composer.getItemIndex(pear));
+      expect(composer.getItemChildren(data[0]).map(item => item.label)).to.deep.equal(['Apple', 'Grape', 'Pear']);
+      expect(composer.getItemIndex(pear)).to.equal(2);
+    });
+  });
+});
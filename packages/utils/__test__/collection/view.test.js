@@ -0,0 +1,143 @@
+import { expect, nextFrame } from '@refinitiv-ui/test-helpers';
+import { CollectionComposer } from '@refinitiv-ui/utils/collection.js';
+
+const createData = () => [
+  { label: 'Beer', type: 'drink', price: 5 },
+  { label: 'Tea', type: 'drink', price: 2, items: [{ label: 'Green' }, { label: 'Black' }] },
+  { label: 'Vanilla', type: 'dessert', price: 3 },
+  { label: 'Apple', type: 'fruit' }
+];
+
+const labels = (composer) => composer.queryItems(() => true, Infinity).map(item => item.label);
+
+describe('CollectionComposer views', () => {
+  describe('setSort', () => {
+    it('Should sort siblings at every depth without modifying data', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setSort({ property: 'label' });
+      expect(labels(composer)).to.deep.equal(['Apple', 'Beer', 'Tea', 'Black', 'Green', 'Vanilla']);
+      expect(data.map(item => item.label)).to.deep.equal(['Beer', 'Tea', 'Vanilla', 'Apple']);
+      expect(composer.getItemChildren(data[1]).map(item => item.label)).to.deep.equal(['Black', 'Green']);
+    });
+
+    it('Should place empty values last in both directions', () => {
+      const composer = new CollectionComposer(createData());
+      composer.setSort({ property: 'price' });
+      expect(labels(composer)).to.deep.equal(['Tea', 'Green', 'Black', 'Vanilla', 'Beer', 'Apple']);
+      composer.setSort({ property: 'price', direction: 'descending' });
+      expect(labels(composer)).to.deep.equal(['Beer', 'Vanilla', 'Tea', 'Green', 'Black', 'Apple']);
+    });
+
+    it('Should support multiple keys, value functions and depth', () => {
+      const composer = new CollectionComposer(createData());
+      composer.setSort([
+        { property: 'type' },
+        { value: item => item.label.length, direction: 'descending', depth: 0 }
+      ]);
+      expect(labels(composer)).to.deep.equal(['Vanilla', 'Beer', 'Tea', 'Green', 'Black', 'Apple']);
+    });
+
+    it('Should use modified property values and restore original order', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setSort({ property: 'label' });
+      composer.setItemPropertyValue(data[0], 'label', 'Zinfandel');
+      expect(composer.queryItems(() => true)[3]).to.equal(data[0]);
+      expect(data[0].label).to.equal('Beer', 'Original data should not change');
+      composer.setSort(null);
+      expect(composer.queryItems(() => true)).to.deep.equal(data);
+    });
+
+    it('Should only rebuild the view when the sort key or structure changes', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setSort({ property: 'label' });
+      const view = composer.view;
+      composer.setItemPropertyValue(data[0], 'selected', true);
+      composer.updateItemTimestamp(data[1]);
+      expect(composer.view).to.equal(view, 'View should be kept');
+      composer.setItemPropertyValue(data[0], 'label', 'Zinfandel');
+      expect(composer.view).to.not.equal(view, 'View should be rebuilt on sort key change');
+      const sortedView = composer.view;
+      composer.addItem({ label: 'Cider' });
+      expect(composer.view).to.not.equal(sortedView, 'View should be rebuilt on structure change');
+    });
+
+    it('Should emit a modification event', async () => {
+      const composer = new CollectionComposer(createData());
+      let count = 0;
+      composer.on('modification', () => { count += 1; });
+      composer.setSort({ property: 'label' });
+      await nextFrame();
+      expect(count).to.equal(1);
+    });
+
+    it('Should describe modifications in the event data', async () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setSort({ property: 'label' });
+      await nextFrame();
+
+      const events = [];
+      composer.on('modification', event => events.push(event));
+      composer.setItemPropertyValue(data[0], 'selected', true);
+      await nextFrame();
+      composer.setItemPropertyValue(data[0], 'label', 'Zinfandel');
+      await nextFrame();
+
+      expect(events.length).to.equal(2);
+      expect([...events[0].properties]).to.deep.equal(['selected']);
+      expect(events[0].viewChanged).to.equal(false, 'Selection should not change the view');
+      expect([...events[1].properties]).to.deep.equal(['label']);
+      expect(events[1].viewChanged).to.equal(true, 'Sort key change should change the view');
+    });
+  });
+
+  describe('setGroup', () => {
+    const header = group => ({ type: 'header', label: group.toUpperCase() });
+
+    it('Should insert group headers in order of the first item', () => {
+      const composer = new CollectionComposer(createData());
+      composer.setGroup({ property: 'type', header });
+      expect(labels(composer)).to.deep.equal(['DRINK', 'Beer', 'Tea', 'Green', 'Black', 'DESSERT', 'Vanilla', 'FRUIT', 'Apple']);
+      composer.setSort({ property: 'type' });
+      expect(labels(composer)).to.deep.equal(['DESSERT', 'Vanilla', 'DRINK', 'Beer', 'Tea', 'Green', 'Black', 'FRUIT', 'Apple']);
+    });
+
+    it('Should nest items under headers', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setGroup({ property: 'type', header, nested: true });
+      const drinks = composer.getItemParent(data[0]);
+      expect(drinks.label).to.equal('DRINK');
+      expect(composer.isItemGroupHeader(drinks)).to.equal(true);
+      expect(composer.getItemChildren(drinks)).to.deep.equal([data[0], data[1]]);
+      expect(composer.getItemDepth(data[1].items[0])).to.equal(2);
+    });
+
+    it('Should keep header items and move items between groups', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setGroup({ property: 'type', header });
+      const drinks = composer.queryItems(() => true)[0];
+      composer.setItemPropertyValue(drinks, 'expanded', true);
+      composer.setItemPropertyValue(data[2], 'type', 'drink');
+      expect(composer.queryItems(() => true)[0]).to.equal(drinks);
+      expect(composer.getItemPropertyValue(drinks, 'expanded')).to.equal(true);
+      expect(labels(composer)).to.deep.equal(['DRINK', 'Beer', 'Tea', 'Green', 'Black', 'Vanilla', 'FRUIT', 'Apple']);
+    });
+
+    it('Should add and remove items in the original collection', () => {
+      const data = createData();
+      const composer = new CollectionComposer(data);
+      composer.setGroup({ property: 'type', header });
+      composer.addItem({ label: 'Cola', type: 'drink' }, 0);
+      composer.removeItem(data[1]);
+      expect(labels(composer)).to.deep.equal(['DRINK', 'Cola', 'Beer', 'DESSERT', 'Vanilla', 'FRUIT', 'Apple']);
+      composer.setGroup(null);
+      expect(labels(composer)).to.deep.equal(['Cola', 'Beer', 'Vanilla', 'Apple']);
+      expect(composer.isItemGroupHeader(header('drink'))).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import { existsInTimezone, addUnit, iterateUnit, format, parse } from '@refinitiv-ui/utils/date.js';
+
+const NEW_YORK = 'America/New_York';
+
+describe('Date/Shared', () => {
+  describe('format and parse', () => {
+    it('Should format and parse wall clock time of the timezone', () => {
+      const date = parse('2021-07-01T08:30', NEW_YORK);
+      expect(date.getTime()).to.equal(Date.UTC(2021, 6, 1, 12, 30));
+      expect(format(date, 'yyyy-MM-dd\'T\'HH:mm', NEW_YORK)).to.equal('2021-07-01T08:30');
+    });
+  });
+
+  describe('existsInTimezone', () => {
+    it('Should return false for time skipped by daylight saving gap', () => {
+      expect(existsInTimezone('2021-03-14T02:30', NEW_YORK)).to.equal(false);
+      expect(existsInTimezone('2021-03-14T01:59:59', NEW_YORK)).to.equal(true);
+      expect(existsInTimezone('2021-03-14T03:00', NEW_YORK)).to.equal(true);
+    });
+
+    it('Should return true for time repeated by daylight saving overlap', () => {
+      expect(existsInTimezone('2021-11-07T01:30', NEW_YORK)).to.equal(true);
+    });
+
+    it('Should return true for dates and times', () => {
+      expect(existsInTimezone('2021-03-14', NEW_YORK)).to.equal(true);
+      expect(existsInTimezone('02:30', NEW_YORK)).to.equal(true);
+    });
+
+    it('Should return false for invalid value', () => {
+      expect(existsInTimezone('invalid', NEW_YORK)).to.equal(false);
+    });
+  });
+
+  describe('addUnit', () => {
+    it('Should add time units to the point in time across daylight saving gap', () => {
+      expect(addUnit('2021-03-14T01:30', 'hour', 1)).to.equal('2021-03-14T02:30');
+      expect(addUnit('2021-03-14T01:30', 'hour', 1, NEW_YORK)).to.equal('2021-03-14T03:30');
+      expect(addUnit('2021-03-14T03:30', 'minute', -60, NEW_YORK)).to.equal('2021-03-14T01:30');
+    });
+
+    it('Should add time units to the point in time across daylight saving overlap', () => {
+      // 01:30 happens twice, the second time is an hour later
+      expect(addUnit('2021-11-07T01:30', 'hour', 1, NEW_YORK)).to.equal('2021-11-07T01:30');
+      expect(addUnit('2021-11-07T01:30', 'hour', 2, NEW_YORK)).to.equal('2021-11-07T02:30');
+    });
+
+    it('Should add calendar units to the wall clock time', () => {
+      expect(addUnit('2021-11-06T12:00', 'day', 1, NEW_YORK)).to.equal('2021-11-07T12:00');
+      expect(addUnit('2021-03-13T02:30', 'day', 1, NEW_YORK)).to.equal('2021-03-14T03:30', 'Skipped time should be moved forward');
+      expect(addUnit('2021-01-31', 'month', 1, NEW_YORK)).to.equal('2021-02-28');
+    });
+
+    it('Should throw for invalid value', () => {
+      expect(() => addUnit('invalid', 'hour', 1, NEW_YORK)).to.throw();
+    });
+  });
+
+  describe('iterateUnit', () => {
+    it('Should skip time, which does not exist in the timezone', () => {
+      expect(iterateUnit('2021-03-14T01:30', 'hour', 1)).to.equal('2021-03-14T02:30');
+      expect(iterateUnit('2021-03-14T01:30', 'hour', 1, NEW_YORK)).to.equal('2021-03-14T03:30');
+      expect(iterateUnit('2021-03-14T03:30', 'hour', -1, NEW_YORK)).to.equal('2021-03-14T01:30');
+      expect(iterateUnit('2021-03-13T02:30', 'day', 1, NEW_YORK)).to.equal('2021-03-15T02:30');
+    });
+
+    it('Should not affect other units', () => {
+      expect(iterateUnit('2021-11-07T23:30', 'hour', 1, NEW_YORK)).to.equal('2021-11-07T00:30');
+      expect(iterateUnit('2021-11-07T01:30', 'minute', 45, NEW_YORK)).to.equal('2021-11-07T01:15');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import {
+  isValidTimezone,
+  getTimezoneOffset,
+  toZonedTime,
+  fromZonedTime,
+  Locale
+} from '@refinitiv-ui/utils/date.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Date/Timezone', () => {
+  describe('isValidTimezone', () => {
+    it('Should accept IANA timezone names', () => {
+      expect(isValidTimezone('UTC')).to.equal(true);
+      expect(isValidTimezone('Europe/London')).to.equal(true);
+      expect(isValidTimezone('America/New_York')).to.equal(true);
+    });
+
+    it('Should reject empty and unknown timezones', () => {
+      expect(isValidTimezone('')).to.equal(false);
+      expect(isValidTimezone('Invalid/Timezone')).to.equal(false);
+      expect(isValidTimezone('GMT+25')).to.equal(false);
+    });
+  });
+
+  describe('getTimezoneOffset', () => {
+    it('Should take daylight saving time into account', () => {
+      expect(getTimezoneOffset(Date.UTC(2021, 0, 1), 'America/New_York')).to.equal(-5 * HOUR);
+      expect(getTimezoneOffset(Date.UTC(2021, 6, 1), 'America/New_York')).to.equal(-4 * HOUR);
+      expect(getTimezoneOffset(new Date(Date.UTC(2021, 6, 1)), 'Europe/London')).to.equal(HOUR);
+    });
+
+    it('Should support offsets, which are not whole hours', () => {
+      expect(getTimezoneOffset(Date.UTC(2021, 0, 1), 'Asia/Kolkata')).to.equal(5.5 * HOUR);
+    });
+
+    it('Should support dates before year 1', () => {
+      const date = new Date(0);
+      date.setUTCFullYear(-1, 6, 1);
+      expect(getTimezoneOffset(date, 'UTC')).to.equal(0);
+    });
+
+    it('Should return NaN for invalid date', () => {
+      expect(getTimezoneOffset(new Date(NaN), 'UTC')).to.be.NaN;
+    });
+  });
+
+  describe('toZonedTime', () => {
+    it('Should convert point in time into wall clock time', () => {
+      const date = toZonedTime(Date.UTC(2021, 6, 1, 12, 30), 'America/New_York');
+      expect(date.getUTCHours()).to.equal(8);
+      expect(date.getUTCMinutes()).to.equal(30);
+    });
+  });
+
+  describe('fromZonedTime', () => {
+    it('Should convert wall clock time into point in time', () => {
+      const date = fromZonedTime(new Date(Date.UTC(2021, 6, 1, 8, 30)), 'America/New_York');
+      expect(date.getTime()).to.equal(Date.UTC(2021, 6, 1, 12, 30));
+    });
+
+    it('Should move time skipped by daylight saving gap forward', () => {
+      // Clocks go forward from 02:00 to 03:00
+      const date = fromZonedTime(new Date(Date.UTC(2021, 2, 14, 2, 30)), 'America/New_York');
+      expect(date.getTime()).to.equal(Date.UTC(2021, 2, 14, 7, 30));
+      expect(toZonedTime(date, 'America/New_York').getUTCHours()).to.equal(3);
+    });
+
+    it('Should resolve time repeated by daylight saving overlap to the earlier point in time', () => {
+      // Clocks go back from 02:00 to 01:00
+      const date = fromZonedTime(new Date(Date.UTC(2021, 10, 7, 1, 30)), 'America/New_York');
+      expect(date.getTime()).to.equal(Date.UTC(2021, 10, 7, 5, 30));
+    });
+
+    it('Should keep invalid date', () => {
+      expect(fromZonedTime(new Date(NaN), 'America/New_York').getTime()).to.be.NaN;
+    });
+  });
+
+  describe('Locale', () => {
+    it('Should format value as wall clock time of the timezone', () => {
+      const locale = Locale.fromOptions({ timeZone: 'Asia/Kolkata', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US');
+      expect(locale.format('2021-01-01T10:15')).to.equal('10:15');
+      expect(locale.format(Date.UTC(2021, 0, 1, 10, 15))).to.equal('15:45');
+    });
+
+    it('Should parse value into wall clock time of the timezone', () => {
+      const locale = Locale.fromOptions({ timeZone: 'America/New_York', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US');
+      expect(locale.parse(locale.format('2021-11-07T01:30'))).to.equal('2021-11-07T01:30');
+      expect(locale.format('2021-03-14T02:30')).to.equal('03/14/2021, 03:30', 'Skipped time should be moved forward');
+    });
+
+    it('Should default to UTC and throw for invalid timezone', () => {
+      expect(Locale.fromOptions({}, 'en-US').timeZone).to.equal('UTC');
+      expect(() => Locale.fromOptions({ timeZone: 'Invalid/Timezone' }, 'en-US')).to.throw(RangeError);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import { fold, match, createMatcher, highlight, splitByRanges, escapeHTML } from '@refinitiv-ui/utils/matching.js';
+
+describe('Matching', () => {
+  describe('fold', () => {
+    it('Should remove case and diacritics', () => {
+      expect(fold('Société Générale')).to.equal('societe generale');
+      expect(fold('Łódź Ørsted')).to.equal('lodz orsted');
+      expect(fold('ÀÉÎÕÜ')).to.equal('aeiou');
+    });
+
+    it('Should keep the length of the text', () => {
+      ['Straße', 'İstanbul', 'Æbleskiver', '株式会社'].forEach((text) => {
+        expect(fold(text).length).to.equal(text.length, text);
+      });
+    });
+  });
+
+  describe('match', () => {
+    it('Should match regardless of case and diacritics', () => {
+      expect(match('Société Générale', 'societe generale').ranges).to.deep.equal([[0, 16]]);
+      expect(match('societe generale', 'SOCIÉTÉ')).to.not.equal(null);
+    });
+
+    it('Should match each query word at the start of a word', () => {
+      expect(match('Microsoft Corporation', 'msft corp').ranges).to.deep.equal([[0, 1], [5, 6], [7, 9], [10, 14]]);
+      expect(match('Société Générale', 'soc gen').ranges).to.deep.equal([[0, 3], [8, 11]]);
+      expect(match('Microsoft Corporation', 'corp msft')).to.equal(null, 'Words should be matched in order');
+      expect(match('Microsoft Corporation', 'icro orat')).to.equal(null, 'Words should be matched from the start');
+    });
+
+    it('Should match fuzzy only when enabled', () => {
+      expect(match('Microsoft', 'icrsft')).to.equal(null);
+      expect(match('Microsoft', 'icrsft', { fuzzy: true }).ranges).to.deep.equal([[1, 4], [5, 6], [7, 9]]);
+    });
+
+    it('Should not match text without query characters', () => {
+      expect(match('Apple', 'pear')).to.equal(null);
+      expect(match('', 'a')).to.equal(null);
+    });
+
+    it('Should match any text when query is empty', () => {
+      expect(match('Apple', '')).to.deep.equal({ score: 0, ranges: [] });
+      expect(match('Apple', '   ')).to.deep.equal({ score: 0, ranges: [] });
+    });
+
+    it('Should rank matches by relevance', () => {
+      const matcher = createMatcher('gen', { fuzzy: true });
+      const texts = ['Oxygen', 'General', 'Gen', 'Société Générale', 'Green Energy', 'Big Regency Genetics'];
+      const ranked = texts
+        .map(text => ({ text, result: matcher(text) }))
+        .filter(({ result }) => result)
+        .sort((a, b) => b.result.score - a.result.score)
+        .map(({ text }) => text);
+      expect(ranked).to.deep.equal(['Gen', 'General', 'Société Générale', 'Big Regency Genetics', 'Oxygen', 'Green Energy']);
+    });
+
+    it('Should prefer the start of a word over the first occurrence', () => {
+      expect(match('Regency Genetics', 'gen').ranges).to.deep.equal([[8, 11]]);
+    });
+  });
+
+  describe('highlight', () => {
+    it('Should split text by ranges', () => {
+      expect(splitByRanges('Microsoft', [[0, 1], [5, 6]])).to.deep.equal([
+        { text: 'M', matched: true },
+        { text: 'icro', matched: false },
+        { text: 's', matched: true },
+        { text: 'oft', matched: false }
+      ]);
+    });
+
+    it('Should wrap matched characters', () => {
+      const text = 'Société Générale';
+      expect(highlight(text, match(text, 'generale').ranges)).to.equal('Société <mark>Générale</mark>');
+      expect(highlight(text, [[0, 3]], '<b>$1</b>')).to.equal('<b>Soc</b>iété Générale');
+      expect(highlight(text, [])).to.equal(text);
+    });
+
+    it('Should escape the text', () => {
+      expect(escapeHTML('<a href="#">Tom & Jerry\'s</a>')).to.equal('&lt;a href=&quot;#&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+      expect(highlight('<img src=x onerror=alert(1)>', [[1, 4]])).to.equal('&lt;<mark>img</mark> src=x onerror=alert(1)&gt;');
+      expect(highlight('A & B', [[4, 5]], '<b>$1</b>')).to.equal('A &amp; <b>B</b>');
+    });
+  });
+});
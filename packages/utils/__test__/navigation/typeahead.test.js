@@ -0,0 +1,101 @@
+import { expect, aTimeout } from '@refinitiv-ui/test-helpers';
+import { Typeahead } from '@refinitiv-ui/utils/navigation.js';
+
+const items = ['Georgia', 'Germany', 'Ghana', 'Åland Islands', '  Zürich'];
+const getLabel = (item) => item;
+
+/**
+ * Type the keys, moving to each found item like list and select do
+ * @param typeahead Typeahead
+ * @param keys Keys to type
+ * @param [current] Item to start from
+ * @returns last found item
+ */
+const type = (typeahead, keys, current) => {
+  for (const key of keys) {
+    current = typeahead.search(key, items, current, getLabel) || current;
+  }
+  return current;
+};
+
+describe('Typeahead', () => {
+  describe('search', () => {
+    it('Should buffer typed keys', () => {
+      const typeahead = new Typeahead();
+      expect(type(typeahead, 'g')).to.equal('Georgia');
+      expect(type(typeahead, 'er', 'Georgia')).to.equal('Germany', 'Continued search should find longer term');
+    });
+
+    it('Should start a new search after the current item', () => {
+      const typeahead = new Typeahead();
+      expect(typeahead.search('g', items, 'Georgia', getLabel)).to.equal('Germany');
+    });
+
+    it('Should cycle through items when the same key is repeated', () => {
+      const typeahead = new Typeahead();
+      expect(type(typeahead, 'g')).to.equal('Georgia');
+      expect(type(typeahead, 'g', 'Georgia')).to.equal('Germany');
+      expect(type(typeahead, 'g', 'Germany')).to.equal('Ghana');
+      expect(type(typeahead, 'g', 'Ghana')).to.equal('Georgia', 'Cycling should wrap to the first item');
+    });
+
+    it('Should ignore case, diacritics and leading spaces', () => {
+      const typeahead = new Typeahead();
+      expect(type(typeahead, 'A')).to.equal('Åland Islands');
+      typeahead.reset();
+      expect(type(typeahead, 'zu')).to.equal('  Zürich');
+      typeahead.reset();
+      expect(typeahead.search('Å', items, undefined, getLabel)).to.equal('Åland Islands');
+    });
+
+    it('Should return undefined if there is no match', () => {
+      const typeahead = new Typeahead();
+      expect(typeahead.search('x', items, 'Georgia', getLabel)).to.equal(undefined);
+      expect(typeahead.search('g', [], undefined, getLabel)).to.equal(undefined);
+    });
+  });
+
+  describe('buffer', () => {
+    it('Should be active while typing and cleared on reset', () => {
+      const typeahead = new Typeahead();
+      expect(typeahead.active).to.equal(false);
+      typeahead.search('g', items, undefined, getLabel);
+      expect(typeahead.active).to.equal(true);
+      typeahead.reset();
+      expect(typeahead.active).to.equal(false);
+      expect(typeahead.search('h', items, undefined, getLabel)).to.equal(undefined, 'Reset should start a new search');
+    });
+
+    it('Should be cleared after the timeout', async () => {
+      const typeahead = new Typeahead(20);
+      expect(type(typeahead, 'g')).to.equal('Georgia');
+      await aTimeout(50);
+      expect(typeahead.active).to.equal(false);
+      expect(typeahead.search('h', items, 'Georgia', getLabel)).to.equal(undefined, 'Key after the timeout should start a new search');
+    });
+
+    it('Should keep the buffer while typing within the timeout', async () => {
+      const typeahead = new Typeahead(50);
+      type(typeahead, 'g');
+      await aTimeout(20);
+      type(typeahead, 'e', 'Georgia');
+      await aTimeout(20);
+      expect(type(typeahead, 'r', 'Georgia')).to.equal('Germany');
+    });
+  });
+
+  describe('isTypeaheadKey', () => {
+    it('Should accept printable keys without modifiers', () => {
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'a' }))).to.equal(true);
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: ' ' }))).to.equal(true);
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'ä', shiftKey: true }))).to.equal(true);
+    });
+
+    it('Should reject action keys and shortcuts', () => {
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'ArrowDown' }))).to.equal(false);
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'a', ctrlKey: true }))).to.equal(false);
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'a', altKey: true }))).to.equal(false);
+      expect(Typeahead.isTypeaheadKey(new KeyboardEvent('keydown', { key: 'a', metaKey: true }))).to.equal(false);
+    });
+  });
+});
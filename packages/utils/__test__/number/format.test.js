@@ -0,0 +1,24 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import { resolveNumberLocale, getNumberFormatter } from '@refinitiv-ui/utils/number.js';
+
+describe('Number', () => {
+  describe('resolveNumberLocale', () => {
+    it('Should return supported locale', () => {
+      expect(resolveNumberLocale('de')).to.equal('de');
+    });
+
+    it('Should fall back to the default locale for invalid tags', () => {
+      const defaultLocale = new Intl.NumberFormat().resolvedOptions().locale;
+      expect(resolveNumberLocale('%invalid%')).to.equal(defaultLocale);
+    });
+  });
+
+  describe('getNumberFormatter', () => {
+    it('Should cache formatters by locale and options', () => {
+      const formatter = getNumberFormatter('de', { style: 'percent' });
+      expect(getNumberFormatter('de', { style: 'percent' })).to.equal(formatter);
+      expect(getNumberFormatter('en', { style: 'percent' })).to.not.equal(formatter);
+      expect(formatter.format(0.25)).to.equal('25 %');
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { expect, createStateStorage } from '@refinitiv-ui/test-helpers';
+import { PersistedStateController } from '@refinitiv-ui/utils/persistence.js';
+
+describe('PersistedStateController', () => {
+  it('Should restore properties of the expected type', () => {
+    const host = { stateKey: 'panel', stateStorage: createStateStorage({ panel: { expanded: true, width: 10 } }), expanded: false, width: '' };
+    const controller = new PersistedStateController(host, { expanded: 'boolean', width: 'string' });
+    controller.update(new Map([['stateKey', null]]));
+    expect(host.expanded).to.equal(true);
+    expect(host.width).to.equal('', 'Malformed data should be ignored');
+  });
+
+  it('Should save changed properties only', () => {
+    const storage = createStateStorage({ panel: { width: '10px' } });
+    const host = { stateKey: 'panel', stateStorage: storage, expanded: true, width: '20px' };
+    const controller = new PersistedStateController(host, { expanded: 'boolean', width: 'string' });
+    controller.update(new Map([['expanded', false], ['width', '10px']]), ['expanded']);
+    expect(storage.read('panel')).to.deep.equal({ expanded: true, width: '10px' });
+    controller.save('width');
+    expect(storage.read('panel')).to.deep.equal({ expanded: true, width: '20px' });
+  });
+
+  it('Should not save without state key', () => {
+    const storage = createStateStorage();
+    const host = { stateKey: null, stateStorage: storage, expanded: true };
+    new PersistedStateController(host, { expanded: 'boolean' }).save();
+    expect(storage.read('null')).to.equal(null);
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import {
+  setDefaultStateStorage,
+  getDefaultStateStorage,
+  readState,
+  writeState,
+  clearState
+} from '@refinitiv-ui/utils/persistence.js';
+
+const createStorage = () => {
+  const map = new Map();
+  return {
+    map,
+    getItem: (key) => map.has(key) ? map.get(key) : null,
+    setItem: (key, value) => map.set(key, value),
+    removeItem: (key) => map.delete(key)
+  };
+};
+
+describe('Persistence', () => {
+  afterEach(() => {
+    setDefaultStateStorage(undefined);
+  });
+
+  it('Should use localStorage by default', () => {
+    expect(getDefaultStateStorage()).to.equal(window.localStorage);
+  });
+
+  it('Should merge saved properties', () => {
+    const storage = createStorage();
+    writeState('layout', { collapsed: true }, storage);
+    writeState('layout', { sidebarWidth: '200px' }, storage);
+    expect(readState('layout', storage)).to.deep.equal({ collapsed: true, sidebarWidth: '200px' });
+    expect(storage.map.has('ef-state:layout')).to.equal(true, 'Key should be prefixed');
+  });
+
+  it('Should ignore malformed state', () => {
+    const storage = createStorage();
+    storage.setItem('ef-state:broken', '{');
+    storage.setItem('ef-state:array', '[1]');
+    expect(readState('broken', storage)).to.equal(null);
+    expect(readState('array', storage)).to.equal(null);
+    expect(readState('missing', storage)).to.equal(null);
+  });
+
+  it('Should clear state', () => {
+    const storage = createStorage();
+    writeState('panel', { expanded: true }, storage);
+    clearState('panel', storage);
+    expect(readState('panel', storage)).to.equal(null);
+  });
+
+  it('Should use default storage adapter', () => {
+    const storage = createStorage();
+    setDefaultStateStorage(storage);
+    writeState('panel', { expanded: false });
+    expect(readState('panel')).to.deep.equal({ expanded: false });
+
+    setDefaultStateStorage(null);
+    writeState('panel', { expanded: true });
+    expect(readState('panel')).to.equal(null, 'Persistence should be disabled');
+    expect(readState('panel', storage)).to.deep.equal({ expanded: false });
+  });
+
+  it('Should not throw when storage is full', () => {
+    const storage = createStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    expect(() => writeState('panel', { expanded: true }, storage)).not.to.throw();
+  });
+});
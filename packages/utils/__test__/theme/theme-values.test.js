@@ -0,0 +1,20 @@
+import { expect } from '@refinitiv-ui/test-helpers';
+import { replaceThemeValues } from '@refinitiv-ui/utils/theme.js';
+
+describe('Theme', () => {
+  describe('replaceThemeValues', () => {
+    it('Should replace values of the previous theme recursively', () => {
+      const previous = new Map([['--color', '#fff'], ['--grid', '#eee']]);
+      const current = new Map([['--color', '#000'], ['--grid', '#eee']]);
+      const internal = { color: '#fff' };
+      const config = { color: '#fff', custom: 'red', scales: [{ color: '#fff', grid: '#eee' }], _chart: internal };
+      config.self = config;
+
+      replaceThemeValues(config, previous, current);
+      expect(config.color).to.equal('#000');
+      expect(config.custom).to.equal('red', 'Custom values should be kept');
+      expect(config.scales[0]).to.deep.equal({ color: '#000', grid: '#eee' });
+      expect(internal.color).to.equal('#fff', 'Private keys should be skipped');
+    });
+  });
+});
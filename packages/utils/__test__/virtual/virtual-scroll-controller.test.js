@@ -0,0 +1,97 @@
+import { fixture, expect, nextFrame } from '@refinitiv-ui/test-helpers';
+import { VirtualScrollController } from '@refinitiv-ui/utils/virtual.js';
+
+const createHost = async () => {
+  const host = await fixture('<div style="height: 100px; overflow-y: auto;"><div style="height: 1000px;"></div></div>');
+  host.virtual = true;
+  host.updates = 0;
+  host.requestUpdate = () => { host.updates += 1; };
+  return host;
+};
+
+describe('VirtualScrollController', () => {
+  it('Should render a small range until the item height is measured', async () => {
+    const host = await createHost();
+    let height = 0;
+    const controller = new VirtualScrollController(host, { measure: () => height, overscan: 2 });
+
+    expect(controller.getRange(100)).to.deep.equal({ start: 0, end: 4, paddingTop: 0, paddingBottom: 0 });
+    expect(controller.measure()).to.equal(false, 'Zero height should not be recorded');
+
+    height = 10;
+    expect(controller.measure()).to.equal(true);
+    expect(controller.itemHeight).to.equal(10);
+    expect(controller.measure()).to.equal(false, 'Height should be measured once');
+  });
+
+  it('Should calculate the range around the visible area', async () => {
+    const host = await createHost();
+    const controller = new VirtualScrollController(host, { measure: () => 10, offset: () => 20, overscan: 2 });
+    controller.measure();
+    host.scrollTop = 500;
+
+    expect(controller.getRange(100)).to.deep.equal({ start: 48, end: 60, paddingTop: 480, paddingBottom: 400 });
+    expect(controller.getRange(55)).to.deep.equal({ start: 48, end: 55, paddingTop: 480, paddingBottom: 0 });
+  });
+
+  it('Should measure again after reset', async () => {
+    const host = await createHost();
+    let height = 10;
+    const controller = new VirtualScrollController(host, { measure: () => height });
+    controller.measure();
+    height = 20;
+    controller.reset();
+    expect(controller.itemHeight).to.equal(0);
+    controller.measure();
+    expect(controller.itemHeight).to.equal(20);
+  });
+
+  it('Should request an update on scroll while connected', async () => {
+    const host = await createHost();
+    const controller = new VirtualScrollController(host, { measure: () => 10 });
+    controller.connect();
+    await nextFrame();
+    await nextFrame();
+    const updates = host.updates;
+    host.dispatchEvent(new Event('scroll'));
+    await nextFrame();
+    expect(host.updates).to.equal(updates + 1);
+
+    controller.disconnect();
+    host.dispatchEvent(new Event('scroll'));
+    await nextFrame();
+    expect(host.updates).to.equal(updates + 1);
+  });
+
+  it('Should measure again when the host is shown', async () => {
+    const host = await createHost();
+    host.style.display = 'none';
+    let height = 0;
+    const controller = new VirtualScrollController(host, { measure: () => height });
+    controller.connect();
+    controller.measure();
+    expect(controller.itemHeight).to.equal(0);
+
+    height = 10;
+    host.style.display = '';
+    await nextFrame();
+    await nextFrame();
+    expect(host.updates).to.be.above(0, 'Resize should request an update');
+    expect(controller.measure()).to.equal(true);
+    expect(controller.itemHeight).to.equal(10);
+    controller.disconnect();
+  });
+
+  it('Should cancel scheduled updates on disconnect', async () => {
+    const host = await createHost();
+    const controller = new VirtualScrollController(host, { measure: () => 10 });
+    controller.connect();
+    await nextFrame();
+    await nextFrame();
+    const updates = host.updates;
+    host.dispatchEvent(new Event('scroll'));
+    controller.disconnect();
+    await nextFrame();
+    expect(host.updates).to.equal(updates);
+  });
+});
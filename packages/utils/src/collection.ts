@@ -1,3 +1,10 @@
-export { CollectionComposer } from './collection/collection-composer.js';
+export { CollectionComposer, CollectionModification } from './collection/collection-composer.js';
 export { CollectionItem } from './collection/collection-item.js';
 export { DataItem } from './collection/data-item.js';
+export {
+  CollectionSortCriteria,
+  CollectionSortDirection,
+  CollectionGroupOptions,
+  CollectionValueGetter,
+  compareSortValues
+} from './collection/view.js';
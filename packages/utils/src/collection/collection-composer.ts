@@ -1,7 +1,9 @@
 import { EventEmitter } from '../event/event-emitter.js';
 import { MicroTaskRunner } from '../async/micro-task-runner.js';
 import { CollectionItem } from './collection-item.js';
-import { flatten } from './flatten.js';
+import { flatten, FlatResult } from './flatten.js';
+import { createView } from './view.js';
+import type { CollectionSortCriteria, CollectionGroupOptions, CollectionValueGetter } from './view.js';
 
 /**
  * Item which can be indexed by a string key
@@ -10,6 +12,29 @@ interface IndexableItem {
   [index: string]: unknown;
 }
 
+/**
+ * Data of the `modification` event.
+ * Describes all modifications since the previous event
+ */
+export interface CollectionModification {
+  /**
+   * Names of item properties, which have been set through the composer
+   */
+  properties: ReadonlySet<PropertyKey>;
+  /**
+   * True if items have been added or removed,
+   * or the order of the sort or group-by view may have changed
+   */
+  viewChanged: boolean;
+}
+
+/**
+ * Events of the composer
+ */
+interface CollectionComposerEventMap {
+  modification: CollectionModification;
+}
+
 /**
  * Internal query engine for returning all items.
  * Used for gathering items at specific depths.
@@ -21,7 +46,7 @@ const QUERY_ALL = (): true => true;
  * Manages boolean states of a data collection,
  * toggling various item options in the most performant way possible.
  */
-export class CollectionComposer<T extends CollectionItem = CollectionItem> extends EventEmitter {
+export class CollectionComposer<T extends CollectionItem = CollectionItem> extends EventEmitter<CollectionComposerEventMap> {
 
   /**
    * The original data which is
@@ -41,7 +66,22 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    * something has changed in the collection
    * @returns {void}
    */
-  private emitModification = (): void => this.emit('modification', undefined);
+  private emitModification = (): void => {
+    const modification: CollectionModification = { properties: this.modifiedProperties, viewChanged: this.viewChanged };
+    this.modifiedProperties = new Set();
+    this.viewChanged = false;
+    this.emit('modification', modification);
+  };
+
+  /**
+   * Properties, which have been set since the last modification event
+   */
+  private modifiedProperties = new Set<PropertyKey>();
+
+  /**
+   * Has the view been invalidated since the last modification event?
+   */
+  private viewChanged = false;
 
   /**
    * Current key index to use for creating item keys.
@@ -74,6 +114,21 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    */
   private vault = new Set<T>();
 
+  /**
+   * Criteria of the sort view
+   */
+  private sortCriteria: readonly CollectionSortCriteria<T>[] = [];
+
+  /**
+   * Options of the group-by view
+   */
+  private groupOptions: CollectionGroupOptions<T> | null = null;
+
+  /**
+   * Header items of the group-by view, stored by group name
+   */
+  private groupHeaders = new Map<string, T>();
+
   constructor (data: T[] | CollectionComposer<T>) {
     super();
     if (data instanceof CollectionComposer) {
@@ -109,6 +164,37 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
   }
   private _items?: T[];
 
+  /**
+   * Sorted and grouped projection of the collection.
+   * Queries and traversal use the view, while additions and removals use the original order.
+   * @returns Flattened items and depths of the view
+   */
+  private get view (): FlatResult<T> {
+    if (!this.sortCriteria.length && !this.groupOptions) {
+      return { items: this.items, depths: this.depths };
+    }
+    if (!this._view) {
+      this._view = createView(
+        { items: this.items, depths: this.depths },
+        this.sortCriteria,
+        this.groupOptions,
+        group => this.getGroupHeader(group),
+        (item, getter) => this.getItemValue(item, getter)
+      );
+    }
+    return this._view;
+  }
+  private _view?: FlatResult<T>;
+
+  /**
+   * Clears the view, so that it is created again on the next query
+   * @returns {void}
+   */
+  private invalidateView (): void {
+    this._view = undefined;
+    this.viewChanged = true;
+  }
+
   /**
    * Returns the size of the collection.
    * Nested structures will include all descendants.
@@ -142,6 +228,9 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
     this.timestamps = new Map(composer.timestamps);
     this.timestamp = composer.timestamp;
     this.vault = new Set(this.vault);
+    this.sortCriteria = composer.sortCriteria;
+    this.groupOptions = composer.groupOptions;
+    this.groupHeaders = new Map(composer.groupHeaders);
     return composer.data.slice();
   }
 
@@ -194,10 +283,71 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    */
   private getItemIndexRange (item: T): { startIndex: number; endIndex: number } {
     const startIndex = this.items.indexOf(item);
-    const endIndex = startIndex + this.getItemDescendants(item).length;
+    let endIndex = startIndex;
+    while (this.depths[endIndex + 1] > this.depths[startIndex]) {
+      endIndex += 1;
+    }
     return { startIndex, endIndex };
   }
 
+  /**
+   * Gets children of the item in the original order,
+   * regardless of the sort and group-by views.
+   * @param parent Original data item, or, `null` to get top level items
+   * @returns Array of child data items
+   */
+  private getSourceChildren (parent: T | null): T[] {
+    const result: T[] = [];
+    const parentIndex = parent ? this.items.indexOf(parent) : -1;
+    const childDepth = parent ? this.depths[parentIndex] + 1 : 0;
+    for (let i = parentIndex + 1; i < this.items.length; i += 1) {
+      const depth = this.depths[i];
+      if (depth < childDepth) {
+        break;
+      }
+      depth === childDepth && result.push(this.items[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Gets the value used by the sort and group-by views
+   * @param item Original data item
+   * @param getter Property name or value function
+   * @returns Value of the item
+   */
+  private getItemValue (item: T, getter: CollectionValueGetter<T>): unknown {
+    if (getter.value) {
+      return getter.value(item);
+    }
+    return getter.property === undefined ? undefined : this.getItemPropertyValue(item, getter.property as keyof T);
+  }
+
+  /**
+   * Checks if the property is used by the sort or group-by view.
+   * Modifications of other properties, e.g. `selected`, do not change the view
+   * @param property Property name
+   * @returns True if the view needs to be updated when the property changes
+   */
+  private isViewProperty (property: keyof T): boolean {
+    return this.sortCriteria.some(key => key.property === property)
+      || this.groupOptions?.property === property;
+  }
+
+  /**
+   * Gets the header item of the group, creating it if needed
+   * @param group Group name
+   * @returns Header item
+   */
+  private getGroupHeader (group: string): T {
+    let header = this.groupHeaders.get(group);
+    if (!header && this.groupOptions) {
+      header = this.groupOptions.header(group);
+      this.groupHeaders.set(group, header);
+    }
+    return header as T;
+  }
+
   /**
    * Add a new item at a specified index with a specified depth
    * @param item Data item to add
@@ -208,6 +358,7 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
   private addItemAtIndex (item: T, index = this.items.length, depth = 0): void {
     this.items.splice(index, 0, item);
     this.depths.splice(index, 0, depth);
+    this.invalidateView();
   }
 
   /**
@@ -218,10 +369,12 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
   private removeItemAtIndex (index: number): void {
     this.items.splice(index, 1);
     this.depths.splice(index, 1);
+    this.invalidateView();
   }
 
   /**
-   * Add new item to the main collection
+   * Add new item to the main collection.
+   * Nested `items` of the item are not added, use `addItem` with the parent to add them
    * @param item New data item
    * @return {void}
    */
@@ -256,7 +409,7 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
     /**
      * Collection of where the item should sit.
      */
-    const collection = parent ? this.getItemChildren(parent) : this.topLevelItems;
+    const collection = this.getSourceChildren(parent);
     /**
      * Index of where to place the item in the collection.
      */
@@ -304,7 +457,7 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
     if (this.isInvalidItem(item)) {
       return;
     }
-    for (const child of this.getItemChildren(item)) {
+    for (const child of this.getSourceChildren(item)) {
       this.removeItem(child);
     }
     this.removeItemAtIndex(this.items.indexOf(item));
@@ -358,9 +511,10 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    * @returns Whether the item is a parent or not
    */
   public isItemParent (item: T): boolean {
-    const index = this.items.indexOf(item);
-    const depth = this.depths[index];
-    const nextDepth = this.depths[index + 1];
+    const { items, depths } = this.view;
+    const index = items.indexOf(item);
+    const depth = depths[index];
+    const nextDepth = depths[index + 1];
     return depth < nextDepth;
   }
 
@@ -409,6 +563,10 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
     const currentValue = this.getItemPropertyValue(item, property);
     if (currentValue !== value) {
       this.modifications.set(key, value);
+      this.modifiedProperties.add(property);
+      if (this.isViewProperty(property)) {
+        this.invalidateView();
+      }
       this.registerItemModification(item);
     }
   }
@@ -419,9 +577,10 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    * @returns Depth of item
    */
   public getItemDepth (item: T): number {
-    const index = this.items.indexOf(item);
+    const { items, depths } = this.view;
+    const index = items.indexOf(item);
     if (index !== -1) {
-      return this.depths[index];
+      return depths[index];
     }
     return NaN;
   }
@@ -456,9 +615,10 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    */
   public queryItemsByPropertyValue<K extends keyof T> (property: K, value: T[K], depth = 0): readonly T[] {
     const result: T[] = [];
-    for (let i = 0; i < this.items.length; i += 1) {
-      const item = this.items[i];
-      const itemDepth = this.depths[i];
+    const { items, depths } = this.view;
+    for (let i = 0; i < items.length; i += 1) {
+      const item = items[i];
+      const itemDepth = depths[i];
       itemDepth <= depth && this.getItemPropertyValue(item, property) === value && result.push(item);
     }
     return Object.freeze(result);
@@ -473,9 +633,10 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    */
   public queryItems (engine: (item: T, composer: CollectionComposer<T>) => boolean, depth = 0): readonly T[] {
     const result: T[] = [];
-    for (let i = 0; i < this.items.length; i += 1) {
-      const item = this.items[i];
-      const itemDepth = this.depths[i];
+    const { items, depths } = this.view;
+    for (let i = 0; i < items.length; i += 1) {
+      const item = items[i];
+      const itemDepth = depths[i];
       itemDepth <= depth && engine(item, this) && result.push(item);
     }
     return Object.freeze(result);
@@ -487,11 +648,18 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    * @returns The parent data item, or, `null`.
    */
   public getItemParent (item: T): T | null {
-    let index = this.items.indexOf(item);
+    const { items, depths } = this.view;
+    let index = items.indexOf(item);
+    const depth = depths[index];
+    if (!depth) {
+      return null; // top level or not in the collection
+    }
+    // Items added with `addItem` are not part of the parent `items` collection,
+    // so rely on depth: the parent is the closest preceding item, which is less deep
     while (index > 0) {
-      const next = this.items[index -= 1];
-      if (next.items?.includes(item)) {
-        return next;
+      index -= 1;
+      if (depths[index] < depth) {
+        return items[index];
       }
     }
     return null;
@@ -524,13 +692,33 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
       result = this.getItemChildren(parent).slice();
       result.splice(result.indexOf(item), 1);
     }
-    else if (this.items.includes(item)) {
+    else if (this.view.items.includes(item)) {
       result = this.topLevelItems.slice();
       result.splice(result.indexOf(item), 1);
     }
     return Object.freeze(result);
   }
 
+  /**
+   * Gets the index of the item within its parent collection.
+   * The original order is used regardless of the sort and group-by views,
+   * so the index can be used to add items next to the item.
+   * @param item Original data item
+   * @returns Index of the item, or, `-1` if the item is not in the collection
+   */
+  public getItemIndex (item: T): number {
+    const index = this.items.indexOf(item);
+    if (index === -1) {
+      return -1;
+    }
+    const depth = this.depths[index];
+    let result = 0;
+    for (let i = index - 1; i >= 0 && this.depths[i] >= depth; i -= 1) {
+      this.depths[i] === depth && (result += 1);
+    }
+    return result;
+  }
+
   /**
    * Gets the list of item children.
    * @param item Original data item
@@ -548,14 +736,15 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
    */
   public getItemDescendants (item: T, depth = Infinity): readonly T[] {
     const result = [];
+    const { items, depths } = this.view;
     /**
      * Parent index, if available.
      */
-    const parentIndex = this.items.indexOf(item);
+    const parentIndex = items.indexOf(item);
     /**
      * Parent depth, if available.
      */
-    const parentDepth = this.depths[parentIndex];
+    const parentDepth = depths[parentIndex];
     /**
      * Max depth
      */
@@ -565,16 +754,73 @@ export class CollectionComposer<T extends CollectionItem = CollectionItem> exten
      */
     const startIndex = parentIndex + 1;
 
-    for (let i = startIndex; i > 0 && i < this.items.length; i += 1) {
-      const depth = this.depths[i];
+    for (let i = startIndex; i > 0 && i < items.length; i += 1) {
+      const depth = depths[i];
       if (depth <= parentDepth) {
         break;
       }
       if (depth <= maxDepth) {
-        result.push(this.items[i]);
+        result.push(items[i]);
       }
     }
 
     return Object.freeze(result);
   }
+
+  /**
+   * Sorts the collection without modifying the original data.
+   * Siblings are sorted within their parent, so nested structures are kept.
+   * Items with equal values keep their original order.
+   * @param criteria Sort criteria in order of priority. Pass `null` or an empty array to restore the original order.
+   * @returns {void}
+   */
+  public setSort (criteria: CollectionSortCriteria<T> | readonly CollectionSortCriteria<T>[] | null): void {
+    this.sortCriteria = Object.freeze(criteria ? ([] as CollectionSortCriteria<T>[]).concat(criteria) : []);
+    this.invalidateView();
+    this.emitter.schedule(this.emitModification);
+  }
+
+  /**
+   * Gets criteria of the current sort view
+   * @returns Sort criteria in order of priority
+   */
+  public getSort (): readonly CollectionSortCriteria<T>[] {
+    return this.sortCriteria;
+  }
+
+  /**
+   * Groups top level items under header items without modifying the original data.
+   * Groups are ordered by their first item, so the sort view controls the order of groups.
+   * @param options Group options. Pass `null` to remove the groups.
+   * @returns {void}
+   */
+  public setGroup (options: CollectionGroupOptions<T> | null): void {
+    this.groupOptions = options;
+    this.groupHeaders.clear();
+    this.invalidateView();
+    this.emitter.schedule(this.emitModification);
+  }
+
+  /**
+   * Gets options of the current group-by view
+   * @returns Group options, or, `null`
+   */
+  public getGroup (): CollectionGroupOptions<T> | null {
+    return this.groupOptions;
+  }
+
+  /**
+   * Determines if the item is a group header,
+   * created by the group-by view.
+   * @param item Data item
+   * @returns True, if the item is a group header
+   */
+  public isItemGroupHeader (item: T): boolean {
+    for (const header of this.groupHeaders.values()) {
+      if (header === item) {
+        return true;
+      }
+    }
+    return false;
+  }
 }
@@ -1,6 +1,6 @@
 import { CollectionItem } from './collection-item.js';
 
-class FlatResult<T> {
+export class FlatResult<T> {
   items: T[] = [];
   depths: number[] = [];
 }
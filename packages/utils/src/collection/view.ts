@@ -0,0 +1,242 @@
+import type { CollectionItem } from './collection-item.js';
+import { FlatResult } from './flatten.js';
+
+/**
+ * Source of the value used for sorting or grouping
+ */
+export interface CollectionValueGetter<T extends CollectionItem> {
+  /**
+   * Property name of the item.
+   * Property values include modifications made through the composer.
+   */
+  property?: string;
+  /**
+   * Returns the value of the item.
+   * Takes precedence over `property`.
+   * The view is not updated when values returned by the function change,
+   * call `setSort` or `setGroup` again to apply them.
+   * @param item Original data item
+   * @returns Value of the item
+   */
+  value? (item: T): unknown;
+}
+
+/**
+ * Direction of a sort criteria
+ */
+export type CollectionSortDirection = 'ascending' | 'descending';
+
+/**
+ * Single key of a sort view
+ */
+export interface CollectionSortCriteria<T extends CollectionItem> extends CollectionValueGetter<T> {
+  /**
+   * Sort direction. Empty values are always placed last.
+   * @default 'ascending'
+   */
+  direction?: CollectionSortDirection;
+  /**
+   * Compares two non-empty values.
+   * By default, numbers and dates are compared by value, other values as text.
+   * @param a First value
+   * @param b Second value
+   * @returns Negative number if `a` goes first, positive if `b` goes first, otherwise zero
+   */
+  compare? (a: unknown, b: unknown): number;
+  /**
+   * Applies the criteria to items of this depth only.
+   * By default, siblings are sorted at every depth.
+   */
+  depth?: number;
+}
+
+/**
+ * Options of a group-by view
+ */
+export interface CollectionGroupOptions<T extends CollectionItem> extends CollectionValueGetter<T> {
+  /**
+   * Creates a header item for the group.
+   * Top level items with an empty value are collected into a group named `''`.
+   * Headers are created once per group name, so their state survives view updates.
+   * @param group Group name
+   * @returns Header item
+   */
+  header (group: string): T;
+  /**
+   * Place group members as children of the header,
+   * instead of following it on the same depth.
+   * @default false
+   */
+  nested?: boolean;
+}
+
+/**
+ * Item and its children in the original collection
+ */
+interface Node<T> {
+  item: T;
+  index: number;
+  children: Node<T>[];
+}
+
+/**
+ * Checks if the value should be placed at the end of sorted collection
+ * @param value Sort value
+ * @returns true if value is empty
+ */
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+
+/**
+ * Default comparator of sort values.
+ * Numbers and dates are compared by value, other values as text
+ * @param a First value
+ * @param b Second value
+ * @returns Compare result
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/**
+ * Compares two values of a sort key.
+ * Empty values are placed last in both directions.
+ * @param a First value
+ * @param b Second value
+ * @param [direction='ascending'] Sort direction
+ * @param [compare] Compares two non-empty values. By default, numbers and dates are compared by value, other values as text
+ * @returns Negative number if `a` goes first, positive if `b` goes first, otherwise zero
+ */
+export const compareSortValues = (
+  a: unknown,
+  b: unknown,
+  direction: CollectionSortDirection = 'ascending',
+  compare: (a: unknown, b: unknown) => number = compareValues
+): number => {
+  const aEmpty = isEmpty(a);
+  const bEmpty = isEmpty(b);
+  if (aEmpty || bEmpty) {
+    return Number(aEmpty) - Number(bEmpty);
+  }
+  return compare(a, b) * (direction === 'descending' ? -1 : 1);
+};
+
+/**
+ * Builds a tree of nodes from the flattened collection
+ * @param source Flattened items and depths
+ * @returns Top level nodes
+ */
+const toNodes = <T>(source: FlatResult<T>): Node<T>[] => {
+  const root: Node<T>[] = [];
+  const path: Node<T>[] = [];
+
+  for (let i = 0; i < source.items.length; i += 1) {
+    const depth = source.depths[i];
+    const node: Node<T> = { item: source.items[i], index: i, children: [] };
+    path.length = depth;
+    (depth ? path[depth - 1].children : root).push(node);
+    path.push(node);
+  }
+
+  return root;
+};
+
+/**
+ * Sorts sibling nodes and their descendants.
+ * Siblings with equal values keep their original order.
+ * @param nodes Sibling nodes
+ * @param depth Depth of siblings
+ * @param criteria Sort criteria
+ * @param getValue Returns the value of the item
+ * @returns {void}
+ */
+const sortNodes = <T extends CollectionItem>(
+  nodes: Node<T>[],
+  depth: number,
+  criteria: readonly CollectionSortCriteria<T>[],
+  getValue: (item: T, getter: CollectionValueGetter<T>) => unknown
+): void => {
+  const keys = criteria.filter(key => key.depth === undefined || key.depth === depth);
+
+  if (keys.length && nodes.length > 1) {
+    const values = new Map(nodes.map(node => [node, keys.map(key => getValue(node.item, key))]));
+    nodes.sort((a, b) => {
+      const aValues = values.get(a) as unknown[];
+      const bValues = values.get(b) as unknown[];
+      for (let i = 0; i < keys.length; i += 1) {
+        const result = compareSortValues(aValues[i], bValues[i], keys[i].direction, keys[i].compare);
+        if (result) {
+          return result;
+        }
+      }
+      return a.index - b.index;
+    });
+  }
+
+  nodes.forEach(node => sortNodes(node.children, depth + 1, criteria, getValue));
+};
+
+/**
+ * Writes nodes into the flattened result, keeping the flattening order
+ * @param nodes Nodes to write
+ * @param depth Depth of nodes
+ * @param result Flattened result
+ * @returns {void}
+ */
+const flattenNodes = <T>(nodes: Node<T>[], depth: number, result: FlatResult<T>): void => {
+  for (const node of nodes) {
+    result.items.push(node.item);
+    result.depths.push(depth);
+    flattenNodes(node.children, depth + 1, result);
+  }
+};
+
+/**
+ * Creates a sorted and grouped projection of the collection.
+ * Source collection is not modified.
+ * @param source Flattened items and depths in the original order
+ * @param criteria Sort criteria
+ * @param group Group options
+ * @param getHeader Returns the header of the group
+ * @param getValue Returns the value of the item
+ * @returns Flattened items and depths of the view
+ */
+export const createView = <T extends CollectionItem>(
+  source: FlatResult<T>,
+  criteria: readonly CollectionSortCriteria<T>[],
+  group: CollectionGroupOptions<T> | null,
+  getHeader: (group: string) => T,
+  getValue: (item: T, getter: CollectionValueGetter<T>) => unknown
+): FlatResult<T> => {
+  const nodes = toNodes(source);
+  const result = new FlatResult<T>();
+
+  sortNodes(nodes, 0, criteria, getValue);
+
+  if (!group) {
+    flattenNodes(nodes, 0, result);
+    return result;
+  }
+
+  // Groups are ordered by their first member, so sorting by the group value sorts the groups
+  const groups = new Map<string, Node<T>[]>();
+  for (const node of nodes) {
+    const value = getValue(node.item, group);
+    const name = isEmpty(value) ? '' : String(value);
+    const members = groups.get(name);
+    members ? members.push(node) : groups.set(name, [node]);
+  }
+
+  groups.forEach((members, name) => {
+    result.items.push(getHeader(name));
+    result.depths.push(0);
+    flattenNodes(members, group.nested ? 1 : 0, result);
+  });
+
+  return result;
+};
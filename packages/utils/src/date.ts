@@ -46,6 +46,13 @@ export {
 
 export { padNumber } from './date/utils.js';
 
+export {
+  isValidTimezone,
+  getTimezoneOffset,
+  toZonedTime,
+  fromZonedTime
+} from './date/timezone.js';
+
 export * from './date/timestamps.js';
 export * from './date/shared.js';
 export { Locale } from './date/Locale.js';
@@ -16,6 +16,10 @@ import {
   getFormat,
   Format
 } from './shared.js';
+import {
+  toZonedTime,
+  fromZonedTime
+} from './timezone.js';
 import {
   HOURS_IN_DAY,
   YEARS_IN_CENTURY,
@@ -101,8 +105,7 @@ class Locale {
       ...options,
       calendar: 'gregory', // Force Gregorian calendar
       numberingSystem: 'latn', // Force Latin numbering system
-      timeZoneName: undefined, // Timezones are not supported
-      timeZone: 'UTC' // must be provided as all calculations are done in UTC
+      timeZone: options.timeZone || 'UTC' // UTC, unless the timezone is requested explicitly
     });
     return new Locale(format);
   }
@@ -148,11 +151,58 @@ class Locale {
       throw new Error('Only Latin symbols supported. Specify calendar option for numbering symbols, e.g. "ar-u-nu-latn"');
     }
 
-    if (options.timeZone !== 'UTC') {
-      throw new Error('Only UTC timezone supported. Specify `timeZone: \'UTC\'` in formatter options.');
+    if (!options.timeZone) {
+      throw new Error('Timezone must be resolved. Specify `timeZone` in formatter options, e.g. `timeZone: \'UTC\'`.');
     }
   }
 
+  /**
+   * Get the timezone of the formatter
+   */
+  public get timeZone (): string {
+    return this.options.timeZone;
+  }
+
+  /**
+   * Convert wall clock time in the formatter timezone into a timestamp,
+   * so that the formatter outputs the same wall clock time.
+   * @param value Timestamp, which UTC values represent the wall clock time
+   * @returns timestamp
+   */
+  private toTimestamp (value: number): number {
+    return this.timeZone === 'UTC' ? value : fromZonedTime(new Date(value), this.timeZone).getTime();
+  }
+
+  /**
+   * Convert ISO date/time/datetime string or Date object into Date
+   * @param value ISO string in the formatter timezone, Date or timestamp
+   * @returns date
+   */
+  private toDate (value: string | number | Date): Date {
+    if (typeof value === 'string') {
+      return new Date(this.toTimestamp(utcParse(value).getTime()));
+    }
+    return new Date(value);
+  }
+
+  /**
+   * Format ISO date/time/datetime string or Date object into localised string
+   * @param value ISO string in the formatter timezone, Date or timestamp
+   * @returns localised string
+   */
+  public format (value: string | number | Date): string {
+    return this.formatter.format(this.toDate(value));
+  }
+
+  /**
+   * Format ISO date/time/datetime string or Date object into localised parts
+   * @param value ISO string in the formatter timezone, Date or timestamp
+   * @returns localised parts
+   */
+  public formatToParts (value: string | number | Date): Intl.DateTimeFormatPart[] {
+    return this.formatter.formatToParts(this.toDate(value));
+  }
+
   /**
    * Hour cycle is not supported in older browsers. Therefore keep the default
    * @param options Format options
@@ -173,7 +223,7 @@ class Locale {
   private formatMonthNames (): FormattedNames[] {
     const monthsNames: FormattedNames[] = [];
     for (let value = 0; value < MONTHS_IN_YEAR; value += 1) {
-      const date = Date.UTC(2018, value, 1); // January - February
+      const date = this.toTimestamp(Date.UTC(2018, value, 1)); // January - February
       const monthPart = this.formatter.formatToParts(date).find(part => part.type === 'month');
       if (monthPart) {
         monthsNames.push({
@@ -192,7 +242,7 @@ class Locale {
   private formatWeekdayNames (): FormattedNames[] {
     const weekdayNames: FormattedNames[] = [];
     for (let value = 0; value < DAYS_IN_WEEK; value += 1) {
-      const date = Date.UTC(2018, 0, value); // Sunday - Saturday
+      const date = this.toTimestamp(Date.UTC(2018, 0, value)); // Sunday - Saturday
       const weekdayPart = this.formatter.formatToParts(date).find(part => part.type === 'weekday');
       if (weekdayPart) {
         weekdayNames.push({
@@ -213,7 +263,7 @@ class Locale {
     for (let i = 0; i < HOURS_IN_DAY; i += 1) {
       // The period is unknown as it can be different per locale, e.g. for en-GB:
       // AM, PM, 'at night', 'in the morning', 'noon', 'in the afternoon', 'in the evening'
-      const date = Date.UTC(2018, 0, 1, i);
+      const date = this.toTimestamp(Date.UTC(2018, 0, 1, i));
       const parts = this.formatter.formatToParts(date);
       const dayPeriodPart = parts.find(part => part.type === 'dayPeriod');
       const hourPart = parts.find(part => part.type === 'hour');
@@ -236,7 +286,7 @@ class Locale {
     const dates = [utcParse('-0001-01-01').getTime(), Date.UTC(2018, 0, 1)];
     for (let i = 0; i <= 1; i += 1) {
       const value = dates[i];
-      const era = this.formatter.formatToParts(value).find(part => part.type === 'era');
+      const era = this.formatter.formatToParts(this.toTimestamp(value)).find(part => part.type === 'era');
       if (era) {
         eraNames.push({
           value,
@@ -247,6 +297,27 @@ class Locale {
     return eraNames;
   }
 
+  /**
+   * Get timezone names for the specified formatter.
+   * Names may differ between standard and daylight saving time
+   * @returns names Timezone names
+   */
+  private formatTimeZoneNames (): FormattedNames[] {
+    const timeZoneNames: FormattedNames[] = [];
+    const year = new Date().getUTCFullYear();
+    const dates = [Date.UTC(2018, 0, 1), Date.UTC(2018, 6, 1), Date.UTC(year, 0, 1), Date.UTC(year, 6, 1)];
+    for (const value of dates) {
+      const timeZoneName = this.formatter.formatToParts(this.toTimestamp(value)).find(part => part.type === 'timeZoneName');
+      if (timeZoneName) {
+        timeZoneNames.push({
+          value,
+          name: timeZoneName.value.toLowerCase()
+        });
+      }
+    }
+    return timeZoneNames;
+  }
+
   private _regExp: RegExp | null = null;
   /**
    * Get regular expression for the format
@@ -296,7 +367,8 @@ class Locale {
           str += this.eraRegExp;
           break;
         case 'timeZoneName':
-          throw new Error('Parsing timezones is ambiguous. Make sure that `timeZoneName` option is not provided');
+          str += this.timeZoneNameRegExp;
+          break;
         default:
           throw new Error('Unknown format provided');
       }
@@ -372,6 +444,10 @@ class Locale {
     return escapeList(this.eraNames);
   }
 
+  private get timeZoneNameRegExp (): string {
+    return escapeList(this.timeZoneNames);
+  }
+
   private _monthNames: FormattedNames[] | null = null;
   /**
    * Get month names
@@ -420,6 +496,18 @@ class Locale {
     return this._eraNames;
   }
 
+  private _timeZoneNames: FormattedNames[] | null = null;
+  /**
+   * Get timezone names
+   */
+  private get timeZoneNames (): FormattedNames[] {
+    if (this._timeZoneNames) {
+      return this._timeZoneNames;
+    }
+    this._timeZoneNames = this.formatTimeZoneNames();
+    return this._timeZoneNames;
+  }
+
   private _parts: DateTimeFormatPart[] | null = null;
   /**
    * Get parts for formatter
@@ -428,7 +516,7 @@ class Locale {
     if (this._parts) {
       return this._parts;
     }
-    this._parts = this.formatter.formatToParts(Date.UTC(2018, 0, 1));
+    this._parts = this.formatter.formatToParts(this.toTimestamp(Date.UTC(2018, 0, 1)));
     return this._parts;
   }
 
@@ -470,12 +558,15 @@ class Locale {
   /**
    * Try to parse localised date string into ISO date/time/datetime string
    * Throw an error if value is invalid
+   * Returned value represents the wall clock time in the formatter timezone.
+   * Timezone name, if present, is matched, but does not affect the value.
    * @param value Localised date
-   * @param [referenceDate=0] Reference UTC date or time to resolve ambiguous strings.
+   * @param [referenceDate=0] Reference date or time to resolve ambiguous strings.
+   * Strings are treated as wall clock time in the formatter timezone, Dates and timestamps as points in time.
    * @returns ISO date/time/datetime string
    */
   public parse (value: string, referenceDate: string | number | Date = 0): string {
-    const refDate = typeof referenceDate === 'string' ? utcParse(referenceDate) : new Date(referenceDate);
+    const refDate = typeof referenceDate === 'string' ? utcParse(referenceDate) : toZonedTime(new Date(referenceDate), this.timeZone);
 
     // format reference date to exclude excessive information
     referenceDate = utcParse(utcFormat(refDate, this.isoFormat));
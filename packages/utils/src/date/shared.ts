@@ -54,13 +54,20 @@ import {
   HOURS_IN_DAY,
   MINUTES_IN_HOUR,
   SECONDS_IN_MINUTE,
-  MILLISECONDS_IN_SECOND
+  MILLISECONDS_IN_SECOND,
+  MILLISECONDS_IN_MINUTE,
+  MILLISECONDS_IN_HOUR
 } from './timestamps.js';
 
 import {
   addOffset as addTimeOffset
 } from './time.js';
 
+import {
+  toZonedTime,
+  fromZonedTime
+} from './timezone.js';
+
 type Format = InputTimeFormat | InputDateFormat | InputDateTimeFormat;
 type Unit = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond';
 
@@ -180,11 +187,18 @@ const formatAll = (value: Segment | Date, format: Format = DateTimeFormat.yyyMMd
 
 /**
  * Format Date or Segment to Local formatted string.
+ * If timezone is provided, Date is formatted to the wall clock time of the timezone.
  * @param value A valid Date or Segment
  * @param [format='yyyy-MM-dd'T'HH:mm'] format
+ * @param [timezone] IANA timezone name, e.g. `Asia/Tokyo`
  * @returns A formatted string
  */
-const format = (value: Segment | Date, format: Format = DateTimeFormat.yyyMMddTHHmm): string => formatAll(value, format, false);
+const format = (value: Segment | Date, format: Format = DateTimeFormat.yyyMMddTHHmm, timezone?: string): string => {
+  if (timezone && value instanceof Date) {
+    return formatAll(toZonedTime(value, timezone), format, true);
+  }
+  return formatAll(value, format, !!timezone);
+};
 
 /**
  * Format Date or Segment to UTC formatted string.
@@ -235,10 +249,17 @@ const parseAll = (value: string | Segment, isUTC: boolean): Date => {
 
 /**
  * Get Local Date object from value string or Segment.
+ * If timezone is provided, value is treated as the wall clock time of the timezone.
  * @param value Value to parse or Segment
+ * @param [timezone] IANA timezone name, e.g. `Asia/Tokyo`
  * @returns parsed Date or Invalid Date
  */
-const parse = (value: string | Segment): Date => parseAll(value, false);
+const parse = (value: string | Segment, timezone?: string): Date => {
+  if (timezone) {
+    return fromZonedTime(parseAll(value, true), timezone);
+  }
+  return parseAll(value, false);
+};
 
 /**
  * Get UTC Date object from value string or Segment.
@@ -329,33 +350,51 @@ const isSameYear = (value: string, compare: string): boolean => {
 /**
  * Is the given date today?
  * @param value the date to check
+ * @param [timezone] IANA timezone name. Defaults to local time
  * @returns the date is today
  */
-const isToday = (value: string): boolean => {
-  const today = format(new Date()); // must be local time
+const isToday = (value: string, timezone?: string): boolean => {
+  const today = format(new Date(), DateTimeFormat.yyyMMddTHHmm, timezone); // must be local time
   return isSameDay(value, today);
 };
 
 /**
  * Is the given date this month?
  * @param value the date to check
+ * @param [timezone] IANA timezone name. Defaults to local time
  * @returns the date is this month
  */
-const isThisMonth = (value: string): boolean => {
-  const today = format(new Date()); // must be local time
+const isThisMonth = (value: string, timezone?: string): boolean => {
+  const today = format(new Date(), DateTimeFormat.yyyMMddTHHmm, timezone); // must be local time
   return isSameMonth(value, today);
 };
 
 /**
  * Is the given date this year?
  * @param value the date to check
+ * @param [timezone] IANA timezone name. Defaults to local time
  * @returns the date is this year
  */
-const isThisYear = (value: string): boolean => {
-  const today = format(new Date()); // must be local time
+const isThisYear = (value: string, timezone?: string): boolean => {
+  const today = format(new Date(), DateTimeFormat.yyyMMddTHHmm, timezone); // must be local time
   return isSameYear(value, today);
 };
 
+/**
+ * Check if the value exists in the timezone.
+ * Wall clock times skipped by daylight saving transitions do not exist.
+ * @param value Date, time or datetime value
+ * @param timezone IANA timezone name
+ * @returns true if the value exists
+ */
+const existsInTimezone = (value: string, timezone: string): boolean => {
+  const valueFormat = getFormat(value);
+  if (!valueFormat || !timezone || isTime(value)) {
+    return !!valueFormat;
+  }
+  return format(parse(value, timezone), valueFormat, timezone) === value;
+};
+
 /**
  * Does the given date fall on a weekend?
  * @param value the date to check
@@ -368,13 +407,16 @@ const isWeekend = (value: string): boolean => {
 };
 
 /**
- * Add the specified number of units to the given date
+ * Add the specified number of units to the given date.
+ * If timezone is provided, time units are added to the point in time,
+ * so that daylight saving transitions are taken into account.
  * @param value The date to be changed
  * @param unit The unit: `year`, `month`, `day`, `hour`, `minute`, `second` or `millisecond`
  * @param amount The amount of units to be added, e.g. 1 to increase or -1 to decrease
+ * @param [timezone] IANA timezone name, which value belongs to
  * @returns date The new date
  */
-const addUnit = (value: string, unit: Unit, amount: number): string => {
+const addUnit = (value: string, unit: Unit, amount: number, timezone?: string): string => {
   if (!amount) {
     return value;
   }
@@ -385,6 +427,22 @@ const addUnit = (value: string, unit: Unit, amount: number): string => {
     throw throwInvalidValue(value);
   }
 
+  if (timezone && !isTime(value)) {
+    switch (unit) {
+      case 'hour':
+        return addOffset(value, amount * MILLISECONDS_IN_HOUR, timezone);
+      case 'minute':
+        return addOffset(value, amount * MILLISECONDS_IN_MINUTE, timezone);
+      case 'second':
+        return addOffset(value, amount * MILLISECONDS_IN_SECOND, timezone);
+      case 'millisecond':
+        return addOffset(value, amount, timezone);
+      default:
+        // Calendar units do not depend on timezone. Make sure the new date exists
+        return format(parse(addUnit(value, unit, amount), timezone), valueFormat, timezone);
+    }
+  }
+
   let date = utcParse(value);
   switch (unit) {
     case 'year':
@@ -464,9 +522,10 @@ const isPM = (value: string): boolean => {
  * Add offset in milliseconds to the value
  * @param value the time
  * @param amount number of milliseconds to add
+ * @param [timezone] IANA timezone name, which value belongs to
  * @returns new value
  */
-const addDateTimeOffset = (value: string, amount: number): string => {
+const addDateTimeOffset = (value: string, amount: number, timezone?: string): string => {
   if (!amount) {
     return value;
   }
@@ -475,6 +534,12 @@ const addDateTimeOffset = (value: string, amount: number): string => {
   if (!valueFormat) {
     throw throwInvalidValue(value);
   }
+
+  if (timezone) {
+    const date = parse(value, timezone);
+    return format(new Date(date.getTime() + amount), valueFormat, timezone);
+  }
+
   const date = utcParse(value);
   const offsetDate = new Date(date.getTime() + amount);
 
@@ -482,29 +547,34 @@ const addDateTimeOffset = (value: string, amount: number): string => {
 };
 
 /**
- * Add offset in milliseconds to the value
+ * Add offset in milliseconds to the value.
+ * If timezone is provided, daylight saving transitions are taken into account.
  * @param value the time
  * @param amount number of milliseconds to add
+ * @param [timezone] IANA timezone name, which value belongs to
  * @returns new value
  */
-const addOffset = (value: string, amount: number): string => isTime(value) ? addTimeOffset(value, amount) : addDateTimeOffset(value, amount);
+const addOffset = (value: string, amount: number, timezone?: string): string => isTime(value) ? addTimeOffset(value, amount) : addDateTimeOffset(value, amount, timezone);
 
 /**
  * Subtract offset in milliseconds from the value
  * @param value the time
  * @param amount number of milliseconds to subtract
+ * @param [timezone] IANA timezone name, which value belongs to
  * @returns new value
  */
-const subOffset = (value: string, amount: number): string => addOffset(value, -amount);
+const subOffset = (value: string, amount: number, timezone?: string): string => addOffset(value, -amount, timezone);
 
 /**
  * Cycles through the unit by a specified amount, not affecting any other part of the date
+ * If timezone is provided, values which do not exist in the timezone are skipped.
  * @param value The date to be changed
  * @param unit The unit: `year`, `month`, `day`, `hour`, `minute`, `second` or `millisecond`
  * @param amount The amount of units to be iterated, e.g. 1 to go up or -1 to go down
+ * @param [timezone] IANA timezone name, which value belongs to
  * @returns date The new date
  */
-const iterateUnit = (value: string, unit: Unit, amount: number): string => {
+const iterateUnit = (value: string, unit: Unit, amount: number, timezone?: string): string => {
   if (!amount) {
     return value;
   }
@@ -515,6 +585,15 @@ const iterateUnit = (value: string, unit: Unit, amount: number): string => {
     throw throwInvalidValue(value);
   }
 
+  if (timezone) {
+    let newValue = iterateUnit(value, unit, amount);
+    // Skipped times span less than a day, so a few iterations are always enough
+    for (let i = 0; i < HOURS_IN_DAY && !existsInTimezone(newValue, timezone); i += 1) {
+      newValue = iterateUnit(newValue, unit, amount);
+    }
+    return newValue;
+  }
+
   const date = utcParse(value);
   switch (unit) {
     case 'year':
@@ -577,5 +656,6 @@ export {
   isWeekend,
   addUnit,
   iterateUnit,
+  existsInTimezone,
   toSegment
 };
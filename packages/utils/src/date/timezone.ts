@@ -0,0 +1,146 @@
+import {
+  MILLISECONDS_IN_SECOND,
+  MILLISECONDS_IN_DAY,
+  HOURS_IN_DAY
+} from './timestamps.js';
+
+/**
+ * Formatters are expensive to create,
+ * so cache one per timezone.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Era names of dates before year 1, per timezone.
+ * Used to convert formatted years back into astronomical years.
+ */
+const bcEras = new Map<string, string>();
+
+/**
+ * Get formatter, which splits a timestamp into its wall clock parts in the timezone
+ * @param timezone IANA timezone name
+ * @returns formatter
+ */
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      calendar: 'gregory',
+      numberingSystem: 'latn',
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+    bcEras.set(timezone, formatter.formatToParts(Date.UTC(-1, 6, 1)).find(part => part.type === 'era')?.value || '');
+  }
+  return formatter;
+};
+
+/**
+ * Check if the timezone is supported by the platform
+ * @param timezone IANA timezone name, e.g. `Europe/London`
+ * @returns true if timezone is supported
+ */
+const isValidTimezone = (timezone: string): boolean => {
+  if (!timezone) {
+    return false;
+  }
+  try {
+    getFormatter(timezone);
+    return true;
+  }
+  catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Get the offset of the timezone from UTC at the given point in time
+ * @param date Date or timestamp
+ * @param timezone IANA timezone name, e.g. `America/New_York`
+ * @returns offset in milliseconds, e.g. -18000000 for `America/New_York` in winter
+ */
+const getTimezoneOffset = (date: Date | number, timezone: string): number => {
+  const time = typeof date === 'number' ? date : date.getTime();
+  if (isNaN(time)) {
+    return NaN;
+  }
+
+  const formatter = getFormatter(timezone);
+  const values: { [key: string]: number } = {};
+  let isBC = false;
+  for (const part of formatter.formatToParts(time)) {
+    if (part.type === 'era') {
+      isBC = part.value === bcEras.get(timezone);
+    }
+    else if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  // Year 0 is 1 BC
+  const year = isBC ? 1 - values.year : values.year;
+  const wallClock = new Date(0);
+  wallClock.setUTCFullYear(year, values.month - 1, values.day);
+  // Some platforms format midnight as 24 in h23 cycle
+  wallClock.setUTCHours(values.hour % HOURS_IN_DAY, values.minute, values.second, 0);
+
+  // Formatter has no milliseconds, so compare against whole seconds
+  return wallClock.getTime() - Math.floor(time / MILLISECONDS_IN_SECOND) * MILLISECONDS_IN_SECOND;
+};
+
+/**
+ * Convert a point in time into the wall clock time of the timezone.
+ * The wall clock time is returned as UTC values of a Date object
+ * @param date Date or timestamp
+ * @param timezone IANA timezone name
+ * @returns Date, which UTC values match the wall clock time
+ */
+const toZonedTime = (date: Date | number, timezone: string): Date => {
+  const time = typeof date === 'number' ? date : date.getTime();
+  return new Date(time + getTimezoneOffset(time, timezone));
+};
+
+/**
+ * Convert the wall clock time of the timezone into a point in time.
+ * Times skipped by daylight saving transitions are moved forward,
+ * and ambiguous times resolve to the earlier point in time.
+ * @param date Date, which UTC values represent the wall clock time
+ * @param timezone IANA timezone name
+ * @returns Date at the point in time
+ */
+const fromZonedTime = (date: Date, timezone: string): Date => {
+  const time = date.getTime();
+  if (isNaN(time) || timezone === 'UTC') {
+    return new Date(time);
+  }
+
+  // Transitions happen at most once within a day,
+  // so the offset must be either the offset before or after the time
+  const offsetBefore = getTimezoneOffset(time - MILLISECONDS_IN_DAY, timezone);
+  const offsetAfter = getTimezoneOffset(time + MILLISECONDS_IN_DAY, timezone);
+
+  const candidates = [time - offsetBefore, time - offsetAfter]
+    .filter(candidate => candidate + getTimezoneOffset(candidate, timezone) === time);
+
+  if (candidates.length) {
+    return new Date(Math.min(...candidates));
+  }
+
+  // The time does not exist, e.g. 02:30 when clocks go forward at 02:00
+  return new Date(time - Math.min(offsetBefore, offsetAfter));
+};
+
+export {
+  isValidTimezone,
+  getTimezoneOffset,
+  toZonedTime,
+  fromZonedTime
+};
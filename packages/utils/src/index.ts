@@ -6,6 +6,11 @@ export * from './color.js';
 export * from './event.js';
 export * from './is-slot-empty.js';
 export * from './loader.js';
+export * from './matching.js';
 export * from './navigation.js';
+export * from './number.js';
+export * from './persistence.js';
+export * from './theme.js';
 export * from './date.js';
 export * from './uuid.js';
+export * from './virtual.js';
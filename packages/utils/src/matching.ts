@@ -0,0 +1,3 @@
+export { fold } from './matching/fold.js';
+export { match, createMatcher, MatchRange, MatchResult, MatchOptions, Matcher } from './matching/match.js';
+export { splitByRanges, escapeHTML, highlight, TextChunk } from './matching/highlight.js';
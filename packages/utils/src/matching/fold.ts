@@ -0,0 +1,57 @@
+/**
+ * Characters, which are not decomposed by Unicode normalisation,
+ * but are commonly typed as their base letter
+ */
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  'ø': 'o',
+  'đ': 'd',
+  'ð': 'd',
+  'ħ': 'h',
+  'ı': 'i',
+  'ł': 'l',
+  'ŀ': 'l',
+  'ŧ': 't'
+};
+
+/**
+ * Combining diacritical marks, left over after canonical decomposition
+ */
+const DIACRITICS = /[\u0300-\u036f]/g;
+
+const cache = new Map<string, string>();
+
+/**
+ * Folds a single character to its lower case base letter.
+ * Characters, which would fold to more than one character, are kept as they are
+ * @param char Character to fold
+ * @returns Folded character
+ */
+const foldCharacter = (char: string): string => {
+  let folded = cache.get(char);
+  if (folded === undefined) {
+    const lowerCase = char.toLowerCase();
+    folded = SPECIAL_CHARACTERS[lowerCase] || lowerCase.normalize('NFD').replace(DIACRITICS, '');
+    if (folded.length !== 1) {
+      folded = lowerCase.length === 1 ? lowerCase : char;
+    }
+    cache.set(char, folded);
+  }
+  return folded;
+};
+
+/**
+ * Folds text for case and diacritic insensitive comparison, e.g. `Société` becomes `societe`.
+ * The folded text always has the same length as the original text,
+ * so indexes found in the folded text can be used on the original text.
+ * @param text Text to fold
+ * @returns Folded text
+ */
+const fold = (text: string): string => {
+  let folded = '';
+  for (let i = 0; i < text.length; i += 1) {
+    folded += foldCharacter(text[i]);
+  }
+  return folded;
+};
+
+export { fold };
@@ -0,0 +1,76 @@
+import type { MatchRange } from './match';
+
+/**
+ * Characters, which have a special meaning in HTML
+ */
+const HTML_SPECIAL_CHARACTERS = /[&<>"']/g;
+
+const HTML_ENTITIES: { [key: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;'
+};
+
+/**
+ * Part of the text, split by match ranges
+ */
+interface TextChunk {
+  text: string;
+  matched: boolean;
+}
+
+/**
+ * Splits the text into matched and unmatched chunks.
+ * Useful for renderers which build highlighted content from elements
+ * @param text Original text
+ * @param ranges Ordered match ranges
+ * @returns Text chunks
+ */
+const splitByRanges = (text: string, ranges: readonly MatchRange[]): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let index = 0;
+  for (const [start, end] of ranges) {
+    if (start > index) {
+      chunks.push({ text: text.slice(index, start), matched: false });
+    }
+    if (end > start) {
+      chunks.push({ text: text.slice(start, end), matched: true });
+    }
+    index = Math.max(index, end);
+  }
+  if (index < text.length) {
+    chunks.push({ text: text.slice(index), matched: false });
+  }
+  return chunks;
+};
+
+/**
+ * Escapes characters, which have a special meaning in HTML
+ * @param text Original text
+ * @returns Text, which is displayed as is when used as HTML
+ */
+const escapeHTML = (text: string): string => text.replace(HTML_SPECIAL_CHARACTERS, char => HTML_ENTITIES[char]);
+
+/**
+ * Wraps matched characters using a replacement pattern.
+ * The text is escaped, so the result can be used as HTML.
+ * The pattern is trusted and inserted as is
+ * @param text Original text
+ * @param ranges Ordered match ranges
+ * @param [pattern=<mark>$1</mark>] Replacement pattern, where `$1` is the matched text
+ * @returns Highlighted HTML
+ */
+const highlight = (text: string, ranges: readonly MatchRange[], pattern = '<mark>$1</mark>'): string => {
+  return splitByRanges(text, ranges)
+    .map(chunk => chunk.matched ? pattern.split('$1').join(escapeHTML(chunk.text)) : escapeHTML(chunk.text))
+    .join('');
+};
+
+export {
+  TextChunk,
+  splitByRanges,
+  escapeHTML,
+  highlight
+};
@@ -0,0 +1,317 @@
+import { fold } from './fold.js';
+
+/**
+ * Range of matched characters, where the first number
+ * is the start index and the second number is the end index (exclusive)
+ */
+type MatchRange = [number, number];
+
+/**
+ * Result of matching a text against a query
+ */
+interface MatchResult {
+  /**
+   * Relevance of the match. Higher is better
+   */
+  score: number;
+  /**
+   * Ranges of matched characters in the original text, ordered by index
+   */
+  ranges: MatchRange[];
+}
+
+interface MatchOptions {
+  /**
+   * Match query characters in order anywhere in the text,
+   * e.g. `mcst` matches `Microsoft`.
+   * Less relevant, as it may match unrelated text
+   * @default false
+   */
+  fuzzy?: boolean;
+}
+
+/**
+ * Matches text against a prepared query
+ * @param text Text to match
+ * @returns Match result, or `null` if the text does not match
+ */
+type Matcher = (text: string) => MatchResult | null;
+
+/**
+ * Relevance of each match type. The position of the match
+ * adds a fraction, so match types never overlap
+ */
+enum Score {
+  EXACT = 100,
+  PREFIX = 90,
+  WORD_START = 80,
+  SUBSTRING = 70,
+  WORD_PREFIXES = 60,
+  WORD_ABBREVIATIONS = 50,
+  FUZZY = 10
+}
+
+/**
+ * Maximum score, which can be added to fuzzy matches for how compact the match is
+ */
+const FUZZY_COMPACTNESS_SCORE = 30;
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Checks if the character at index starts a word
+ * @param text Folded text
+ * @param index Character index
+ * @returns True if a word starts at index
+ */
+const isWordStart = (text: string, index: number): boolean => {
+  return WORD_CHARACTER.test(text[index]) && (index === 0 || !WORD_CHARACTER.test(text[index - 1]));
+};
+
+/**
+ * Gets start and end indexes of words in the text
+ * @param text Folded text
+ * @returns Word ranges
+ */
+const getWords = (text: string): MatchRange[] => {
+  const words: MatchRange[] = [];
+  let start = -1;
+  for (let i = 0; i <= text.length; i += 1) {
+    const isWordCharacter = i < text.length && WORD_CHARACTER.test(text[i]);
+    if (isWordCharacter && start === -1) {
+      start = i;
+    }
+    else if (!isWordCharacter && start !== -1) {
+      words.push([start, i]);
+      start = -1;
+    }
+  }
+  return words;
+};
+
+/**
+ * Adds a fraction to the score, so that matches closer to the start of the text rank higher
+ * @param score Score of the match type
+ * @param index Index of the first matched character
+ * @param text Folded text
+ * @returns Final score
+ */
+const withPosition = (score: Score | number, index: number, text: string): number => {
+  return score + 1 - index / (text.length + 1);
+};
+
+/**
+ * Merges adjacent ranges
+ * @param ranges Ordered ranges
+ * @returns Merged ranges
+ */
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && last[1] >= range[0]) {
+      last[1] = Math.max(last[1], range[1]);
+    }
+    else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Matches query as a substring of the text
+ * @param text Folded text
+ * @param query Folded query
+ * @returns Match result, if matched
+ */
+const matchSubstring = (text: string, query: string): MatchResult | null => {
+  let index = text.indexOf(query);
+  if (index === -1) {
+    return null;
+  }
+
+  if (index === 0) {
+    return {
+      score: text.length === query.length ? Score.EXACT : withPosition(Score.PREFIX, 0, text),
+      ranges: [[0, query.length]]
+    };
+  }
+
+  // Prefer a match at the start of a word over the first occurrence
+  const firstIndex = index;
+  while (index !== -1 && !isWordStart(text, index)) {
+    index = text.indexOf(query, index + 1);
+  }
+
+  if (index !== -1) {
+    return { score: withPosition(Score.WORD_START, index, text), ranges: [[index, index + query.length]] };
+  }
+
+  return { score: withPosition(Score.SUBSTRING, firstIndex, text), ranges: [[firstIndex, firstIndex + query.length]] };
+};
+
+/**
+ * Matches token as a subsequence of the word, starting with the first character of the word.
+ * e.g. `msft` matches `microsoft`
+ * @param text Folded text
+ * @param word Word range
+ * @param token Folded token
+ * @returns Ranges of matched characters, if matched
+ */
+const matchAbbreviation = (text: string, word: MatchRange, token: string): MatchRange[] | null => {
+  const [start, end] = word;
+  if (text[start] !== token[0]) {
+    return null;
+  }
+
+  const ranges: MatchRange[] = [[start, start + 1]];
+  let tokenIndex = 1;
+  for (let i = start + 1; i < end && tokenIndex < token.length; i += 1) {
+    if (text[i] === token[tokenIndex]) {
+      ranges.push([i, i + 1]);
+      tokenIndex += 1;
+    }
+  }
+
+  return tokenIndex === token.length ? mergeRanges(ranges) : null;
+};
+
+/**
+ * Matches token against the start of the word, either as a prefix or as an abbreviation
+ * @param text Folded text
+ * @param word Word range
+ * @param token Folded token
+ * @returns Ranges of matched characters and if the token is abbreviated, or null if not matched
+ */
+const matchWord = (text: string, word: MatchRange, token: string): [MatchRange[], boolean] | null => {
+  if (text.startsWith(token, word[0]) && word[0] + token.length <= word[1]) {
+    return [[[word[0], word[0] + token.length]], false];
+  }
+  const abbreviation = matchAbbreviation(text, word, token);
+  return abbreviation ? [abbreviation, true] : null;
+};
+
+/**
+ * Matches query tokens against the start of consecutive words.
+ * e.g. `soc gen` matches `societe generale` and `msft corp` matches `microsoft corporation`
+ * @param text Folded text
+ * @param tokens Folded query tokens
+ * @returns Match result, if matched
+ */
+const matchWords = (text: string, tokens: string[]): MatchResult | null => {
+  const words = getWords(text);
+
+  for (let firstWord = 0; firstWord + tokens.length <= words.length; firstWord += 1) {
+    const ranges: MatchRange[] = [];
+    let abbreviated = false;
+    const matched = tokens.every((token, tokenIndex) => {
+      const result = matchWord(text, words[firstWord + tokenIndex], token);
+      if (result) {
+        ranges.push(...result[0]);
+        abbreviated = abbreviated || result[1];
+      }
+      return !!result;
+    });
+
+    if (matched) {
+      return {
+        score: withPosition(abbreviated ? Score.WORD_ABBREVIATIONS : Score.WORD_PREFIXES, ranges[0][0], text),
+        ranges: mergeRanges(ranges)
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Matches query characters in order anywhere in the text
+ * @param text Folded text
+ * @param query Folded query without whitespace
+ * @returns Match result, if matched
+ */
+const matchFuzzy = (text: string, query: string): MatchResult | null => {
+  const ranges: MatchRange[] = [];
+  let queryIndex = 0;
+  for (let i = 0; i < text.length && queryIndex < query.length; i += 1) {
+    if (text[i] === query[queryIndex]) {
+      ranges.push([i, i + 1]);
+      queryIndex += 1;
+    }
+  }
+
+  if (queryIndex < query.length) {
+    return null;
+  }
+
+  const start = ranges[0][0];
+  const span = ranges[ranges.length - 1][1] - start;
+  const compactness = query.length / span;
+
+  return {
+    score: withPosition(Score.FUZZY + Math.floor(compactness * FUZZY_COMPACTNESS_SCORE), start, text),
+    ranges: mergeRanges(ranges)
+  };
+};
+
+/**
+ * Creates a matcher for the query.
+ * Use the matcher when the same query is matched against many texts,
+ * so that the query is only prepared once.
+ *
+ * Matching is case and diacritic insensitive. In order of relevance the text matches if:
+ * - it equals the query
+ * - it starts with the query
+ * - the query is found at the start of a word
+ * - the query is found anywhere in the text
+ * - each word of the query is found at the start of consecutive words in the text
+ * - each word of the query is an abbreviation of consecutive words in the text
+ * - all query characters are found in order, if `fuzzy` option is set
+ *
+ * Empty query matches any text with zero score.
+ *
+ * @param query Query to match
+ * @param options Match options
+ * @returns Matcher
+ */
+const createMatcher = (query: string, options: MatchOptions = {}): Matcher => {
+  const foldedQuery = fold(query).trim();
+  const tokens = foldedQuery.split(/\s+/).filter(token => token);
+  const compactQuery = tokens.join('');
+
+  if (!foldedQuery) {
+    return (): MatchResult => ({ score: 0, ranges: [] });
+  }
+
+  return (text: string): MatchResult | null => {
+    if (!text) {
+      return null;
+    }
+    const foldedText = fold(text);
+    return matchSubstring(foldedText, foldedQuery)
+      || matchWords(foldedText, tokens)
+      || (options.fuzzy ? matchFuzzy(foldedText, compactQuery) : null);
+  };
+};
+
+/**
+ * Matches the text against the query.
+ * See `createMatcher` for the matching rules.
+ * @param text Text to match
+ * @param query Query to match
+ * @param options Match options
+ * @returns Match result, or `null` if the text does not match
+ */
+const match = (text: string, query: string, options?: MatchOptions): MatchResult | null => {
+  return createMatcher(query, options)(text);
+};
+
+export {
+  MatchRange,
+  MatchResult,
+  MatchOptions,
+  Matcher,
+  createMatcher,
+  match
+};
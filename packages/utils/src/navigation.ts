@@ -1 +1,2 @@
 export * from './navigation/grid.js';
+export * from './navigation/typeahead.js';
@@ -0,0 +1,98 @@
+import { TimeoutTaskRunner } from '../async/timeout-task-runner.js';
+import { fold } from '../matching/fold.js';
+
+/**
+ * Time in milliseconds after the last key press, when the search buffer is cleared
+ */
+const TYPEAHEAD_TIMEOUT = 500;
+
+/**
+ * Finds items by typing the start of their label, like the native `<select>`.
+ *
+ * Key presses within the timeout are buffered, so typing `ger` finds `Germany`.
+ * Repeating the same character cycles through the items starting with that character.
+ * Matching ignores case and diacritics.
+ */
+class Typeahead {
+  /**
+   * Characters typed within the timeout
+   */
+  private buffer = '';
+
+  /**
+   * Clears the buffer once the user stops typing
+   */
+  private resetRunner: TimeoutTaskRunner;
+
+  /**
+   * @param [timeout=500] Time in milliseconds to keep the buffer after the last key press
+   */
+  constructor (timeout = TYPEAHEAD_TIMEOUT) {
+    this.resetRunner = new TimeoutTaskRunner(timeout);
+  }
+
+  /**
+   * True if the user is typing a search term.
+   * Use it to treat Space as a part of the term rather than as an action key.
+   */
+  public get active (): boolean {
+    return this.buffer.length > 0;
+  }
+
+  /**
+   * Checks if the key event produces a character, which can be used for searching
+   * @param event Key event
+   * @returns True if the key is printable and has no modifiers
+   */
+  public static isTypeaheadKey (event: KeyboardEvent): boolean {
+    // all printable keys have length of 1, including non latin characters
+    return event.key.length === 1
+      && !event.ctrlKey
+      && !event.altKey
+      && !event.metaKey;
+  }
+
+  /**
+   * Adds the key to the buffer and finds the item to move to
+   * @param key Typed character
+   * @param items Items, which can be navigated to, in display order
+   * @param current Currently focused or highlighted item, if any
+   * @param getLabel Gets text of the item
+   * @returns Matching item, or `undefined` if there is no match
+   */
+  public search<T> (key: string, items: readonly T[], current: T | undefined, getLabel: (item: T) => string): T | undefined {
+    this.buffer += fold(key);
+    this.resetRunner.schedule(() => this.reset());
+
+    const buffer = this.buffer;
+    const index = current === undefined ? -1 : items.indexOf(current);
+
+    // Repeating the same character cycles through items, which start with it
+    const cycling = buffer.length > 1 && buffer.split('').every(char => char === buffer[0]);
+    const term = cycling ? buffer[0] : buffer;
+
+    // A new search starts after the current item. Continuing the search may keep the current item
+    const start = term.length === 1 ? index + 1 : Math.max(index, 0);
+
+    for (let i = 0; i < items.length; i += 1) {
+      const item = items[(start + i) % items.length];
+      if (fold(getLabel(item) || '').trimStart().startsWith(term)) {
+        return item;
+      }
+    }
+  }
+
+  /**
+   * Clears the buffer, so that the next key starts a new search
+   * @returns {void}
+   */
+  public reset (): void {
+    this.buffer = '';
+    this.resetRunner.cancel();
+  }
+}
+
+export {
+  Typeahead,
+  TYPEAHEAD_TIMEOUT
+};
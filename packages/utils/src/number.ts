@@ -0,0 +1 @@
+export { resolveNumberLocale, getNumberFormatter } from './number/format.js';
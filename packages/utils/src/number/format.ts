@@ -0,0 +1,36 @@
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Get a locale, which is supported by `Intl.NumberFormat`
+ * @param locale Locale tag
+ * @returns supported locale or the default locale of the browser
+ */
+const resolveNumberLocale = (locale: string): string => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale)[0] || new Intl.NumberFormat().resolvedOptions().locale;
+  }
+  catch (error) {
+    return new Intl.NumberFormat().resolvedOptions().locale; // invalid locale tag
+  }
+};
+
+/**
+ * Get cached number formatter
+ * @param locale Locale
+ * @param options Format options
+ * @returns number formatter
+ */
+const getNumberFormatter = (locale: string, options: Intl.NumberFormatOptions = {}): Intl.NumberFormat => {
+  const key = `${locale}${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export {
+  resolveNumberLocale,
+  getNumberFormatter
+};
@@ -0,0 +1,14 @@
+export {
+  StateStorage,
+  PersistedState,
+  setDefaultStateStorage,
+  getDefaultStateStorage,
+  readState,
+  writeState,
+  clearState
+} from './persistence/state-storage.js';
+export {
+  PersistedStateHost,
+  PersistedStateTypes,
+  PersistedStateController
+} from './persistence/state-controller.js';
@@ -0,0 +1,88 @@
+import { readState, writeState } from './state-storage.js';
+import type { StateStorage, PersistedState } from './state-storage.js';
+
+/**
+ * Element, which saves its state under `stateKey`
+ */
+export interface PersistedStateHost {
+  stateKey: string | null;
+  stateStorage?: StateStorage | null;
+}
+
+/**
+ * Saved properties of the element and their types, used to ignore malformed data
+ */
+export type PersistedStateTypes<T> = { [K in keyof T]?: 'boolean' | 'number' | 'string' };
+
+/**
+ * Restores and saves properties of an element with `stateKey`
+ */
+export class PersistedStateController<T extends PersistedStateHost> {
+  /**
+   * @param host Element with `stateKey` and `stateStorage` properties
+   * @param types Saved properties and their types
+   */
+  constructor (private host: T, private types: PersistedStateTypes<T>) {}
+
+  /**
+   * All saved properties
+   */
+  private get properties (): (keyof T & string)[] {
+    return Object.keys(this.types) as (keyof T & string)[];
+  }
+
+  /**
+   * Restore properties when `stateKey` or `stateStorage` changes,
+   * otherwise save the properties, which have changed.
+   * Call from `willUpdate`
+   * @param changedProperties Changed properties of the element
+   * @param [properties] Properties to save on change. All properties by default
+   * @returns {void}
+   */
+  public update (changedProperties: Map<PropertyKey, unknown>, properties = this.properties): void {
+    if (changedProperties.has('stateKey') || changedProperties.has('stateStorage')) {
+      this.restore();
+    }
+    else {
+      const changed = properties.filter(property => changedProperties.has(property));
+      changed.length && this.save(...changed);
+    }
+  }
+
+  /**
+   * Restore properties from the storage
+   * @returns {void}
+   */
+  public restore (): void {
+    const { stateKey, stateStorage } = this.host;
+    const state = stateKey ? readState(stateKey, stateStorage) : null;
+    if (!state) {
+      return;
+    }
+
+    this.properties.forEach(property => {
+      const value = state[property];
+      if (typeof value === this.types[property]) {
+        this.host[property] = value as T[keyof T & string];
+      }
+    });
+  }
+
+  /**
+   * Save properties to the storage
+   * @param properties Properties to save. All properties by default
+   * @returns {void}
+   */
+  public save (...properties: (keyof T & string)[]): void {
+    const { stateKey, stateStorage } = this.host;
+    if (!stateKey) {
+      return;
+    }
+
+    const state: PersistedState = {};
+    (properties.length ? properties : this.properties).forEach(property => {
+      state[property] = this.host[property] ?? null;
+    });
+    writeState(stateKey, state, stateStorage);
+  }
+}
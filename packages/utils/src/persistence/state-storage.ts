@@ -0,0 +1,119 @@
+/**
+ * Storage used to persist element state between page loads.
+ * `localStorage` and `sessionStorage` can be used as is,
+ * other stores need an adapter with the same methods.
+ */
+export interface StateStorage {
+  getItem (key: string): string | null;
+  setItem (key: string, value: string): void;
+  removeItem (key: string): void;
+}
+
+/**
+ * Properties of an element, which are stored under the same key
+ */
+export type PersistedState = Record<string, unknown>;
+
+/**
+ * Prefix of the storage keys, so element state does not clash with application data
+ */
+const KEY_PREFIX = 'ef-state:';
+
+let defaultStorage: StateStorage | null | undefined;
+
+/**
+ * Get `localStorage`, if it can be accessed.
+ * Browsers throw when storage is blocked by privacy settings
+ * @returns local storage or null
+ */
+const getLocalStorage = (): StateStorage | null => {
+  try {
+    return window.localStorage;
+  }
+  catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Set storage, which is used by elements with `state-key`.
+ * Pass `null` to disable persistence, or, `undefined` to restore `localStorage`
+ * @param storage Storage adapter
+ * @returns {void}
+ */
+const setDefaultStateStorage = (storage: StateStorage | null | undefined): void => {
+  defaultStorage = storage;
+};
+
+/**
+ * Get storage, which is used by elements with `state-key`
+ * @returns Storage adapter, `localStorage` by default
+ */
+const getDefaultStateStorage = (): StateStorage | null => {
+  return defaultStorage === undefined ? getLocalStorage() : defaultStorage;
+};
+
+/**
+ * Read state saved under the key.
+ * Malformed data is ignored
+ * @param key State key
+ * @param [storage] Storage adapter
+ * @returns Saved state or null
+ */
+const readState = (key: string, storage = getDefaultStateStorage()): PersistedState | null => {
+  if (!storage) {
+    return null;
+  }
+
+  try {
+    const value = storage.getItem(KEY_PREFIX + key);
+    const state = value ? JSON.parse(value) as unknown : null;
+    return state && typeof state === 'object' && !Array.isArray(state) ? state as PersistedState : null;
+  }
+  catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Save state under the key. Properties are merged with the saved state
+ * @param key State key
+ * @param state Properties to save
+ * @param [storage] Storage adapter
+ * @returns {void}
+ */
+const writeState = (key: string, state: PersistedState, storage = getDefaultStateStorage()): void => {
+  if (!storage) {
+    return;
+  }
+
+  try {
+    storage.setItem(KEY_PREFIX + key, JSON.stringify({ ...readState(key, storage), ...state }));
+  }
+  catch (error) {
+    // storage is full or not writable, the state is not persisted
+  }
+};
+
+/**
+ * Remove state saved under the key
+ * @param key State key
+ * @param [storage] Storage adapter
+ * @returns {void}
+ */
+const clearState = (key: string, storage = getDefaultStateStorage()): void => {
+  try {
+    storage?.removeItem(KEY_PREFIX + key);
+  }
+  catch (error) {
+    // storage is not writable
+  }
+};
+
+export {
+  setDefaultStateStorage,
+  getDefaultStateStorage,
+  readState,
+  writeState,
+  clearState
+};
@@ -0,0 +1 @@
+export { ThemeSnapshot, getReplacements, replaceThemeValues } from './theme/theme-values.js';
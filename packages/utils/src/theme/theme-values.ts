@@ -0,0 +1,59 @@
+/**
+ * Map of theme values keyed by the source, e.g. CSS variable name
+ */
+export type ThemeSnapshot = Map<string, string>;
+
+/**
+ * Get values, which have changed between two snapshots
+ * @param previous Snapshot of the previous theme
+ * @param current Snapshot of the current theme
+ * @returns map of previous values to current values
+ */
+const getReplacements = (previous: ThemeSnapshot, current: ThemeSnapshot): Map<string, string> => {
+  const replacements = new Map<string, string>();
+  previous.forEach((value, key) => {
+    const next = current.get(key);
+    if (value && next && value !== next && !replacements.has(value)) {
+      replacements.set(value, next);
+    }
+  });
+  return replacements;
+};
+
+/**
+ * Replace values of the previous theme recursively.
+ * Private keys, which start with underscore, are skipped
+ * as chart libraries keep internal references there
+ *
+ * @param {object} object The object to update
+ * @param {ThemeSnapshot} previous Snapshot of the previous theme
+ * @param {ThemeSnapshot} current Snapshot of the current theme
+ * @returns {void}
+ */
+const replaceThemeValues = (object: object, previous: ThemeSnapshot, current: ThemeSnapshot): void => {
+  const replacements = getReplacements(previous, current);
+  if (!replacements.size) {
+    return;
+  }
+
+  const record = new Set<unknown>();
+  const replace = (target: Record<string, unknown>): void => {
+    record.add(target);
+    Object.keys(target).forEach(key => {
+      const value = target[key];
+      if (typeof value === 'string') {
+        const next = replacements.get(value);
+        if (next) {
+          target[key] = next;
+        }
+      }
+      else if (value && typeof value === 'object' && !key.startsWith('_') && !record.has(value)) {
+        replace(value as Record<string, unknown>);
+      }
+    });
+  };
+
+  replace(object as Record<string, unknown>);
+};
+
+export { getReplacements, replaceThemeValues };
@@ -0,0 +1,6 @@
+export {
+  VirtualScrollHost,
+  VirtualScrollOptions,
+  VirtualRange,
+  VirtualScrollController
+} from './virtual/virtual-scroll-controller.js';
@@ -0,0 +1,196 @@
+import { AnimationTaskRunner } from '../async/animation-task-runner.js';
+
+/**
+ * Number of items to render either side
+ * of the visible area by default
+ */
+const DEFAULT_OVERSCAN = 10;
+
+/**
+ * Scrollable element, which renders only items in view when `virtual` is set
+ */
+export interface VirtualScrollHost extends HTMLElement {
+  virtual: boolean;
+  requestUpdate (): void;
+}
+
+/**
+ * Options of the virtual scroll
+ */
+export interface VirtualScrollOptions {
+  /**
+   * Measures the height of a single item from rendered items
+   * @returns Item height, or `0` if items cannot be measured
+   */
+  measure (): number;
+  /**
+   * Height of the content above items, such as a sticky header
+   * @returns Height in pixels
+   */
+  offset? (): number;
+  /**
+   * Number of items to render either side of the visible area
+   * @default 10
+   */
+  overscan?: number;
+}
+
+/**
+ * Items to render and space to reserve for the remaining items
+ */
+export interface VirtualRange {
+  /**
+   * Index of the first item to render
+   */
+  start: number;
+  /**
+   * Index after the last item to render
+   */
+  end: number;
+  /**
+   * Space reserved for items above the range
+   */
+  paddingTop: number;
+  /**
+   * Space reserved for items below the range
+   */
+  paddingBottom: number;
+}
+
+/**
+ * Calculates the range of items to render in virtual mode.
+ * All items are expected to be the same height.
+ */
+export class VirtualScrollController {
+  /**
+   * Throttles virtual renders while scrolling.
+   */
+  private scrollRunner = new AnimationTaskRunner();
+
+  /**
+   * Height of a single item, measured from rendered items.
+   */
+  private _itemHeight = 0;
+
+  /**
+   * Should the item height be measured again?
+   * Set on resize, as items may have been hidden or their size may have changed
+   */
+  private resized = false;
+
+  /**
+   * Updates the visible range on resize, which also happens when a hidden element is shown.
+   * Not available in legacy browsers
+   */
+  private resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(() => this.onResize());
+
+  /**
+   * @param host Scrollable element
+   * @param options Virtual scroll options
+   */
+  constructor (private host: VirtualScrollHost, private options: VirtualScrollOptions) {}
+
+  /**
+   * Height of a single item, or `0` if not yet measured
+   */
+  public get itemHeight (): number {
+    return this._itemHeight;
+  }
+
+  /**
+   * Updates the visible range on scroll, when in virtual mode.
+   * @returns {void}
+   */
+  private onScroll = (): void => {
+    if (this.host.virtual) {
+      this.scrollRunner.schedule(() => this.host.requestUpdate());
+    }
+  };
+
+  /**
+   * Measures the item height again and updates the visible range, when in virtual mode.
+   * @returns {void}
+   */
+  private onResize (): void {
+    this.resized = true;
+    if (this.host.virtual) {
+      this.scrollRunner.schedule(() => this.host.requestUpdate());
+    }
+  }
+
+  /**
+   * Starts listening to scroll and resize. Call from `connectedCallback`
+   * @returns {void}
+   */
+  public connect (): void {
+    this.host.addEventListener('scroll', this.onScroll, { passive: true });
+    this.resizeObserver?.observe(this.host);
+  }
+
+  /**
+   * Stops listening to scroll and resize and cancels scheduled updates. Call from `disconnectedCallback`
+   * @returns {void}
+   */
+  public disconnect (): void {
+    this.host.removeEventListener('scroll', this.onScroll);
+    this.resizeObserver?.disconnect();
+    this.scrollRunner.cancel();
+  }
+
+  /**
+   * Clears the item height, so that it is measured again.
+   * Call when items or the way they are rendered change
+   * @returns {void}
+   */
+  public reset (): void {
+    this._itemHeight = 0;
+  }
+
+  /**
+   * Measures the item height from the rendered items,
+   * if it has not yet been measured or the host has been resized.
+   * Items of a hidden host have no height, so they are measured again once the host is shown.
+   * Call from `updated`
+   * @returns True if the item height has changed
+   */
+  public measure (): boolean {
+    if (this._itemHeight && !this.resized) {
+      return false;
+    }
+    this.resized = false;
+    const height = this.options.measure();
+    if (height > 0 && height !== this._itemHeight) {
+      this._itemHeight = height;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Gets the items in, or near, the visible area.
+   * Until the item height is measured, a small range is returned,
+   * so that the item height can be measured
+   * @param count Number of items
+   * @returns Range of items to render
+   */
+  public getRange (count: number): VirtualRange {
+    const itemHeight = this._itemHeight;
+    const overscan = this.options.overscan ?? DEFAULT_OVERSCAN;
+
+    if (!itemHeight) {
+      return { start: 0, end: Math.min(count, overscan * 2), paddingTop: 0, paddingBottom: 0 };
+    }
+
+    const { scrollTop, clientHeight } = this.host;
+    const offset = this.options.offset?.() || 0;
+    const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+    const end = Math.min(count, Math.ceil((scrollTop + clientHeight - offset) / itemHeight) + overscan);
+
+    return {
+      start,
+      end,
+      paddingTop: start * itemHeight,
+      paddingBottom: Math.max(0, count - end) * itemHeight
+    };
+  }
+}